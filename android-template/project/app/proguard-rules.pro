@@ -0,0 +1,21 @@
+# Keep line numbers so stack traces can be retraced with mapping.txt
+-keepattributes SourceFile,LineNumberTable
+-renamesourcefileattribute SourceFile
+
+# Methods exposed to JavaScript are looked up by name
+-keepclassmembers class * {
+    @android.webkit.JavascriptInterface <methods>;
+}
+{{#unless enableOptimization}}
+
+-dontoptimize
+{{/unless}}
+{{#unless enableObfuscation}}
+
+-dontobfuscate
+{{/unless}}
+{{#if proguardRules}}
+
+# Project rules
+{{proguardRules}}
+{{/if}}
@@ -0,0 +1,287 @@
+{{! Only generated for apps with file downloads; empty output is not written }}
+{{#if fileDownloads}}
+package {{packageName | raw}};
+
+import android.Manifest;
+import android.app.DownloadManager;
+import android.app.Notification;
+import android.app.NotificationChannel;
+import android.app.NotificationManager;
+import android.app.PendingIntent;
+import android.content.ContentResolver;
+import android.content.ContentValues;
+import android.content.Context;
+import android.content.Intent;
+import android.content.pm.PackageManager;
+import android.net.Uri;
+import android.os.Build;
+import android.os.Environment;
+import android.provider.MediaStore;
+import android.util.Base64;
+import android.webkit.CookieManager;
+import android.webkit.DownloadListener;
+import android.webkit.JavascriptInterface;
+import android.webkit.MimeTypeMap;
+import android.webkit.URLUtil;
+import android.webkit.WebView;
+import android.widget.Toast;
+
+import java.io.ByteArrayOutputStream;
+import java.io.File;
+import java.io.FileOutputStream;
+import java.io.IOException;
+import java.io.InputStream;
+import java.io.OutputStream;
+import java.net.URLDecoder;
+import java.util.Locale;
+import java.util.regex.Matcher;
+import java.util.regex.Pattern;
+
+/**
+ * Saves downloads from the WebView into the Downloads folder. Links to files
+ * go through DownloadManager with the page's cookies and user agent, so
+ * downloads behind a login work. blob: and data: URLs only exist inside the
+ * page; webandro-downloads.js reads them there and hands them to save()
+ * through the WebAndroDownloads interface.
+ */
+class DownloadHandler implements DownloadListener {
+
+    static final int PERMISSION_REQUEST = 3;
+
+    private static final String CHANNEL_ID = "downloads";
+    private static final Pattern FILENAME_STAR = Pattern.compile("filename\\*\\s*=\\s*([^']*)'[^']*'([^;]+)", Pattern.CASE_INSENSITIVE);
+    private static final Pattern FILENAME = Pattern.compile("filename\\s*=\\s*(\"([^\"]*)\"|[^;]+)", Pattern.CASE_INSENSITIVE);
+
+    private final MainActivity activity;
+    private final WebView webView;
+    // A download waiting for the permission prompt to be answered
+    private Runnable pendingDownload;
+
+    DownloadHandler(MainActivity activity, WebView webView) {
+        this.activity = activity;
+        this.webView = webView;
+    }
+
+    @Override
+    public void onDownloadStart(String url, String userAgent, String contentDisposition, String mimeType, long contentLength) {
+        String scheme = Uri.parse(url).getScheme();
+        if ("blob".equalsIgnoreCase(scheme) || "data".equalsIgnoreCase(scheme)) {
+            // Reached without a download link, e.g. by opening the URL; the page reads it
+            String fileName = fileName(url, contentDisposition, mimeType);
+            webView.evaluateJavascript("window.__webandroSaveDownload && window.__webandroSaveDownload("
+                    + org.json.JSONObject.quote(url) + ", " + org.json.JSONObject.quote(fileName) + ")", null);
+            return;
+        }
+        if (!"http".equalsIgnoreCase(scheme) && !"https".equalsIgnoreCase(scheme)) {
+            Toast.makeText(activity, "This file cannot be downloaded", Toast.LENGTH_SHORT).show();
+            return;
+        }
+
+        final String fileName = fileName(url, contentDisposition, mimeType);
+        final String type = mimeType == null || mimeType.isEmpty() ? mimeTypeOf(fileName) : mimeType;
+        final DownloadManager.Request request = new DownloadManager.Request(Uri.parse(url));
+        String cookies = CookieManager.getInstance().getCookie(url);
+        if (cookies != null) {
+            request.addRequestHeader("Cookie", cookies);
+        }
+        request.addRequestHeader("User-Agent", userAgent);
+        if (type != null) {
+            request.setMimeType(type);
+        }
+        request.setTitle(fileName);
+        request.setNotificationVisibility(DownloadManager.Request.VISIBILITY_VISIBLE_NOTIFY_COMPLETED);
+        request.setDestinationInExternalPublicDir(Environment.DIRECTORY_DOWNLOADS, fileName);
+
+        // DownloadManager posts its own notifications, so only old versions need a permission
+        withPermission(storagePermission(), () -> {
+            DownloadManager manager = (DownloadManager) activity.getSystemService(Context.DOWNLOAD_SERVICE);
+            manager.enqueue(request);
+            Toast.makeText(activity, "Downloading " + fileName, Toast.LENGTH_SHORT).show();
+        });
+    }
+
+    // Called by webandro-downloads.js with the file read as a data: URL
+    @JavascriptInterface
+    public void save(final String dataUrl, final String suggestedName, final String mimeType) {
+        activity.runOnUiThread(() -> {
+            int comma = dataUrl.indexOf(',');
+            if (!dataUrl.startsWith("data:") || comma == -1) {
+                Toast.makeText(activity, "The download could not be read", Toast.LENGTH_SHORT).show();
+                return;
+            }
+            String header = dataUrl.substring(5, comma);
+            String type = !mimeType.isEmpty() ? mimeType : header.split(";")[0];
+            final String fileName = fileName(suggestedName.isEmpty() ? null : suggestedName, null, type);
+            final byte[] content;
+            try {
+                content = header.endsWith(";base64")
+                        ? Base64.decode(dataUrl.substring(comma + 1), Base64.DEFAULT)
+                        : URLDecoder.decode(dataUrl.substring(comma + 1), "UTF-8").getBytes("UTF-8");
+            } catch (IllegalArgumentException | IOException e) {
+                Toast.makeText(activity, "The download could not be read", Toast.LENGTH_SHORT).show();
+                return;
+            }
+            final String contentType = type.isEmpty() ? mimeTypeOf(fileName) : type;
+
+            // The notification is optional; without the permission the file is still saved
+            String permission = Build.VERSION.SDK_INT >= 33 ? Manifest.permission.POST_NOTIFICATIONS : storagePermission();
+            withPermission(permission, () -> saveFile(fileName, contentType, content));
+        });
+    }
+
+    @JavascriptInterface
+    public void failed(final String message) {
+        activity.runOnUiThread(() -> Toast.makeText(activity, "Download failed: " + message, Toast.LENGTH_SHORT).show());
+    }
+
+    void onPermissionResult(boolean granted) {
+        Runnable download = pendingDownload;
+        pendingDownload = null;
+        if (download == null) return;
+        // Only storage access is required; the notification permission is not
+        if (granted || Build.VERSION.SDK_INT >= 29) {
+            download.run();
+        } else {
+            Toast.makeText(activity, "Storage access is needed to download files", Toast.LENGTH_LONG).show();
+        }
+    }
+
+    // Adds webandro-downloads.js to the page so blob: and data: links are saved too
+    void injectScript(WebView view) {
+        try (InputStream input = activity.getAssets().open("webandro-downloads.js")) {
+            ByteArrayOutputStream script = new ByteArrayOutputStream();
+            byte[] buffer = new byte[8192];
+            for (int read; (read = input.read(buffer)) != -1; ) {
+                script.write(buffer, 0, read);
+            }
+            view.evaluateJavascript(script.toString("UTF-8"), null);
+        } catch (IOException e) {
+            // Links to files still download without the script
+        }
+    }
+
+    // Writing to the public Downloads folder needs a permission before Android 10
+    private static String storagePermission() {
+        return Build.VERSION.SDK_INT >= 23 && Build.VERSION.SDK_INT < 29 ? Manifest.permission.WRITE_EXTERNAL_STORAGE : null;
+    }
+
+    private void withPermission(String permission, Runnable download) {
+        if (permission == null || activity.checkSelfPermission(permission) == PackageManager.PERMISSION_GRANTED) {
+            download.run();
+            return;
+        }
+        pendingDownload = download;
+        activity.requestPermissions(new String[] { permission }, PERMISSION_REQUEST);
+    }
+
+    private void saveFile(String fileName, String mimeType, byte[] content) {
+        try {
+            Uri uri;
+            String savedName = fileName;
+            if (Build.VERSION.SDK_INT >= 29) {
+                ContentResolver resolver = activity.getContentResolver();
+                ContentValues values = new ContentValues();
+                values.put(MediaStore.Downloads.DISPLAY_NAME, fileName);
+                if (mimeType != null) {
+                    values.put(MediaStore.Downloads.MIME_TYPE, mimeType);
+                }
+                uri = resolver.insert(MediaStore.Downloads.EXTERNAL_CONTENT_URI, values);
+                if (uri == null) throw new IOException("The Downloads folder is not available");
+                try (OutputStream output = resolver.openOutputStream(uri)) {
+                    if (output == null) throw new IOException("The Downloads folder is not available");
+                    output.write(content);
+                }
+            } else {
+                File file = uniqueFile(Environment.getExternalStoragePublicDirectory(Environment.DIRECTORY_DOWNLOADS), fileName);
+                savedName = file.getName();
+                try (OutputStream output = new FileOutputStream(file)) {
+                    output.write(content);
+                }
+                // DownloadManager lists the file and shows the notification
+                DownloadManager manager = (DownloadManager) activity.getSystemService(Context.DOWNLOAD_SERVICE);
+                manager.addCompletedDownload(savedName, savedName, true, mimeType == null ? "application/octet-stream" : mimeType,
+                        file.getAbsolutePath(), content.length, true);
+                Toast.makeText(activity, "Saved " + savedName + " to Downloads", Toast.LENGTH_SHORT).show();
+                return;
+            }
+            notifySaved(savedName, uri, mimeType);
+            Toast.makeText(activity, "Saved " + savedName + " to Downloads", Toast.LENGTH_SHORT).show();
+        } catch (IOException | SecurityException e) {
+            Toast.makeText(activity, "Download failed: " + e.getMessage(), Toast.LENGTH_LONG).show();
+        }
+    }
+
+    private void notifySaved(String fileName, Uri uri, String mimeType) {
+        if (Build.VERSION.SDK_INT >= 33 && activity.checkSelfPermission(Manifest.permission.POST_NOTIFICATIONS) != PackageManager.PERMISSION_GRANTED) {
+            return;
+        }
+        NotificationManager notifications = (NotificationManager) activity.getSystemService(Context.NOTIFICATION_SERVICE);
+        notifications.createNotificationChannel(new NotificationChannel(CHANNEL_ID, "Downloads", NotificationManager.IMPORTANCE_LOW));
+
+        Intent open = new Intent(Intent.ACTION_VIEW);
+        open.setDataAndType(uri, mimeType);
+        open.addFlags(Intent.FLAG_GRANT_READ_URI_PERMISSION | Intent.FLAG_ACTIVITY_NEW_TASK);
+        PendingIntent pendingOpen = PendingIntent.getActivity(activity, uri.hashCode(), open, PendingIntent.FLAG_IMMUTABLE);
+
+        Notification notification = new Notification.Builder(activity, CHANNEL_ID)
+                .setSmallIcon(android.R.drawable.stat_sys_download_done)
+                .setContentTitle(fileName)
+                .setContentText("Download complete")
+                .setContentIntent(pendingOpen)
+                .setAutoCancel(true)
+                .build();
+        notifications.notify(uri.hashCode(), notification);
+    }
+
+    // "report.csv" becomes "report (1).csv" when the name is taken
+    private static File uniqueFile(File dir, String fileName) throws IOException {
+        if (!dir.isDirectory() && !dir.mkdirs()) throw new IOException("The Downloads folder is not available");
+        int dot = fileName.lastIndexOf('.');
+        String base = dot > 0 ? fileName.substring(0, dot) : fileName;
+        String extension = dot > 0 ? fileName.substring(dot) : "";
+        File file = new File(dir, fileName);
+        for (int i = 1; file.exists(); i++) {
+            file = new File(dir, base + " (" + i + ")" + extension);
+        }
+        return file;
+    }
+
+    /**
+     * Name from the Content-Disposition header (RFC 6266 filename* first),
+     * else the one Android guesses from the URL and MIME type. Path
+     * separators are removed so the file stays in Downloads.
+     */
+    static String fileName(String url, String contentDisposition, String mimeType) {
+        String name = null;
+        if (contentDisposition != null) {
+            Matcher encoded = FILENAME_STAR.matcher(contentDisposition);
+            Matcher plain = FILENAME.matcher(contentDisposition);
+            try {
+                if (encoded.find()) {
+                    String charset = encoded.group(1).isEmpty() ? "UTF-8" : encoded.group(1);
+                    name = URLDecoder.decode(encoded.group(2).trim(), charset);
+                } else if (plain.find()) {
+                    name = plain.group(2) != null ? plain.group(2) : plain.group(1).trim();
+                }
+            } catch (IllegalArgumentException | IOException e) {
+                name = null;
+            }
+        }
+        if ((name == null || name.isEmpty()) && url != null && !url.startsWith("blob:") && !url.startsWith("data:")) {
+            name = URLUtil.guessFileName(url, null, mimeType);
+        }
+        if (name == null || name.isEmpty()) {
+            String extension = mimeType == null ? null : MimeTypeMap.getSingleton().getExtensionFromMimeType(mimeType);
+            name = extension == null ? "download" : "download." + extension;
+        }
+        name = name.replaceAll("[\\\\/:*?\"<>|\\p{Cntrl}]", "_").trim();
+        return name.isEmpty() || name.startsWith(".") ? "download" + name : name;
+    }
+
+    private static String mimeTypeOf(String fileName) {
+        int dot = fileName.lastIndexOf('.');
+        String extension = dot == -1 ? "" : fileName.substring(dot + 1).toLowerCase(Locale.ROOT);
+        return MimeTypeMap.getSingleton().getMimeTypeFromExtension(extension);
+    }
+}
+{{/if}}
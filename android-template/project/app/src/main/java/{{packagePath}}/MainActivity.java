@@ -0,0 +1,670 @@
+package {{packageName | raw}};
+
+import android.app.Activity;
+import android.content.ActivityNotFoundException;
+{{#if fileUploads}}
+import android.content.ClipData;
+{{/if}}
+import android.content.Intent;
+{{#if runtimePermissions}}
+import android.content.pm.PackageManager;
+{{/if}}
+import android.graphics.Bitmap;
+import android.graphics.Color;
+import android.net.ConnectivityManager;
+import android.net.Network;
+import android.net.NetworkCapabilities;
+import android.net.NetworkInfo;
+import android.net.NetworkRequest;
+import android.net.Uri;
+import android.os.Build;
+import android.os.Bundle;
+import android.os.Handler;
+import android.os.Looper;
+{{#if cameraCapture}}
+import android.provider.MediaStore;
+{{/if}}
+import android.view.KeyEvent;
+import android.view.View;
+{{#if fileUploads}}
+import android.webkit.MimeTypeMap;
+import android.webkit.ValueCallback;
+{{/if}}
+import android.webkit.WebChromeClient;
+import android.webkit.WebResourceError;
+import android.webkit.WebResourceRequest;
+import android.webkit.WebResourceResponse;
+import android.webkit.WebSettings;
+import android.webkit.WebView;
+import android.webkit.WebViewClient;
+import android.widget.ProgressBar;
+import android.widget.Toast;
+{{#if customTabs}}
+
+import androidx.browser.customtabs.CustomTabsIntent;
+{{/if}}
+{{#if cameraCapture}}
+
+import androidx.core.content.FileProvider;
+{{/if}}
+{{#if bridge}}
+
+import java.io.ByteArrayOutputStream;
+import java.io.IOException;
+import java.io.InputStream;
+{{/if}}
+{{#if fileUploads}}
+import java.util.ArrayList;
+import java.util.List;
+{{/if}}
+import java.util.Locale;
+
+public class MainActivity extends Activity {
+
+    // Hosts that load inside the app; "*.example.com" also matches subdomains
+    private static final String[] IN_APP_HOSTS = {
+{{#each inAppHosts}}
+        "{{this}}",
+{{/each}}
+    };
+
+    private static final String OFFLINE_PAGE = "file:///android_asset/webandro-offline.html";
+    private static final String ERROR_PAGE = "file:///android_asset/webandro-error.html";
+    private static final long RETRY_DELAY_MS = 5000;
+    private static final long MAX_RETRY_DELAY_MS = 60000;
+
+    private WebView webView;
+    private ProgressBar progressBar;
+    // Offline or error page, shown over the WebView while a page cannot load
+    private WebView fallbackView;
+    // Page to load again once the connection returns or the retry timer fires
+    private String failedUrl;
+    private boolean loadFailed;
+    private int retryAttempt;
+    private final Handler retryHandler = new Handler(Looper.getMainLooper());
+    private final Runnable retryTask = () -> {
+        if (isOnline()) {
+            retryFailedPage();
+        } else {
+            scheduleRetry();
+        }
+    };
+    private ConnectivityManager.NetworkCallback networkCallback;
+{{#if bridge}}
+    // Page being shown; the native bridge only answers the app's own pages
+    private volatile String currentUrl = "";
+{{/if}}
+{{#if fileUploads}}
+
+    private static final int FILE_CHOOSER_REQUEST = 1;
+    // The page's file input, answered once the picker closes
+    private ValueCallback<Uri[]> filePathCallback;
+    private WebChromeClient.FileChooserParams fileChooserParams;
+{{/if}}
+{{#if fileDownloads}}
+    private DownloadHandler downloadHandler;
+{{/if}}
+{{#if cameraCapture}}
+
+    private static final int CAMERA_PERMISSION_REQUEST = 2;
+    // Where the camera app writes a photo, shared through the FileProvider
+    private Uri cameraPhotoUri;
+{{/if}}
+
+    @Override
+    protected void onCreate(Bundle savedInstanceState) {
+        super.onCreate(savedInstanceState);
+        setContentView(R.layout.activity_main);
+
+        webView = findViewById(R.id.webview);
+        progressBar = findViewById(R.id.progress_bar);
+        fallbackView = findViewById(R.id.fallback_view);
+
+        setupWebView();
+        setupFallbackView();
+        watchConnectivity();
+        webView.loadUrl("{{startUrl}}");
+    }
+
+    private void setupWebView() {
+        WebSettings webSettings = webView.getSettings();
+        webSettings.setJavaScriptEnabled(true);
+        webSettings.setDomStorageEnabled(true);
+        webSettings.setDatabaseEnabled(true);
+        webSettings.setLoadWithOverviewMode(true);
+        webSettings.setUseWideViewPort(true);
+        webSettings.setBuiltInZoomControls(true);
+        webSettings.setDisplayZoomControls(false);
+        webSettings.setSupportZoom(true);
+        webSettings.setDefaultTextEncodingName("utf-8");
+        webSettings.setAllowFileAccess(true);
+        webSettings.setAllowContentAccess(true);
+        webSettings.setMixedContentMode(WebSettings.MIXED_CONTENT_ALWAYS_ALLOW);
+        webSettings.setCacheMode(WebSettings.LOAD_DEFAULT);
+
+        webView.setWebViewClient(new WebViewClient() {
+            @Override
+            public void onPageStarted(WebView view, String url, Bitmap favicon) {
+                super.onPageStarted(view, url, favicon);
+{{#if bridge}}
+                currentUrl = url;
+{{/if}}
+                loadFailed = false;
+                progressBar.setVisibility(View.VISIBLE);
+            }
+
+            @Override
+            public void onPageFinished(WebView view, String url) {
+                super.onPageFinished(view, url);
+                progressBar.setVisibility(View.GONE);
+                // Also called after a failed load, which keeps the fallback page up
+                if (!loadFailed) {
+                    hideFallbackPage();
+                }
+{{#if bridge}}
+                injectBridgeSdk(view);
+{{/if}}
+{{#if fileDownloads}}
+                downloadHandler.injectScript(view);
+{{/if}}
+            }
+
+            @Override
+            public boolean shouldOverrideUrlLoading(WebView view, WebResourceRequest request) {
+                // Frames inside a page keep loading what the page asks for
+                if (!request.isForMainFrame() && isWebScheme(request.getUrl())) return false;
+                return handleNavigation(request.getUrl());
+            }
+
+            // Called instead of the method above before Android 7
+            @Override
+            public boolean shouldOverrideUrlLoading(WebView view, String url) {
+                return handleNavigation(Uri.parse(url));
+            }
+
+            @Override
+            public void onReceivedError(WebView view, WebResourceRequest request, WebResourceError error) {
+                // A failed image or script leaves the rest of the page usable
+                if (Build.VERSION.SDK_INT >= 23 && request.isForMainFrame()) {
+                    showFallbackPage(request.getUrl().toString(), String.valueOf(error.getDescription()));
+                }
+            }
+
+            // Called instead of the method above before Android 6, for the main frame only
+            @Override
+            public void onReceivedError(WebView view, int errorCode, String description, String failingUrl) {
+                showFallbackPage(failingUrl, description);
+            }
+
+            @Override
+            public void onReceivedHttpError(WebView view, WebResourceRequest request, WebResourceResponse response) {
+                // Sites render their own 4xx pages; server errors usually have none worth showing
+                if (Build.VERSION.SDK_INT >= 23 && request.isForMainFrame() && response.getStatusCode() >= 500) {
+                    String reason = response.getReasonPhrase();
+                    showFallbackPage(request.getUrl().toString(),
+                            "HTTP " + response.getStatusCode() + (reason == null || reason.isEmpty() ? "" : " " + reason));
+                }
+            }
+        });
+{{#if fileUploads}}
+        webView.setWebChromeClient(new WebChromeClient() {
+            @Override
+            public boolean onShowFileChooser(WebView view, ValueCallback<Uri[]> callback, FileChooserParams params) {
+                // A picker that never answered must not leave its input waiting
+                if (filePathCallback != null) {
+                    filePathCallback.onReceiveValue(null);
+                }
+                filePathCallback = callback;
+                fileChooserParams = params;
+{{#if cameraCapture}}
+                if (acceptsCapture(params) && Build.VERSION.SDK_INT >= 23
+                        && checkSelfPermission(android.Manifest.permission.CAMERA) != PackageManager.PERMISSION_GRANTED) {
+                    requestPermissions(new String[] { android.Manifest.permission.CAMERA }, CAMERA_PERMISSION_REQUEST);
+                    return true;
+                }
+{{/if}}
+                openFileChooser();
+                return true;
+            }
+        });
+{{else}}
+        webView.setWebChromeClient(new WebChromeClient());
+{{/if}}
+{{#if bridge}}
+        webView.addJavascriptInterface(new WebAndroBridge(this), "WebAndroNative");
+{{/if}}
+{{#if fileDownloads}}
+        downloadHandler = new DownloadHandler(this, webView);
+        webView.setDownloadListener(downloadHandler);
+        webView.addJavascriptInterface(downloadHandler, "WebAndroDownloads");
+{{/if}}
+
+        webView.setBackgroundColor(Color.WHITE);
+    }
+
+    private void setupFallbackView() {
+        fallbackView.getSettings().setJavaScriptEnabled(true);
+        fallbackView.setWebViewClient(new WebViewClient() {
+            @Override
+            public boolean shouldOverrideUrlLoading(WebView view, WebResourceRequest request) {
+                return handleFallbackLink(request.getUrl());
+            }
+
+            @Override
+            public boolean shouldOverrideUrlLoading(WebView view, String url) {
+                return handleFallbackLink(Uri.parse(url));
+            }
+        });
+    }
+
+    // webandro://retry loads the failed page again; the app's own links load
+    // behind the fallback page, which goes away once they do
+    private boolean handleFallbackLink(Uri uri) {
+        if ("webandro".equals(uri.getScheme())) {
+            if ("retry".equals(uri.getHost())) {
+                retryAttempt = 0;
+                retryFailedPage();
+            }
+            return true;
+        }
+        if (isWebScheme(uri) && isInAppHost(uri.getHost())) {
+            webView.loadUrl(uri.toString());
+            return true;
+        }
+        return handleNavigation(uri);
+    }
+
+    /**
+     * Covers the WebView's own error page with the offline page, or with the
+     * error page when the device is online, and retries the URL later.
+     */
+    private void showFallbackPage(String url, String reason) {
+        loadFailed = true;
+        failedUrl = url;
+        progressBar.setVisibility(View.GONE);
+        fallbackView.loadUrl(isOnline() ? ERROR_PAGE + "#error=" + Uri.encode(reason) : OFFLINE_PAGE);
+        fallbackView.setVisibility(View.VISIBLE);
+        scheduleRetry();
+    }
+
+    private void hideFallbackPage() {
+        failedUrl = null;
+        retryAttempt = 0;
+        retryHandler.removeCallbacks(retryTask);
+        fallbackView.setVisibility(View.GONE);
+    }
+
+    // Waits 5s, 10s, 20s and so on up to a minute between attempts
+    private void scheduleRetry() {
+        retryHandler.removeCallbacks(retryTask);
+        long delay = Math.min(MAX_RETRY_DELAY_MS, RETRY_DELAY_MS << Math.min(retryAttempt, 4));
+        retryAttempt++;
+        retryHandler.postDelayed(retryTask, delay);
+    }
+
+    private void retryFailedPage() {
+        retryHandler.removeCallbacks(retryTask);
+        if (failedUrl != null) {
+            webView.loadUrl(failedUrl);
+        }
+    }
+
+    private boolean isOnline() {
+        ConnectivityManager connectivity = (ConnectivityManager) getSystemService(CONNECTIVITY_SERVICE);
+        if (connectivity == null) return true;
+        if (Build.VERSION.SDK_INT >= 23) {
+            NetworkCapabilities capabilities = connectivity.getNetworkCapabilities(connectivity.getActiveNetwork());
+            return capabilities != null && capabilities.hasCapability(NetworkCapabilities.NET_CAPABILITY_INTERNET);
+        }
+        NetworkInfo network = connectivity.getActiveNetworkInfo();
+        return network != null && network.isConnected();
+    }
+
+    // Retries the failed page as soon as a network comes up
+    private void watchConnectivity() {
+        ConnectivityManager connectivity = (ConnectivityManager) getSystemService(CONNECTIVITY_SERVICE);
+        if (connectivity == null) return;
+        networkCallback = new ConnectivityManager.NetworkCallback() {
+            @Override
+            public void onAvailable(Network network) {
+                // Called on a background thread
+                retryHandler.post(() -> {
+                    if (failedUrl != null) {
+                        retryAttempt = 0;
+                        retryFailedPage();
+                    }
+                });
+            }
+        };
+        if (Build.VERSION.SDK_INT >= 24) {
+            connectivity.registerDefaultNetworkCallback(networkCallback);
+        } else {
+            connectivity.registerNetworkCallback(new NetworkRequest.Builder()
+                    .addCapability(NetworkCapabilities.NET_CAPABILITY_INTERNET)
+                    .build(), networkCallback);
+        }
+    }
+
+    private static boolean isWebScheme(Uri uri) {
+        String scheme = uri.getScheme() == null ? "" : uri.getScheme().toLowerCase(Locale.ROOT);
+        return scheme.equals("http") || scheme.equals("https");
+    }
+
+    private static boolean isInAppHost(String host) {
+        if (host == null) return false;
+        host = host.toLowerCase(Locale.ROOT);
+        for (String allowed : IN_APP_HOSTS) {
+            if (allowed.startsWith("*.")
+                    ? host.endsWith(allowed.substring(1)) || host.equals(allowed.substring(2))
+                    : host.equals(allowed)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Applies the navigation policy: returns false to let the WebView load
+     * the URL, true when it was sent somewhere else.
+     */
+    private boolean handleNavigation(Uri uri) {
+        String scheme = uri.getScheme() == null ? "" : uri.getScheme().toLowerCase(Locale.ROOT);
+        switch (scheme) {
+            case "http":
+            case "https":
+                if (isInAppHost(uri.getHost())) return false;
+                openExternalLink(uri);
+                return true;
+            case "file":
+            case "about":
+            case "data":
+            case "blob":
+            case "javascript":
+                return false;
+            case "intent":
+                openIntentLink(uri.toString());
+                return true;
+            case "tel":
+                startExternalActivity(new Intent(Intent.ACTION_DIAL, uri));
+                return true;
+            case "mailto":
+            case "sms":
+            case "smsto":
+                startExternalActivity(new Intent(Intent.ACTION_SENDTO, uri));
+                return true;
+            default:
+                // whatsapp:, geo:, market: and other app links
+                startExternalActivity(new Intent(Intent.ACTION_VIEW, uri));
+                return true;
+        }
+    }
+
+    private void openExternalLink(Uri uri) {
+{{#if customTabs}}
+        try {
+            new CustomTabsIntent.Builder().setShowTitle(true).build().launchUrl(this, uri);
+        } catch (ActivityNotFoundException e) {
+            Toast.makeText(this, "No app can open this link", Toast.LENGTH_SHORT).show();
+        }
+{{else}}
+        startExternalActivity(new Intent(Intent.ACTION_VIEW, uri).addCategory(Intent.CATEGORY_BROWSABLE));
+{{/if}}
+    }
+
+    // intent:// links name the app to open; when it is not installed the
+    // link's fallback URL, or else its Play Store page, is opened instead
+    private void openIntentLink(String url) {
+        Intent intent;
+        try {
+            intent = Intent.parseUri(url, Intent.URI_INTENT_SCHEME);
+        } catch (java.net.URISyntaxException e) {
+            Toast.makeText(this, "This link cannot be opened", Toast.LENGTH_SHORT).show();
+            return;
+        }
+        // Web content must not start components of this or other apps directly
+        intent.addCategory(Intent.CATEGORY_BROWSABLE);
+        intent.setComponent(null);
+        intent.setSelector(null);
+        try {
+            startActivity(intent);
+            return;
+        } catch (ActivityNotFoundException e) {
+            // Fall through to the fallbacks
+        }
+
+        String fallbackUrl = intent.getStringExtra("browser_fallback_url");
+        if (fallbackUrl != null && isWebScheme(Uri.parse(fallbackUrl))) {
+            if (!handleNavigation(Uri.parse(fallbackUrl))) {
+                webView.loadUrl(fallbackUrl);
+            }
+        } else if (intent.getPackage() != null) {
+            startExternalActivity(new Intent(Intent.ACTION_VIEW, Uri.parse("market://details?id=" + intent.getPackage())));
+        } else {
+            Toast.makeText(this, "No app can open this link", Toast.LENGTH_SHORT).show();
+        }
+    }
+
+    private void startExternalActivity(Intent intent) {
+        try {
+            startActivity(intent);
+        } catch (ActivityNotFoundException e) {
+            Toast.makeText(this, "No app can open this link", Toast.LENGTH_SHORT).show();
+        }
+    }
+
+{{#if fileUploads}}
+    // MIME types from the input's accept attribute, which may also list
+    // extensions such as .pdf; empty when any file will do
+    private static List<String> acceptedMimeTypes(WebChromeClient.FileChooserParams params) {
+        List<String> mimeTypes = new ArrayList<>();
+        for (String accept : params.getAcceptTypes()) {
+            for (String type : accept.split(",")) {
+                String mimeType = type.trim().toLowerCase(Locale.ROOT);
+                if (mimeType.startsWith(".")) {
+                    mimeType = MimeTypeMap.getSingleton().getMimeTypeFromExtension(mimeType.substring(1));
+                }
+                if (mimeType != null && mimeType.contains("/") && !mimeTypes.contains(mimeType)) {
+                    mimeTypes.add(mimeType);
+                }
+            }
+        }
+        if (mimeTypes.contains("*/*")) {
+            mimeTypes.clear();
+        }
+        return mimeTypes;
+    }
+
+    private static boolean acceptsAny(List<String> mimeTypes, String prefix) {
+        if (mimeTypes.isEmpty()) return true;
+        for (String mimeType : mimeTypes) {
+            if (mimeType.startsWith(prefix)) return true;
+        }
+        return false;
+    }
+
+{{#if cameraCapture}}
+    private static boolean acceptsCapture(WebChromeClient.FileChooserParams params) {
+        List<String> mimeTypes = acceptedMimeTypes(params);
+        return acceptsAny(mimeTypes, "image/") || acceptsAny(mimeTypes, "video/");
+    }
+
+    private boolean hasCameraPermission() {
+        return Build.VERSION.SDK_INT < 23 || checkSelfPermission(android.Manifest.permission.CAMERA) == PackageManager.PERMISSION_GRANTED;
+    }
+
+    private Intent createPhotoIntent() {
+        java.io.File capturesDir = new java.io.File(getCacheDir(), "captures");
+        if (!capturesDir.isDirectory() && !capturesDir.mkdirs()) return null;
+
+        java.io.File photo = new java.io.File(capturesDir, "photo-" + System.currentTimeMillis() + ".jpg");
+        cameraPhotoUri = FileProvider.getUriForFile(this, getPackageName() + ".fileprovider", photo);
+        Intent intent = new Intent(MediaStore.ACTION_IMAGE_CAPTURE);
+        intent.putExtra(MediaStore.EXTRA_OUTPUT, cameraPhotoUri);
+        intent.addFlags(Intent.FLAG_GRANT_WRITE_URI_PERMISSION | Intent.FLAG_GRANT_READ_URI_PERMISSION);
+        return intent;
+    }
+
+{{/if}}
+    private void openFileChooser() {
+        WebChromeClient.FileChooserParams params = fileChooserParams;
+        List<String> mimeTypes = acceptedMimeTypes(params);
+
+        Intent contentIntent = new Intent(Intent.ACTION_GET_CONTENT);
+        contentIntent.addCategory(Intent.CATEGORY_OPENABLE);
+        if (mimeTypes.size() == 1) {
+            contentIntent.setType(mimeTypes.get(0));
+        } else {
+            contentIntent.setType("*/*");
+            if (!mimeTypes.isEmpty()) {
+                contentIntent.putExtra(Intent.EXTRA_MIME_TYPES, mimeTypes.toArray(new String[0]));
+            }
+        }
+        if (params.getMode() == WebChromeClient.FileChooserParams.MODE_OPEN_MULTIPLE) {
+            contentIntent.putExtra(Intent.EXTRA_ALLOW_MULTIPLE, true);
+        }
+
+        List<Intent> captureIntents = new ArrayList<>();
+{{#if cameraCapture}}
+        cameraPhotoUri = null;
+        if (hasCameraPermission()) {
+            if (acceptsAny(mimeTypes, "image/")) {
+                Intent photoIntent = createPhotoIntent();
+                if (photoIntent != null) captureIntents.add(photoIntent);
+            }
+            if (acceptsAny(mimeTypes, "video/")) {
+                captureIntents.add(new Intent(MediaStore.ACTION_VIDEO_CAPTURE));
+            }
+        }
+{{/if}}
+
+        // capture="..." on the input goes straight to the camera
+        Intent intent;
+        if (params.isCaptureEnabled() && captureIntents.size() == 1) {
+            intent = captureIntents.get(0);
+        } else {
+            intent = Intent.createChooser(contentIntent, params.getTitle());
+            intent.putExtra(Intent.EXTRA_INITIAL_INTENTS, captureIntents.toArray(new Intent[0]));
+        }
+
+        try {
+            startActivityForResult(intent, FILE_CHOOSER_REQUEST);
+        } catch (ActivityNotFoundException e) {
+            deliverFiles(null);
+        }
+    }
+
+    @Override
+    protected void onActivityResult(int requestCode, int resultCode, Intent data) {
+        if (requestCode != FILE_CHOOSER_REQUEST) {
+            super.onActivityResult(requestCode, resultCode, data);
+            return;
+        }
+        if (resultCode != RESULT_OK) {
+            deliverFiles(null);
+            return;
+        }
+
+        List<Uri> files = new ArrayList<>();
+        ClipData clipData = data == null ? null : data.getClipData();
+        if (clipData != null) {
+            for (int i = 0; i < clipData.getItemCount(); i++) {
+                files.add(clipData.getItemAt(i).getUri());
+            }
+        } else if (data != null && data.getData() != null) {
+            files.add(data.getData());
+        }
+{{#if cameraCapture}}
+        // The photo app writes to EXTRA_OUTPUT and returns no data
+        if (files.isEmpty() && cameraPhotoUri != null) {
+            files.add(cameraPhotoUri);
+        }
+{{/if}}
+        deliverFiles(files.isEmpty() ? null : files.toArray(new Uri[0]));
+    }
+
+    private void deliverFiles(Uri[] files) {
+        if (filePathCallback != null) {
+            filePathCallback.onReceiveValue(files);
+        }
+        filePathCallback = null;
+        fileChooserParams = null;
+    }
+
+{{/if}}
+{{#if runtimePermissions}}
+    @Override
+    public void onRequestPermissionsResult(int requestCode, String[] permissions, int[] grantResults) {
+        super.onRequestPermissionsResult(requestCode, permissions, grantResults);
+{{#if cameraCapture}}
+        if (requestCode == CAMERA_PERMISSION_REQUEST && filePathCallback != null) {
+            // Without the permission the picker still offers files
+            openFileChooser();
+        }
+{{/if}}
+{{#if fileDownloads}}
+        if (requestCode == DownloadHandler.PERMISSION_REQUEST) {
+            downloadHandler.onPermissionResult(grantResults.length > 0 && grantResults[0] == PackageManager.PERMISSION_GRANTED);
+        }
+{{/if}}
+    }
+
+{{/if}}
+{{#if bridge}}
+    // The app's assets and the website it wraps. The interface is visible to
+    // every frame, so apps that embed untrusted frames should leave the
+    // bridge off.
+    boolean isTrustedPage() {
+        String url = currentUrl;
+        if (url.startsWith("file:///android_asset/")) return true;
+{{#if websiteOrigin}}
+        return url.equals("{{websiteOrigin}}") || url.startsWith("{{websiteOrigin}}/");
+{{else}}
+        return false;
+{{/if}}
+    }
+
+    // Pages that do not load webandro.js themselves, such as a wrapped
+    // website, get it from the assets; the SDK ignores a second load
+    private void injectBridgeSdk(WebView view) {
+        if (!isTrustedPage()) return;
+        try (InputStream input = getAssets().open("webandro.js")) {
+            ByteArrayOutputStream script = new ByteArrayOutputStream();
+            byte[] buffer = new byte[8192];
+            for (int read; (read = input.read(buffer)) != -1; ) {
+                script.write(buffer, 0, read);
+            }
+            view.evaluateJavascript(script.toString("UTF-8"), null);
+        } catch (IOException e) {
+            // Without the SDK the page can still call WebAndroNative directly
+        }
+    }
+
+{{/if}}
+    @Override
+    public boolean onKeyDown(int keyCode, KeyEvent event) {
+        if (keyCode == KeyEvent.KEYCODE_BACK && webView.canGoBack()) {
+            // Back from a fallback page returns to the last page that loaded
+            if (fallbackView.getVisibility() == View.VISIBLE) {
+                hideFallbackPage();
+            }
+            webView.goBack();
+            return true;
+        }
+        return super.onKeyDown(keyCode, event);
+    }
+
+    @Override
+    protected void onDestroy() {
+        retryHandler.removeCallbacksAndMessages(null);
+        if (networkCallback != null) {
+            ((ConnectivityManager) getSystemService(CONNECTIVITY_SERVICE)).unregisterNetworkCallback(networkCallback);
+        }
+        if (fallbackView != null) {
+            fallbackView.destroy();
+        }
+        if (webView != null) {
+            webView.destroy();
+        }
+        super.onDestroy();
+    }
+}
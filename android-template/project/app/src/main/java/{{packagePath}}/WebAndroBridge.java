@@ -0,0 +1,182 @@
+{{! Only generated for apps with the native bridge; empty output is not written }}
+{{#if bridge}}
+package {{packageName | raw}};
+
+import android.content.ClipData;
+import android.content.ClipboardManager;
+import android.content.Context;
+import android.content.Intent;
+import android.net.Uri;
+import android.os.Build;
+import android.os.VibrationEffect;
+import android.os.Vibrator;
+import android.webkit.JavascriptInterface;
+import android.widget.Toast;
+
+import org.json.JSONArray;
+import org.json.JSONException;
+import org.json.JSONObject;
+
+import java.util.Locale;
+
+/**
+ * Native features exposed to the web app as window.WebAndroNative; only the
+ * capabilities enabled in the app config are compiled in. Every method
+ * returns {"ok":true,"value":...} or {"ok":false,"error":"..."} as JSON,
+ * which webandro.js turns into promises. Calls made while a page outside the
+ * app's own content is shown are refused.
+ */
+public class WebAndroBridge {
+
+    private final MainActivity activity;
+
+    WebAndroBridge(MainActivity activity) {
+        this.activity = activity;
+    }
+
+    @JavascriptInterface
+    public String capabilities() {
+        JSONArray capabilities = new JSONArray();
+{{#each bridgeCapabilities}}
+        capabilities.put("{{this}}");
+{{/each}}
+        return ok(capabilities);
+    }
+{{#if bridgeShare}}
+
+    @JavascriptInterface
+    public String share(String title, String text, String url) {
+        if (!activity.isTrustedPage()) return untrusted();
+        String body = url.isEmpty() ? text : text.isEmpty() ? url : text + "\n" + url;
+        if (body.isEmpty()) return error("Nothing to share");
+
+        final Intent intent = new Intent(Intent.ACTION_SEND);
+        intent.setType("text/plain");
+        intent.putExtra(Intent.EXTRA_TEXT, body);
+        if (!title.isEmpty()) intent.putExtra(Intent.EXTRA_SUBJECT, title);
+        activity.runOnUiThread(() -> activity.startActivity(Intent.createChooser(intent, title.isEmpty() ? null : title)));
+        return ok(null);
+    }
+{{/if}}
+{{#if bridgeToast}}
+
+    @JavascriptInterface
+    public String toast(final String message, final boolean longDuration) {
+        if (!activity.isTrustedPage()) return untrusted();
+        activity.runOnUiThread(() -> Toast.makeText(activity, message, longDuration ? Toast.LENGTH_LONG : Toast.LENGTH_SHORT).show());
+        return ok(null);
+    }
+{{/if}}
+{{#if bridgeVibrate}}
+
+    @JavascriptInterface
+    public String vibrate(int milliseconds) {
+        if (!activity.isTrustedPage()) return untrusted();
+        Vibrator vibrator = (Vibrator) activity.getSystemService(Context.VIBRATOR_SERVICE);
+        if (vibrator == null || !vibrator.hasVibrator()) return error("This device cannot vibrate");
+
+        long duration = Math.max(1, Math.min(milliseconds, 5000));
+        if (Build.VERSION.SDK_INT >= 26) {
+            vibrator.vibrate(VibrationEffect.createOneShot(duration, VibrationEffect.DEFAULT_AMPLITUDE));
+        } else {
+            vibrator.vibrate(duration);
+        }
+        return ok(null);
+    }
+{{/if}}
+{{#if bridgeClipboard}}
+
+    @JavascriptInterface
+    public String writeClipboard(String text) {
+        if (!activity.isTrustedPage()) return untrusted();
+        ClipboardManager clipboard = (ClipboardManager) activity.getSystemService(Context.CLIPBOARD_SERVICE);
+        if (clipboard == null) return error("The clipboard is not available");
+        clipboard.setPrimaryClip(ClipData.newPlainText("text", text));
+        return ok(null);
+    }
+
+    @JavascriptInterface
+    public String readClipboard() {
+        if (!activity.isTrustedPage()) return untrusted();
+        ClipboardManager clipboard = (ClipboardManager) activity.getSystemService(Context.CLIPBOARD_SERVICE);
+        ClipData clip = clipboard == null ? null : clipboard.getPrimaryClip();
+        if (clip == null || clip.getItemCount() == 0) return ok("");
+        CharSequence text = clip.getItemAt(0).coerceToText(activity);
+        return ok(text == null ? "" : text.toString());
+    }
+{{/if}}
+{{#if bridgeDeviceInfo}}
+
+    @JavascriptInterface
+    public String deviceInfo() {
+        if (!activity.isTrustedPage()) return untrusted();
+        try {
+            JSONObject info = new JSONObject();
+            info.put("manufacturer", Build.MANUFACTURER);
+            info.put("model", Build.MODEL);
+            info.put("osVersion", Build.VERSION.RELEASE);
+            info.put("sdkVersion", Build.VERSION.SDK_INT);
+            info.put("language", Locale.getDefault().toLanguageTag());
+            return ok(info);
+        } catch (JSONException e) {
+            return error(e.getMessage());
+        }
+    }
+{{/if}}
+{{#if bridgeAppVersion}}
+
+    @JavascriptInterface
+    public String appVersion() {
+        if (!activity.isTrustedPage()) return untrusted();
+        try {
+            JSONObject version = new JSONObject();
+            version.put("packageName", "{{packageName}}");
+            version.put("versionName", "{{versionName}}");
+            version.put("versionCode", {{versionCode}});
+            return ok(version);
+        } catch (JSONException e) {
+            return error(e.getMessage());
+        }
+    }
+{{/if}}
+{{#if bridgeOpenExternal}}
+
+    @JavascriptInterface
+    public String openExternal(String url) {
+        if (!activity.isTrustedPage()) return untrusted();
+        final Uri uri = Uri.parse(url);
+        String scheme = uri.getScheme() == null ? "" : uri.getScheme().toLowerCase(Locale.ROOT);
+        if (!scheme.equals("http") && !scheme.equals("https") && !scheme.equals("mailto") && !scheme.equals("tel")) {
+            return error("Only http, https, mailto and tel links can be opened");
+        }
+        activity.runOnUiThread(() -> {
+            try {
+                activity.startActivity(new Intent(Intent.ACTION_VIEW, uri));
+            } catch (android.content.ActivityNotFoundException e) {
+                Toast.makeText(activity, "No app can open this link", Toast.LENGTH_SHORT).show();
+            }
+        });
+        return ok(null);
+    }
+{{/if}}
+
+    private static String ok(Object value) {
+        try {
+            JSONObject result = new JSONObject();
+            result.put("ok", true);
+            result.put("value", value == null ? JSONObject.NULL : value);
+            return result.toString();
+        } catch (JSONException e) {
+            return error(e.getMessage());
+        }
+    }
+
+    private static String error(String message) {
+        return "{\"ok\":false,\"error\":" + JSONObject.quote(message) + "}";
+    }
+
+    private static String untrusted() {
+        return error("The native bridge only answers the app's own pages");
+    }
+}
+{{/if}}
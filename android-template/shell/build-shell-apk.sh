@@ -0,0 +1,17 @@
+#!/bin/bash
+
+# Builds the generic WebView shell APK used by the "shell" build engine.
+# Needs Gradle and the Android SDK (see setup-android-env.sh); the engine
+# itself does not. The output is unsigned: every build re-signs it with the
+# project's key.
+set -e
+
+SHELL_DIR="$(cd "$(dirname "$0")" && pwd)"
+OUTPUT="${SHELL_APK_PATH:-$SHELL_DIR/webview-shell.apk}"
+
+cd "$SHELL_DIR"
+echo "Building WebView shell APK..."
+gradle assembleRelease
+
+cp build/outputs/apk/release/webview-shell-release-unsigned.apk "$OUTPUT"
+echo "Shell APK written to $OUTPUT"
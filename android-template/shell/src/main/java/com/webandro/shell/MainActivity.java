@@ -0,0 +1,102 @@
+package com.webandro.shell;
+
+import android.app.Activity;
+import android.graphics.Color;
+import android.os.Bundle;
+import android.util.Log;
+import android.webkit.WebSettings;
+import android.webkit.WebView;
+import android.webkit.WebViewClient;
+
+import org.json.JSONObject;
+
+import java.io.ByteArrayOutputStream;
+import java.io.IOException;
+import java.io.InputStream;
+
+/**
+ * Loads the app described by assets/webandro.json, which the shell engine
+ * writes into every patched APK. Nothing here may refer to the package name:
+ * patched apps keep this class under com.webandro.shell.
+ */
+public class MainActivity extends Activity {
+
+    private static final String TAG = "WebViewShell";
+    private static final String CONFIG_ASSET = "webandro.json";
+    private static final String ASSET_URL = "file:///android_asset/";
+
+    private WebView webView;
+
+    @Override
+    protected void onCreate(Bundle savedInstanceState) {
+        super.onCreate(savedInstanceState);
+
+        webView = new WebView(this);
+        webView.setBackgroundColor(Color.WHITE);
+        setContentView(webView);
+
+        setupWebView();
+        if (savedInstanceState != null) {
+            webView.restoreState(savedInstanceState);
+        } else {
+            webView.loadUrl(startUrl());
+        }
+    }
+
+    private void setupWebView() {
+        WebSettings webSettings = webView.getSettings();
+        webSettings.setJavaScriptEnabled(true);
+        webSettings.setDomStorageEnabled(true);
+        webSettings.setDatabaseEnabled(true);
+        webSettings.setLoadWithOverviewMode(true);
+        webSettings.setUseWideViewPort(true);
+        webSettings.setSupportZoom(true);
+        webSettings.setBuiltInZoomControls(true);
+        webSettings.setDisplayZoomControls(false);
+        webSettings.setDefaultTextEncodingName("utf-8");
+        webSettings.setAllowFileAccess(true);
+        webSettings.setMixedContentMode(WebSettings.MIXED_CONTENT_COMPATIBILITY_MODE);
+
+        webView.setWebViewClient(new WebViewClient());
+    }
+
+    private String startUrl() {
+        JSONObject config = readConfig();
+        String url = config.optString("url", "");
+        if (url.startsWith("http://") || url.startsWith("https://")) {
+            return url;
+        }
+        return ASSET_URL + config.optString("startPage", "index.html");
+    }
+
+    private JSONObject readConfig() {
+        try (InputStream input = getAssets().open(CONFIG_ASSET)) {
+            ByteArrayOutputStream buffer = new ByteArrayOutputStream();
+            byte[] chunk = new byte[4096];
+            int read;
+            while ((read = input.read(chunk)) != -1) {
+                buffer.write(chunk, 0, read);
+            }
+            return new JSONObject(buffer.toString("UTF-8"));
+        } catch (IOException | org.json.JSONException e) {
+            // The unpatched shell has no config and shows its bundled page
+            Log.w(TAG, "No usable " + CONFIG_ASSET + ": " + e.getMessage());
+            return new JSONObject();
+        }
+    }
+
+    @Override
+    protected void onSaveInstanceState(Bundle outState) {
+        super.onSaveInstanceState(outState);
+        webView.saveState(outState);
+    }
+
+    @Override
+    public void onBackPressed() {
+        if (webView.canGoBack()) {
+            webView.goBack();
+        } else {
+            super.onBackPressed();
+        }
+    }
+}
@@ -0,0 +1,50 @@
+{{! Injected into every page of apps with file downloads; saves blob: and data: downloads through WebAndroDownloads (DownloadHandler.java) }}
+(function (window, document) {
+  'use strict';
+
+  if (window.__webandroSaveDownload || !window.WebAndroDownloads) return;
+
+  // Reads the file inside the page, where blob: URLs are valid, and passes it
+  // on as a data: URL
+  function saveDownload(href, name) {
+    fetch(href)
+      .then(function (response) {
+        return response.blob();
+      })
+      .then(function (blob) {
+        var reader = new FileReader();
+        reader.onload = function () {
+          window.WebAndroDownloads.save(String(reader.result), name || '', blob.type || '');
+        };
+        reader.onerror = function () {
+          window.WebAndroDownloads.failed('The file could not be read');
+        };
+        reader.readAsDataURL(blob);
+      })
+      .catch(function (error) {
+        window.WebAndroDownloads.failed(error && error.message ? error.message : String(error));
+      });
+  }
+  window.__webandroSaveDownload = saveDownload;
+
+  function handleLink(link) {
+    if (!link.hasAttribute('download') || !/^(blob|data):/i.test(link.href)) return false;
+    saveDownload(link.href, link.getAttribute('download'));
+    return true;
+  }
+
+  document.addEventListener('click', function (event) {
+    var link = event.target && event.target.closest ? event.target.closest('a') : null;
+    if (link && handleLink(link)) {
+      event.preventDefault();
+    }
+  }, true);
+
+  // Export buttons often click a link that was never added to the page, so
+  // the click above never sees it
+  var click = HTMLAnchorElement.prototype.click;
+  HTMLAnchorElement.prototype.click = function () {
+    if (!this.isConnected && handleLink(this)) return;
+    return click.apply(this, arguments);
+  };
+})(window, document);
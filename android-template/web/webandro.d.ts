@@ -0,0 +1,64 @@
+// Types for webandro.js, the WebAndro native bridge SDK. Every call resolves
+// once the app has handled it and rejects with a WebAndroError otherwise.
+
+export type WebAndroCapability = 'share' | 'toast' | 'vibrate' | 'clipboard' | 'deviceInfo' | 'appVersion' | 'openExternal';
+
+// "unavailable" outside the app, "unsupported" for capabilities the app was
+// built without, "failed" when the device refused the call
+export type WebAndroErrorCode = 'unavailable' | 'unsupported' | 'failed';
+
+export interface WebAndroError extends Error {
+  name: 'WebAndroError';
+  code: WebAndroErrorCode;
+}
+
+export interface WebAndroShareOptions {
+  title?: string;
+  text?: string;
+  url?: string;
+}
+
+export interface WebAndroDeviceInfo {
+  manufacturer: string;
+  model: string;
+  osVersion: string;
+  sdkVersion: number;
+  // BCP 47 tag, e.g. "en-US"
+  language: string;
+}
+
+export interface WebAndroAppVersion {
+  packageName: string;
+  versionName: string;
+  versionCode: number;
+}
+
+export interface WebAndro {
+  readonly version: 1;
+  readonly WebAndroError: new (code: WebAndroErrorCode, message: string) => WebAndroError;
+  // True inside the app, where the native side is present
+  isAvailable(): boolean;
+  // Capabilities the app was built with; empty outside the app
+  capabilities(): WebAndroCapability[];
+  share(options: WebAndroShareOptions): Promise<null>;
+  toast(message: string, options?: { long?: boolean }): Promise<null>;
+  // Clamped to 1-5000 ms by the app
+  vibrate(milliseconds?: number): Promise<null>;
+  clipboard: {
+    writeText(text: string): Promise<null>;
+    readText(): Promise<string>;
+  };
+  getDeviceInfo(): Promise<WebAndroDeviceInfo>;
+  getAppVersion(): Promise<WebAndroAppVersion>;
+  // Opens http, https, mailto and tel links in another app
+  openExternal(url: string): Promise<null>;
+}
+
+declare global {
+  interface Window {
+    WebAndro?: WebAndro;
+  }
+  interface WindowEventMap {
+    webandroready: Event;
+  }
+}
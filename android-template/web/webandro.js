@@ -0,0 +1,122 @@
+{{! Native bridge SDK: wraps window.WebAndroNative (WebAndroBridge.java) in promises as window.WebAndro; types are served at /api/projects/:id/webandro.d.ts }}
+/*
+ * WebAndro native bridge for {{appName}}
+ *
+ * Loaded by the app on every page of its own; web pages may also include it
+ * with <script src="webandro.js">. Outside the app every call rejects with a
+ * WebAndroError whose code is "unavailable".
+ */
+(function (window) {
+  'use strict';
+
+  if (window.WebAndro) return;
+
+  // Capabilities the app was built with
+  var ENABLED = [
+{{#each bridgeCapabilities}}
+    '{{this}}',
+{{/each}}
+  ];
+
+  function WebAndroError(code, message) {
+    var error = new Error(message);
+    error.name = 'WebAndroError';
+    error.code = code;
+    Object.setPrototypeOf(error, WebAndroError.prototype);
+    return error;
+  }
+  WebAndroError.prototype = Object.create(Error.prototype, {
+    constructor: { value: WebAndroError }
+  });
+
+  function native() {
+    return window.WebAndroNative;
+  }
+
+  function call(capability, method, args) {
+    return new Promise(function (resolve, reject) {
+      var bridge = native();
+      if (!bridge) {
+        reject(WebAndroError('unavailable', 'The WebAndro bridge is only available inside the app'));
+        return;
+      }
+      if (ENABLED.indexOf(capability) === -1 || typeof bridge[method] !== 'function') {
+        reject(WebAndroError('unsupported', 'The app was built without the ' + capability + ' capability'));
+        return;
+      }
+
+      var result;
+      try {
+        result = JSON.parse(bridge[method].apply(bridge, args));
+      } catch (error) {
+        reject(WebAndroError('failed', error && error.message ? error.message : String(error)));
+        return;
+      }
+      if (result.ok) {
+        resolve(result.value);
+      } else {
+        reject(WebAndroError('failed', result.error));
+      }
+    });
+  }
+
+  function text(value) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+
+  var WebAndro = {
+    version: 1,
+    WebAndroError: WebAndroError,
+
+    isAvailable: function () {
+      return !!native();
+    },
+
+    capabilities: function () {
+      var bridge = native();
+      if (!bridge) return [];
+      try {
+        return JSON.parse(bridge.capabilities()).value || [];
+      } catch (error) {
+        return [];
+      }
+    },
+
+    share: function (options) {
+      options = options || {};
+      return call('share', 'share', [text(options.title), text(options.text), text(options.url)]);
+    },
+
+    toast: function (message, options) {
+      return call('toast', 'toast', [text(message), !!(options && options.long)]);
+    },
+
+    vibrate: function (milliseconds) {
+      return call('vibrate', 'vibrate', [Math.round(Number(milliseconds) || 200)]);
+    },
+
+    clipboard: {
+      writeText: function (value) {
+        return call('clipboard', 'writeClipboard', [text(value)]);
+      },
+      readText: function () {
+        return call('clipboard', 'readClipboard', []);
+      }
+    },
+
+    getDeviceInfo: function () {
+      return call('deviceInfo', 'deviceInfo', []);
+    },
+
+    getAppVersion: function () {
+      return call('appVersion', 'appVersion', []);
+    },
+
+    openExternal: function (url) {
+      return call('openExternal', 'openExternal', [text(url)]);
+    }
+  };
+
+  window.WebAndro = WebAndro;
+  window.dispatchEvent(new Event('webandroready'));
+})(window);
@@ -0,0 +1,118 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Terminal, Search, Download as DownloadIcon, Loader2 } from "lucide-react";
+import { useBuildLog } from "@/hooks/use-build-log";
+
+interface BuildLogViewerProps {
+  buildId: number;
+}
+
+function highlight(text: string, query: string) {
+  if (!query) return text;
+
+  const parts: (string | JSX.Element)[] = [];
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  let index = 0;
+
+  while (index < text.length) {
+    const match = lowerText.indexOf(lowerQuery, index);
+    if (match === -1) {
+      parts.push(text.slice(index));
+      break;
+    }
+    if (match > index) {
+      parts.push(text.slice(index, match));
+    }
+    parts.push(
+      <mark key={match} className="bg-yellow-300 text-gray-900 rounded-sm">
+        {text.slice(match, match + query.length)}
+      </mark>
+    );
+    index = match + query.length;
+  }
+
+  return parts;
+}
+
+export function BuildLogViewer({ buildId }: BuildLogViewerProps) {
+  const { lines, isLoading } = useBuildLog(buildId);
+  const [search, setSearch] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const query = search.trim();
+  const visibleLines = useMemo(
+    () => query ? lines.filter(line => line.text.toLowerCase().includes(query.toLowerCase())) : lines,
+    [lines, query]
+  );
+
+  // Follow new output unless the user is searching
+  useEffect(() => {
+    if (!query && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [lines, query]);
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-gray-900 flex items-center">
+            <Terminal className="w-5 h-5 mr-2 text-gray-600" />
+            Build Log
+          </CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/builds/${buildId}/logs?download=true`} download>
+              <DownloadIcon className="w-4 h-4 mr-2" />
+              Download Log
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search log output..."
+            className="pl-9"
+          />
+        </div>
+
+        <div
+          ref={scrollRef}
+          className="h-80 overflow-auto rounded-md bg-gray-900 p-3 font-mono text-xs text-gray-100"
+        >
+          {isLoading && lines.length === 0 ? (
+            <div className="flex items-center text-gray-400">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Loading log...
+            </div>
+          ) : visibleLines.length === 0 ? (
+            <div className="text-gray-400">
+              {query ? "No lines match your search." : "No log output yet."}
+            </div>
+          ) : (
+            visibleLines.map(line => (
+              <div key={line.number} className="flex whitespace-pre-wrap break-all">
+                <span className="w-12 shrink-0 select-none pr-3 text-right text-gray-500">{line.number}</span>
+                <span className={line.text.includes("[stderr]") ? "text-red-300" : undefined}>
+                  {highlight(line.text, query)}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+
+        {query && (
+          <p className="text-xs text-gray-500">
+            {visibleLines.length} of {lines.length} lines match
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
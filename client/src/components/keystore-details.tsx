@@ -0,0 +1,92 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Copy } from "lucide-react";
+import type { Keystore, KeystoreEntryInfo } from "@shared/schema";
+
+interface KeystoreDetailsProps {
+  keystore: Keystore;
+}
+
+const EXPIRY_WARNING_DAYS = 30;
+
+function Fingerprint({ label, value }: { label: string; value: string }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Copied", description: `${label} fingerprint copied to the clipboard` });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the fingerprint and copy it manually", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-2">
+      <span className="text-xs font-medium text-gray-500 w-16 shrink-0 pt-1">{label}</span>
+      <code className="text-xs font-mono text-gray-800 break-all flex-1 pt-1">{value}</code>
+      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={copy} title={`Copy ${label} fingerprint`}>
+        <Copy className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+function Validity({ entry }: { entry: KeystoreEntryInfo }) {
+  const certificate = entry.certificate!;
+  const validTo = new Date(certificate.validTo);
+  const daysLeft = Math.floor((validTo.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+  return (
+    <p className="text-xs text-gray-600">
+      Valid {new Date(certificate.validFrom).toLocaleDateString()} – {validTo.toLocaleDateString()}
+      {daysLeft < 0 ? (
+        <span className="ml-2 text-red-600 font-medium">Expired</span>
+      ) : daysLeft <= EXPIRY_WARNING_DAYS ? (
+        <span className="ml-2 text-yellow-700 font-medium">Expires in {daysLeft} days</span>
+      ) : null}
+    </p>
+  );
+}
+
+export function KeystoreDetails({ keystore }: KeystoreDetailsProps) {
+  if (!keystore.entries?.length) {
+    return (
+      <p className="text-xs text-gray-500">Certificate details are not available for this keystore.</p>
+    );
+  }
+
+  // The key used for signing comes first
+  const isSigningEntry = (entry: KeystoreEntryInfo) => entry.alias.toLowerCase() === keystore.keyAlias.toLowerCase();
+  const entries = [...keystore.entries].sort((a, b) => Number(isSigningEntry(b)) - Number(isSigningEntry(a)));
+
+  return (
+    <div className="space-y-3">
+      {entries.map(entry => (
+        <div key={entry.alias} className="p-3 border border-gray-200 rounded-lg bg-white space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium text-gray-900">{entry.alias}</span>
+            {isSigningEntry(entry) && <Badge>Signing key</Badge>}
+            {entry.type === 'trustedCertificate' && <Badge variant="secondary">Trusted certificate</Badge>}
+            {entry.certificate && (
+              <Badge variant="outline">
+                {entry.certificate.keyAlgorithm}{entry.certificate.keySize ? ` ${entry.certificate.keySize}-bit` : ''}
+              </Badge>
+            )}
+          </div>
+          {entry.certificate ? (
+            <>
+              <p className="text-xs text-gray-600 break-all">{entry.certificate.subject}</p>
+              <Validity entry={entry} />
+              <Fingerprint label="SHA-1" value={entry.certificate.sha1Fingerprint} />
+              <Fingerprint label="SHA-256" value={entry.certificate.sha256Fingerprint} />
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">No certificate is stored with this key.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+
+export interface BuildLogLine {
+  number: number;
+  text: string;
+}
+
+// Lines kept in memory; the full log is available through the download button
+const MAX_LINES = 2000;
+
+export function useBuildLog(buildId: number | null) {
+  const [lines, setLines] = useState<BuildLogLine[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!buildId) return;
+
+    let cancelled = false;
+    let lastNumber = 0;
+    // Lines streamed while the initial tail request is in flight
+    let pending: BuildLogLine[] | null = [];
+
+    const append = (incoming: BuildLogLine[]) => {
+      const fresh = incoming.filter(line => line.number > lastNumber);
+      if (fresh.length === 0) return;
+      lastNumber = fresh[fresh.length - 1].number;
+      setLines(current => [...current, ...fresh].slice(-MAX_LINES));
+    };
+
+    setLines([]);
+    setIsLoading(true);
+
+    const socket = io();
+    socket.emit('join-build', buildId);
+    socket.on('build-log', (data: { buildId: number; lines: BuildLogLine[] }) => {
+      if (data.buildId !== buildId) return;
+      if (pending) {
+        pending.push(...data.lines);
+      } else {
+        append(data.lines);
+      }
+    });
+
+    fetch(`/api/builds/${buildId}/logs?tail=${MAX_LINES}`, { credentials: 'include' })
+      .then(res => res.ok ? res.json() : { lines: [] })
+      .then((page: { lines: BuildLogLine[] }) => {
+        if (cancelled) return;
+        append(page.lines);
+        append(pending!);
+        pending = null;
+      })
+      .catch(() => {
+        pending = null;
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      socket.disconnect();
+    };
+  }, [buildId]);
+
+  return {
+    lines,
+    isLoading
+  };
+}
@@ -10,6 +10,7 @@ export interface BuildProgress {
 export interface BuildResult {
   buildId: string;
   success: boolean;
+  cancelled?: boolean;
   apkPath?: string;
   aabPath?: string;
   error?: string;
@@ -43,7 +44,7 @@ export function useBuildProgress(buildId: string | null) {
         setResult(data);
         setIsComplete(true);
         setProgress({
-          step: data.success ? 'complete' : 'error',
+          step: data.success ? 'complete' : data.cancelled ? 'cancelled' : 'error',
           progress: data.success ? 100 : 0,
           message: data.success ? 'Build completed successfully!' : (data.error || 'Build failed')
         });
@@ -6,11 +6,57 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Smartphone, ChevronRight, ChevronLeft, Upload, Settings, HelpCircle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Smartphone, ChevronRight, ChevronLeft, Upload, Settings, HelpCircle, FileCode, RotateCcw, Puzzle } from "lucide-react";
 import { ProgressSteps } from "@/components/progress-steps";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Project } from "@shared/schema";
+import { bridgeCapabilities, navigationPolicySchema, type BridgeCapability, type CapacitorSettings, type CordovaPluginSelection, type ExternalLinkTarget, type Project } from "@shared/schema";
+
+interface TemplateListing {
+  variables: Record<string, string>;
+  files: Array<{ path: string; source: "builtin" | "server" | "project" }>;
+}
+
+type FallbackPageKind = "offline" | "error";
+
+interface FallbackPageInfo {
+  kind: FallbackPageKind;
+  source: "builtin" | "project";
+  size: number | null;
+}
+
+const fallbackPageLabels: Record<FallbackPageKind, { name: string; description: string }> = {
+  offline: { name: "Offline page", description: "Shown while the device has no connection" },
+  error: { name: "Error page", description: "Shown when a page fails to load while online" },
+};
+
+interface BuildPluginInfo {
+  id: string;
+  name: string;
+  description: string;
+  stages: string[];
+}
+
+interface CordovaPluginInfo {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  variables: Array<{ name: string; description: string; defaultValue?: string }>;
+  cachedVersions: string[];
+}
+
+const bridgeCapabilityLabels: Record<BridgeCapability, { name: string; description: string }> = {
+  share: { name: "Share", description: "Opens the system share sheet" },
+  toast: { name: "Toast", description: "Shows short native messages" },
+  vibrate: { name: "Vibrate", description: "Vibrates the device (adds the VIBRATE permission)" },
+  clipboard: { name: "Clipboard", description: "Reads and writes clipboard text" },
+  deviceInfo: { name: "Device info", description: "Model, Android version and language" },
+  appVersion: { name: "App version", description: "Package name, version name and code" },
+  openExternal: { name: "Open externally", description: "Opens links in the browser or another app" },
+};
 
 export default function AppConfig() {
   const { projectId } = useParams();
@@ -30,6 +76,336 @@ export default function AppConfig() {
     enabled: !!projectId,
   });
 
+  const { data: templates } = useQuery<TemplateListing>({
+    queryKey: ["/api/projects", projectId, "templates"],
+    enabled: !!projectId,
+  });
+  const projectTemplateCount = templates?.files.filter(file => file.source === "project").length ?? 0;
+
+  const uploadTemplatesMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("templates", file);
+
+      const response = await fetch(`/api/projects/${projectId}/templates`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        // Template errors name the file and line, so show the first few
+        throw new Error(error.problems?.slice(0, 3).join("\n") || error.message || "Failed to upload templates");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "templates"] });
+      toast({
+        title: "Templates Uploaded",
+        description: "Future builds of this project will be generated from the uploaded templates.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invalid Templates",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeTemplatesMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/templates`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "templates"] });
+      toast({
+        title: "Templates Removed",
+        description: "Builds of this project use the server templates again.",
+      });
+    },
+  });
+
+  const handleTemplatesUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadTemplatesMutation.mutate(file);
+    }
+    e.target.value = "";
+  };
+
+  const { data: fallbackPages } = useQuery<FallbackPageInfo[]>({
+    queryKey: ["/api/projects", projectId, "fallback-pages"],
+    enabled: !!projectId,
+  });
+
+  const uploadFallbackPageMutation = useMutation({
+    mutationFn: async ({ kind, file }: { kind: FallbackPageKind; file: File }) => {
+      const formData = new FormData();
+      formData.append("page", file);
+
+      const response = await fetch(`/api/projects/${projectId}/fallback-pages/${kind}`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to upload the page");
+      }
+      return response.json();
+    },
+    onSuccess: (_data, { kind }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "fallback-pages"] });
+      toast({
+        title: "Page Uploaded",
+        description: `Future builds will show your ${fallbackPageLabels[kind].name.toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invalid Page",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeFallbackPageMutation = useMutation({
+    mutationFn: async (kind: FallbackPageKind) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/fallback-pages/${kind}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "fallback-pages"] });
+    },
+  });
+
+  const handleFallbackPageUpload = (kind: FallbackPageKind) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadFallbackPageMutation.mutate({ kind, file });
+    }
+    e.target.value = "";
+  };
+
+  const { data: plugins } = useQuery<BuildPluginInfo[]>({
+    queryKey: ["/api/plugins"],
+  });
+  const enabledPlugins = project?.enabledPlugins ?? [];
+
+  const updatePluginsMutation = useMutation({
+    mutationFn: async (enabledPlugins: string[]) => {
+      const response = await apiRequest("PATCH", `/api/projects/${projectId}`, { enabledPlugins });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Plugins run in the order they were enabled
+  const togglePlugin = (pluginId: string, enabled: boolean) => {
+    updatePluginsMutation.mutate(enabled
+      ? [...enabledPlugins, pluginId]
+      : enabledPlugins.filter(id => id !== pluginId));
+  };
+
+  const updateFileInputsMutation = useMutation({
+    mutationFn: async (updates: Partial<Pick<Project, "fileUploads" | "cameraCapture" | "fileDownloads">>) => {
+      const response = await apiRequest("PATCH", `/api/projects/${projectId}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enabledBridgeCapabilities = project?.bridgeCapabilities ?? [];
+
+  const updateBridgeMutation = useMutation({
+    mutationFn: async (bridgeCapabilities: BridgeCapability[]) => {
+      const response = await apiRequest("PATCH", `/api/projects/${projectId}`, { bridgeCapabilities });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleBridgeCapability = (capability: BridgeCapability, enabled: boolean) => {
+    updateBridgeMutation.mutate(bridgeCapabilities.filter(candidate =>
+      candidate === capability ? enabled : enabledBridgeCapabilities.includes(candidate)));
+  };
+
+  const { data: cordovaCatalog } = useQuery<CordovaPluginInfo[]>({
+    queryKey: ["/api/cordova-plugins"],
+  });
+  const [cordovaPlugins, setCordovaPlugins] = useState<CordovaPluginSelection[]>([]);
+
+  // Only taken from the project when it loads, so refetches keep unsaved edits
+  useEffect(() => {
+    if (project) {
+      setCordovaPlugins(project.cordovaPlugins ?? []);
+    }
+  }, [project?.id]);
+
+  const saveCordovaPluginsMutation = useMutation({
+    mutationFn: async (selections: CordovaPluginSelection[]) => {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cordovaPlugins: selections }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.problems?.slice(0, 3).join("\n") || error.message || "Failed to save Cordova plugins");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      toast({
+        title: "Cordova Plugins Saved",
+        description: "Future Cordova builds of this project will include the selected plugins.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invalid Cordova Plugins",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCordovaPlugin = (id: string, changes: Partial<CordovaPluginSelection> | null) => {
+    setCordovaPlugins(current => {
+      if (!changes) return current.filter(selection => selection.id !== id);
+      const existing = current.find(selection => selection.id === id);
+      return existing
+        ? current.map(selection => selection.id === id ? { ...selection, ...changes } : selection)
+        : [...current, { id, ...changes }];
+    });
+  };
+
+  // Capacitor plugins are edited as "package@version" lines, their config as JSON
+  const [capacitorPlugins, setCapacitorPlugins] = useState("");
+  const [capacitorPluginConfig, setCapacitorPluginConfig] = useState("");
+
+  useEffect(() => {
+    if (project) {
+      setCapacitorPlugins(project.capacitorSettings?.plugins.map(plugin => `${plugin.package}@${plugin.version}`).join("\n") ?? "");
+      const pluginConfig = project.capacitorSettings?.pluginConfig ?? {};
+      setCapacitorPluginConfig(Object.keys(pluginConfig).length ? JSON.stringify(pluginConfig, null, 2) : "");
+    }
+  }, [project?.id]);
+
+  const saveCapacitorSettingsMutation = useMutation({
+    mutationFn: async () => {
+      let pluginConfig: CapacitorSettings["pluginConfig"];
+      try {
+        pluginConfig = capacitorPluginConfig.trim() ? JSON.parse(capacitorPluginConfig) : {};
+      } catch {
+        throw new Error("Plugin configuration is not valid JSON");
+      }
+      const plugins = capacitorPlugins.split("\n").map(line => line.trim()).filter(Boolean).map(line => {
+        // The @ of a scoped package name is not the version separator
+        const separator = line.lastIndexOf("@");
+        if (separator <= 0) throw new Error(`"${line}" needs a version, e.g. @capacitor/camera@6.0.0`);
+        return { package: line.slice(0, separator), version: line.slice(separator + 1) };
+      });
+
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ capacitorSettings: { plugins, pluginConfig } }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to save Capacitor settings");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      toast({
+        title: "Capacitor Settings Saved",
+        description: "Future Capacitor builds of this project will use these plugins.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invalid Capacitor Settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // In-app hosts are edited one per line
+  const [inAppHosts, setInAppHosts] = useState("");
+  const [externalLinks, setExternalLinks] = useState<ExternalLinkTarget>("browser");
+
+  useEffect(() => {
+    if (project) {
+      setInAppHosts(project.navigationPolicy?.inAppHosts.join("\n") ?? "");
+      setExternalLinks(project.navigationPolicy?.externalLinks ?? "browser");
+    }
+  }, [project?.id]);
+
+  const saveNavigationPolicyMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = navigationPolicySchema.safeParse({
+        inAppHosts: inAppHosts.split("\n").map(line => line.trim().toLowerCase()).filter(Boolean),
+        externalLinks,
+      });
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map(issue => issue.message).join("; "));
+      }
+      const response = await apiRequest("PATCH", `/api/projects/${projectId}`, { navigationPolicy: parsed.data });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      toast({
+        title: "Navigation Policy Saved",
+        description: "Future builds of this project will use it.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invalid Navigation Policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateProjectMutation = useMutation({
     mutationFn: async (updates: any) => {
       const response = await apiRequest("PATCH", `/api/projects/${projectId}`, updates);
@@ -284,6 +660,409 @@ export default function AppConfig() {
             </CardContent>
           </Card>
 
+          {/* Templates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Project Templates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Builds are generated from template files (<code>project/</code>, <code>cordova/</code>, <code>capacitor/</code> and <code>web/</code>).
+                Upload a zip with your own versions of any of them to replace the server templates for this project.
+              </p>
+              <div className="flex items-center space-x-4">
+                <Button
+                  variant="outline"
+                  onClick={() => document.getElementById('templates-upload')?.click()}
+                  disabled={uploadTemplatesMutation.isPending}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Templates
+                </Button>
+                <input
+                  id="templates-upload"
+                  type="file"
+                  accept=".zip"
+                  onChange={handleTemplatesUpload}
+                  className="hidden"
+                />
+                {projectTemplateCount > 0 && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => removeTemplatesMutation.mutate()}
+                    disabled={removeTemplatesMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Use Server Templates
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 flex items-center">
+                <FileCode className="h-4 w-4 mr-2" />
+                {projectTemplateCount > 0
+                  ? `${projectTemplateCount} of ${templates?.files.length} template files come from this project's upload.`
+                  : "Using the server templates."}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Build plugins */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Build Plugins</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Plugins installed on the server can change the generated project and attach extra files to Gradle builds.
+              </p>
+              {plugins?.length ? (
+                plugins.map(plugin => (
+                  <div key={plugin.id} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`plugin-${plugin.id}`}
+                      checked={enabledPlugins.includes(plugin.id)}
+                      onCheckedChange={(checked) => togglePlugin(plugin.id, checked === true)}
+                      disabled={updatePluginsMutation.isPending}
+                    />
+                    <div>
+                      <Label htmlFor={`plugin-${plugin.id}`} className="text-sm">
+                        {plugin.name}
+                      </Label>
+                      {plugin.description && (
+                        <p className="text-xs text-gray-500">{plugin.description}</p>
+                      )}
+                      <p className="text-xs text-gray-400">Runs {plugin.stages.join(", ")}</p>
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-gray-500 flex items-center">
+                  <Puzzle className="h-4 w-4 mr-2" />
+                  No build plugins are installed on this server.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Cordova plugins */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Cordova Plugins</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Native features added when the app is built with the Cordova engine. Plugins are installed from the
+                server's plugin cache; versions that are not cached yet are downloaded on the first build.
+              </p>
+              {cordovaCatalog?.map(plugin => {
+                const selection = cordovaPlugins.find(candidate => candidate.id === plugin.id);
+                const version = selection?.version || plugin.version;
+                return (
+                  <div key={plugin.id} className="space-y-2">
+                    <div className="flex items-start space-x-2">
+                      <Checkbox
+                        id={`cordova-${plugin.id}`}
+                        checked={!!selection}
+                        onCheckedChange={(checked) => updateCordovaPlugin(plugin.id, checked === true ? {} : null)}
+                      />
+                      <div>
+                        <Label htmlFor={`cordova-${plugin.id}`} className="text-sm">
+                          {plugin.name} <span className="text-gray-400 font-normal">({plugin.id})</span>
+                        </Label>
+                        <p className="text-xs text-gray-500">{plugin.description}</p>
+                      </div>
+                    </div>
+                    {selection && (
+                      <div className="ml-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <Label htmlFor={`cordova-${plugin.id}-version`} className="text-xs">Version</Label>
+                          <Input
+                            id={`cordova-${plugin.id}-version`}
+                            value={selection.version ?? ""}
+                            onChange={(e) => updateCordovaPlugin(plugin.id, { version: e.target.value || undefined })}
+                            placeholder={plugin.version}
+                          />
+                          <p className="text-xs text-gray-400 mt-1">
+                            {plugin.cachedVersions.includes(version) ? "Cached on the server" : "Downloaded on the first build"}
+                          </p>
+                        </div>
+                        {plugin.variables.map(variable => (
+                          <div key={variable.name}>
+                            <Label htmlFor={`cordova-${plugin.id}-${variable.name}`} className="text-xs">{variable.name}</Label>
+                            <Input
+                              id={`cordova-${plugin.id}-${variable.name}`}
+                              value={selection.variables?.[variable.name] ?? ""}
+                              onChange={(e) => {
+                                const { [variable.name]: _previous, ...others } = selection.variables ?? {};
+                                updateCordovaPlugin(plugin.id, { variables: e.target.value ? { ...others, [variable.name]: e.target.value } : others });
+                              }}
+                              placeholder={variable.defaultValue}
+                            />
+                            <p className="text-xs text-gray-400 mt-1">{variable.description}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                onClick={() => saveCordovaPluginsMutation.mutate(cordovaPlugins)}
+                disabled={saveCordovaPluginsMutation.isPending}
+              >
+                Save Cordova Plugins
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Capacitor */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Capacitor Plugins</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                npm packages added to the project when the app is built with the Capacitor engine, and their settings
+                for the <code>plugins</code> section of <code>capacitor.config.json</code>.
+              </p>
+              <div>
+                <Label htmlFor="capacitor-plugins">Plugins</Label>
+                <Textarea
+                  id="capacitor-plugins"
+                  value={capacitorPlugins}
+                  onChange={(e) => setCapacitorPlugins(e.target.value)}
+                  placeholder={"@capacitor/camera@6.0.0\n@capacitor/geolocation@6.0.0"}
+                  rows={3}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="capacitor-plugin-config">Plugin configuration (JSON)</Label>
+                <Textarea
+                  id="capacitor-plugin-config"
+                  value={capacitorPluginConfig}
+                  onChange={(e) => setCapacitorPluginConfig(e.target.value)}
+                  placeholder={'{\n  "SplashScreen": { "launchShowDuration": 2000 }\n}'}
+                  rows={4}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => saveCapacitorSettingsMutation.mutate()}
+                disabled={saveCapacitorSettingsMutation.isPending}
+              >
+                Save Capacitor Plugins
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* File inputs */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Files</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                How file fields and downloads behave in apps built with the Gradle or Template engine. The picker for
+                <code> &lt;input type="file"&gt;</code> follows the field's <code>accept</code> and <code>multiple</code> attributes.
+              </p>
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="file-uploads"
+                  checked={project?.fileUploads ?? true}
+                  onCheckedChange={(checked) => updateFileInputsMutation.mutate(checked === true
+                    ? { fileUploads: true }
+                    : { fileUploads: false, cameraCapture: false })}
+                  disabled={updateFileInputsMutation.isPending}
+                />
+                <div>
+                  <Label htmlFor="file-uploads" className="text-sm">Allow file uploads</Label>
+                  <p className="text-xs text-gray-500">File fields open the system file picker</p>
+                </div>
+              </div>
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="camera-capture"
+                  checked={project?.cameraCapture ?? false}
+                  onCheckedChange={(checked) => updateFileInputsMutation.mutate({ cameraCapture: checked === true })}
+                  disabled={updateFileInputsMutation.isPending || !(project?.fileUploads ?? true)}
+                />
+                <div>
+                  <Label htmlFor="camera-capture" className="text-sm">Offer the camera</Label>
+                  <p className="text-xs text-gray-500">
+                    Image and video fields can take a new photo or video; adds the CAMERA permission and a FileProvider
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="file-downloads"
+                  checked={project?.fileDownloads ?? false}
+                  onCheckedChange={(checked) => updateFileInputsMutation.mutate({ fileDownloads: checked === true })}
+                  disabled={updateFileInputsMutation.isPending}
+                />
+                <div>
+                  <Label htmlFor="file-downloads" className="text-sm">Save downloads</Label>
+                  <p className="text-xs text-gray-500">
+                    Download links and generated exports (blob: and data: URLs) are saved to Downloads with a notification
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Navigation */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Navigation</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Which links stay inside apps built with the Gradle or Template engine. The website's own site always
+                does: its host with or without <code>www.</code> and all of its subdomains, so redirects such as
+                <code> example.com</code> to <code>www.example.com</code> stay in the app. Links such as <code>tel:</code>, <code>mailto:</code>, <code>whatsapp:</code> and
+                <code> intent://</code> open the app that handles them.
+              </p>
+              <div>
+                <Label htmlFor="in-app-hosts">Other hosts that stay in the app</Label>
+                <Textarea
+                  id="in-app-hosts"
+                  value={inAppHosts}
+                  onChange={(e) => setInAppHosts(e.target.value)}
+                  placeholder={"accounts.example.com\n*.example.org"}
+                  rows={3}
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">One per line; <code>*.example.org</code> also covers its subdomains.</p>
+              </div>
+              <div>
+                <Label>Links to other hosts open in</Label>
+                <RadioGroup
+                  value={externalLinks}
+                  onValueChange={(value) => setExternalLinks(value as ExternalLinkTarget)}
+                  className="mt-2"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="browser" id="external-browser" />
+                    <Label htmlFor="external-browser" className="text-sm">The system browser</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="customTabs" id="external-custom-tabs" />
+                    <Label htmlFor="external-custom-tabs" className="text-sm">Custom Tabs on top of the app</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => saveNavigationPolicyMutation.mutate()}
+                disabled={saveNavigationPolicyMutation.isPending}
+              >
+                Save Navigation Policy
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Offline and error pages */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Offline &amp; Error Pages</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Apps built with the Gradle or Template engine show these pages instead of the WebView's error page and
+                reload by themselves once the connection returns. A link to <code>webandro://retry</code> retries at once;
+                the error page finds the reason in <code>location.hash</code> as <code>#error=…</code>.
+              </p>
+              {(fallbackPages ?? []).map((page) => (
+                <div key={page.kind} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="text-sm font-medium">{fallbackPageLabels[page.kind].name}</p>
+                    <p className="text-xs text-gray-500">
+                      {fallbackPageLabels[page.kind].description} ·{" "}
+                      {page.source === "project" ? `Uploaded (${Math.ceil((page.size ?? 0) / 1024)} KB)` : "Built-in"}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/projects/${projectId}/fallback-pages/${page.kind}`} target="_blank" rel="noreferrer">
+                        Preview
+                      </a>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => document.getElementById(`fallback-page-${page.kind}`)?.click()}
+                      disabled={uploadFallbackPageMutation.isPending}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload
+                    </Button>
+                    <input
+                      id={`fallback-page-${page.kind}`}
+                      type="file"
+                      accept=".html,.htm"
+                      onChange={handleFallbackPageUpload(page.kind)}
+                      className="hidden"
+                    />
+                    {page.source === "project" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeFallbackPageMutation.mutate(page.kind)}
+                        disabled={removeFallbackPageMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Use Built-in
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Native bridge */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Native Bridge</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Lets the web app call native features through <code>window.WebAndro</code>. Only the features
+                enabled here are compiled into the app, and only its own pages can use them. Gradle and Template
+                engine builds include <code>webandro.js</code> in the assets.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {bridgeCapabilities.map(capability => (
+                  <div key={capability} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`bridge-${capability}`}
+                      checked={enabledBridgeCapabilities.includes(capability)}
+                      onCheckedChange={(checked) => toggleBridgeCapability(capability, checked === true)}
+                      disabled={updateBridgeMutation.isPending}
+                    />
+                    <div>
+                      <Label htmlFor={`bridge-${capability}`} className="text-sm">
+                        {bridgeCapabilityLabels[capability].name}
+                      </Label>
+                      <p className="text-xs text-gray-500">{bridgeCapabilityLabels[capability].description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {enabledBridgeCapabilities.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  SDK for testing and type-checking:{" "}
+                  <a href={`/api/projects/${projectId}/webandro.js`} className="text-blue-600 hover:underline" download>webandro.js</a>
+                  {" · "}
+                  <a href={`/api/projects/${projectId}/webandro.d.ts`} className="text-blue-600 hover:underline" download>webandro.d.ts</a>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Preview */}
           <Card>
             <CardHeader>
@@ -1,15 +1,26 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, useParams } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Smartphone, Download as DownloadIcon, CheckCircle, XCircle, Clock, FileText, Bolt, ChevronLeft, Settings, HelpCircle, Loader2 } from "lucide-react";
+import { Smartphone, Download as DownloadIcon, CheckCircle, XCircle, Clock, FileText, Bolt, ChevronLeft, Settings, HelpCircle, Loader2, Key, ShieldCheck, ShieldAlert, RotateCcw, AlertTriangle } from "lucide-react";
 import { ProgressSteps } from "@/components/progress-steps";
+import { BuildLogViewer } from "@/components/build-log-viewer";
+import { KeystoreDetails } from "@/components/keystore-details";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useBuildProgress } from "@/hooks/use-build-progress";
-import type { Build as BuildType, Project } from "@shared/schema";
+import type { ArtifactKind, ArtifactState, Build, BuildArtifactInfo, Keystore, Project } from "@shared/schema";
+
+type BuildType = Build & {
+  queuePosition: number | null;
+  artifactStates?: Partial<Record<ArtifactKind, ArtifactState>>;
+  // Files attached by build plugins, by name
+  pluginArtifactStates?: Record<string, ArtifactState>;
+};
+
+const artifactLabels: Record<ArtifactKind, string> = { apk: "APK", aab: "AAB", apks: "APK set", mapping: "R8 mapping" };
 
 export default function Download() {
   const { projectId, buildId } = useParams();
@@ -19,54 +30,99 @@ export default function Download() {
   const { data: build, isLoading } = useQuery<BuildType>({
     queryKey: ["/api/builds", buildId],
     enabled: !!buildId,
-    refetchInterval: (data) => data?.status === 'building' ? 1000 : false,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'queued' || status === 'running' ? 1000 : false;
+    },
   });
 
+  const isInProgress = build?.status === 'queued' || build?.status === 'running';
+
   const { data: project } = useQuery<Project>({
     queryKey: ["/api/projects", build?.projectId],
     enabled: !!build?.projectId,
   });
 
+  const { data: projectKeystore } = useQuery<Keystore>({
+    queryKey: ["/api/projects", build?.projectId, "signing", "keystore"],
+    enabled: !!build?.projectId && build.status === 'success',
+  });
+
   const { progress, isComplete, result } = useBuildProgress(buildId || null);
 
-  const handleDownload = async (fileType: 'apk' | 'aab' | 'complete') => {
+  const rebuildMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/builds/${buildId}/rebuild`);
+      return response.json() as Promise<Build>;
+    },
+    onSuccess: (newBuild) => {
+      setLocation(`/download/${projectId}/${newBuild.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start the rebuild",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadArtifact = async (download: string, fileName: string, label: string) => {
     if (!build || build.status !== 'success') return;
 
     try {
-      const response = await apiRequest("GET", `/api/builds/${build.id}/download/${fileType}`);
+      const response = await apiRequest("GET", `/api/builds/${build.id}/download/${download}`);
       
       if (!response.ok) {
         throw new Error('Download failed');
       }
 
-      // Get the filename from Content-Disposition header or use default
-      const disposition = response.headers.get('Content-Disposition');
-      const filename = disposition 
-        ? disposition.split('filename=')[1]?.replace(/"/g, '') 
-        : `app-${build.id}.${fileType === 'complete' ? 'zip' : fileType}`;
-
-      // Convert response to blob and create download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      // Clean up the blob URL
-      window.URL.revokeObjectURL(url);
+      await saveDownload(response, fileName);
       
       toast({
         title: "Success",
-        description: `${fileType === 'complete' ? 'Complete package' : fileType.toUpperCase()} download started successfully`,
+        description: `${label} download started successfully`,
+      });
+    } catch (error) {
+      // 410: the artifact expired or no longer matches its checksum
+      if (error instanceof Error && error.message.startsWith("410")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/builds", buildId] });
+        toast({
+          title: "Artifact Expired",
+          description: "This file is no longer available. Rebuild the app to download it again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: `Failed to download ${label}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownload = (fileType: ArtifactKind | 'complete') => {
+    const extension = fileType === 'complete' ? 'zip' : fileType === 'mapping' ? 'txt' : fileType;
+    return downloadArtifact(fileType, `app-${build?.id}.${extension}`, fileType === 'complete' ? 'Complete package' : artifactLabels[fileType]);
+  };
+
+  const handlePluginDownload = (name: string) => downloadArtifact(`plugin/${encodeURIComponent(name)}`, name, name);
+
+  const handleExportProject = async () => {
+    if (!project) return;
+
+    try {
+      const response = await apiRequest("GET", `/api/projects/${project.id}/export/android-project`);
+      await saveDownload(response, `${project.packageName}-android-project.zip`);
+      toast({
+        title: "Success",
+        description: "Android Studio project download started successfully",
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: `Failed to download ${fileType === 'complete' ? 'complete package' : fileType.toUpperCase()}`,
+        description: "Failed to export the Android Studio project",
         variant: "destructive",
       });
     }
@@ -114,13 +170,21 @@ export default function Download() {
     );
   }
 
+  const artifactStates = build.artifactStates ?? {};
+  const isAvailable = (kind: ArtifactKind) => artifactStates[kind] === 'available';
+  const expiredArtifacts = (Object.keys(artifactStates) as ArtifactKind[]).filter(kind => !isAvailable(kind));
+  const pluginArtifactStates = build.pluginArtifactStates ?? {};
+  const pluginArtifactsExpired = Object.values(pluginArtifactStates).some(state => state !== 'available');
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'success':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'failed':
         return <XCircle className="h-5 w-5 text-red-500" />;
-      case 'building':
+      case 'cancelled':
+        return <XCircle className="h-5 w-5 text-gray-500" />;
+      case 'running':
         return <Clock className="h-5 w-5 text-yellow-500" />;
       default:
         return <Clock className="h-5 w-5 text-gray-500" />;
@@ -133,7 +197,7 @@ export default function Download() {
         return 'default';
       case 'failed':
         return 'destructive';
-      case 'building':
+      case 'running':
         return 'secondary';
       default:
         return 'outline';
@@ -181,7 +245,7 @@ export default function Download() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div>
                   <Label className="text-sm font-medium text-gray-600">Bolt Type</Label>
                   <div className="flex items-center mt-1">
@@ -193,6 +257,10 @@ export default function Download() {
                     <span className="text-sm font-medium uppercase">{build.buildType}</span>
                   </div>
                 </div>
+                <div>
+                  <Label className="text-sm font-medium text-gray-600">Build Engine</Label>
+                  <p className="text-sm text-gray-900 mt-1 capitalize">{build.builderEngine}</p>
+                </div>
                 <div>
                   <Label className="text-sm font-medium text-gray-600">Started</Label>
                   <p className="text-sm text-gray-900 mt-1">
@@ -210,7 +278,7 @@ export default function Download() {
           </Card>
 
           {/* Real-time Build Progress */}
-          {(build.status === 'building' || progress) && (
+          {(isInProgress || (progress && build.status !== 'cancelled')) && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center">
@@ -237,7 +305,16 @@ export default function Download() {
                     </>
                   )}
                   
-                  {!progress && build.status === 'building' && (
+                  {!progress && build.status === 'queued' && (
+                    <div className="flex items-center justify-center py-4">
+                      <Clock className="h-6 w-6 text-gray-500 mr-2" />
+                      <span className="text-sm text-gray-600">
+                        Waiting in queue{build.queuePosition ? ` (position ${build.queuePosition})` : ''}...
+                      </span>
+                    </div>
+                  )}
+
+                  {!progress && build.status === 'running' && (
                     <div className="flex items-center justify-center py-4">
                       <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
                       <span className="text-sm text-gray-600">
@@ -300,9 +377,31 @@ export default function Download() {
                     </div>
                   </div>
                   
+                  {expiredArtifacts.length > 0 && (
+                    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start">
+                      <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3 mt-0.5" />
+                      <div className="flex-1">
+                        <h4 className="font-medium text-yellow-900">Artifacts expired</h4>
+                        <p className="text-sm text-yellow-800 mt-1">
+                          The {expiredArtifacts.map(kind => artifactLabels[kind]).join(" and ")} of this build {expiredArtifacts.length > 1 ? "are" : "is"} no longer
+                          available. Rebuild from the same configuration to download {expiredArtifacts.length > 1 ? "them" : "it"} again.
+                        </p>
+                      </div>
+                      <Button size="sm" onClick={() => rebuildMutation.mutate()} disabled={rebuildMutation.isPending}>
+                        {rebuildMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Rebuild
+                      </Button>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <Button 
                       onClick={() => handleDownload('apk')} 
+                      disabled={!isAvailable('apk')}
                       className="flex items-center justify-center h-12"
                       variant="default"
                     >
@@ -313,6 +412,7 @@ export default function Download() {
                     
                     <Button 
                       onClick={() => handleDownload('aab')} 
+                      disabled={!isAvailable('aab')}
                       className="flex items-center justify-center h-12"
                       variant="outline"
                     >
@@ -323,12 +423,13 @@ export default function Download() {
                     
                     <Button 
                       onClick={() => handleDownload('complete')} 
+                      disabled={Object.keys(artifactStates).length === 0 || expiredArtifacts.length > 0 || pluginArtifactsExpired}
                       className="flex items-center justify-center h-12"
                       variant="secondary"
                     >
                       <DownloadIcon className="h-5 w-5 mr-2" />
                       Complete Package
-                      <span className="ml-2 text-xs opacity-75">(APK + AAB + Keystore)</span>
+                      <span className="ml-2 text-xs opacity-75">(All build files)</span>
                     </Button>
                   </div>
                   
@@ -336,11 +437,123 @@ export default function Download() {
                     <p><strong>APK:</strong> Install directly on Android devices</p>
                     <p><strong>AAB:</strong> Upload to Google Play Store for distribution</p>
                   </div>
+
+                  {artifactStates.apks && (
+                    <div className="mt-4 flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="text-xs text-gray-600">
+                        <p className="font-medium text-gray-900">APK set (split APKs)</p>
+                        <p>The APKs the Play Store would serve per device; install with <code>bundletool install-apks</code></p>
+                      </div>
+                      <Button
+                        onClick={() => handleDownload('apks')}
+                        disabled={!isAvailable('apks')}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <Smartphone className="h-4 w-4 mr-2" />
+                        Download .apks
+                      </Button>
+                    </div>
+                  )}
+
+                  {artifactStates.mapping && (
+                    <div className="mt-4 flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="text-xs text-gray-600">
+                        <p className="font-medium text-gray-900">R8 mapping file</p>
+                        <p>Keep it to deobfuscate crash stack traces, e.g. in the Play Console</p>
+                      </div>
+                      <Button
+                        onClick={() => handleDownload('mapping')}
+                        disabled={!isAvailable('mapping')}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Download mapping.txt
+                      </Button>
+                    </div>
+                  )}
+
+                  {build.pluginArtifacts?.map(artifact => (
+                    <div key={artifact.name} className="mt-4 flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="text-xs text-gray-600">
+                        <p className="font-medium text-gray-900">{artifact.name}</p>
+                        <p>Attached by the {artifact.plugin} build plugin</p>
+                      </div>
+                      <Button
+                        onClick={() => handlePluginDownload(artifact.name)}
+                        disabled={pluginArtifactStates[artifact.name] !== 'available'}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <DownloadIcon className="h-4 w-4 mr-2" />
+                        Download
+                      </Button>
+                    </div>
+                  ))}
+
+                  {build.artifacts && (
+                    <div className="mt-4 space-y-3">
+                      {(Object.keys(build.artifacts) as ArtifactKind[]).map(kind => (
+                        <ArtifactIntegrity key={kind} kind={kind} info={build.artifacts![kind]!} state={artifactStates[kind]} />
+                      ))}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
           )}
 
+          {/* Signing Key */}
+          {build.status === 'success' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Key className="h-5 w-5 mr-2" />
+                  Signing Key
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {build.keystoreId && projectKeystore?.id === build.keystoreId ? (
+                  <div className="p-4 bg-green-50 rounded-lg flex items-start">
+                    <ShieldCheck className="h-5 w-5 text-green-600 mr-3 mt-0.5" />
+                    <div className="flex-1">
+                      <h3 className="font-medium text-green-900">Signed with the project key</h3>
+                      <p className="text-sm text-green-700 mt-1">
+                        Key <strong>{projectKeystore.keyAlias}</strong> ({projectKeystore.storeType.toUpperCase()}, {projectKeystore.source}
+                        {projectKeystore.createdAt ? ` ${new Date(projectKeystore.createdAt).toLocaleDateString()}` : ''}).
+                        Every build of this project is signed with the same key, so this version installs as an update of earlier ones.
+                      </p>
+                      <div className="mt-3">
+                        <KeystoreDetails keystore={projectKeystore} />
+                      </div>
+                    </div>
+                  </div>
+                ) : build.keystoreId ? (
+                  <div className="p-4 bg-yellow-50 rounded-lg flex items-start">
+                    <ShieldAlert className="h-5 w-5 text-yellow-600 mr-3 mt-0.5" />
+                    <div>
+                      <h3 className="font-medium text-yellow-900">Signed with a previous project key</h3>
+                      <p className="text-sm text-yellow-800 mt-1">
+                        The project's keystore has been replaced since this build. Newer builds cannot be installed as updates of this version.
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="p-4 bg-yellow-50 rounded-lg flex items-start">
+                    <ShieldAlert className="h-5 w-5 text-yellow-600 mr-3 mt-0.5" />
+                    <div>
+                      <h3 className="font-medium text-yellow-900">Not signed with the project key</h3>
+                      <p className="text-sm text-yellow-800 mt-1">
+                        The {build.builderEngine} engine does not sign with the project's long-lived key. This build cannot be installed as an update of signed releases.
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Error Section */}
           {build.status === 'failed' && (
             <Card>
@@ -360,8 +573,27 @@ export default function Download() {
             </Card>
           )}
 
+          {/* Cancelled Section */}
+          {build.status === 'cancelled' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-gray-600">
+                  <XCircle className="h-5 w-5 mr-2" />
+                  Build Cancelled
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="p-4 bg-gray-100 rounded-lg">
+                  <p className="text-sm text-gray-700">
+                    This build was cancelled before it finished. Start a new build to generate your app.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Building Section */}
-          {build.status === 'building' && (
+          {isInProgress && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center text-yellow-600">
@@ -372,13 +604,18 @@ export default function Download() {
               <CardContent>
                 <div className="p-4 bg-yellow-50 rounded-lg">
                   <p className="text-sm text-yellow-800">
-                    Your build is currently in progress. Please wait while we generate your {build.buildType.toUpperCase()} file.
+                    {build.status === 'queued'
+                      ? `Your build is waiting for a free build worker${build.queuePosition ? ` (position ${build.queuePosition} in queue)` : ''}.`
+                      : `Your build is currently in progress. Please wait while we generate your ${build.buildType.toUpperCase()} file.`}
                   </p>
                 </div>
               </CardContent>
             </Card>
           )}
 
+          {/* Build Log */}
+          <BuildLogViewer buildId={build.id} />
+
           {/* Actions */}
           <Card>
             <CardHeader>
@@ -390,6 +627,10 @@ export default function Download() {
                   <Bolt className="h-4 w-4 mr-2" />
                   New Bolt
                 </Button>
+                <Button variant="outline" onClick={handleExportProject} disabled={!project}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Export Android Studio Project
+                </Button>
                 <Button variant="outline" onClick={handleBackToProjects}>
                   <ChevronLeft className="h-4 w-4 mr-2" />
                   Back to Projects
@@ -403,6 +644,55 @@ export default function Download() {
   );
 }
 
+// Saves a download response under the name from its Content-Disposition header
+async function saveDownload(response: Response, fallbackName: string) {
+  const disposition = response.headers.get('Content-Disposition');
+  const filename = disposition
+    ? disposition.split('filename=')[1]?.replace(/"/g, '')
+    : fallbackName;
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename || fallbackName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Clean up the blob URL
+  window.URL.revokeObjectURL(url);
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function ArtifactIntegrity({ kind, info, state }: { kind: ArtifactKind; info: BuildArtifactInfo; state?: ArtifactState }) {
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg bg-white space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-900">{artifactLabels[kind]}</span>
+        <span className="text-xs text-gray-500">{formatSize(info.size)}</span>
+        {state && state !== 'available' && (
+          <Badge variant="destructive" className="capitalize">{state}</Badge>
+        )}
+      </div>
+      <p className="text-xs text-gray-600">
+        SHA-256 <code className="font-mono text-gray-800 break-all">{info.sha256}</code>
+      </p>
+      {info.signingCertificateSha256 && (
+        <p className="text-xs text-gray-600">
+          Certificate <code className="font-mono text-gray-800 break-all">{info.signingCertificateSha256}</code>
+        </p>
+      )}
+    </div>
+  );
+}
+
 function Label({ children, className = "" }: { children: React.ReactNode; className?: string }) {
   return (
     <label className={`block text-sm font-medium ${className}`}>
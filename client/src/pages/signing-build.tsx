@@ -8,11 +8,33 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
-import { Smartphone, ChevronRight, ChevronLeft, Key, Bolt, FileText, Settings, HelpCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Smartphone, ChevronRight, ChevronLeft, Key, Bolt, FileText, Settings, HelpCircle, Cpu, XCircle, Upload, ShieldCheck } from "lucide-react";
 import { ProgressSteps } from "@/components/progress-steps";
+import { BuildLogViewer } from "@/components/build-log-viewer";
+import { KeystoreDetails } from "@/components/keystore-details";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Project, Build as BuildType } from "@shared/schema";
+import type { Project, Build as BuildType, BuilderEngineId, Keystore, PublicSigningConfig } from "@shared/schema";
+
+interface BuilderEngineInfo {
+  id: BuilderEngineId;
+  name: string;
+  description: string;
+  capabilities: {
+    apk: boolean;
+    aab: boolean;
+    signing: boolean;
+    websiteUrl: boolean;
+    webFiles: boolean;
+    codeShrinking: boolean;
+    splitApks: boolean;
+    buildHooks: boolean;
+    nativeBridge: boolean;
+  };
+  requirements: Array<{ name: string; command?: string; file?: string; description: string; capability?: string; installed: boolean }>;
+  available: boolean;
+}
 
 export default function SigningBuild() {
   const { projectId } = useParams();
@@ -20,6 +42,7 @@ export default function SigningBuild() {
   const { toast } = useToast();
   
   const [buildType, setBuildType] = useState<"apk" | "aab">("apk");
+  const [builderEngine, setBuilderEngine] = useState<BuilderEngineId>("gradle");
   const [keystorePassword, setKeystorePassword] = useState("");
   const [keyAlias, setKeyAlias] = useState("");
   const [keyPassword, setKeyPassword] = useState("");
@@ -31,22 +54,143 @@ export default function SigningBuild() {
   const [keystoreValidity, setKeystoreValidity] = useState(10000); // Default 10000 days
   const [enableOptimization, setEnableOptimization] = useState(true);
   const [enableObfuscation, setEnableObfuscation] = useState(false);
+  const [splitApks, setSplitApks] = useState(false);
   const [isBuilding, setIsBuilding] = useState(false);
   const [buildProgress, setBuildProgress] = useState(0);
   const [buildStep, setBuildStep] = useState("");
   const [buildMessage, setBuildMessage] = useState("");
   const [currentBuild, setCurrentBuild] = useState<BuildType | null>(null);
+  const [keystoreFile, setKeystoreFile] = useState<File | null>(null);
 
   const { data: project, isLoading } = useQuery<Project>({
     queryKey: ["/api/projects", projectId],
     enabled: !!projectId,
   });
 
-  const { data: signingConfig } = useQuery({
+  const { data: builderEngines = [] } = useQuery<BuilderEngineInfo[]>({
+    queryKey: ["/api/builder-engines"],
+  });
+
+  const { data: signingConfig } = useQuery<PublicSigningConfig | null>({
     queryKey: ["/api/projects", projectId, "signing"],
     enabled: !!projectId,
   });
 
+  const { data: projectKeystore } = useQuery<Keystore>({
+    queryKey: ["/api/projects", projectId, "signing", "keystore"],
+    enabled: !!projectId,
+  });
+
+  const uploadKeystoreMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("keystore", file);
+      formData.append("keyAlias", keyAlias);
+      formData.append("keystorePassword", keystorePassword);
+      formData.append("keyPassword", keyPassword || keystorePassword);
+
+      const response = await fetch(`/api/projects/${projectId}/signing/keystore`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to upload keystore");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setKeystoreFile(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "signing"] });
+      toast({
+        title: "Keystore Uploaded",
+        description: "All future builds of this project will be signed with the uploaded key.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The keystore is not part of any build download; exporting it takes the
+  // store password entered below
+  const exportKeystoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/signing/keystore/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keystorePassword }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to export keystore");
+      }
+
+      const disposition = response.headers.get("Content-Disposition");
+      const url = window.URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = disposition?.split("filename=")[1]?.replace(/"/g, "") || "release.jks";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateProguardRulesMutation = useMutation({
+    mutationFn: async (proguardRules: string | null) => {
+      const response = await apiRequest("PATCH", `/api/projects/${projectId}`, { proguardRules });
+      return response.json();
+    },
+    onSuccess: (_project, proguardRules) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      toast({
+        title: proguardRules ? "ProGuard Rules Saved" : "ProGuard Rules Removed",
+        description: proguardRules
+          ? "The rules are added to proguard-rules.pro in future builds."
+          : "Future builds use the default rules only.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save ProGuard rules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleProguardRulesUpload = async (file: File | undefined) => {
+    if (!file) return;
+    updateProguardRulesMutation.mutate(await file.text());
+  };
+
+  const handleKeystoreUpload = () => {
+    if (!keystoreFile || !keyAlias || !keystorePassword) {
+      toast({
+        title: "Error",
+        description: "Choose a keystore file and enter its key name and password",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadKeystoreMutation.mutate(keystoreFile);
+  };
+
   const createBuildMutation = useMutation({
     mutationFn: async (buildData: any) => {
       const response = await apiRequest("POST", `/api/projects/${projectId}/builds`, buildData);
@@ -67,10 +211,15 @@ export default function SigningBuild() {
           if (updatedBuild.progress !== undefined) {
             setBuildProgress(updatedBuild.progress);
           }
-          if (updatedBuild.buildStep) {
+          if (updatedBuild.buildStep && updatedBuild.status !== 'queued') {
             setBuildStep(updatedBuild.buildStep);
           }
-          if (updatedBuild.buildMessage) {
+          if (updatedBuild.status === 'queued') {
+            setBuildStep('Queued');
+            setBuildMessage(updatedBuild.queuePosition
+              ? `Waiting for a free build worker (position ${updatedBuild.queuePosition} in queue)`
+              : 'Waiting for a free build worker');
+          } else if (updatedBuild.buildMessage) {
             setBuildMessage(updatedBuild.buildMessage);
           }
           
@@ -86,6 +235,15 @@ export default function SigningBuild() {
             setTimeout(() => {
               setLocation(`/download/${projectId}/${build.id}`);
             }, 1000);
+          } else if (updatedBuild.status === 'cancelled') {
+            setIsBuilding(false);
+            setBuildProgress(0);
+            setBuildStep('Cancelled');
+            setBuildMessage('Build was cancelled');
+            toast({
+              title: "Build Cancelled",
+              description: "The build was stopped and its workspace cleaned up.",
+            });
           } else if (updatedBuild.status === 'failed') {
             setIsBuilding(false);
             setBuildProgress(0);
@@ -118,6 +276,24 @@ export default function SigningBuild() {
     },
   });
 
+  const cancelBuildMutation = useMutation({
+    mutationFn: async (buildId: number) => {
+      const response = await apiRequest("POST", `/api/builds/${buildId}/cancel`);
+      return response.json();
+    },
+    onSuccess: (build) => {
+      setBuildStep(build.buildStep || 'Cancelling');
+      setBuildMessage(build.buildMessage || 'Stopping build processes...');
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel build",
+        variant: "destructive",
+      });
+    },
+  });
+
   const saveSigningConfigMutation = useMutation({
     mutationFn: async (configData: any) => {
       const response = await apiRequest("POST", `/api/projects/${projectId}/signing`, configData);
@@ -129,7 +305,11 @@ export default function SigningBuild() {
   });
 
   const handleBuild = () => {
-    if (!keystorePassword || !keyAlias || !keyPassword || !developerName) {
+    // Saved passwords are never sent back to the browser, so blank fields keep
+    // them; certificate details are only needed until the project key exists
+    const hasKeystorePassword = !!keystorePassword || !!signingConfig?.hasKeystorePassword;
+    const hasKeyPassword = !!keyPassword || !!signingConfig?.hasKeyPassword;
+    if (!hasKeystorePassword || !hasKeyPassword || (!projectKeystore && (!keyAlias || !developerName))) {
       toast({
         title: "Error",
         description: "Please fill in all required signing configuration fields",
@@ -141,7 +321,7 @@ export default function SigningBuild() {
     // Save signing config first
     const configData = {
       keystorePassword,
-      keyAlias,
+      keyAlias: projectKeystore?.keyAlias || keyAlias,
       keyPassword,
       developerName,
       organizationName,
@@ -156,13 +336,23 @@ export default function SigningBuild() {
     // Start build
     const buildData = {
       buildType,
-      status: 'building',
+      builderEngine,
+      options: {
+        enableOptimization: supportsCodeShrinking && enableOptimization,
+        enableObfuscation: supportsCodeShrinking && enableObfuscation,
+        splitApks: supportsSplitApks && !missingSplitApkTools.length && splitApks,
+      },
       signingConfig: configData,
     };
 
     createBuildMutation.mutate(buildData);
   };
 
+  const selectedEngine = builderEngines.find((engine) => engine.id === builderEngine);
+  const supportsCodeShrinking = selectedEngine?.capabilities.codeShrinking ?? true;
+  const supportsSplitApks = buildType === "aab" && (selectedEngine?.capabilities.splitApks ?? true);
+  const missingSplitApkTools = selectedEngine?.requirements.filter((requirement) => requirement.capability === "splitApks" && !requirement.installed) ?? [];
+
   const handlePrevious = () => {
     setLocation(`/config/${projectId}`);
   };
@@ -241,6 +431,71 @@ export default function SigningBuild() {
                   </div>
                 </div>
               </RadioGroup>
+              {buildType === "aab" && (
+                <div className="mt-4 flex items-start space-x-2">
+                  <Checkbox
+                    id="split-apks"
+                    checked={splitApks}
+                    onCheckedChange={(checked) => setSplitApks(checked === true)}
+                    disabled={!supportsSplitApks || missingSplitApkTools.length > 0}
+                  />
+                  <div>
+                    <Label htmlFor="split-apks" className="text-sm">
+                      Also create split APKs from the bundle
+                    </Label>
+                    <p className="text-xs text-gray-500">
+                      {!supportsSplitApks
+                        ? "The selected build engine cannot derive APKs from a bundle."
+                        : missingSplitApkTools.length
+                          ? `Needs ${missingSplitApkTools.map((requirement) => requirement.name).join(", ")}, which is not installed on the server.`
+                          : "Produces an .apks set with the APKs the Play Store would serve per device, plus a universal APK for sideloading."}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Build Engine Selection */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Cpu className="h-5 w-5 mr-2" />
+                Build Engine
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RadioGroup value={builderEngine} onValueChange={(value) => setBuilderEngine(value as BuilderEngineId)}>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {builderEngines.map((engine) => (
+                    <div key={engine.id} className="relative">
+                      <RadioGroupItem value={engine.id} id={`engine-${engine.id}`} className="peer sr-only" />
+                      <Label htmlFor={`engine-${engine.id}`} className="flex h-full flex-col p-4 border-2 border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 peer-checked:border-primary peer-checked:bg-blue-50">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900">{engine.name}</span>
+                          <Badge variant={engine.available ? "default" : "outline"}>
+                            {engine.available ? "Ready" : "Missing tools"}
+                          </Badge>
+                        </div>
+                        <span className="text-sm text-gray-500 mt-1">{engine.description}</span>
+                        <span className="text-xs text-gray-500 mt-2">
+                          Outputs: {[engine.capabilities.apk && "APK", engine.capabilities.aab && "AAB"].filter(Boolean).join(", ")}
+                          {engine.capabilities.signing ? " · Signed" : " · Unsigned"}
+                          {engine.capabilities.codeShrinking && " · R8"}
+                          {engine.capabilities.splitApks && " · Split APKs"}
+                          {engine.capabilities.buildHooks && " · Plugins"}
+                          {engine.capabilities.nativeBridge && " · Native bridge"}
+                        </span>
+                        {engine.requirements.some((requirement) => !requirement.installed && !requirement.capability) && (
+                          <span className="text-xs text-red-600 mt-1">
+                            Not installed: {engine.requirements.filter((requirement) => !requirement.installed && !requirement.capability).map((requirement) => requirement.name).join(", ")}
+                          </span>
+                        )}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </RadioGroup>
             </CardContent>
           </Card>
 
@@ -253,21 +508,67 @@ export default function SigningBuild() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="p-4 bg-green-50 rounded-lg mb-4">
-                <p className="text-sm text-green-800">
-                  <strong>Automatic Keystore Generation:</strong> We'll automatically create a secure keystore for your app.
-                  Just provide the details below and we'll handle the technical setup.
-                </p>
-              </div>
+              {projectKeystore ? (
+                <div className="p-4 bg-green-50 rounded-lg mb-4 flex items-start">
+                  <ShieldCheck className="h-5 w-5 text-green-600 mr-3 mt-0.5" />
+                  <div className="flex-1 space-y-3">
+                    <p className="text-sm text-green-800">
+                      <strong>Project Key:</strong> {projectKeystore.keyAlias} ({projectKeystore.storeType.toUpperCase()}, {projectKeystore.source}
+                      {projectKeystore.createdAt ? ` ${new Date(projectKeystore.createdAt).toLocaleDateString()}` : ''}).
+                      Every build is signed with this key so new versions install as updates. Enter the passwords for this keystore below.
+                    </p>
+                    <KeystoreDetails keystore={projectKeystore} />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => exportKeystoreMutation.mutate()}
+                      disabled={!keystorePassword || exportKeystoreMutation.isPending}
+                    >
+                      <Key className="h-4 w-4 mr-2" />
+                      Download Keystore
+                    </Button>
+                    <p className="text-xs text-green-700">
+                      Build downloads never include the keystore. Keep this copy safe: whoever holds it can sign updates of the app.
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <div className="p-4 bg-green-50 rounded-lg mb-4 space-y-3">
+                  <p className="text-sm text-green-800">
+                    <strong>Automatic Keystore Generation:</strong> We'll create a secure keystore for your app on the first build
+                    and sign every later build with the same key. Just provide the details below.
+                  </p>
+                  <p className="text-sm text-green-800">
+                    Already published this app? Upload its existing JKS or PKCS12 keystore instead, using the key name and passwords below.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="file"
+                      accept=".jks,.keystore,.p12,.pfx"
+                      onChange={(e) => setKeystoreFile(e.target.files?.[0] || null)}
+                      className="bg-white"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleKeystoreUpload}
+                      disabled={!keystoreFile || uploadKeystoreMutation.isPending}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload Keystore
+                    </Button>
+                  </div>
+                </div>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="key-alias">App Key Name *</Label>
                   <Input
                     id="key-alias"
-                    value={keyAlias}
+                    value={projectKeystore?.keyAlias ?? keyAlias}
                     onChange={(e) => setKeyAlias(e.target.value)}
                     placeholder="myapp-key"
+                    disabled={!!projectKeystore}
                   />
                 </div>
                 <div>
@@ -277,7 +578,7 @@ export default function SigningBuild() {
                     type="password"
                     value={keystorePassword}
                     onChange={(e) => setKeystorePassword(e.target.value)}
-                    placeholder="Create a secure password"
+                    placeholder={signingConfig?.hasKeystorePassword ? "Saved - leave blank to keep it" : "Create a secure password"}
                   />
                 </div>
                 <div>
@@ -287,86 +588,92 @@ export default function SigningBuild() {
                     type="password"
                     value={keyPassword}
                     onChange={(e) => setKeyPassword(e.target.value)}
-                    placeholder="Create a secure password"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="developer-name">Developer Name *</Label>
-                  <Input
-                    id="developer-name"
-                    value={developerName}
-                    onChange={(e) => setDeveloperName(e.target.value)}
-                    placeholder="Your name or company"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="organization-name">Organization Name</Label>
-                  <Input
-                    id="organization-name"
-                    value={organizationName}
-                    onChange={(e) => setOrganizationName(e.target.value)}
-                    placeholder="Your organization"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="city">City</Label>
-                  <Input
-                    id="city"
-                    value={city}
-                    onChange={(e) => setCity(e.target.value)}
-                    placeholder="Your city"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="state">State/Province</Label>
-                  <Input
-                    id="state"
-                    value={state}
-                    onChange={(e) => setState(e.target.value)}
-                    placeholder="Your state"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="country">Country</Label>
-                  <Input
-                    id="country"
-                    value={country}
-                    onChange={(e) => setCountry(e.target.value)}
-                    placeholder="US"
+                    placeholder={signingConfig?.hasKeyPassword ? "Saved - leave blank to keep it" : "Create a secure password"}
                   />
                 </div>
+                {!projectKeystore && (
+                  <>
+                    <div>
+                      <Label htmlFor="developer-name">Developer Name *</Label>
+                      <Input
+                        id="developer-name"
+                        value={developerName}
+                        onChange={(e) => setDeveloperName(e.target.value)}
+                        placeholder="Your name or company"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="organization-name">Organization Name</Label>
+                      <Input
+                        id="organization-name"
+                        value={organizationName}
+                        onChange={(e) => setOrganizationName(e.target.value)}
+                        placeholder="Your organization"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="city">City</Label>
+                      <Input
+                        id="city"
+                        value={city}
+                        onChange={(e) => setCity(e.target.value)}
+                        placeholder="Your city"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="state">State/Province</Label>
+                      <Input
+                        id="state"
+                        value={state}
+                        onChange={(e) => setState(e.target.value)}
+                        placeholder="Your state"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="country">Country</Label>
+                      <Input
+                        id="country"
+                        value={country}
+                        onChange={(e) => setCountry(e.target.value)}
+                        placeholder="US"
+                      />
+                    </div>
+                  </>
+                )}
               </div>
               
-              <div className="mt-4">
-                <Label htmlFor="keystore-validity">Keystore Validity Period</Label>
-                <RadioGroup value={keystoreValidity.toString()} onValueChange={(value) => setKeystoreValidity(parseInt(value))}>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="30" id="30-days" />
-                    <Label htmlFor="30-days">30 days (Testing)</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="365" id="1-year" />
-                    <Label htmlFor="1-year">1 year</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="3650" id="10-years" />
-                    <Label htmlFor="10-years">10 years</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="10000" id="27-years" />
-                    <Label htmlFor="27-years">27 years (Recommended)</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="36500" id="100-years" />
-                    <Label htmlFor="100-years">100 years</Label>
-                  </div>
-                </RadioGroup>
-              </div>
+              {!projectKeystore && (
+                <div className="mt-4">
+                  <Label htmlFor="keystore-validity">Keystore Validity Period</Label>
+                  <RadioGroup value={keystoreValidity.toString()} onValueChange={(value) => setKeystoreValidity(parseInt(value))}>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="30" id="30-days" />
+                      <Label htmlFor="30-days">30 days (Testing)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="365" id="1-year" />
+                      <Label htmlFor="1-year">1 year</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="3650" id="10-years" />
+                      <Label htmlFor="10-years">10 years</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="10000" id="27-years" />
+                      <Label htmlFor="27-years">27 years (Recommended)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="36500" id="100-years" />
+                      <Label htmlFor="100-years">100 years</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              )}
               
               <div className="p-4 bg-blue-50 rounded-lg">
                 <p className="text-sm text-blue-800">
                   <strong>Security Note:</strong> Your keystore will be automatically generated and stored securely. 
-                  Keep your passwords safe - you'll need them for future app updates.
+                  Passwords are stored encrypted and are never shown again, so keep them safe - you'll need them for future app updates.
                 </p>
               </div>
             </CardContent>
@@ -382,7 +689,8 @@ export default function SigningBuild() {
                 <Checkbox
                   id="optimization"
                   checked={enableOptimization}
-                  onCheckedChange={setEnableOptimization}
+                  onCheckedChange={(checked) => setEnableOptimization(checked === true)}
+                  disabled={!supportsCodeShrinking}
                 />
                 <Label htmlFor="optimization" className="text-sm">
                   Enable code optimization (recommended)
@@ -392,12 +700,49 @@ export default function SigningBuild() {
                 <Checkbox
                   id="obfuscation"
                   checked={enableObfuscation}
-                  onCheckedChange={setEnableObfuscation}
+                  onCheckedChange={(checked) => setEnableObfuscation(checked === true)}
+                  disabled={!supportsCodeShrinking}
                 />
                 <Label htmlFor="obfuscation" className="text-sm">
                   Enable code obfuscation
                 </Label>
               </div>
+              {supportsCodeShrinking ? (
+                <p className="text-xs text-gray-500">
+                  Optimization runs R8 and removes unused resources; obfuscation renames classes and
+                  keeps a mapping.txt with the build for deobfuscating crash reports.
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  The selected build engine does not run R8, so these options are ignored.
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label className="text-sm">Extra ProGuard rules</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="file"
+                    accept=".pro,.txt"
+                    onChange={(e) => handleProguardRulesUpload(e.target.files?.[0])}
+                    disabled={!supportsCodeShrinking || updateProguardRulesMutation.isPending}
+                    className="bg-white"
+                  />
+                  {project?.proguardRules && (
+                    <Button
+                      variant="outline"
+                      onClick={() => updateProguardRulesMutation.mutate(null)}
+                      disabled={updateProguardRulesMutation.isPending}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {project?.proguardRules
+                    ? `Using uploaded rules (${project.proguardRules.split("\n").length} lines), appended to proguard-rules.pro.`
+                    : "Upload a proguard-rules.pro to keep classes your web content calls through JavaScript interfaces."}
+                </p>
+              </div>
             </CardContent>
           </Card>
 
@@ -421,10 +766,26 @@ export default function SigningBuild() {
                       Current step: {buildStep}
                     </div>
                   )}
+                  {currentBuild && (
+                    <div className="flex justify-end">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => cancelBuildMutation.mutate(currentBuild.id)}
+                        disabled={cancelBuildMutation.isPending || buildStep === 'Cancelling'}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Cancel Build
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
           )}
+
+          {/* Build Log */}
+          {currentBuild && <BuildLogViewer buildId={currentBuild.id} />}
         </div>
 
         {/* Action Buttons */}
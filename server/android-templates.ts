@@ -0,0 +1,456 @@
+// Template sets the engines generate their projects from. The built-in set in
+// android-template/ can be overridden file by file, first by a server-wide
+// set and then by a set uploaded for a project:
+//
+//   project/   Gradle project (Gradle engine, exports, template engine)
+//   cordova/   files laid over a `cordova create` project (config.xml)
+//   capacitor/ package.json and capacitor.config.json of a Capacitor project
+//   web/       index.html for apps without one of their own, offline.html and
+//              error.html shown when pages fail to load, and the scripts added
+//              to the assets: webandro.js, the native bridge SDK, and
+//              webandro-downloads.js for apps with file downloads
+//
+// Text files are rendered with template-renderer; paths may use variables too
+// (java/{{packagePath}}/MainActivity.java). A text file that renders empty is
+// skipped. Other files are copied unchanged.
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { bridgeCapabilities } from '@shared/schema';
+import type { BuildConfig } from './builder-engine';
+import type { FallbackPageKind } from './fallback-pages';
+import { compileTemplate, TemplateError, type TemplateValueType } from './template-renderer';
+import { DEFAULT_SDK_LEVELS, resolveToolchain, type ResolvedToolchain } from './android-toolchain';
+import { readEntryContent, readZip, ZipFormatError } from './zip-archive';
+
+export const templateSets = ['project', 'cordova', 'capacitor', 'web'] as const;
+export type TemplateSetName = typeof templateSets[number];
+
+export type TemplateSource = 'builtin' | 'server' | 'project';
+
+export interface TemplateFile {
+  // Relative to the template root, starting with the set name
+  path: string;
+  source: TemplateSource;
+}
+
+// Everything a template can refer to
+export interface TemplateVariables {
+  appName: string;
+  packageName: string;
+  // packageName as a directory path
+  packagePath: string;
+  versionCode: number;
+  versionName: string;
+  websiteUrl: string | null;
+  // scheme://host of websiteUrl
+  websiteOrigin: string | null;
+  // What MainActivity loads: the website, or index.html from the assets
+  startUrl: string;
+  hasWebFiles: boolean;
+  webFiles: string[];
+  minSdkVersion: number;
+  targetSdkVersion: number;
+  compileSdkVersion: number;
+  buildToolsVersion: string;
+  agpVersion: string;
+  usesNamespace: boolean;
+  enableMinify: boolean;
+  enableOptimization: boolean;
+  enableObfuscation: boolean;
+  proguardRules: string;
+  // Release builds are signed with keystore.properties when it exists
+  keystoreProperties: boolean;
+  // Native bridge: on when any capability is enabled, with one switch per capability
+  bridge: boolean;
+  bridgeCapabilities: string[];
+  bridgeShare: boolean;
+  bridgeToast: boolean;
+  bridgeVibrate: boolean;
+  bridgeClipboard: boolean;
+  bridgeDeviceInfo: boolean;
+  bridgeAppVersion: boolean;
+  bridgeOpenExternal: boolean;
+  // File inputs open the system picker; with cameraCapture the camera is offered too
+  fileUploads: boolean;
+  cameraCapture: boolean;
+  // Links to files and blob:/data: downloads are saved to Downloads
+  fileDownloads: boolean;
+  // MainActivity asks for permissions at runtime (camera capture or downloads)
+  runtimePermissions: boolean;
+  // Hosts links may load in the WebView: the website's host and the
+  // navigation policy's; "*.example.com" also matches subdomains
+  inAppHosts: string[];
+  // Other hosts open in Custom Tabs rather than the system browser
+  customTabs: boolean;
+}
+
+export const templateVariableTypes: Record<keyof TemplateVariables, TemplateValueType> = {
+  appName: 'string',
+  packageName: 'string',
+  packagePath: 'string',
+  versionCode: 'number',
+  versionName: 'string',
+  websiteUrl: 'string',
+  websiteOrigin: 'string',
+  startUrl: 'string',
+  hasWebFiles: 'boolean',
+  webFiles: 'list',
+  minSdkVersion: 'number',
+  targetSdkVersion: 'number',
+  compileSdkVersion: 'number',
+  buildToolsVersion: 'string',
+  agpVersion: 'string',
+  usesNamespace: 'boolean',
+  enableMinify: 'boolean',
+  enableOptimization: 'boolean',
+  enableObfuscation: 'boolean',
+  proguardRules: 'string',
+  keystoreProperties: 'boolean',
+  bridge: 'boolean',
+  bridgeCapabilities: 'list',
+  bridgeShare: 'boolean',
+  bridgeToast: 'boolean',
+  bridgeVibrate: 'boolean',
+  bridgeClipboard: 'boolean',
+  bridgeDeviceInfo: 'boolean',
+  bridgeAppVersion: 'boolean',
+  bridgeOpenExternal: 'boolean',
+  fileUploads: 'boolean',
+  cameraCapture: 'boolean',
+  fileDownloads: 'boolean',
+  runtimePermissions: 'boolean',
+  inAppHosts: 'list',
+  customTabs: 'boolean'
+};
+
+// Raised for uploaded template sets that cannot be used; every problem is listed
+export class TemplateSetError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid template set: ${problems.join('; ')}`);
+    this.name = 'TemplateSetError';
+  }
+}
+
+const ASSET_START_PAGE = 'file:///android_asset/index.html';
+
+// Limits for uploaded template sets; the upload itself is capped at 5 MB
+// compressed, which deflate can turn into gigabytes
+const MAX_TEMPLATE_SET_FILES = 500;
+const MAX_TEMPLATE_SET_SIZE = 20 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = ['.xml', '.html', '.htm', '.css', '.js', '.json', '.java', '.kt', '.gradle', '.properties', '.pro', '.txt'];
+
+const builtinDir = path.join(process.cwd(), 'android-template');
+const overridesDir = process.env.TEMPLATES_DIR || path.join(process.cwd(), 'templates');
+
+function overlayDir(projectId?: number): string {
+  return projectId === undefined
+    ? path.join(overridesDir, 'server')
+    : path.join(overridesDir, 'projects', String(projectId));
+}
+
+function isTextFile(filePath: string): boolean {
+  return TEXT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+// "*.example.com" for example.com or www.example.com; IP addresses match exactly
+function siteHostPattern(host: string): string {
+  if (/^[\d.]+$/.test(host) || host.startsWith('[')) return host;
+  return `*.${host.replace(/^www\./, '')}`;
+}
+
+export function createTemplateVariables(config: BuildConfig, options: { toolchain?: ResolvedToolchain; keystoreProperties?: boolean } = {}): TemplateVariables {
+  const toolchain = options.toolchain ?? resolveToolchain({
+    minSdkVersion: config.minSdkVersion ?? DEFAULT_SDK_LEVELS.minSdkVersion,
+    targetSdkVersion: config.targetSdkVersion ?? DEFAULT_SDK_LEVELS.targetSdkVersion
+  });
+  const webFiles = (config.files ?? []).map(file => file.name);
+  const websiteUrl = config.websiteUrl || null;
+  let websiteOrigin: string | null = null;
+  let websiteHost: string | null = null;
+  if (websiteUrl) {
+    try {
+      websiteOrigin = new URL(websiteUrl).origin;
+      websiteHost = new URL(websiteUrl).hostname;
+    } catch {
+      websiteOrigin = null;
+    }
+  }
+  // The website's whole site stays in the app, so redirects such as
+  // example.com -> www.example.com or to a subdomain don't leave it
+  const inAppHosts = new Set([...(websiteHost ? [siteHostPattern(websiteHost)] : []), ...(config.navigationPolicy?.inAppHosts ?? [])]);
+  const bridge = new Set(config.bridgeCapabilities ?? []);
+  const cameraCapture = config.fileUploads !== false && !!config.cameraCapture;
+
+  return {
+    appName: config.appName,
+    packageName: config.packageName,
+    packagePath: config.packageName.replace(/\./g, '/'),
+    versionCode: config.versionCode,
+    versionName: config.versionName,
+    websiteUrl,
+    websiteOrigin,
+    // Uploaded files win over the website, as they always have
+    startUrl: webFiles.length || !websiteUrl ? ASSET_START_PAGE : websiteUrl,
+    hasWebFiles: webFiles.length > 0,
+    webFiles,
+    minSdkVersion: toolchain.minSdkVersion,
+    targetSdkVersion: toolchain.targetSdkVersion,
+    compileSdkVersion: toolchain.profile.compileSdkVersion,
+    buildToolsVersion: toolchain.profile.buildToolsVersion,
+    agpVersion: toolchain.profile.agpVersion,
+    usesNamespace: toolchain.profile.usesNamespace,
+    enableMinify: !!(config.enableOptimization || config.enableObfuscation),
+    enableOptimization: !!config.enableOptimization,
+    enableObfuscation: !!config.enableObfuscation,
+    proguardRules: config.proguardRules?.trim() ?? '',
+    keystoreProperties: !!options.keystoreProperties,
+    bridge: bridge.size > 0,
+    bridgeCapabilities: bridgeCapabilities.filter(capability => bridge.has(capability)),
+    bridgeShare: bridge.has('share'),
+    bridgeToast: bridge.has('toast'),
+    bridgeVibrate: bridge.has('vibrate'),
+    bridgeClipboard: bridge.has('clipboard'),
+    bridgeDeviceInfo: bridge.has('deviceInfo'),
+    bridgeAppVersion: bridge.has('appVersion'),
+    bridgeOpenExternal: bridge.has('openExternal'),
+    fileUploads: config.fileUploads !== false,
+    cameraCapture,
+    fileDownloads: !!config.fileDownloads,
+    runtimePermissions: cameraCapture || !!config.fileDownloads,
+    inAppHosts: Array.from(inAppHosts),
+    customTabs: config.navigationPolicy?.externalLinks === 'customTabs'
+  };
+}
+
+async function listFiles(root: string, dir = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relative = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(root, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * Files of every template set as the project's builds see them; a server or
+ * project file replaces the built-in file with the same path.
+ */
+export async function listTemplateFiles(projectId?: number): Promise<TemplateFile[]> {
+  const layers: Array<{ source: TemplateSource; dir: string }> = [
+    { source: 'builtin', dir: builtinDir },
+    { source: 'server', dir: overlayDir() }
+  ];
+  if (projectId !== undefined) {
+    layers.push({ source: 'project', dir: overlayDir(projectId) });
+  }
+
+  const files = new Map<string, TemplateFile>();
+  for (const layer of layers) {
+    for (const file of await listFiles(layer.dir)) {
+      if (templateSets.some(set => file.startsWith(`${set}/`))) {
+        files.set(file, { path: file, source: layer.source });
+      }
+    }
+  }
+  return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Only the layer the file comes from is needed to read it
+function resolveTemplateFile(file: TemplateFile, projectId?: number): string {
+  const dir = file.source === 'builtin' ? builtinDir : file.source === 'server' ? overlayDir() : overlayDir(projectId);
+  return path.join(dir, file.path);
+}
+
+// Paths are rendered without escaping; the file name picks the escaper for contents
+function compilePath(relativePath: string, name: string) {
+  return compileTemplate(relativePath, { name, variables: templateVariableTypes, escape: 'raw' });
+}
+
+function compileContent(source: string, name: string) {
+  return compileTemplate(source, { name, variables: templateVariableTypes });
+}
+
+/**
+ * Writes one template set into outDir, rendering paths and text files with
+ * the variables.
+ */
+export async function renderTemplateSet(set: TemplateSetName, variables: TemplateVariables, outDir: string, projectId?: number): Promise<void> {
+  const files = (await listTemplateFiles(projectId)).filter(file => file.path.startsWith(`${set}/`));
+
+  for (const file of files) {
+    const relative = file.path.slice(set.length + 1);
+    const outputPath = path.join(outDir, compilePath(relative, file.path).render({ ...variables }));
+    if (!path.resolve(outputPath).startsWith(path.resolve(outDir) + path.sep)) {
+      throw new Error(`Template ${file.path} renders to a path outside the project`);
+    }
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+    const sourcePath = resolveTemplateFile(file, projectId);
+    if (isTextFile(file.path)) {
+      // A text template that renders to nothing, like a class wrapped in
+      // {{#if}}, is left out of the project
+      const content = compileContent(await fs.readFile(sourcePath, 'utf8'), file.path).render({ ...variables });
+      if (content.trim()) {
+        await fs.writeFile(outputPath, content);
+      }
+    } else {
+      await fs.copyFile(sourcePath, outputPath);
+    }
+  }
+}
+
+async function renderWebFile(name: string, variables: TemplateVariables, projectId?: number): Promise<string> {
+  const file = (await listTemplateFiles(projectId)).find(candidate => candidate.path === `web/${name}`);
+  if (!file) {
+    throw new Error(`The template set has no web/${name}`);
+  }
+  return compileContent(await fs.readFile(resolveTemplateFile(file, projectId), 'utf8'), file.path).render({ ...variables });
+}
+
+// index.html for apps whose web files do not include one
+export async function renderStartPage(variables: TemplateVariables, projectId?: number): Promise<string> {
+  return renderWebFile('index.html', variables, projectId);
+}
+
+// webandro.js, the native bridge SDK, for the capabilities in the variables
+export async function renderBridgeSdk(variables: TemplateVariables, projectId?: number): Promise<string> {
+  return renderWebFile('webandro.js', variables, projectId);
+}
+
+// The template set's offline.html or error.html, as used without an upload
+export async function renderFallbackPage(kind: FallbackPageKind, variables: TemplateVariables, projectId?: number): Promise<string> {
+  return renderWebFile(`${kind}.html`, variables, projectId);
+}
+
+// TypeScript declarations of the SDK, for web apps that are type-checked
+export async function readBridgeSdkTypes(projectId?: number): Promise<string> {
+  const file = (await listTemplateFiles(projectId)).find(candidate => candidate.path === 'web/webandro.d.ts');
+  if (!file) {
+    throw new Error('The template set has no web/webandro.d.ts');
+  }
+  return fs.readFile(resolveTemplateFile(file, projectId), 'utf8');
+}
+
+/**
+ * Adds the files MainActivity loads from the assets: the offline and error
+ * pages (the project's uploads, else the template set's), webandro.js when
+ * the bridge is enabled and webandro-downloads.js with file downloads. A web
+ * file of the same name is kept, so apps can ship their own.
+ */
+export async function writeAppAssets(assetsDir: string, variables: TemplateVariables, config: BuildConfig): Promise<void> {
+  const assets: Array<{ name: string; template: string; content?: Buffer }> = [
+    { name: 'webandro-offline.html', template: 'offline.html', content: config.fallbackPages?.offline },
+    { name: 'webandro-error.html', template: 'error.html', content: config.fallbackPages?.error },
+    ...(variables.bridge ? [{ name: 'webandro.js', template: 'webandro.js' }] : []),
+    ...(variables.fileDownloads ? [{ name: 'webandro-downloads.js', template: 'webandro-downloads.js' }] : [])
+  ];
+  for (const asset of assets) {
+    if (config.files?.some(file => file.name === asset.name)) continue;
+    await fs.writeFile(path.join(assetsDir, asset.name), asset.content ?? await renderWebFile(asset.template, variables, config.projectId));
+  }
+}
+
+/**
+ * Checks an uploaded template zip and makes it the server's (or a project's)
+ * template set, replacing the previous upload. A single top-level folder
+ * around the set directories is ignored.
+ */
+export async function installTemplateSet(archive: Buffer, projectId?: number): Promise<TemplateFile[]> {
+  let entries;
+  try {
+    entries = readZip(archive).entries.filter(entry => !entry.name.endsWith('/'));
+  } catch (error) {
+    if (error instanceof ZipFormatError) throw new TemplateSetError([`Not a zip file: ${error.message}`]);
+    throw error;
+  }
+  if (!entries.length) {
+    throw new TemplateSetError(['The archive is empty']);
+  }
+  if (entries.length > MAX_TEMPLATE_SET_FILES) {
+    throw new TemplateSetError([`The archive has ${entries.length} files; template sets are limited to ${MAX_TEMPLATE_SET_FILES}`]);
+  }
+
+  const topLevel = new Set(entries.map(entry => entry.name.split('/')[0]));
+  const [wrapper] = Array.from(topLevel);
+  const stripWrapper = topLevel.size === 1 && !templateSets.includes(wrapper as TemplateSetName);
+
+  const problems: string[] = [];
+  const files: Array<{ path: string; content: Buffer }> = [];
+  let totalSize = 0;
+  for (const entry of entries) {
+    const name = stripWrapper ? entry.name.slice(wrapper.length + 1) : entry.name;
+    const segments = name.split('/');
+    if (name.includes('\\') || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+      problems.push(`${entry.name}: invalid path`);
+      continue;
+    }
+    if (!templateSets.includes(segments[0] as TemplateSetName) || segments.length < 2) {
+      problems.push(`${entry.name}: not inside one of ${templateSets.map(set => `${set}/`).join(', ')}`);
+      continue;
+    }
+
+    // Sizes are checked before inflating; readEntryContent never inflates
+    // past the declared size
+    totalSize += entry.uncompressedSize;
+    if (totalSize > MAX_TEMPLATE_SET_SIZE) {
+      throw new TemplateSetError([`The archive unpacks to more than ${MAX_TEMPLATE_SET_SIZE / 1024 / 1024} MB; template sets are limited to that size`]);
+    }
+    let content: Buffer;
+    try {
+      content = readEntryContent(entry);
+    } catch (error) {
+      if (!(error instanceof ZipFormatError)) throw error;
+      problems.push(error.message);
+      continue;
+    }
+
+    try {
+      compilePath(name.slice(segments[0].length + 1), name);
+      if (isTextFile(name)) compileContent(content.toString('utf8'), name);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      problems.push(error.message);
+      continue;
+    }
+    files.push({ path: name, content });
+  }
+  if (problems.length) {
+    throw new TemplateSetError(problems);
+  }
+
+  // Written next to the current set and swapped in, so builds never see half an upload
+  const targetDir = overlayDir(projectId);
+  const stagingDir = `${targetDir}.${nanoid()}`;
+  try {
+    for (const file of files) {
+      await fs.mkdir(path.dirname(path.join(stagingDir, file.path)), { recursive: true });
+      await fs.writeFile(path.join(stagingDir, file.path), file.content);
+    }
+    await fs.rm(targetDir, { recursive: true, force: true });
+    await fs.rename(stagingDir, targetDir);
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+
+  return listTemplateFiles(projectId);
+}
+
+// Falls back to the server-wide (or built-in) set
+export async function removeTemplateSet(projectId?: number): Promise<void> {
+  await fs.rm(overlayDir(projectId), { recursive: true, force: true });
+}
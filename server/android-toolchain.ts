@@ -0,0 +1,81 @@
+// Android Gradle Plugin, Gradle and build-tools combinations the Gradle
+// engine generates projects for. Each AGP release compiles against API levels
+// up to a limit and needs a minimum Gradle version and JDK (see the AGP
+// release notes); the oldest profile that covers the target SDK is used.
+
+export interface ToolchainProfile {
+  agpVersion: string;
+  gradleVersion: string;
+  buildToolsVersion: string;
+  // Highest API level this AGP release supports; projects compile against it
+  compileSdkVersion: number;
+  jdkVersion: number;
+  // AGP 8 takes the package from android.namespace and rejects it in the manifest
+  usesNamespace: boolean;
+}
+
+export const toolchainProfiles: ToolchainProfile[] = [
+  { agpVersion: '7.4.2', gradleVersion: '7.5', buildToolsVersion: '33.0.1', compileSdkVersion: 33, jdkVersion: 11, usesNamespace: false },
+  { agpVersion: '8.1.4', gradleVersion: '8.0', buildToolsVersion: '34.0.0', compileSdkVersion: 34, jdkVersion: 17, usesNamespace: true },
+  { agpVersion: '8.7.3', gradleVersion: '8.9', buildToolsVersion: '35.0.0', compileSdkVersion: 35, jdkVersion: 17, usesNamespace: true }
+];
+
+// Lowest minSdk the generated project's AndroidX dependencies support
+export const MIN_SUPPORTED_SDK = 21;
+// Android 14 and later refuse to install apps that target an older API level
+export const MIN_INSTALLABLE_TARGET_SDK = 23;
+
+// Same defaults as the projects table
+export const DEFAULT_SDK_LEVELS: SdkLevels = { minSdkVersion: 21, targetSdkVersion: 34 };
+
+export interface SdkLevels {
+  minSdkVersion: number;
+  targetSdkVersion: number;
+}
+
+export interface ResolvedToolchain extends SdkLevels {
+  profile: ToolchainProfile;
+}
+
+export class ToolchainValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Unsupported SDK levels: ${problems.join('; ')}`);
+    this.name = 'ToolchainValidationError';
+  }
+}
+
+/**
+ * Lists what makes the SDK levels impossible to build; empty when a toolchain
+ * profile can build them.
+ */
+export function validateSdkLevels({ minSdkVersion, targetSdkVersion }: SdkLevels): string[] {
+  const problems: string[] = [];
+  const highest = toolchainProfiles[toolchainProfiles.length - 1].compileSdkVersion;
+
+  if (!Number.isInteger(minSdkVersion) || !Number.isInteger(targetSdkVersion)) {
+    return ['SDK levels must be whole API levels'];
+  }
+  if (minSdkVersion < MIN_SUPPORTED_SDK) {
+    problems.push(`minSdkVersion ${minSdkVersion} is below the lowest supported API level ${MIN_SUPPORTED_SDK}`);
+  }
+  if (targetSdkVersion < minSdkVersion) {
+    problems.push(`targetSdkVersion ${targetSdkVersion} is lower than minSdkVersion ${minSdkVersion}`);
+  }
+  if (targetSdkVersion < MIN_INSTALLABLE_TARGET_SDK) {
+    problems.push(`targetSdkVersion ${targetSdkVersion} cannot be installed on Android 14 and later (needs ${MIN_INSTALLABLE_TARGET_SDK} or higher)`);
+  }
+  if (targetSdkVersion > highest) {
+    problems.push(`targetSdkVersion ${targetSdkVersion} is newer than the highest supported API level ${highest}`);
+  }
+  return problems;
+}
+
+export function resolveToolchain(levels: SdkLevels): ResolvedToolchain {
+  const problems = validateSdkLevels(levels);
+  if (problems.length) {
+    throw new ToolchainValidationError(problems);
+  }
+
+  const profile = toolchainProfiles.find(candidate => candidate.compileSdkVersion >= levels.targetSdkVersion)!;
+  return { ...levels, profile };
+}
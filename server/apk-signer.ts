@@ -0,0 +1,684 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { readSigningKey, type SigningKey } from './keystore-reader';
+import {
+  decodeDer, encodeContext, encodeInteger, encodeNull, encodeOctetString, encodeOid, encodeSequence, encodeSet,
+  isContextTag, readOctetString, readOid, ASN1_SET, type Asn1Node
+} from './asn1';
+import {
+  createEntry, entryAlignment, readEntryContent, readZip, writeZip, ZipFormatError, type ZipEntry, type ZipLayout
+} from './zip-archive';
+
+// APK signing with the v1 (JAR), v2 and v3 schemes, as apksigner does it:
+// https://source.android.com/docs/security/features/apksigning
+
+export type ApkSignatureScheme = 'v1' | 'v2' | 'v3';
+
+export interface ApkSigningOptions {
+  keystorePath: string;
+  keyAlias: string;
+  storePassword: string;
+  keyPassword: string;
+}
+
+export interface ApkVerification {
+  schemes: ApkSignatureScheme[];
+  // DER signing certificate shared by every scheme
+  certificate: Buffer;
+}
+
+// Raised when an APK's signatures or alignment do not check out
+export class ApkSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApkSignatureError';
+  }
+}
+
+const SIGNING_BLOCK_MAGIC = Buffer.from('APK Sig Block 42', 'ascii');
+const V2_BLOCK_ID = 0x7109871a;
+const V3_BLOCK_ID = 0xf05368c0;
+// v2 attribute listing the newer schemes, so stripping the v3 block is detected
+const STRIPPING_PROTECTION_ATTRIBUTE_ID = 0xbeeff00d;
+const V3_MIN_SDK = 28;
+const MAX_SDK = 0x7fffffff;
+const CHUNK_SIZE = 1024 * 1024;
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  messageDigest: '1.2.840.113549.1.9.4',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  dsaWithSha256: '2.16.840.1.101.3.4.3.2'
+};
+
+const JAR_DIGESTS: Record<string, string> = {
+  '1.3.14.3.2.26': 'sha1',
+  '2.16.840.1.101.3.4.2.1': 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512'
+};
+
+interface SignatureAlgorithm {
+  id: number;
+  digest: 'sha256' | 'sha512';
+}
+
+// v2/v3 signature algorithm ids we can produce and check
+const SIGNATURE_ALGORITHMS: Record<number, SignatureAlgorithm> = {
+  0x0103: { id: 0x0103, digest: 'sha256' }, // RSASSA-PKCS1-v1_5 with SHA2-256
+  0x0104: { id: 0x0104, digest: 'sha512' }, // RSASSA-PKCS1-v1_5 with SHA2-512
+  0x0201: { id: 0x0201, digest: 'sha256' }, // ECDSA with SHA2-256
+  0x0202: { id: 0x0202, digest: 'sha512' }, // ECDSA with SHA2-512
+  0x0301: { id: 0x0301, digest: 'sha256' } // DSA with SHA2-256
+};
+
+// Files of an existing JAR signature, replaced when signing
+const JAR_SIGNATURE_FILE = /^META-INF\/(MANIFEST\.MF|[^/]+\.(SF|RSA|DSA|EC)|SIG-[^/]+)$/i;
+
+/**
+ * Signs an APK with the v1, v2 and v3 schemes. Existing signatures are
+ * replaced and the archive is zip-aligned before the v2/v3 digests are taken.
+ */
+export function signApk(apk: Buffer, key: SigningKey): Buffer {
+  const algorithm = signatureAlgorithmFor(key.privateKey);
+  const entries = readZipOrThrow(apk).entries.filter(entry => !JAR_SIGNATURE_FILE.test(entry.name));
+
+  const aligned = writeZip([...entries, ...createJarSignature(entries, key, '2, 3')], { align: true });
+  return addSigningBlock(aligned, key, algorithm);
+}
+
+export function verifyApk(apk: Buffer): ApkVerification {
+  const layout = readZipOrThrow(apk);
+  const schemes: ApkSignatureScheme[] = [];
+  const certificates: Buffer[] = [];
+
+  layout.entries.forEach((entry, index) => {
+    if (layout.dataOffsets[index] % entryAlignment(entry) !== 0) {
+      throw new ApkSignatureError(`APK is not zip-aligned: ${entry.name}`);
+    }
+  });
+
+  const signingBlock = findSigningBlock(apk, layout);
+  if (signingBlock) {
+    const v3 = signingBlock.pairs.get(V3_BLOCK_ID);
+    const v2 = signingBlock.pairs.get(V2_BLOCK_ID);
+    const digests = new ContentDigests(apk, layout, signingBlock.offset);
+    if (v3) {
+      certificates.push(verifySchemeBlock(v3, 'v3', digests));
+      schemes.push('v3');
+    }
+    if (v2) {
+      certificates.push(verifySchemeBlock(v2, 'v2', digests, !!v3));
+      schemes.push('v2');
+    }
+  }
+
+  const jarCertificate = verifyJarSignature(layout.entries, schemes);
+  if (jarCertificate) {
+    certificates.push(jarCertificate);
+    schemes.push('v1');
+  }
+
+  if (!certificates.length) {
+    throw new ApkSignatureError('APK is not signed');
+  }
+  if (certificates.some(certificate => !certificate.equals(certificates[0]))) {
+    throw new ApkSignatureError('APK signature schemes use different certificates');
+  }
+
+  return { schemes: schemes.sort(), certificate: certificates[0] };
+}
+
+/**
+ * Signs the APK at `inputPath` with the given keystore key and writes it to
+ * `outputPath`. The written file is read back and verified, so a returned
+ * result means the APK on disk is aligned and correctly signed.
+ */
+export async function signApkFile(inputPath: string, outputPath: string, options: ApkSigningOptions): Promise<ApkVerification> {
+  const key = readSigningKey(await fs.readFile(options.keystorePath), options.keyAlias, options.storePassword, options.keyPassword);
+  await fs.writeFile(outputPath, signApk(await fs.readFile(inputPath), key));
+
+  const verification = verifyApk(await fs.readFile(outputPath));
+  if (!verification.certificate.equals(key.certificates[0])) {
+    throw new ApkSignatureError('Signed APK does not carry the project certificate');
+  }
+  return verification;
+}
+
+/**
+ * Signs an App Bundle as jarsigner does for Play uploads: a JAR signature
+ * only, since bundles carry no APK Signing Block. Existing signatures are
+ * replaced.
+ */
+export function signBundle(bundle: Buffer, key: SigningKey): Buffer {
+  const entries = readZipOrThrow(bundle).entries.filter(entry => !JAR_SIGNATURE_FILE.test(entry.name));
+  return writeZip([...entries, ...createJarSignature(entries, key, null)]);
+}
+
+export function verifyBundle(bundle: Buffer): ApkVerification {
+  const certificate = verifyJarSignature(readZipOrThrow(bundle).entries, []);
+  if (!certificate) {
+    throw new ApkSignatureError('App Bundle is not signed');
+  }
+  return { schemes: ['v1'], certificate };
+}
+
+// Like signApkFile, for App Bundles
+export async function signBundleFile(inputPath: string, outputPath: string, options: ApkSigningOptions): Promise<ApkVerification> {
+  const key = readSigningKey(await fs.readFile(options.keystorePath), options.keyAlias, options.storePassword, options.keyPassword);
+  await fs.writeFile(outputPath, signBundle(await fs.readFile(inputPath), key));
+
+  const verification = verifyBundle(await fs.readFile(outputPath));
+  if (!verification.certificate.equals(key.certificates[0])) {
+    throw new ApkSignatureError('Signed App Bundle does not carry the project certificate');
+  }
+  return verification;
+}
+
+function readZipOrThrow(apk: Buffer): ZipLayout {
+  try {
+    return readZip(apk);
+  } catch (error) {
+    if (error instanceof ZipFormatError) {
+      throw new ApkSignatureError(`APK is not a valid ZIP archive: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// apksigner's choice: SHA2-512 only for keys larger than SHA2-256 can do justice to
+function signatureAlgorithmFor(privateKey: crypto.KeyObject): SignatureAlgorithm {
+  const details = privateKey.asymmetricKeyDetails;
+  switch (privateKey.asymmetricKeyType) {
+    case 'rsa':
+      return SIGNATURE_ALGORITHMS[(details?.modulusLength ?? 0) <= 3072 ? 0x0103 : 0x0104];
+    case 'ec':
+      return SIGNATURE_ALGORITHMS[details?.namedCurve === 'prime256v1' ? 0x0201 : 0x0202];
+    case 'dsa':
+      return SIGNATURE_ALGORITHMS[0x0301];
+    default:
+      throw new ApkSignatureError(`Unsupported signing key type ${privateKey.asymmetricKeyType}`);
+  }
+}
+
+// v1 (JAR) signature
+
+const CRLF = '\r\n';
+
+// Manifest lines are limited to 72 bytes; longer ones continue after a space
+function manifestAttribute(name: string, value: string): string {
+  const line = Buffer.from(`${name}: ${value}`, 'utf8');
+  const parts = [line.subarray(0, 70).toString('latin1')];
+  for (let offset = 70; offset < line.length; offset += 69) {
+    parts.push(' ' + line.subarray(offset, offset + 69).toString('latin1'));
+  }
+  return parts.join(CRLF) + CRLF;
+}
+
+function base64Digest(algorithm: string, data: Buffer | string): string {
+  return crypto.createHash(algorithm).update(typeof data === 'string' ? Buffer.from(data, 'latin1') : data).digest('base64');
+}
+
+// apkSchemes lists the APK signature schemes added after this one, e.g. "2, 3"
+function createJarSignature(entries: ZipEntry[], key: SigningKey, apkSchemes: string | null): ZipEntry[] {
+  const files = entries.filter(entry => !entry.name.endsWith('/')).sort((a, b) => a.name < b.name ? -1 : 1);
+
+  let manifest = manifestAttribute('Manifest-Version', '1.0') + manifestAttribute('Created-By', '1.0 (Android)') + CRLF;
+  let signatureFile = '';
+  for (const entry of files) {
+    const section = manifestAttribute('Name', entry.name) +
+      manifestAttribute('SHA-256-Digest', base64Digest('sha256', readEntryContent(entry))) + CRLF;
+    manifest += section;
+    signatureFile += manifestAttribute('Name', entry.name) + manifestAttribute('SHA-256-Digest', base64Digest('sha256', section)) + CRLF;
+  }
+
+  signatureFile = manifestAttribute('Signature-Version', '1.0') +
+    manifestAttribute('Created-By', '1.0 (Android)') +
+    manifestAttribute('SHA-256-Digest-Manifest', base64Digest('sha256', manifest)) +
+    (apkSchemes ? manifestAttribute('X-Android-APK-Signed', apkSchemes) : '') + CRLF + signatureFile;
+
+  const signatureFileBytes = Buffer.from(signatureFile, 'latin1');
+  const keyType = key.privateKey.asymmetricKeyType;
+  const extension = keyType === 'ec' ? 'EC' : keyType === 'dsa' ? 'DSA' : 'RSA';
+
+  return [
+    createEntry('META-INF/MANIFEST.MF', Buffer.from(manifest, 'latin1')),
+    createEntry('META-INF/CERT.SF', signatureFileBytes),
+    createEntry(`META-INF/CERT.${extension}`, createPkcs7Signature(signatureFileBytes, key))
+  ];
+}
+
+// Locates serialNumber and issuer inside a certificate's TBSCertificate
+function certificateIdentity(certificate: Buffer): { serialNumber: Asn1Node; issuer: Asn1Node } {
+  const tbs = decodeDer(certificate).children[0];
+  const first = isContextTag(tbs.children[0], 0) ? 1 : 0;
+  return { serialNumber: tbs.children[first], issuer: tbs.children[first + 2] };
+}
+
+// Detached PKCS#7 SignedData over the .SF file, without signed attributes
+function createPkcs7Signature(content: Buffer, key: SigningKey): Buffer {
+  const keyType = key.privateKey.asymmetricKeyType;
+  const signatureAlgorithm = keyType === 'rsa'
+    ? encodeSequence(encodeOid(OID.rsaEncryption), encodeNull())
+    : encodeSequence(encodeOid(keyType === 'ec' ? OID.ecdsaWithSha256 : OID.dsaWithSha256));
+  const digestAlgorithm = encodeSequence(encodeOid(OID.sha256), encodeNull());
+  const { serialNumber, issuer } = certificateIdentity(key.certificates[0]);
+
+  const signerInfo = encodeSequence(
+    encodeInteger(1),
+    encodeSequence(issuer.raw, serialNumber.raw),
+    digestAlgorithm,
+    signatureAlgorithm,
+    encodeOctetString(crypto.sign('sha256', content, key.privateKey))
+  );
+
+  const signedData = encodeSequence(
+    encodeInteger(1),
+    encodeSet(digestAlgorithm),
+    encodeSequence(encodeOid(OID.data)),
+    encodeContext(0, ...key.certificates),
+    encodeSet(signerInfo)
+  );
+
+  return encodeSequence(encodeOid(OID.signedData), encodeContext(0, signedData));
+}
+
+function parseManifest(content: Buffer): Map<string, string>[] {
+  const sections: Map<string, string>[] = [];
+  const text = content.toString('latin1');
+  let start = 0;
+
+  while (start < text.length) {
+    const match = /\r?\n\r?\n|\r\r/.exec(text.slice(start));
+    const end = match ? start + match.index + match[0].length : text.length;
+    const lines = text.slice(start, end).split(/\r?\n|\r/);
+
+    const attributes = new Map<string, string>();
+    let previous: string | undefined;
+    for (const line of lines) {
+      if (line.startsWith(' ') && previous) {
+        attributes.set(previous, attributes.get(previous) + line.slice(1));
+      } else if (line.includes(': ')) {
+        previous = line.slice(0, line.indexOf(': '));
+        attributes.set(previous, line.slice(line.indexOf(': ') + 2));
+      }
+    }
+    // Values were read byte-wise; names may hold UTF-8
+    attributes.forEach((value, name) => attributes.set(name, Buffer.from(value, 'latin1').toString('utf8')));
+
+    sections.push(attributes);
+    start = end;
+  }
+
+  return sections;
+}
+
+// Finds "<algorithm>-<suffix>" among the attributes, e.g. SHA-256-Digest
+function findDigest(attributes: Map<string, string>, suffix: string): { algorithm: string; value: string } | undefined {
+  const names: Record<string, string> = { 'SHA1': 'sha1', 'SHA-1': 'sha1', 'SHA-256': 'sha256', 'SHA-384': 'sha384', 'SHA-512': 'sha512' };
+  for (const [name, algorithm] of Object.entries(names)) {
+    const value = attributes.get(`${name}-${suffix}`);
+    if (value) return { algorithm, value };
+  }
+  return undefined;
+}
+
+function verifyPkcs7Signature(signatureBlock: Buffer, content: Buffer): Buffer {
+  const contentInfo = decodeDer(signatureBlock);
+  if (readOid(contentInfo.children[0]) !== OID.signedData) {
+    throw new ApkSignatureError('JAR signature block is not PKCS#7 SignedData');
+  }
+
+  const signedData = contentInfo.children[1].children[0].children;
+  const certificates = signedData.find(node => isContextTag(node, 0))?.children.map(node => node.raw) ?? [];
+  const signerInfos = signedData[signedData.length - 1];
+  const signerInfo = signerInfos.children[0];
+  if (signerInfos.tag !== ASN1_SET || !signerInfo) {
+    throw new ApkSignatureError('JAR signature block has no signer');
+  }
+
+  const [, signerId, digestAlgorithm, ...rest] = signerInfo.children;
+  const signedAttributes = isContextTag(rest[0], 0) ? rest.shift() : undefined;
+  const signature = readOctetString(rest[1]);
+  const digest = JAR_DIGESTS[readOid(digestAlgorithm.children[0])];
+  if (!digest) {
+    throw new ApkSignatureError('JAR signature uses an unsupported digest');
+  }
+
+  const certificate = certificates.find(candidate => {
+    const { serialNumber, issuer } = certificateIdentity(candidate);
+    return signerId.children[0]?.raw.equals(issuer.raw) && signerId.children[1]?.raw.equals(serialNumber.raw);
+  });
+  if (!certificate) {
+    throw new ApkSignatureError('JAR signature block does not contain the signer certificate');
+  }
+
+  let signedContent = content;
+  if (signedAttributes) {
+    // Signed attributes are signed as a SET, and must carry the content digest
+    const messageDigest = signedAttributes.children.find(attribute => readOid(attribute.children[0]) === OID.messageDigest);
+    const expected = crypto.createHash(digest).update(content).digest();
+    if (!messageDigest || !readOctetString(messageDigest.children[1].children[0]).equals(expected)) {
+      throw new ApkSignatureError('JAR signature does not match the signature file');
+    }
+    signedContent = Buffer.concat([Buffer.from([ASN1_SET]), signedAttributes.raw.subarray(1)]);
+  }
+
+  const publicKey = new crypto.X509Certificate(certificate).publicKey;
+  if (!crypto.verify(digest, signedContent, publicKey, signature)) {
+    throw new ApkSignatureError('JAR signature is invalid');
+  }
+  return certificate;
+}
+
+// Returns the signer certificate, or undefined for APKs without a JAR signature
+function verifyJarSignature(entries: ZipEntry[], otherSchemes: ApkSignatureScheme[]): Buffer | undefined {
+  const signatureBlockEntry = entries.find(entry => /^META-INF\/[^/]+\.(RSA|DSA|EC)$/i.test(entry.name));
+  if (!signatureBlockEntry) return undefined;
+
+  const baseName = signatureBlockEntry.name.replace(/\.[^.]+$/, '');
+  const signatureFileEntry = entries.find(entry => entry.name.toUpperCase() === `${baseName}.SF`.toUpperCase());
+  const manifestEntry = entries.find(entry => entry.name === 'META-INF/MANIFEST.MF');
+  if (!signatureFileEntry || !manifestEntry) {
+    throw new ApkSignatureError('JAR signature is incomplete');
+  }
+
+  const signatureFile = readEntryContent(signatureFileEntry);
+  let certificate: Buffer;
+  try {
+    certificate = verifyPkcs7Signature(readEntryContent(signatureBlockEntry), signatureFile);
+  } catch (error) {
+    if (error instanceof ApkSignatureError) throw error;
+    throw new ApkSignatureError('JAR signature block is malformed');
+  }
+
+  const manifestBytes = readEntryContent(manifestEntry);
+  const [signatureMain] = parseManifest(signatureFile);
+  const manifestDigest = findDigest(signatureMain, 'Digest-Manifest');
+  if (!manifestDigest || base64Digest(manifestDigest.algorithm, manifestBytes) !== manifestDigest.value) {
+    throw new ApkSignatureError('JAR signature does not match META-INF/MANIFEST.MF');
+  }
+
+  // A v1 signature that names newer schemes must not be the only one left
+  const claimedSchemes = (signatureMain.get('X-Android-APK-Signed') || '').split(',').map(id => `v${id.trim()}`);
+  for (const scheme of ['v2', 'v3'] as ApkSignatureScheme[]) {
+    if (claimedSchemes.includes(scheme) && !otherSchemes.includes(scheme)) {
+      throw new ApkSignatureError(`APK was signed with the ${scheme} scheme but that signature has been removed`);
+    }
+  }
+
+  const digests = new Map<string, { algorithm: string; value: string }>();
+  for (const section of parseManifest(manifestBytes).slice(1)) {
+    const name = section.get('Name');
+    const digest = findDigest(section, 'Digest');
+    if (name && digest) digests.set(name, digest);
+  }
+
+  for (const entry of entries) {
+    if (entry.name.endsWith('/') || JAR_SIGNATURE_FILE.test(entry.name)) continue;
+    const digest = digests.get(entry.name);
+    if (!digest) {
+      throw new ApkSignatureError(`${entry.name} is not covered by the JAR signature`);
+    }
+    if (base64Digest(digest.algorithm, readEntryContent(entry)) !== digest.value) {
+      throw new ApkSignatureError(`${entry.name} was modified after signing`);
+    }
+    digests.delete(entry.name);
+  }
+  if (digests.size) {
+    throw new ApkSignatureError(`JAR signature lists missing entries: ${Array.from(digests.keys()).join(', ')}`);
+  }
+
+  return certificate;
+}
+
+// v2/v3 signatures (APK Signing Block)
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function uint64(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+}
+
+function lengthPrefixed(...parts: Buffer[]): Buffer {
+  const value = Buffer.concat(parts);
+  return Buffer.concat([uint32(value.length), value]);
+}
+
+function lengthPrefixedSequence(items: Buffer[]): Buffer {
+  return lengthPrefixed(...items.map(item => lengthPrefixed(item)));
+}
+
+function readLengthPrefixedSequence(data: Buffer): Buffer[] {
+  const items: Buffer[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    if (offset + 4 > data.length) throw new ApkSignatureError('Truncated APK Signing Block');
+    const length = data.readUInt32LE(offset);
+    if (offset + 4 + length > data.length) throw new ApkSignatureError('Truncated APK Signing Block');
+    items.push(data.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return items;
+}
+
+// Reads the fields of a structure made of uint32 values and length-prefixed fields
+class BlockReader {
+  private offset = 0;
+
+  constructor(private data: Buffer) {}
+
+  uint32(): number {
+    if (this.offset + 4 > this.data.length) throw new ApkSignatureError('Truncated APK Signing Block');
+    const value = this.data.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bytes(): Buffer {
+    const length = this.uint32();
+    if (this.offset + length > this.data.length) throw new ApkSignatureError('Truncated APK Signing Block');
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  sequence(): Buffer[] {
+    return readLengthPrefixedSequence(this.bytes());
+  }
+}
+
+// Digest of the 1MB-chunked ZIP sections that v2 and v3 signatures cover
+function chunkedDigest(algorithm: string, sections: Buffer[]): Buffer {
+  const chunkDigests: Buffer[] = [];
+  for (const section of sections) {
+    for (let offset = 0; offset < section.length; offset += CHUNK_SIZE) {
+      const chunk = section.subarray(offset, offset + CHUNK_SIZE);
+      chunkDigests.push(crypto.createHash(algorithm).update(Buffer.from([0xa5])).update(uint32(chunk.length)).update(chunk).digest());
+    }
+  }
+  return crypto.createHash(algorithm)
+    .update(Buffer.from([0x5a]))
+    .update(uint32(chunkDigests.length))
+    .update(Buffer.concat(chunkDigests))
+    .digest();
+}
+
+class ContentDigests {
+  private cache = new Map<string, Buffer>();
+  private sections: Buffer[];
+
+  // The end record is digested as if the central directory started where the signing block does
+  constructor(apk: Buffer, layout: ZipLayout, signingBlockOffset: number) {
+    const eocd = Buffer.from(apk.subarray(layout.eocdOffset));
+    eocd.writeUInt32LE(signingBlockOffset, 16);
+    this.sections = [
+      apk.subarray(0, signingBlockOffset),
+      apk.subarray(layout.centralDirectoryOffset, layout.eocdOffset),
+      eocd
+    ];
+  }
+
+  get(algorithm: string): Buffer {
+    let digest = this.cache.get(algorithm);
+    if (!digest) {
+      digest = chunkedDigest(algorithm, this.sections);
+      this.cache.set(algorithm, digest);
+    }
+    return digest;
+  }
+}
+
+function createSigner(scheme: 'v2' | 'v3', key: SigningKey, algorithm: SignatureAlgorithm, digest: Buffer): Buffer {
+  const digests = lengthPrefixedSequence([Buffer.concat([uint32(algorithm.id), lengthPrefixed(digest)])]);
+  const certificates = lengthPrefixedSequence(key.certificates);
+  const publicKey = crypto.createPublicKey(key.privateKey).export({ type: 'spki', format: 'der' });
+
+  const signedData = scheme === 'v2'
+    ? Buffer.concat([digests, certificates, lengthPrefixedSequence([
+      Buffer.concat([uint32(STRIPPING_PROTECTION_ATTRIBUTE_ID), uint32(3)])
+    ])])
+    : Buffer.concat([digests, certificates, uint32(V3_MIN_SDK), uint32(MAX_SDK), lengthPrefixedSequence([])]);
+
+  const signature = crypto.sign(algorithm.digest, signedData, key.privateKey);
+  const signatures = lengthPrefixedSequence([Buffer.concat([uint32(algorithm.id), lengthPrefixed(signature)])]);
+
+  return scheme === 'v2'
+    ? Buffer.concat([lengthPrefixed(signedData), signatures, lengthPrefixed(publicKey)])
+    : Buffer.concat([lengthPrefixed(signedData), uint32(V3_MIN_SDK), uint32(MAX_SDK), signatures, lengthPrefixed(publicKey)]);
+}
+
+function addSigningBlock(apk: Buffer, key: SigningKey, algorithm: SignatureAlgorithm): Buffer {
+  const layout = readZip(apk);
+  const digest = new ContentDigests(apk, layout, layout.centralDirectoryOffset).get(algorithm.digest);
+
+  const pairs = Buffer.concat([V2_BLOCK_ID, V3_BLOCK_ID].map(id => {
+    const value = lengthPrefixedSequence([createSigner(id === V2_BLOCK_ID ? 'v2' : 'v3', key, algorithm, digest)]);
+    return Buffer.concat([uint64(4 + value.length), uint32(id), value]);
+  }));
+  // The size fields count everything but the leading size itself
+  const blockSize = pairs.length + 8 + SIGNING_BLOCK_MAGIC.length;
+  const block = Buffer.concat([uint64(blockSize), pairs, uint64(blockSize), SIGNING_BLOCK_MAGIC]);
+
+  const eocd = Buffer.from(apk.subarray(layout.eocdOffset));
+  eocd.writeUInt32LE(layout.centralDirectoryOffset + block.length, 16);
+  return Buffer.concat([
+    apk.subarray(0, layout.centralDirectoryOffset),
+    block,
+    apk.subarray(layout.centralDirectoryOffset, layout.eocdOffset),
+    eocd
+  ]);
+}
+
+function findSigningBlock(apk: Buffer, layout: ZipLayout): { offset: number; pairs: Map<number, Buffer> } | undefined {
+  const end = layout.centralDirectoryOffset;
+  if (end < 32 || !apk.subarray(end - 16, end).equals(SIGNING_BLOCK_MAGIC)) {
+    return undefined;
+  }
+
+  const blockSize = Number(apk.readBigUInt64LE(end - 24));
+  const offset = end - blockSize - 8;
+  if (offset < 0 || Number(apk.readBigUInt64LE(offset)) !== blockSize) {
+    throw new ApkSignatureError('APK Signing Block is corrupt');
+  }
+
+  const pairs = new Map<number, Buffer>();
+  let position = offset + 8;
+  while (position < end - 24) {
+    const length = Number(apk.readBigUInt64LE(position));
+    if (length < 4 || position + 8 + length > end - 24) {
+      throw new ApkSignatureError('APK Signing Block is corrupt');
+    }
+    pairs.set(apk.readUInt32LE(position + 8), apk.subarray(position + 12, position + 8 + length));
+    position += 8 + length;
+  }
+
+  return { offset, pairs };
+}
+
+// Verifies every signer of a v2/v3 block and returns the first signer's certificate
+function verifySchemeBlock(value: Buffer, scheme: 'v2' | 'v3', digests: ContentDigests, hasV3 = false): Buffer {
+  const signers = new BlockReader(value).sequence();
+  if (!signers.length) {
+    throw new ApkSignatureError(`APK Signature Scheme ${scheme} block has no signers`);
+  }
+
+  const certificates = signers.map(signer => {
+    const reader = new BlockReader(signer);
+    const signedData = reader.bytes();
+    if (scheme === 'v3') {
+      reader.uint32();
+      reader.uint32();
+    }
+    const signatures = reader.sequence().map(entry => {
+      const signatureReader = new BlockReader(entry);
+      return { algorithmId: signatureReader.uint32(), signature: signatureReader.bytes() };
+    });
+    const publicKeyBytes = reader.bytes();
+
+    const supported = signatures.filter(signature => SIGNATURE_ALGORITHMS[signature.algorithmId]);
+    if (!supported.length) {
+      throw new ApkSignatureError(`APK Signature Scheme ${scheme} signer uses no supported algorithm`);
+    }
+
+    const publicKey = crypto.createPublicKey({ key: publicKeyBytes, format: 'der', type: 'spki' });
+    for (const { algorithmId, signature } of supported) {
+      if (!crypto.verify(SIGNATURE_ALGORITHMS[algorithmId].digest, signedData, publicKey, signature)) {
+        throw new ApkSignatureError(`APK Signature Scheme ${scheme} signature is invalid`);
+      }
+    }
+
+    const signedReader = new BlockReader(signedData);
+    const signedDigests = signedReader.sequence().map(entry => {
+      const digestReader = new BlockReader(entry);
+      return { algorithmId: digestReader.uint32(), digest: digestReader.bytes() };
+    });
+    const signerCertificates = signedReader.sequence();
+    if (scheme === 'v3') {
+      signedReader.uint32();
+      signedReader.uint32();
+    }
+    const attributes = signedReader.sequence();
+
+    const signedIds = signedDigests.map(entry => entry.algorithmId).sort();
+    const signatureIds = signatures.map(entry => entry.algorithmId).sort();
+    if (signedIds.join() !== signatureIds.join()) {
+      throw new ApkSignatureError(`APK Signature Scheme ${scheme} digests do not match its signatures`);
+    }
+    for (const { algorithmId, digest } of signedDigests.filter(entry => SIGNATURE_ALGORITHMS[entry.algorithmId])) {
+      if (!digest.equals(digests.get(SIGNATURE_ALGORITHMS[algorithmId].digest))) {
+        throw new ApkSignatureError(`APK contents do not match the ${scheme} signature`);
+      }
+    }
+
+    if (!signerCertificates.length) {
+      throw new ApkSignatureError(`APK Signature Scheme ${scheme} signer has no certificate`);
+    }
+    const certificateKey = new crypto.X509Certificate(signerCertificates[0]).publicKey.export({ type: 'spki', format: 'der' });
+    if (!certificateKey.equals(publicKeyBytes)) {
+      throw new ApkSignatureError(`APK Signature Scheme ${scheme} certificate does not match its public key`);
+    }
+
+    if (scheme === 'v2') {
+      for (const attribute of attributes) {
+        if (attribute.length >= 8 && attribute.readUInt32LE(0) === STRIPPING_PROTECTION_ATTRIBUTE_ID &&
+            attribute.readUInt32LE(4) === 3 && !hasV3) {
+          throw new ApkSignatureError('APK was signed with the v3 scheme but that signature has been removed');
+        }
+      }
+    }
+
+    return signerCertificates[0];
+  });
+
+  return certificates[0];
+}
@@ -0,0 +1,393 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BuildArtifacts } from '@shared/schema';
+import type { BuildLog, BuildResult } from './builder-engine';
+import { verifyApk, verifyBundle, ApkSignatureError, type ApkSignatureScheme } from './apk-signer';
+import { readEntryContent, readZip, ZipFormatError, type ZipEntry } from './zip-archive';
+
+// Structural checks on build outputs, so an archive that merely looks like an
+// APK, AAB or APK set (text manifest, placeholder dex, made-up bundle config)
+// fails the build instead of being delivered.
+
+export interface ApkArtifactReport {
+  sha256: string;
+  size: number;
+  dexFiles: string[];
+  schemes: ApkSignatureScheme[];
+  // DER signing certificate
+  certificate: Buffer;
+}
+
+export interface ApkSetArtifactReport {
+  sha256: string;
+  size: number;
+  apks: string[];
+  // SHA-256 fingerprints of the certificates the contained APKs are signed with
+  certificateSha256s: string[];
+}
+
+export interface AabArtifactReport {
+  sha256: string;
+  size: number;
+  modules: string[];
+  bundletoolVersion: string;
+  // DER certificate of the JAR signature Play checks against the upload key
+  certificate: Buffer;
+}
+
+// The message is safe to show to users
+export class ArtifactVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtifactVerificationError';
+  }
+}
+
+// Resource chunk types from frameworks/base/libs/androidfw/ResourceTypes.h
+const RES_STRING_POOL_TYPE = 0x0001;
+const RES_TABLE_TYPE = 0x0002;
+const RES_XML_TYPE = 0x0003;
+const DEX_HEADER_SIZE = 0x70;
+const DEX_ENDIAN_CONSTANT = 0x12345678;
+
+export interface BuildArtifactOptions {
+  // SHA-256 fingerprint (colon-separated hex) the APK and AAB must be signed with
+  expectedCertificateSha256?: string;
+  log?: BuildLog;
+}
+
+/**
+ * Checks every artifact of a successful build and returns the integrity
+ * details to record for them. Throws ArtifactVerificationError on the first problem.
+ */
+export async function verifyBuildArtifacts(result: BuildResult, options: BuildArtifactOptions = {}): Promise<BuildArtifacts> {
+  if (!result.apkPath && !result.aabPath) {
+    throw new ArtifactVerificationError('The build produced no APK or App Bundle');
+  }
+
+  const artifacts: BuildArtifacts = {};
+  const checkCertificate = (certificateSha256: string, name: string) => {
+    if (options.expectedCertificateSha256 && certificateSha256 !== options.expectedCertificateSha256) {
+      throw new ArtifactVerificationError(`${name} is not signed with the project key (certificate ${certificateSha256})`);
+    }
+  };
+
+  if (result.apkPath) {
+    const apk = await verifyApkArtifact(result.apkPath);
+    const certificateSha256 = new crypto.X509Certificate(apk.certificate).fingerprint256;
+    checkCertificate(certificateSha256, path.basename(result.apkPath));
+    options.log?.info(`Verified ${path.basename(result.apkPath)}: binary manifest, ${apk.dexFiles.join(', ')}, resources.arsc, signature schemes ${apk.schemes.join(', ')}`);
+    artifacts.apk = { sha256: apk.sha256, size: apk.size, signingCertificateSha256: certificateSha256 };
+  }
+
+  if (result.aabPath) {
+    const aab = await verifyAabArtifact(result.aabPath);
+    const certificateSha256 = new crypto.X509Certificate(aab.certificate).fingerprint256;
+    checkCertificate(certificateSha256, path.basename(result.aabPath));
+    options.log?.info(`Verified ${path.basename(result.aabPath)}: modules ${aab.modules.join(', ')}, bundletool ${aab.bundletoolVersion}, JAR signature`);
+    artifacts.aab = { sha256: aab.sha256, size: aab.size, signingCertificateSha256: certificateSha256 };
+  }
+
+  if (result.apksPath) {
+    const apkSet = await verifyApkSetArtifact(result.apksPath);
+    apkSet.certificateSha256s.forEach(certificateSha256 => checkCertificate(certificateSha256, path.basename(result.apksPath!)));
+    options.log?.info(`Verified ${path.basename(result.apksPath)}: ${apkSet.apks.length} signed APKs`);
+    artifacts.apks = { sha256: apkSet.sha256, size: apkSet.size, signingCertificateSha256: apkSet.certificateSha256s[0] };
+  }
+
+  // The mapping file is plain text; it only has to exist and not be empty
+  if (result.mappingPath) {
+    const mapping = await readArtifact(result.mappingPath);
+    if (!mapping.length) {
+      throw new ArtifactVerificationError(`${path.basename(result.mappingPath)} is empty`);
+    }
+    artifacts.mapping = { ...fingerprint(mapping), signingCertificateSha256: null };
+  }
+
+  return artifacts;
+}
+
+export async function verifyApkArtifact(apkPath: string): Promise<ApkArtifactReport> {
+  const name = path.basename(apkPath);
+  const apk = await readArtifact(apkPath);
+  const entries = readArchive(apk, name);
+
+  const manifest = requireEntry(entries, 'AndroidManifest.xml', name);
+  checkBinaryXml(manifest, `${name}: AndroidManifest.xml`);
+
+  const dexEntries = Array.from(entries.values()).filter(entry => /^classes\d*\.dex$/.test(entry.name));
+  if (!dexEntries.length) {
+    throw new ArtifactVerificationError(`${name} contains no classes.dex`);
+  }
+  dexEntries.forEach(entry => checkDex(readContent(entry, name), `${name}: ${entry.name}`));
+
+  checkResourceTable(requireEntry(entries, 'resources.arsc', name), `${name}: resources.arsc`);
+
+  try {
+    const { schemes, certificate } = verifyApk(apk);
+    return { ...fingerprint(apk), dexFiles: dexEntries.map(entry => entry.name), schemes, certificate };
+  } catch (error) {
+    if (error instanceof ApkSignatureError) {
+      throw new ArtifactVerificationError(`${name}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks a bundletool APK set: a table of contents and APKs with binary
+ * manifests and valid signatures. Config splits carry no code, so only the
+ * base split (or a standalone/universal APK) has to contain classes.dex.
+ */
+export async function verifyApkSetArtifact(apksPath: string): Promise<ApkSetArtifactReport> {
+  const name = path.basename(apksPath);
+  const apkSet = await readArtifact(apksPath);
+  const entries = readArchive(apkSet, name);
+
+  parseProtobuf(requireEntry(entries, 'toc.pb', name), `${name}: toc.pb`);
+
+  const apkEntries = Array.from(entries.values()).filter(entry => entry.name.endsWith('.apk'));
+  if (!apkEntries.length) {
+    throw new ArtifactVerificationError(`${name} contains no APKs`);
+  }
+
+  const certificates = new Set<string>();
+  let hasCode = false;
+  for (const entry of apkEntries) {
+    const what = `${name}: ${entry.name}`;
+    const apk = readContent(entry, name);
+    const contents = readArchive(apk, what);
+    checkBinaryXml(requireEntry(contents, 'AndroidManifest.xml', what), `${what}: AndroidManifest.xml`);
+    hasCode = hasCode || contents.has('classes.dex');
+
+    try {
+      certificates.add(new crypto.X509Certificate(verifyApk(apk).certificate).fingerprint256);
+    } catch (error) {
+      if (error instanceof ApkSignatureError) {
+        throw new ArtifactVerificationError(`${what}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+  if (!hasCode) {
+    throw new ArtifactVerificationError(`${name} contains no APK with classes.dex`);
+  }
+
+  return { ...fingerprint(apkSet), apks: apkEntries.map(entry => entry.name), certificateSha256s: Array.from(certificates) };
+}
+
+export async function verifyAabArtifact(aabPath: string): Promise<AabArtifactReport> {
+  const name = path.basename(aabPath);
+  const aab = await readArtifact(aabPath);
+  const entries = readArchive(aab, name);
+
+  const bundleConfig = parseProtobuf(requireEntry(entries, 'BundleConfig.pb', name), `${name}: BundleConfig.pb`);
+  // BundleConfig.bundletool (field 1) is a BundleTool message whose field 2 is the version
+  const bundletool = bundleConfig.get(1)?.[0];
+  if (!bundletool || bundletool.wireType !== WIRE_LENGTH_DELIMITED) {
+    throw new ArtifactVerificationError(`${name}: BundleConfig.pb does not record the bundletool that built it`);
+  }
+  const version = parseProtobuf(bundletool.value as Buffer, `${name}: BundleConfig.pb`).get(2)?.[0];
+  if (!version || version.wireType !== WIRE_LENGTH_DELIMITED) {
+    throw new ArtifactVerificationError(`${name}: BundleConfig.pb has no bundletool version`);
+  }
+
+  // Modules are the top-level directories holding a manifest; "base" is mandatory
+  const modules = Array.from(entries.keys())
+    .filter(entryName => /^[^/]+\/manifest\/AndroidManifest\.xml$/.test(entryName))
+    .map(entryName => entryName.split('/')[0]);
+  if (!modules.includes('base')) {
+    throw new ArtifactVerificationError(`${name} has no base module manifest (base/manifest/AndroidManifest.xml)`);
+  }
+
+  for (const module of modules) {
+    // Bundle manifests are protocol buffers (aapt2's proto XML), not text or binary XML
+    parseProtobuf(requireEntry(entries, `${module}/manifest/AndroidManifest.xml`, name), `${name}: ${module}/manifest/AndroidManifest.xml`);
+    if (entries.has(`${module}/resources.pb`)) {
+      parseProtobuf(requireEntry(entries, `${module}/resources.pb`, name), `${name}: ${module}/resources.pb`);
+    }
+    for (const entry of Array.from(entries.values()).filter(entry => entry.name.startsWith(`${module}/dex/`) && entry.name.endsWith('.dex'))) {
+      checkDex(readContent(entry, name), `${name}: ${entry.name}`);
+    }
+  }
+
+  if (!entries.has('base/resources.pb')) {
+    throw new ArtifactVerificationError(`${name} has no base/resources.pb resource table`);
+  }
+  if (!Array.from(entries.keys()).some(entryName => /^base\/dex\/classes\d*\.dex$/.test(entryName))) {
+    throw new ArtifactVerificationError(`${name} contains no base/dex/classes.dex`);
+  }
+
+  // Play rejects unsigned bundles, and every entry must match the signature
+  let certificate: Buffer;
+  try {
+    certificate = verifyBundle(aab).certificate;
+  } catch (error) {
+    if (error instanceof ApkSignatureError) {
+      throw new ArtifactVerificationError(`${name}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return { ...fingerprint(aab), modules, bundletoolVersion: (version.value as Buffer).toString('utf8'), certificate };
+}
+
+function fingerprint(content: Buffer): { sha256: string; size: number } {
+  return { sha256: crypto.createHash('sha256').update(content).digest('hex'), size: content.length };
+}
+
+async function readArtifact(artifactPath: string): Promise<Buffer> {
+  try {
+    return await fs.readFile(artifactPath);
+  } catch {
+    throw new ArtifactVerificationError(`${path.basename(artifactPath)} was not produced`);
+  }
+}
+
+function readArchive(archive: Buffer, name: string): Map<string, ZipEntry> {
+  try {
+    return new Map(readZip(archive).entries.map(entry => [entry.name, entry]));
+  } catch (error) {
+    if (error instanceof ZipFormatError) {
+      throw new ArtifactVerificationError(`${name} is not a valid ZIP archive: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function readContent(entry: ZipEntry, name: string): Buffer {
+  try {
+    return readEntryContent(entry);
+  } catch {
+    // Corrupt or undecompressable data
+    throw new ArtifactVerificationError(`${name}: ${entry.name} cannot be read`);
+  }
+}
+
+function requireEntry(entries: Map<string, ZipEntry>, entryName: string, name: string): Buffer {
+  const entry = entries.get(entryName);
+  if (!entry) {
+    throw new ArtifactVerificationError(`${name} is missing ${entryName}`);
+  }
+  return readContent(entry, name);
+}
+
+// Every resource chunk starts with type (u16), header size (u16) and total size (u32)
+function checkChunk(content: Buffer, type: number, headerSize: number, what: string): void {
+  if (content.length < 8 || content.readUInt16LE(0) !== type || content.readUInt16LE(2) !== headerSize) {
+    throw new ArtifactVerificationError(`${what} is not a compiled resource file`);
+  }
+  if (content.readUInt32LE(4) !== content.length) {
+    throw new ArtifactVerificationError(`${what} is truncated or has trailing data`);
+  }
+}
+
+function checkBinaryXml(content: Buffer, what: string): void {
+  if (content.subarray(0, 64).toString('utf8').trimStart().startsWith('<')) {
+    throw new ArtifactVerificationError(`${what} is plain-text XML; Android only installs binary (AXML) manifests`);
+  }
+  checkChunk(content, RES_XML_TYPE, 8, what);
+  if (content.length < 16 || content.readUInt16LE(8) !== RES_STRING_POOL_TYPE) {
+    throw new ArtifactVerificationError(`${what} has no string pool`);
+  }
+}
+
+function checkResourceTable(content: Buffer, what: string): void {
+  checkChunk(content, RES_TABLE_TYPE, 12, what);
+  if (content.readUInt32LE(8) < 1) {
+    throw new ArtifactVerificationError(`${what} has no resource package`);
+  }
+}
+
+function adler32(data: Buffer): number {
+  let a = 1;
+  let b = 0;
+  for (let offset = 0; offset < data.length; offset += 3800) {
+    // Reduce often enough that the sums stay exact doubles
+    const end = Math.min(offset + 3800, data.length);
+    for (let i = offset; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function checkDex(content: Buffer, what: string): void {
+  if (content.length < DEX_HEADER_SIZE || !/^dex\n\d{3}\0$/.test(content.subarray(0, 8).toString('latin1'))) {
+    throw new ArtifactVerificationError(`${what} is not a DEX file`);
+  }
+  if (content.readUInt32LE(32) !== content.length) {
+    throw new ArtifactVerificationError(`${what} size does not match its header`);
+  }
+  if (content.readUInt32LE(36) !== DEX_HEADER_SIZE || content.readUInt32LE(40) !== DEX_ENDIAN_CONSTANT) {
+    throw new ArtifactVerificationError(`${what} has an invalid header`);
+  }
+  if (adler32(content.subarray(12)) !== content.readUInt32LE(8)) {
+    throw new ArtifactVerificationError(`${what} checksum does not match its contents`);
+  }
+  if (!crypto.createHash('sha1').update(content.subarray(32)).digest().equals(content.subarray(12, 32))) {
+    throw new ArtifactVerificationError(`${what} signature does not match its contents`);
+  }
+}
+
+// Protocol buffer wire format, enough to check that a file is a well-formed message
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+interface ProtobufField {
+  wireType: number;
+  value: number | Buffer;
+}
+
+function parseProtobuf(content: Buffer, what: string): Map<number, ProtobufField[]> {
+  const fields = new Map<number, ProtobufField[]>();
+  const malformed = () => new ArtifactVerificationError(`${what} is not a valid protocol buffer`);
+  let offset = 0;
+
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; shift < 64; shift += 7) {
+      if (offset >= content.length) throw malformed();
+      const byte = content[offset++];
+      value += (byte & 0x7f) * Math.pow(2, shift);
+      if (!(byte & 0x80)) return value;
+    }
+    throw malformed();
+  };
+
+  if (!content.length) throw malformed();
+  while (offset < content.length) {
+    const key = readVarint();
+    const fieldNumber = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (fieldNumber < 1) throw malformed();
+
+    let value: number | Buffer;
+    if (wireType === WIRE_VARINT) {
+      value = readVarint();
+    } else if (wireType === WIRE_FIXED64 || wireType === WIRE_FIXED32) {
+      const size = wireType === WIRE_FIXED64 ? 8 : 4;
+      if (offset + size > content.length) throw malformed();
+      value = content.subarray(offset, offset + size);
+      offset += size;
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      const length = readVarint();
+      if (offset + length > content.length) throw malformed();
+      value = content.subarray(offset, offset + length);
+      offset += length;
+    } else {
+      throw malformed();
+    }
+
+    fields.set(fieldNumber, [...(fields.get(fieldNumber) || []), { wireType, value }]);
+  }
+
+  return fields;
+}
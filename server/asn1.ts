@@ -0,0 +1,197 @@
+// Minimal DER decoder for the structures found in keystores and certificates.
+// Only definite-length encodings are supported, which is what DER requires.
+
+export const ASN1_INTEGER = 0x02;
+export const ASN1_BIT_STRING = 0x03;
+export const ASN1_OCTET_STRING = 0x04;
+export const ASN1_NULL = 0x05;
+export const ASN1_OID = 0x06;
+export const ASN1_UTF8_STRING = 0x0c;
+export const ASN1_BMP_STRING = 0x1e;
+export const ASN1_SEQUENCE = 0x30;
+export const ASN1_SET = 0x31;
+
+export interface Asn1Node {
+  tag: number;
+  constructed: boolean;
+  // Bytes of the contents, without tag and length
+  value: Buffer;
+  // The complete encoding, including tag and length
+  raw: Buffer;
+  children: Asn1Node[];
+}
+
+export class Asn1Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Asn1Error';
+  }
+}
+
+function decodeAt(buffer: Buffer, offset: number): { node: Asn1Node; end: number } {
+  if (offset + 2 > buffer.length) {
+    throw new Asn1Error('Unexpected end of data');
+  }
+
+  const tag = buffer[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Asn1Error('Multi-byte tags are not supported');
+  }
+
+  let length = buffer[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0) {
+      throw new Asn1Error('Indefinite lengths are not supported');
+    }
+    if (lengthBytes > 4 || offset + 2 + lengthBytes > buffer.length) {
+      throw new Asn1Error('Invalid length');
+    }
+    length = buffer.readUIntBE(offset + 2, lengthBytes);
+    headerLength += lengthBytes;
+  }
+
+  const start = offset + headerLength;
+  const end = start + length;
+  if (end > buffer.length) {
+    throw new Asn1Error('Length exceeds available data');
+  }
+
+  const constructed = (tag & 0x20) !== 0;
+  const value = buffer.subarray(start, end);
+  const node: Asn1Node = {
+    tag,
+    constructed,
+    value,
+    raw: buffer.subarray(offset, end),
+    children: constructed ? decodeAll(value) : []
+  };
+  return { node, end };
+}
+
+function decodeAll(buffer: Buffer): Asn1Node[] {
+  const nodes: Asn1Node[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const { node, end } = decodeAt(buffer, offset);
+    nodes.push(node);
+    offset = end;
+  }
+  return nodes;
+}
+
+export function decodeDer(buffer: Buffer): Asn1Node {
+  const { node, end } = decodeAt(buffer, 0);
+  if (end !== buffer.length) {
+    throw new Asn1Error('Trailing data after DER value');
+  }
+  return node;
+}
+
+export function expectTag(node: Asn1Node | undefined, tag: number, what: string): Asn1Node {
+  if (!node || node.tag !== tag) {
+    throw new Asn1Error(`Expected ${what}`);
+  }
+  return node;
+}
+
+// Context-specific [n] tag, constructed or primitive
+export function isContextTag(node: Asn1Node | undefined, tagNumber: number): boolean {
+  return !!node && (node.tag & 0xc0) === 0x80 && (node.tag & 0x1f) === tagNumber;
+}
+
+export function readOid(node: Asn1Node | undefined): string {
+  const { value } = expectTag(node, ASN1_OID, 'OBJECT IDENTIFIER');
+  const parts = [Math.floor(value[0] / 40), value[0] % 40];
+  let current = 0;
+  for (let i = 1; i < value.length; i++) {
+    const byte = value[i];
+    current = current * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(current);
+      current = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+export function readInteger(node: Asn1Node | undefined): number {
+  const { value } = expectTag(node, ASN1_INTEGER, 'INTEGER');
+  if (value.length > 6) {
+    throw new Asn1Error('INTEGER too large');
+  }
+  return value.readUIntBE(0, value.length);
+}
+
+export function readOctetString(node: Asn1Node | undefined): Buffer {
+  return expectTag(node, ASN1_OCTET_STRING, 'OCTET STRING').value;
+}
+
+export function readBmpString(node: Asn1Node | undefined): string {
+  const { value } = expectTag(node, ASN1_BMP_STRING, 'BMPString');
+  return Buffer.from(value).swap16().toString('utf16le');
+}
+
+// DER encoding
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+export function encodeDer(tag: number, ...contents: Buffer[]): Buffer {
+  const value = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag]), encodeLength(value.length), value]);
+}
+
+export function encodeSequence(...children: Buffer[]): Buffer {
+  return encodeDer(ASN1_SEQUENCE, ...children);
+}
+
+// SET OF values are sorted by their encoding, as DER requires
+export function encodeSet(...children: Buffer[]): Buffer {
+  return encodeDer(ASN1_SET, ...[...children].sort(Buffer.compare));
+}
+
+// Constructed context-specific [n] tag
+export function encodeContext(tagNumber: number, ...children: Buffer[]): Buffer {
+  return encodeDer(0xa0 | tagNumber, ...children);
+}
+
+export function encodeInteger(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  // Keep the value positive
+  if (bytes[0] & 0x80) bytes.unshift(0);
+  return encodeDer(ASN1_INTEGER, Buffer.from(bytes));
+}
+
+export function encodeOid(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(part => parseInt(part));
+  const bytes = [first * 40 + second];
+  for (const part of rest) {
+    const groups = [part & 0x7f];
+    for (let remaining = Math.floor(part / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      groups.unshift(0x80 | (remaining & 0x7f));
+    }
+    bytes.push(...groups);
+  }
+  return encodeDer(ASN1_OID, Buffer.from(bytes));
+}
+
+export function encodeNull(): Buffer {
+  return Buffer.from([ASN1_NULL, 0]);
+}
+
+export function encodeOctetString(value: Buffer): Buffer {
+  return encodeDer(ASN1_OCTET_STRING, value);
+}
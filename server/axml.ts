@@ -0,0 +1,317 @@
+import { encodeStringPool, readChunkHeader, readStringPool, ResourceFormatError, RES_STRING_POOL_TYPE } from './string-pool';
+
+// Binary XML (AXML), the format aapt compiles AndroidManifest.xml and XML
+// resources into. Documents are decoded into an element tree that can be
+// edited and encoded again; the string pool and resource map are rebuilt on
+// every encode.
+
+const RES_XML_TYPE = 0x0003;
+const RES_XML_START_NAMESPACE_TYPE = 0x0100;
+const RES_XML_END_NAMESPACE_TYPE = 0x0101;
+const RES_XML_START_ELEMENT_TYPE = 0x0102;
+const RES_XML_END_ELEMENT_TYPE = 0x0103;
+const RES_XML_CDATA_TYPE = 0x0104;
+const RES_XML_RESOURCE_MAP_TYPE = 0x0180;
+
+const NO_INDEX = 0xffffffff;
+const ATTRIBUTE_SIZE = 20;
+const ID_ATTRIBUTE = 0x010100d0;
+
+export const ANDROID_NAMESPACE = 'http://schemas.android.com/apk/res/android';
+
+// Res_value data types
+export const TYPE_NULL = 0x00;
+export const TYPE_REFERENCE = 0x01;
+export const TYPE_STRING = 0x03;
+export const TYPE_DIMENSION = 0x05;
+export const TYPE_INT_DEC = 0x10;
+export const TYPE_INT_HEX = 0x11;
+export const TYPE_INT_BOOLEAN = 0x12;
+export const TYPE_INT_COLOR_ARGB8 = 0x1c;
+export const TYPE_INT_COLOR_RGB8 = 0x1d;
+export const TYPE_INT_COLOR_ARGB4 = 0x1e;
+export const TYPE_INT_COLOR_RGB4 = 0x1f;
+
+export interface AxmlNamespace {
+  prefix: string;
+  uri: string;
+}
+
+export interface AxmlAttribute {
+  namespace: string | null;
+  name: string;
+  // Framework attribute id (e.g. 0x01010003 for android:name); null for plain attributes
+  resourceId: number | null;
+  rawValue: string | null;
+  type: number;
+  // Ignored for TYPE_STRING, whose value is rawValue
+  data: number;
+}
+
+export interface AxmlElement {
+  kind: 'element';
+  namespace: string | null;
+  name: string;
+  lineNumber: number;
+  // Namespaces declared on this element
+  namespaces: AxmlNamespace[];
+  attributes: AxmlAttribute[];
+  children: AxmlNode[];
+}
+
+export interface AxmlText {
+  kind: 'text';
+  text: string;
+  lineNumber: number;
+}
+
+export type AxmlNode = AxmlElement | AxmlText;
+
+export function isAxml(data: Buffer): boolean {
+  return data.length >= 8 && data.readUInt16LE(0) === RES_XML_TYPE && data.readUInt16LE(2) === 8;
+}
+
+export function decodeAxml(data: Buffer): AxmlElement {
+  if (!isAxml(data)) {
+    throw new ResourceFormatError('Not a binary XML document');
+  }
+
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+  let pendingNamespaces: AxmlNamespace[] = [];
+  const stack: AxmlElement[] = [];
+  let root: AxmlElement | undefined;
+
+  const string = (index: number) => {
+    if (index === NO_INDEX) return null;
+    if (index >= strings.length) throw new ResourceFormatError(`String index ${index} is out of range`);
+    return strings[index];
+  };
+
+  const end = readChunkHeader(data, 0).size;
+  let offset = 8;
+  while (offset < end) {
+    const chunk = readChunkHeader(data, offset);
+    const body = offset + chunk.headerSize;
+    const lineNumber = chunk.headerSize >= 16 ? data.readUInt32LE(offset + 8) : 0;
+
+    switch (chunk.type) {
+      case RES_STRING_POOL_TYPE:
+        strings = readStringPool(data, offset);
+        break;
+      case RES_XML_RESOURCE_MAP_TYPE:
+        resourceIds = [];
+        for (let position = body; position < offset + chunk.size; position += 4) {
+          resourceIds.push(data.readUInt32LE(position));
+        }
+        break;
+      case RES_XML_START_NAMESPACE_TYPE:
+        pendingNamespaces.push({ prefix: string(data.readUInt32LE(body)) ?? '', uri: string(data.readUInt32LE(body + 4)) ?? '' });
+        break;
+      case RES_XML_START_ELEMENT_TYPE: {
+        const attributeStart = data.readUInt16LE(body + 8);
+        const attributeSize = data.readUInt16LE(body + 10);
+        const attributeCount = data.readUInt16LE(body + 12);
+        const element: AxmlElement = {
+          kind: 'element',
+          namespace: string(data.readUInt32LE(body)),
+          name: string(data.readUInt32LE(body + 4)) ?? '',
+          lineNumber,
+          namespaces: pendingNamespaces,
+          attributes: [],
+          children: []
+        };
+        pendingNamespaces = [];
+
+        for (let i = 0; i < attributeCount; i++) {
+          const position = body + attributeStart + i * attributeSize;
+          const nameIndex = data.readUInt32LE(position + 4);
+          const type = data[position + 15];
+          const value = data.readUInt32LE(position + 16);
+          element.attributes.push({
+            namespace: string(data.readUInt32LE(position)),
+            name: string(nameIndex) ?? '',
+            resourceId: nameIndex < resourceIds.length ? resourceIds[nameIndex] : null,
+            rawValue: type === TYPE_STRING ? string(value) : string(data.readUInt32LE(position + 8)),
+            type,
+            data: type === TYPE_STRING ? 0 : value
+          });
+        }
+
+        if (stack.length) {
+          stack[stack.length - 1].children.push(element);
+        } else if (root) {
+          throw new ResourceFormatError('Binary XML has more than one root element');
+        } else {
+          root = element;
+        }
+        stack.push(element);
+        break;
+      }
+      case RES_XML_END_ELEMENT_TYPE:
+        if (!stack.pop()) throw new ResourceFormatError('Unbalanced end element');
+        break;
+      case RES_XML_CDATA_TYPE:
+        stack[stack.length - 1]?.children.push({ kind: 'text', text: string(data.readUInt32LE(body)) ?? '', lineNumber });
+        break;
+      case RES_XML_END_NAMESPACE_TYPE:
+        break;
+      default:
+        // Unknown chunks carry nothing the tree needs
+        break;
+    }
+    offset += chunk.size;
+  }
+
+  if (!root || stack.length) {
+    throw new ResourceFormatError('Binary XML is incomplete');
+  }
+  return root;
+}
+
+// Builds the string pool: attribute names with a resource id come first so
+// their indexes line up with the resource map, as the framework expects
+class StringTable {
+  private indexes = new Map<string, number>();
+  private attributeIndexes = new Map<string, number>();
+  readonly strings: string[] = [];
+  readonly resourceIds: number[] = [];
+
+  constructor(root: AxmlElement) {
+    const attributes = new Map<string, { name: string; resourceId: number }>();
+    walk(root, element => {
+      for (const attribute of element.attributes) {
+        if (attribute.resourceId !== null) {
+          attributes.set(`${attribute.resourceId}:${attribute.name}`, { name: attribute.name, resourceId: attribute.resourceId });
+        }
+      }
+    });
+
+    for (const [key, { name, resourceId }] of Array.from(attributes).sort((a, b) => a[1].resourceId - b[1].resourceId)) {
+      this.attributeIndexes.set(key, this.strings.length);
+      this.strings.push(name);
+      this.resourceIds.push(resourceId);
+    }
+  }
+
+  index(value: string | null): number {
+    if (value === null) return NO_INDEX;
+    let index = this.indexes.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.indexes.set(value, index);
+    }
+    return index;
+  }
+
+  attributeName(attribute: AxmlAttribute): number {
+    return attribute.resourceId === null
+      ? this.index(attribute.name)
+      : this.attributeIndexes.get(`${attribute.resourceId}:${attribute.name}`)!;
+  }
+}
+
+function walk(element: AxmlElement, visit: (element: AxmlElement) => void): void {
+  visit(element);
+  for (const child of element.children) {
+    if (child.kind === 'element') walk(child, visit);
+  }
+}
+
+function nodeHeader(type: number, size: number, lineNumber: number): Buffer {
+  const header = Buffer.alloc(16);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(16, 2);
+  header.writeUInt32LE(size, 4);
+  header.writeUInt32LE(lineNumber, 8);
+  header.writeUInt32LE(NO_INDEX, 12);
+  return header;
+}
+
+function encodeNamespace(type: number, namespace: AxmlNamespace, lineNumber: number, table: StringTable): Buffer {
+  const body = Buffer.alloc(8);
+  body.writeUInt32LE(table.index(namespace.prefix), 0);
+  body.writeUInt32LE(table.index(namespace.uri), 4);
+  return Buffer.concat([nodeHeader(type, 24, lineNumber), body]);
+}
+
+function encodeElement(element: AxmlElement, table: StringTable, parts: Buffer[]): void {
+  for (const namespace of element.namespaces) {
+    parts.push(encodeNamespace(RES_XML_START_NAMESPACE_TYPE, namespace, element.lineNumber, table));
+  }
+
+  // aapt sorts attributes by resource id; plain attributes follow
+  const attributes = [...element.attributes].sort((a, b) => (a.resourceId ?? NO_INDEX) - (b.resourceId ?? NO_INDEX));
+  const special = (find: (attribute: AxmlAttribute) => boolean) => attributes.findIndex(find) + 1;
+
+  const start = Buffer.alloc(20 + attributes.length * ATTRIBUTE_SIZE);
+  start.writeUInt32LE(table.index(element.namespace), 0);
+  start.writeUInt32LE(table.index(element.name), 4);
+  start.writeUInt16LE(20, 8);
+  start.writeUInt16LE(ATTRIBUTE_SIZE, 10);
+  start.writeUInt16LE(attributes.length, 12);
+  start.writeUInt16LE(special(attribute => attribute.resourceId === ID_ATTRIBUTE), 14);
+  start.writeUInt16LE(special(attribute => attribute.namespace === null && attribute.name === 'class'), 16);
+  start.writeUInt16LE(special(attribute => attribute.namespace === null && attribute.name === 'style'), 18);
+
+  attributes.forEach((attribute, i) => {
+    const position = 20 + i * ATTRIBUTE_SIZE;
+    start.writeUInt32LE(table.index(attribute.namespace), position);
+    start.writeUInt32LE(table.attributeName(attribute), position + 4);
+    start.writeUInt32LE(table.index(attribute.rawValue), position + 8);
+    start.writeUInt16LE(8, position + 12);
+    start[position + 15] = attribute.type;
+    start.writeUInt32LE(attribute.type === TYPE_STRING ? table.index(attribute.rawValue ?? '') : attribute.data >>> 0, position + 16);
+  });
+  parts.push(nodeHeader(RES_XML_START_ELEMENT_TYPE, 16 + start.length, element.lineNumber), start);
+
+  for (const child of element.children) {
+    if (child.kind === 'element') {
+      encodeElement(child, table, parts);
+    } else {
+      const body = Buffer.alloc(12);
+      body.writeUInt32LE(table.index(child.text), 0);
+      body.writeUInt16LE(8, 4);
+      body[7] = TYPE_NULL;
+      parts.push(nodeHeader(RES_XML_CDATA_TYPE, 28, child.lineNumber), body);
+    }
+  }
+
+  const end = Buffer.alloc(8);
+  end.writeUInt32LE(table.index(element.namespace), 0);
+  end.writeUInt32LE(table.index(element.name), 4);
+  parts.push(nodeHeader(RES_XML_END_ELEMENT_TYPE, 24, element.lineNumber), end);
+
+  for (const namespace of [...element.namespaces].reverse()) {
+    parts.push(encodeNamespace(RES_XML_END_NAMESPACE_TYPE, namespace, element.lineNumber, table));
+  }
+}
+
+export function encodeAxml(root: AxmlElement): Buffer {
+  const table = new StringTable(root);
+  const nodes: Buffer[] = [];
+  encodeElement(root, table, nodes);
+
+  const resourceMap = Buffer.alloc(8 + table.resourceIds.length * 4);
+  resourceMap.writeUInt16LE(RES_XML_RESOURCE_MAP_TYPE, 0);
+  resourceMap.writeUInt16LE(8, 2);
+  resourceMap.writeUInt32LE(resourceMap.length, 4);
+  table.resourceIds.forEach((id, i) => resourceMap.writeUInt32LE(id, 8 + i * 4));
+
+  const body = Buffer.concat([encodeStringPool(table.strings), resourceMap, ...nodes]);
+  const header = Buffer.alloc(8);
+  header.writeUInt16LE(RES_XML_TYPE, 0);
+  header.writeUInt16LE(8, 2);
+  header.writeUInt32LE(8 + body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+export function findAttribute(element: AxmlElement, resourceId: number): AxmlAttribute | undefined {
+  return element.attributes.find(attribute => attribute.resourceId === resourceId);
+}
+
+export function childElements(element: AxmlElement, name?: string): AxmlElement[] {
+  return element.children.filter((child): child is AxmlElement =>
+    child.kind === 'element' && (name === undefined || child.name === name));
+}
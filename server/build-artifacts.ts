@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { artifactKinds, type ArtifactKind, type ArtifactState, type Build, type PluginArtifactInfo } from '@shared/schema';
+import type { PluginArtifact } from './build-plugins';
+
+// Download-time integrity checks for build artifacts. The checksums are the
+// ones recorded by the worker after the artifacts passed verification.
+
+export class ArtifactUnavailableError extends Error {
+  constructor(message: string, public readonly state: Exclude<ArtifactState, 'available'>) {
+    super(message);
+    this.name = 'ArtifactUnavailableError';
+  }
+}
+
+const artifactLabels: Record<ArtifactKind, string> = { apk: 'APK', aab: 'App Bundle', apks: 'APK set', mapping: 'R8 mapping file' };
+
+export function getArtifactPath(build: Build, kind: ArtifactKind): string | null {
+  switch (kind) {
+    case 'apk': return build.outputPath;
+    case 'aab': return build.aabPath;
+    case 'apks': return build.apksPath;
+    case 'mapping': return build.mappingPath;
+  }
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+// Quick check from file metadata, used when listing a build's artifacts
+function statArtifact(filePath: string | null, info: { size: number }): ArtifactState {
+  if (!filePath || !fs.existsSync(filePath)) return 'missing';
+  return fs.statSync(filePath).size === info.size ? 'available' : 'corrupt';
+}
+
+export function getArtifactStates(build: Build): Partial<Record<ArtifactKind, ArtifactState>> {
+  const states: Partial<Record<ArtifactKind, ArtifactState>> = {};
+  if (build.status !== 'success') return states;
+
+  for (const kind of artifactKinds) {
+    const artifactPath = getArtifactPath(build, kind);
+    const info = build.artifacts?.[kind];
+    if (artifactPath) {
+      states[kind] = info ? statArtifact(artifactPath, info) : 'missing';
+    }
+  }
+  return states;
+}
+
+/**
+ * Returns the path of an artifact once its content matches the recorded
+ * checksum. Artifacts without a recorded checksum cannot be trusted and are
+ * reported as missing.
+ */
+export async function requireArtifact(build: Build, kind: ArtifactKind): Promise<string> {
+  const label = artifactLabels[kind];
+  const filePath = getArtifactPath(build, kind);
+  const info = build.artifacts?.[kind];
+
+  if (!filePath || !info || !fs.existsSync(filePath)) {
+    throw new ArtifactUnavailableError(`The ${label} for build ${build.id} is no longer available`, 'missing');
+  }
+
+  const stats = await fs.promises.stat(filePath);
+  if (stats.size !== info.size || await hashFile(filePath) !== info.sha256) {
+    throw new ArtifactUnavailableError(`The ${label} for build ${build.id} does not match its recorded checksum`, 'corrupt');
+  }
+  return filePath;
+}
+
+// Checksums for the files build plugins attached, recorded with the build
+export async function describePluginArtifacts(artifacts: PluginArtifact[]): Promise<PluginArtifactInfo[]> {
+  return Promise.all(artifacts.map(async (artifact) => ({
+    ...artifact,
+    sha256: await hashFile(artifact.path),
+    size: (await fs.promises.stat(artifact.path)).size
+  })));
+}
+
+export function getPluginArtifactStates(build: Build): Record<string, ArtifactState> {
+  const states: Record<string, ArtifactState> = {};
+  if (build.status !== 'success') return states;
+
+  for (const artifact of build.pluginArtifacts ?? []) {
+    states[artifact.name] = statArtifact(artifact.path, artifact);
+  }
+  return states;
+}
+
+// Like requireArtifact, for a file attached by a build plugin
+export async function requirePluginArtifact(build: Build, name: string): Promise<PluginArtifactInfo> {
+  const artifact = build.pluginArtifacts?.find(candidate => candidate.name === name);
+  if (!artifact || !fs.existsSync(artifact.path)) {
+    throw new ArtifactUnavailableError(`The plugin artifact ${name} for build ${build.id} is no longer available`, 'missing');
+  }
+
+  const stats = await fs.promises.stat(artifact.path);
+  if (stats.size !== artifact.size || await hashFile(artifact.path) !== artifact.sha256) {
+    throw new ArtifactUnavailableError(`The plugin artifact ${name} for build ${build.id} does not match its recorded checksum`, 'corrupt');
+  }
+  return artifact;
+}
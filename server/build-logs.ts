@@ -0,0 +1,110 @@
+import fs from 'fs';
+import { promises as fsp } from 'fs';
+import path from 'path';
+import type { BuildLog, LogStream } from './builder-engine';
+
+export interface BuildLogLine {
+  number: number;
+  text: string;
+}
+
+export interface BuildLogPage {
+  lines: BuildLogLine[];
+  totalLines: number;
+  nextOffset: number;
+}
+
+export interface ReadBuildLogOptions {
+  offset?: number;
+  limit?: number;
+  tail?: number;
+}
+
+const logDir = path.join(process.cwd(), 'build-logs');
+
+export function getBuildLogPath(buildId: number): string {
+  return path.join(logDir, `${buildId}.log`);
+}
+
+/**
+ * Appends one build's toolchain output and status messages to
+ * `build-logs/<id>.log`. Output chunks are split into whole lines before they
+ * are written so every line carries its own timestamp and stream tag.
+ */
+export class BuildLogWriter implements BuildLog {
+  private stream: fs.WriteStream;
+  private partial: Record<LogStream, string> = { stdout: '', stderr: '' };
+  private lineCount = 0;
+
+  constructor(buildId: number, private onLines?: (lines: BuildLogLine[]) => void) {
+    const logPath = getBuildLogPath(buildId);
+    fs.mkdirSync(logDir, { recursive: true });
+    // A re-queued build appends to the log of its interrupted attempt
+    if (fs.existsSync(logPath)) {
+      this.lineCount = fs.readFileSync(logPath, 'utf8').split('\n').length - 1;
+    }
+    this.stream = fs.createWriteStream(logPath, { flags: 'a' });
+  }
+
+  info(message: string): void {
+    this.writeLines('info', message.split(/\r?\n/));
+  }
+
+  output(stream: LogStream, chunk: string): void {
+    const text = this.partial[stream] + chunk;
+    const lines = text.split(/\r?\n/);
+    this.partial[stream] = lines.pop() ?? '';
+    this.writeLines(stream, lines);
+  }
+
+  close(): Promise<void> {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.partial[stream]) {
+        this.writeLines(stream, [this.partial[stream]]);
+        this.partial[stream] = '';
+      }
+    }
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+
+  private writeLines(tag: string, lines: string[]): void {
+    // Late messages, such as a progress write failing after the build ended,
+    // are dropped once the log is closed
+    if (lines.length === 0 || this.stream.writableEnded) return;
+
+    const timestamp = new Date().toISOString();
+    const formatted = lines.map(line => ({
+      number: ++this.lineCount,
+      text: `[${timestamp}] [${tag}] ${line}`
+    }));
+
+    this.stream.write(formatted.map(line => line.text).join('\n') + '\n');
+    this.onLines?.(formatted);
+  }
+}
+
+export async function readBuildLog(buildId: number, options: ReadBuildLogOptions = {}): Promise<BuildLogPage | undefined> {
+  let content: string;
+  try {
+    content = await fsp.readFile(getBuildLogPath(buildId), 'utf8');
+  } catch (error) {
+    return undefined;
+  }
+
+  const allLines = content.split('\n');
+  if (allLines[allLines.length - 1] === '') {
+    allLines.pop();
+  }
+
+  const totalLines = allLines.length;
+  const start = options.tail !== undefined
+    ? Math.max(0, totalLines - options.tail)
+    : Math.min(options.offset ?? 0, totalLines);
+  const end = options.limit !== undefined ? Math.min(totalLines, start + options.limit) : totalLines;
+
+  return {
+    lines: allLines.slice(start, end).map((text, index) => ({ number: start + index + 1, text })),
+    totalLines,
+    nextOffset: end
+  };
+}
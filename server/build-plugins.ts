@@ -0,0 +1,259 @@
+// Build plugins customize Gradle builds without changes to the server. A
+// plugin is a module in plugins/ (or PLUGINS_DIR) whose default export
+// registers hooks around the stages of a build:
+//
+//   before-project-generation   template variables may still be changed
+//   after-manifest              AndroidManifest.xml has been rendered
+//   after-assets                web files and the start page are in place
+//   before-sign                 the unsigned APK or the AAB can be modified
+//   after-artifact              outputs are final; extra files can be attached
+//
+//   export default defineBuildPlugin({
+//     id: 'network-security',
+//     name: 'Network security config',
+//     hooks: { 'after-manifest': async ({ manifestPath }) => { ... } }
+//   });
+//
+// Projects enable plugins by id. Hooks run in the order the project lists
+// them, and a failing hook fails the build.
+
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { BuildConfig, BuildLog } from './builder-engine';
+import type { TemplateVariables } from './android-templates';
+import { throwIfCancelled, BuildCancelledError } from './process-runner';
+
+export const buildHookStages = ['before-project-generation', 'after-manifest', 'after-assets', 'before-sign', 'after-artifact'] as const;
+export type BuildHookStage = typeof buildHookStages[number];
+
+// Plugins are trusted server code, but signing passwords stay out of their reach
+export type PluginBuildConfig = Readonly<Omit<BuildConfig, 'keystorePassword' | 'keyPassword'>>;
+
+export interface BuildHookContext {
+  plugin: string;
+  // The engine's workspace id, also used in artifact file names
+  buildId: string;
+  config: PluginBuildConfig;
+  projectDir: string;
+  // Messages go to the build log, prefixed with the plugin id
+  log: BuildLog;
+  signal?: AbortSignal;
+}
+
+// Final outputs of the build; paths may be rewritten but not replaced
+export interface BuildHookArtifacts {
+  apkPath?: string;
+  aabPath?: string;
+  apksPath?: string;
+  mappingPath?: string;
+}
+
+export interface BuildHookContexts {
+  'before-project-generation': BuildHookContext & { variables: TemplateVariables };
+  'after-manifest': BuildHookContext & { manifestPath: string };
+  'after-assets': BuildHookContext & { assetsDir: string };
+  'before-sign': BuildHookContext & { kind: 'apk' | 'aab'; artifactPath: string };
+  'after-artifact': BuildHookContext & {
+    artifacts: Readonly<BuildHookArtifacts>;
+    // Copies the file next to the build outputs; it is downloaded as `name`
+    addArtifact(name: string, filePath: string): Promise<void>;
+  };
+}
+
+export type BuildHook<S extends BuildHookStage> = (context: BuildHookContexts[S]) => void | Promise<void>;
+
+export interface BuildPlugin {
+  id: string;
+  name: string;
+  description?: string;
+  hooks: { [S in BuildHookStage]?: BuildHook<S> };
+}
+
+export interface BuildPluginInfo {
+  id: string;
+  name: string;
+  description: string;
+  stages: BuildHookStage[];
+}
+
+// A file a plugin attached to a build
+export interface PluginArtifact {
+  plugin: string;
+  name: string;
+  path: string;
+}
+
+export class BuildPluginError extends Error {
+  constructor(message: string, public readonly plugin: string, public readonly stage: BuildHookStage) {
+    super(message);
+    this.name = 'BuildPluginError';
+  }
+}
+
+const PLUGIN_ID = /^[a-z0-9][a-z0-9._-]*$/;
+const ARTIFACT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs'];
+
+// Gives editors the hook context types in plugin modules
+export function defineBuildPlugin(plugin: BuildPlugin): BuildPlugin {
+  return plugin;
+}
+
+function validatePlugin(value: unknown, file: string): BuildPlugin {
+  const plugin = value as BuildPlugin | undefined;
+  if (!plugin || typeof plugin !== 'object') {
+    throw new Error(`${file} has no default export`);
+  }
+  if (typeof plugin.id !== 'string' || !PLUGIN_ID.test(plugin.id)) {
+    throw new Error(`${file}: plugin id must be lowercase letters, digits, ".", "_" or "-"`);
+  }
+  if (typeof plugin.name !== 'string' || !plugin.name) {
+    throw new Error(`${file}: plugin ${plugin.id} has no name`);
+  }
+  const unknownStages = Object.keys(plugin.hooks ?? {}).filter(stage => !buildHookStages.includes(stage as BuildHookStage));
+  if (unknownStages.length) {
+    throw new Error(`${file}: unknown hook stage ${unknownStages.join(', ')} (use ${buildHookStages.join(', ')})`);
+  }
+  for (const [stage, hook] of Object.entries(plugin.hooks ?? {})) {
+    if (typeof hook !== 'function') throw new Error(`${file}: the ${stage} hook is not a function`);
+  }
+  return { ...plugin, hooks: plugin.hooks ?? {} };
+}
+
+export class PluginRegistry {
+  private plugins = new Map<string, BuildPlugin>();
+
+  constructor(private readonly pluginsDir: string) {}
+
+  register(plugin: BuildPlugin): void {
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`Build plugin ${plugin.id} is registered twice`);
+    }
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  /**
+   * Imports every module in the plugins directory. A module that fails to
+   * load is reported and skipped, so one broken plugin does not keep the
+   * server from starting.
+   */
+  async load(): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.pluginsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries.sort()) {
+      if (!MODULE_EXTENSIONS.includes(path.extname(entry)) || entry.endsWith('.d.ts')) continue;
+      try {
+        const module = await import(pathToFileURL(path.join(this.pluginsDir, entry)).href);
+        this.register(validatePlugin(module.default, entry));
+      } catch (error) {
+        console.error(`Failed to load build plugin ${entry}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  has(id: string): boolean {
+    return this.plugins.has(id);
+  }
+
+  // Plugins in the given order; fails for ids that are not installed
+  resolve(ids: string[]): BuildPlugin[] {
+    const missing = ids.filter(id => !this.plugins.has(id));
+    if (missing.length) {
+      throw new Error(`Build plugins not installed: ${missing.join(', ')}`);
+    }
+    return ids.map(id => this.plugins.get(id)!);
+  }
+
+  list(): BuildPluginInfo[] {
+    return Array.from(this.plugins.values()).map(plugin => ({
+      id: plugin.id,
+      name: plugin.name,
+      description: plugin.description ?? '',
+      stages: buildHookStages.filter(stage => plugin.hooks[stage])
+    }));
+  }
+}
+
+export const pluginRegistry = new PluginRegistry(process.env.PLUGINS_DIR || path.join(process.cwd(), 'plugins'));
+
+type StageDetails<S extends BuildHookStage> = Omit<BuildHookContexts[S], keyof BuildHookContext | 'addArtifact'>;
+
+export interface BuildHookRunnerOptions {
+  buildId: string;
+  config: BuildConfig;
+  projectDir: string;
+  // Where attached artifacts are copied to
+  artifactDir: string;
+  log?: BuildLog;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the enabled plugins' hooks for one build and keeps the artifacts they
+ * attach. Every hook's outcome and duration is written to the build log.
+ */
+export class BuildHookRunner {
+  readonly artifacts: PluginArtifact[] = [];
+  private readonly config: PluginBuildConfig;
+
+  constructor(private readonly plugins: BuildPlugin[], private readonly options: BuildHookRunnerOptions) {
+    const { keystorePassword, keyPassword, ...config } = options.config;
+    this.config = config;
+  }
+
+  async run<S extends BuildHookStage>(stage: S, details: StageDetails<S>): Promise<void> {
+    const { log, signal } = this.options;
+
+    for (const plugin of this.plugins) {
+      const hook = plugin.hooks[stage] as BuildHook<S> | undefined;
+      if (!hook) continue;
+
+      const context = {
+        ...details,
+        plugin: plugin.id,
+        buildId: this.options.buildId,
+        config: this.config,
+        projectDir: this.options.projectDir,
+        log: {
+          info: (message: string) => log?.info(`[${plugin.id}] ${message}`),
+          output: (stream, chunk) => log?.output(stream, chunk)
+        },
+        signal,
+        ...(stage === 'after-artifact' ? { addArtifact: (name: string, filePath: string) => this.addArtifact(plugin.id, name, filePath) } : {})
+      } as BuildHookContexts[S];
+
+      const started = Date.now();
+      try {
+        await hook(context);
+      } catch (error) {
+        if (error instanceof BuildCancelledError || signal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        log?.info(`Plugin ${plugin.id}: ${stage} failed after ${Date.now() - started} ms: ${message}`);
+        throw new BuildPluginError(`Build plugin ${plugin.id} failed in ${stage}: ${message}`, plugin.id, stage);
+      }
+      log?.info(`Plugin ${plugin.id}: ${stage} finished in ${Date.now() - started} ms`);
+      throwIfCancelled(signal);
+    }
+  }
+
+  private async addArtifact(plugin: string, name: string, filePath: string): Promise<void> {
+    if (!ARTIFACT_NAME.test(name)) {
+      throw new Error(`"${name}" is not a valid artifact name`);
+    }
+    if (this.artifacts.some(artifact => artifact.name === name)) {
+      throw new Error(`An artifact named ${name} is already attached`);
+    }
+
+    const artifactPath = path.join(this.options.artifactDir, `${this.options.buildId}-plugin-${name}`);
+    await fs.copyFile(filePath, artifactPath);
+    this.artifacts.push({ plugin, name, path: artifactPath });
+    this.options.log?.info(`Plugin ${plugin} attached ${name}`);
+  }
+}
@@ -0,0 +1,166 @@
+import type { Build } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type BuildProcessor = (build: Build, signal: AbortSignal) => Promise<void>;
+
+export interface BuildQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+}
+
+/**
+ * Runs queued builds with bounded concurrency. The queue keeps no state of its
+ * own beyond the builds currently executing in this process: `builds.status`
+ * in storage is the source of truth, so queued jobs survive a restart.
+ */
+export class BuildQueue {
+  private running = new Map<number, AbortController>();
+  private draining = false;
+  private drainRequested = false;
+
+  constructor(
+    private storage: IStorage,
+    private processor: BuildProcessor,
+    private options: BuildQueueOptions
+  ) {}
+
+  get concurrency(): number {
+    return this.options.concurrency;
+  }
+
+  enqueue(build: Build): void {
+    if (build.status !== 'queued') {
+      throw new Error(`Cannot enqueue build ${build.id} with status ${build.status}`);
+    }
+    this.drain();
+  }
+
+  // 1-based position among waiting builds, or null once the build has left the queue
+  async getQueuePosition(buildId: number): Promise<number | null> {
+    const queued = await this.getQueuedBuilds();
+    const index = queued.findIndex(build => build.id === buildId);
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Cancels a build that has not finished yet. Queued builds are marked
+   * cancelled straight away; running builds are aborted and the processor
+   * records the final state once the engine has stopped.
+   */
+  async cancel(buildId: number): Promise<Build> {
+    const controller = this.running.get(buildId);
+    if (controller) {
+      controller.abort();
+      return this.storage.updateBuild(buildId, {
+        buildStep: 'Cancelling',
+        buildMessage: 'Stopping build processes...'
+      });
+    }
+
+    const build = await this.storage.getBuild(buildId);
+    if (!build) {
+      throw new Error("Build not found");
+    }
+    if (build.status !== 'queued') {
+      throw new Error(`Cannot cancel build with status ${build.status}`);
+    }
+
+    return this.storage.updateBuild(buildId, {
+      status: 'cancelled',
+      progress: 0,
+      buildStep: 'Cancelled',
+      buildMessage: 'Build was cancelled before it started'
+    });
+  }
+
+  // Called once on startup: builds left 'running' by a previous process are
+  // either put back in the queue or failed once they run out of attempts.
+  async recover(): Promise<void> {
+    const interrupted = await this.storage.getBuildsByStatus(['running']);
+
+    for (const build of interrupted) {
+      if (this.running.has(build.id)) continue;
+
+      if (build.attempts < this.options.maxAttempts) {
+        await this.storage.updateBuild(build.id, {
+          status: 'queued',
+          progress: 0,
+          buildStep: 'Queued',
+          buildMessage: 'Build was interrupted by a server restart and has been re-queued'
+        });
+      } else {
+        await this.storage.updateBuild(build.id, {
+          status: 'failed',
+          errorMessage: 'Build was interrupted by a server restart',
+          buildStep: 'Failed',
+          buildMessage: 'Build was interrupted by a server restart'
+        });
+      }
+    }
+
+    this.drain();
+  }
+
+  private async getQueuedBuilds(): Promise<Build[]> {
+    const queued = await this.storage.getBuildsByStatus(['queued']);
+    // Higher priority first, then first-in first-out
+    return queued.sort((a, b) =>
+      b.priority - a.priority ||
+      new Date(a.queuedAt!).getTime() - new Date(b.queuedAt!).getTime() ||
+      a.id - b.id
+    );
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        while (this.running.size < this.options.concurrency) {
+          const next = (await this.getQueuedBuilds()).find(build => !this.running.has(build.id));
+          if (!next) break;
+
+          const controller = new AbortController();
+          this.running.set(next.id, controller);
+          let build: Build;
+          try {
+            build = await this.storage.updateBuild(next.id, {
+              status: 'running',
+              attempts: next.attempts + 1
+            });
+          } catch (error) {
+            // The build never started, so it must not keep holding a slot;
+            // it is still queued and the next drain picks it up again
+            this.running.delete(next.id);
+            throw error;
+          }
+          void this.run(build, controller.signal);
+        }
+      } while (this.drainRequested);
+    } catch (error) {
+      console.error('Build queue drain failed:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async run(build: Build, signal: AbortSignal): Promise<void> {
+    try {
+      await this.processor(build, signal);
+    } catch (error) {
+      console.error(`Build ${build.id} failed:`, error);
+      await this.storage.updateBuild(build.id, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Unknown build error'
+      }).catch(() => undefined);
+    } finally {
+      this.running.delete(build.id);
+      this.drain();
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import fs from "fs";
+import type { Server as SocketIOServer } from "socket.io";
+import type { Build, BuildArtifacts, BuilderEngineId, BuildTypeId, Keystore, KeystoreType } from "@shared/schema";
+import { storage } from "./storage";
+import { builderRegistry } from "./builder-registry";
+import type { BuildProcessor } from "./build-queue";
+import { BuildLogWriter } from "./build-logs";
+import { ensureProjectKeystore } from "./project-keystores";
+import { BuildCancelledError } from "./process-runner";
+import { openSigningSecrets } from "./signing-secrets";
+import { verifyBuildArtifacts, ArtifactVerificationError } from "./artifact-verifier";
+import { describePluginArtifacts } from "./build-artifacts";
+import { pluginRegistry } from "./build-plugins";
+import { readFallbackPages, restoreFallbackPages } from "./fallback-pages";
+
+// Executes one queued build with its selected engine and reports progress and
+// log lines to storage, the build log file and the Socket.IO room `build-${id}`.
+export function createBuildProcessor(io: SocketIOServer): BuildProcessor {
+  return async (build: Build, signal: AbortSignal) => {
+    const log = new BuildLogWriter(build.id, (lines) => {
+      io.to(`build-${build.id}`).emit('build-log', { buildId: build.id, lines });
+    });
+
+    const markCancelled = async () => {
+      log.info('Build was cancelled');
+      await storage.updateBuild(build.id, {
+        status: 'cancelled',
+        progress: 0,
+        buildStep: 'Cancelled',
+        buildMessage: 'Build was cancelled'
+      });
+
+      io.to(`build-${build.id}`).emit('build-complete', {
+        buildId: build.id,
+        success: false,
+        cancelled: true,
+        error: 'Build was cancelled'
+      });
+    };
+
+    try {
+      // Get project details
+      const project = await storage.getProject(build.projectId);
+      const projectFiles = await storage.getProjectFiles(build.projectId);
+      const signingConfig = await storage.getSigningConfig(build.projectId);
+
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      const androidBuilder = builderRegistry.get(build.builderEngine as BuilderEngineId);
+      log.info(`Build ${build.id} (attempt ${build.attempts}) started with the ${androidBuilder.name} engine`);
+
+      // Signing passwords are decrypted here and nowhere else; there is no
+      // default password to fall back to
+      if (androidBuilder.capabilities.signing && !signingConfig) {
+        throw new Error('Signing is not configured for this project');
+      }
+      const signingSecrets = signingConfig ? openSigningSecrets(signingConfig) : undefined;
+
+      // Builds use the app settings captured when they were queued, so a
+      // rebuild reproduces the original build even if the project changed since
+      const appConfig = build.config ?? project;
+
+      // A plugin uninstalled since the build was queued fails it rather than
+      // producing an app without its changes
+      const plugins = pluginRegistry.resolve(appConfig.enabledPlugins ?? []);
+      if (plugins.length) {
+        if (!androidBuilder.capabilities.buildHooks) {
+          throw new Error(`The ${androidBuilder.name} engine does not run build plugins`);
+        }
+        log.info(`Build plugins: ${plugins.map(plugin => plugin.id).join(', ')}`);
+      }
+      if (appConfig.bridgeCapabilities?.length && !androidBuilder.capabilities.nativeBridge) {
+        log.info(`The ${androidBuilder.name} engine has no native bridge; the app is built without it`);
+      }
+      const buildConfig = {
+        projectId: project.id,
+        appName: appConfig.appName || 'My App',
+        packageName: appConfig.packageName || 'com.example.myapp',
+        versionCode: appConfig.versionCode || 1,
+        versionName: appConfig.versionName || '1.0',
+        buildType: build.buildType as BuildTypeId,
+        splitApks: build.options?.splitApks ?? false,
+        websiteUrl: appConfig.websiteUrl || undefined,
+        minSdkVersion: appConfig.minSdkVersion,
+        targetSdkVersion: appConfig.targetSdkVersion,
+        enableOptimization: build.options?.enableOptimization ?? false,
+        enableObfuscation: build.options?.enableObfuscation ?? false,
+        proguardRules: appConfig.proguardRules || undefined,
+        cordovaPlugins: appConfig.cordovaPlugins ?? undefined,
+        capacitor: appConfig.capacitorSettings ?? undefined,
+        bridgeCapabilities: androidBuilder.capabilities.nativeBridge ? appConfig.bridgeCapabilities ?? undefined : undefined,
+        // Snapshots taken before these settings existed keep the defaults
+        fileUploads: appConfig.fileUploads ?? true,
+        cameraCapture: appConfig.cameraCapture ?? false,
+        fileDownloads: appConfig.fileDownloads ?? false,
+        navigationPolicy: appConfig.navigationPolicy ?? undefined,
+        // Snapshots taken before fallback pages were captured use the current uploads
+        fallbackPages: build.config?.fallbackPages ? await restoreFallbackPages(project.id, build.config.fallbackPages) : await readFallbackPages(project.id),
+        files: projectFiles.map(file => ({
+          name: file.fileName,
+          content: fs.readFileSync(file.filePath)
+        })),
+        keystorePassword: signingSecrets?.keystorePassword,
+        keyAlias: signingConfig?.keyAlias || 'app-key',
+        keyPassword: signingSecrets?.keyPassword || signingSecrets?.keystorePassword,
+        developerName: signingConfig?.developerName || 'Developer',
+        organizationName: signingConfig?.organizationName || 'Organization',
+        city: signingConfig?.city || 'City',
+        state: signingConfig?.state || 'State',
+        country: signingConfig?.country || 'US',
+        keystoreValidity: signingConfig?.keystoreValidity || 10000
+      };
+
+      // Engines that sign always use the project's long-lived keystore so every
+      // version of the app can be installed as an update of the previous one
+      let keystore: Keystore | undefined;
+      if (androidBuilder.capabilities.signing && signingConfig && signingSecrets) {
+        keystore = await ensureProjectKeystore(project.id, { ...signingConfig, ...signingSecrets }, { signal, log });
+      }
+
+      // Build APK/AAB with progress tracking
+      let artifacts: BuildArtifacts | null = null;
+      let buildResult = await androidBuilder.buildAPK({
+        ...buildConfig,
+        keystorePath: keystore?.path,
+        keystoreType: keystore?.storeType as KeystoreType | undefined,
+        keyAlias: keystore?.keyAlias ?? buildConfig.keyAlias
+      }, {
+        signal,
+        log,
+        plugins,
+        onProgress: (progress) => {
+          // Late progress from an engine that is shutting down must not
+          // overwrite the cancelled state
+          if (signal.aborted) return;
+
+          log.info(`${progress.step} (${progress.progress}%): ${progress.message}`);
+
+          // Update build progress in database; a failed write only loses
+          // this progress step, so it is logged rather than failing the build
+          storage.updateBuild(build.id, {
+            progress: progress.progress,
+            buildStep: progress.step,
+            buildMessage: progress.message
+          }).catch(error => {
+            log.info(`Could not record build progress: ${error instanceof Error ? error.message : String(error)}`);
+          });
+
+          // Emit progress to connected clients
+          io.to(`build-${build.id}`).emit('build-progress', {
+            buildId: build.id,
+            step: progress.step,
+            progress: progress.progress,
+            message: progress.message
+          });
+        }
+      });
+
+      // Engines have fallback packaging paths that can produce uninstallable
+      // files, so nothing counts as a success until its artifacts check out
+      if (buildResult.success && !signal.aborted) {
+        await storage.updateBuild(build.id, { buildStep: 'Verifying', buildMessage: 'Verifying build artifacts...' });
+        const signingEntry = keystore?.entries?.find(entry => entry.alias.toLowerCase() === keystore!.keyAlias.toLowerCase());
+        try {
+          artifacts = await verifyBuildArtifacts(buildResult, {
+            expectedCertificateSha256: buildResult.signed ? signingEntry?.certificate?.sha256Fingerprint : undefined,
+            log
+          });
+        } catch (error) {
+          if (!(error instanceof ArtifactVerificationError)) throw error;
+          buildResult = { ...buildResult, success: false, error: `Artifact verification failed: ${error.message}` };
+        }
+      }
+
+      if (buildResult.success) {
+        log.info('Build completed successfully');
+        await storage.updateBuild(build.id, {
+          status: 'success',
+          outputPath: buildResult.apkPath,
+          aabPath: buildResult.aabPath,
+          apksPath: buildResult.apksPath,
+          mappingPath: buildResult.mappingPath,
+          keystorePath: buildResult.keystorePath,
+          keystoreId: buildResult.signed && keystore ? keystore.id : null,
+          artifacts,
+          pluginArtifacts: buildResult.pluginArtifacts?.length ? await describePluginArtifacts(buildResult.pluginArtifacts) : null,
+          progress: 100,
+          buildStep: 'Complete',
+          buildMessage: 'Build completed successfully!'
+        });
+
+        const currentStats = await storage.getBuildStats();
+        await storage.updateBuildStats({
+          successfulBuilds: currentStats.successfulBuilds + 1
+        });
+
+        // Emit success event
+        io.to(`build-${build.id}`).emit('build-complete', {
+          buildId: build.id,
+          success: true,
+          apkPath: buildResult.apkPath,
+          aabPath: buildResult.aabPath,
+          apksPath: buildResult.apksPath,
+          keystorePath: buildResult.keystorePath
+        });
+      } else if (buildResult.cancelled || signal.aborted) {
+        await markCancelled();
+      } else {
+        log.info(`Build failed: ${buildResult.error || 'Unknown error'}`);
+        await storage.updateBuild(build.id, {
+          status: 'failed',
+          errorMessage: buildResult.error || 'Build failed',
+          progress: 0,
+          buildStep: 'Failed',
+          buildMessage: buildResult.error || 'Build failed'
+        });
+
+        // Emit failure event
+        io.to(`build-${build.id}`).emit('build-complete', {
+          buildId: build.id,
+          success: false,
+          error: buildResult.error || 'Build failed'
+        });
+      }
+    } catch (error) {
+      if (error instanceof BuildCancelledError || signal.aborted) {
+        await markCancelled();
+        return;
+      }
+
+      log.info(`Build failed: ${error instanceof Error ? error.message : 'Unknown build error'}`);
+      await storage.updateBuild(build.id, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Unknown build error'
+      });
+
+      // Emit failure event
+      io.to(`build-${build.id}`).emit('build-complete', {
+        buildId: build.id,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown build error'
+      });
+    } finally {
+      await log.close();
+    }
+  };
+}
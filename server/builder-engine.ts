@@ -0,0 +1,131 @@
+import type { BridgeCapability, BuilderEngineId, BuildTypeId, CapacitorSettings, CordovaPluginSelection, KeystoreType, NavigationPolicy } from '@shared/schema';
+import type { BuildPlugin, PluginArtifact } from './build-plugins';
+import type { FallbackPageKind } from './fallback-pages';
+
+export interface BuildConfig {
+  // Project whose uploaded template set applies; without one the server-wide set does
+  projectId?: number;
+  appName: string;
+  packageName: string;
+  versionCode: number;
+  versionName: string;
+  // Engines only produce the requested artifact type
+  buildType: BuildTypeId;
+  // Derive an APK set and a universal APK from the AAB; needs the splitApks capability
+  splitApks?: boolean;
+  websiteUrl?: string;
+  minSdkVersion?: number;
+  targetSdkVersion?: number;
+  // R8 switches and extra rules; used by engines with the codeShrinking capability
+  enableOptimization?: boolean;
+  enableObfuscation?: boolean;
+  proguardRules?: string;
+  // Installed by the Cordova engine from the plugin cache
+  cordovaPlugins?: CordovaPluginSelection[];
+  // Plugin packages and plugin config for the Capacitor engine
+  capacitor?: CapacitorSettings;
+  // Native bridge features compiled into the app; needs the nativeBridge capability
+  bridgeCapabilities?: BridgeCapability[];
+  // File inputs in the generated activity: the system picker, optionally with
+  // the camera; uploads are on unless set to false
+  fileUploads?: boolean;
+  cameraCapture?: boolean;
+  // Downloads from the WebView are saved to the Downloads folder
+  fileDownloads?: boolean;
+  // Which links the generated activity keeps in the WebView
+  navigationPolicy?: NavigationPolicy;
+  // Uploaded offline and error pages; missing kinds use the template set's
+  fallbackPages?: Partial<Record<FallbackPageKind, Buffer>>;
+  files?: Array<{ name: string; content: Buffer }>;
+  keystoreValidity?: number;
+  // The project's long-lived keystore; engines that sign must use it instead of creating their own
+  keystorePath?: string;
+  keystoreType?: KeystoreType;
+  keystorePassword?: string;
+  keyAlias?: string;
+  keyPassword?: string;
+  developerName?: string;
+  organizationName?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
+export interface BuildResult {
+  success: boolean;
+  apkPath?: string;
+  aabPath?: string;
+  // bundletool APK set (.apks) derived from the AAB
+  apksPath?: string;
+  // R8 mapping.txt of an obfuscated build
+  mappingPath?: string;
+  // Files attached by build plugins
+  pluginArtifacts?: PluginArtifact[];
+  keystorePath?: string;
+  // True when the outputs were signed with config.keystorePath
+  signed?: boolean;
+  error?: string;
+  cancelled?: boolean;
+  buildId: string;
+  progress?: number;
+}
+
+export interface BuildProgress {
+  step: string;
+  progress: number;
+  message: string;
+}
+
+export type LogStream = 'stdout' | 'stderr';
+
+export interface BuildLog {
+  info(message: string): void;
+  output(stream: LogStream, chunk: string): void;
+}
+
+export interface BuildContext {
+  onProgress?: (progress: BuildProgress) => void;
+  // Aborted when the build is cancelled; engines must stop and clean up their workspace
+  signal?: AbortSignal;
+  // Receives toolchain output and engine status messages for the build log
+  log?: BuildLog;
+  // Plugins enabled for the project, in order; needs the buildHooks capability
+  plugins?: BuildPlugin[];
+}
+
+export interface BuilderCapabilities {
+  apk: boolean;
+  aab: boolean;
+  signing: boolean;
+  websiteUrl: boolean;
+  webFiles: boolean;
+  // Honors the optimization and obfuscation options with R8
+  codeShrinking: boolean;
+  // Derives split and universal APKs from AAB builds with bundletool
+  splitApks: boolean;
+  // Runs build plugin hooks around its stages
+  buildHooks: boolean;
+  // Compiles the WebAndro native bridge into the generated activity
+  nativeBridge: boolean;
+}
+
+// A requirement is either a command on the PATH or a file that must exist
+export interface ToolchainRequirement {
+  name: string;
+  command?: string;
+  file?: string;
+  description: string;
+  // Only needed for this capability; without it the engine is still
+  // available, just not for builds that use the capability
+  capability?: keyof BuilderCapabilities;
+}
+
+// Every build engine the registry can hand a build to implements this
+export interface BuilderEngine {
+  readonly id: BuilderEngineId;
+  readonly name: string;
+  readonly description: string;
+  readonly capabilities: BuilderCapabilities;
+  readonly requirements: ToolchainRequirement[];
+  buildAPK(config: BuildConfig, context?: BuildContext): Promise<BuildResult>;
+}
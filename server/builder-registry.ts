@@ -0,0 +1,93 @@
+import { exec } from 'child_process';
+import fs from 'fs/promises';
+import { promisify } from 'util';
+import type { BuilderEngineId } from '@shared/schema';
+import type { BuilderEngine, BuilderCapabilities, ToolchainRequirement } from './builder-engine';
+import { RealAndroidBuildSystem } from './real-android-build-system';
+import { CordovaBuilder } from './cordova-builder';
+import { CapacitorBuilder } from './capacitor-builder';
+import { TemplateAndroidBuilder } from './template-android-builder';
+import { ShellApkBuilder } from './shell-apk-builder';
+
+const execAsync = promisify(exec);
+
+export interface ToolchainStatus extends ToolchainRequirement {
+  installed: boolean;
+}
+
+export interface BuilderEngineInfo {
+  id: BuilderEngineId;
+  name: string;
+  description: string;
+  capabilities: BuilderCapabilities;
+  requirements: ToolchainStatus[];
+  available: boolean;
+}
+
+export class BuilderRegistry {
+  private engines = new Map<BuilderEngineId, BuilderEngine>();
+  private commandCache = new Map<string, Promise<boolean>>();
+
+  register(engine: BuilderEngine): void {
+    this.engines.set(engine.id, engine);
+  }
+
+  get(id: BuilderEngineId): BuilderEngine {
+    const engine = this.engines.get(id);
+    if (!engine) {
+      throw new Error(`Unknown builder engine: ${id}`);
+    }
+    return engine;
+  }
+
+  has(id: string): id is BuilderEngineId {
+    return this.engines.has(id as BuilderEngineId);
+  }
+
+  async describe(id: BuilderEngineId): Promise<BuilderEngineInfo> {
+    const engine = this.get(id);
+    const requirements = await Promise.all(engine.requirements.map(async (requirement) => ({
+      ...requirement,
+      installed: await this.requirementMet(requirement)
+    })));
+
+    return {
+      id: engine.id,
+      name: engine.name,
+      description: engine.description,
+      capabilities: engine.capabilities,
+      requirements,
+      available: requirements.every(requirement => requirement.installed || requirement.capability !== undefined)
+    };
+  }
+
+  async list(): Promise<BuilderEngineInfo[]> {
+    return Promise.all(Array.from(this.engines.keys()).map(id => this.describe(id)));
+  }
+
+  private requirementMet(requirement: ToolchainRequirement): Promise<boolean> {
+    if (requirement.file) {
+      // Files such as prebuilt assets can be added while the server runs, so
+      // check them every time
+      return fs.access(requirement.file).then(() => true, () => false);
+    }
+    return requirement.command ? this.commandExists(requirement.command) : Promise.resolve(false);
+  }
+
+  private commandExists(command: string): Promise<boolean> {
+    // Toolchains don't come and go while the server runs, so probe each command once
+    let result = this.commandCache.get(command);
+    if (!result) {
+      result = execAsync(`command -v ${command}`).then(() => true, () => false);
+      this.commandCache.set(command, result);
+    }
+    return result;
+  }
+}
+
+export const builderRegistry = new BuilderRegistry();
+builderRegistry.register(new RealAndroidBuildSystem());
+builderRegistry.register(new CordovaBuilder());
+builderRegistry.register(new CapacitorBuilder());
+builderRegistry.register(new TemplateAndroidBuilder());
+builderRegistry.register(new ShellApkBuilder());
@@ -0,0 +1,198 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import type { BuildConfig, BuildResult, BuildContext, BuilderEngine, BuilderCapabilities, ToolchainRequirement } from './builder-engine';
+import { runCommand, throwIfCancelled, BuildCancelledError } from './process-runner';
+import { signApkFile, signBundleFile } from './apk-signer';
+import { DEFAULT_SDK_LEVELS, resolveToolchain } from './android-toolchain';
+import { createTemplateVariables, renderStartPage, renderTemplateSet } from './android-templates';
+
+// Capacitor 6 supports Android 5.1 and later
+const CAPACITOR_MIN_SDK = 22;
+
+export class CapacitorBuilder implements BuilderEngine {
+  readonly id = 'capacitor';
+  readonly name = 'Capacitor';
+  readonly description = 'Generates a Capacitor Android project with its plugins and builds it with the Gradle wrapper';
+  readonly capabilities: BuilderCapabilities = {
+    apk: true,
+    aab: true,
+    signing: true,
+    websiteUrl: true,
+    webFiles: true,
+    codeShrinking: false,
+    splitApks: false,
+    buildHooks: false,
+    nativeBridge: false
+  };
+  readonly requirements: ToolchainRequirement[] = [
+    { name: 'npm', command: 'npm', description: 'Installs Capacitor and its plugins into the project' },
+    { name: 'Java', command: 'java', description: 'Runs the Gradle wrapper of the generated Android project' }
+  ];
+
+  private buildDir: string;
+  private outputDir: string;
+
+  constructor() {
+    this.buildDir = path.join(process.cwd(), 'builds');
+    this.outputDir = path.join(process.cwd(), 'build-outputs');
+  }
+
+  async buildAPK(config: BuildConfig, context: BuildContext = {}): Promise<BuildResult> {
+    const buildId = nanoid();
+    const projectDir = path.join(this.buildDir, buildId);
+    const { onProgress, signal, log } = context;
+
+    try {
+      if (!config.keystorePath || !config.keystorePassword) {
+        throw new Error('No signing keystore provided for this build');
+      }
+
+      const toolchain = resolveToolchain({
+        minSdkVersion: config.minSdkVersion ?? DEFAULT_SDK_LEVELS.minSdkVersion,
+        targetSdkVersion: config.targetSdkVersion ?? DEFAULT_SDK_LEVELS.targetSdkVersion
+      });
+      const minSdkVersion = Math.max(toolchain.minSdkVersion, CAPACITOR_MIN_SDK);
+      if (minSdkVersion !== toolchain.minSdkVersion) {
+        log?.info(`Capacitor needs minSdkVersion ${CAPACITOR_MIN_SDK}; raised from ${toolchain.minSdkVersion}`);
+      }
+
+      onProgress?.({ step: 'Creating project', progress: 10, message: 'Rendering Capacitor project...' });
+
+      const variables = createTemplateVariables(config, { toolchain });
+      await renderTemplateSet('capacitor', variables, projectDir, config.projectId);
+      await this.configureProject(projectDir, config);
+
+      // webDir must hold an index.html even when the app loads server.url
+      const wwwDir = path.join(projectDir, 'www');
+      await fs.mkdir(wwwDir, { recursive: true });
+      for (const file of config.files ?? []) {
+        await fs.mkdir(path.dirname(path.join(wwwDir, file.name)), { recursive: true });
+        await fs.writeFile(path.join(wwwDir, file.name), file.content);
+      }
+      if (!config.files?.some(file => file.name === 'index.html')) {
+        await fs.writeFile(path.join(wwwDir, 'index.html'), await renderStartPage(variables, config.projectId));
+      }
+      throwIfCancelled(signal);
+
+      onProgress?.({ step: 'Installing dependencies', progress: 25, message: 'Installing Capacitor and plugins...' });
+      await runCommand('npm', ['install', '--no-audit', '--no-fund'], { cwd: projectDir, signal, log });
+
+      onProgress?.({ step: 'Adding platform', progress: 40, message: 'Generating the Capacitor Android project...' });
+      await runCommand('npx', ['cap', 'add', 'android'], { cwd: projectDir, signal, log });
+
+      const androidDir = path.join(projectDir, 'android');
+      await this.applyAppSettings(androidDir, config, {
+        minSdkVersion,
+        targetSdkVersion: toolchain.targetSdkVersion,
+        compileSdkVersion: Math.max(toolchain.profile.compileSdkVersion, toolchain.targetSdkVersion)
+      });
+      throwIfCancelled(signal);
+
+      let apkPath: string | undefined;
+      let aabPath: string | undefined;
+      if (config.buildType === 'aab') {
+        onProgress?.({ step: 'Creating AAB', progress: 60, message: 'Running gradlew bundleRelease...' });
+        await this.runGradle(androidDir, 'bundleRelease', context);
+
+        onProgress?.({ step: 'Signing AAB', progress: 80, message: 'Signing App Bundle with the project upload key...' });
+        aabPath = path.join(this.outputDir, `${buildId}-bundle.aab`);
+        await signBundleFile(path.join(androidDir, 'app', 'build', 'outputs', 'bundle', 'release', 'app-release.aab'), aabPath, {
+          keystorePath: config.keystorePath,
+          keyAlias: config.keyAlias || 'appkey',
+          storePassword: config.keystorePassword,
+          keyPassword: config.keyPassword || config.keystorePassword
+        });
+        log?.info(`Signed and verified ${path.basename(aabPath)} (scheme: v1)`);
+      } else {
+        onProgress?.({ step: 'Building APK', progress: 60, message: 'Running gradlew assembleRelease...' });
+        await this.runGradle(androidDir, 'assembleRelease', context);
+
+        onProgress?.({ step: 'Signing APK', progress: 80, message: 'Aligning and signing APK with the project keystore...' });
+        apkPath = path.join(this.outputDir, `${buildId}-signed.apk`);
+        const verification = await signApkFile(path.join(androidDir, 'app', 'build', 'outputs', 'apk', 'release', 'app-release-unsigned.apk'), apkPath, {
+          keystorePath: config.keystorePath,
+          keyAlias: config.keyAlias || 'appkey',
+          storePassword: config.keystorePassword,
+          keyPassword: config.keyPassword || config.keystorePassword
+        });
+        log?.info(`Signed and verified ${path.basename(apkPath)} (schemes: ${verification.schemes.join(', ')})`);
+      }
+
+      onProgress?.({ step: 'Complete', progress: 100, message: 'Build completed successfully!' });
+
+      return {
+        success: true,
+        apkPath,
+        aabPath,
+        keystorePath: config.keystorePath,
+        signed: true,
+        buildId
+      };
+    } catch (error) {
+      if (error instanceof BuildCancelledError || signal?.aborted) {
+        await fs.rm(projectDir, { recursive: true, force: true });
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Build was cancelled',
+          buildId
+        };
+      }
+
+      console.error('Capacitor build failed:', error);
+      log?.info(`Capacitor build failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        buildId
+      };
+    }
+  }
+
+  // Adds the project's plugin packages to package.json and their settings to
+  // capacitor.config.json. A plain website over http needs cleartext traffic.
+  private async configureProject(projectDir: string, config: BuildConfig): Promise<void> {
+    const packagePath = path.join(projectDir, 'package.json');
+    const packageJson = JSON.parse(await fs.readFile(packagePath, 'utf8'));
+    for (const plugin of config.capacitor?.plugins ?? []) {
+      packageJson.dependencies = { ...packageJson.dependencies, [plugin.package]: plugin.version };
+    }
+    await fs.writeFile(packagePath, JSON.stringify(packageJson, null, 2) + '\n');
+
+    const configPath = path.join(projectDir, 'capacitor.config.json');
+    const capacitorConfig = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    capacitorConfig.plugins = { ...capacitorConfig.plugins, ...config.capacitor?.pluginConfig };
+    if (capacitorConfig.server?.url?.startsWith('http:')) {
+      capacitorConfig.server.cleartext = true;
+    }
+    await fs.writeFile(configPath, JSON.stringify(capacitorConfig, null, 2) + '\n');
+  }
+
+  // `cap add` writes Capacitor's own SDK levels and version 1.0; the
+  // project's values replace them
+  private async applyAppSettings(androidDir: string, config: BuildConfig, levels: { minSdkVersion: number; targetSdkVersion: number; compileSdkVersion: number }): Promise<void> {
+    const variablesPath = path.join(androidDir, 'variables.gradle');
+    let variables = await fs.readFile(variablesPath, 'utf8');
+    for (const [name, value] of Object.entries(levels)) {
+      variables = variables.replace(new RegExp(`(\\b${name}\\s*=\\s*)\\d+`), (_match, prefix) => `${prefix}${value}`);
+    }
+    await fs.writeFile(variablesPath, variables);
+
+    const appGradlePath = path.join(androidDir, 'app', 'build.gradle');
+    const appGradle = (await fs.readFile(appGradlePath, 'utf8'))
+      .replace(/(\bversionCode\s+)\d+/, (_match, prefix) => `${prefix}${config.versionCode}`)
+      // Groovy interpolates $ in double-quoted strings
+      .replace(/(\bversionName\s+)"[^"]*"/, (_match, prefix) => `${prefix}${JSON.stringify(config.versionName).replace(/\$/g, '\\$')}`);
+    await fs.writeFile(appGradlePath, appGradle);
+  }
+
+  private async runGradle(androidDir: string, task: string, context: BuildContext): Promise<void> {
+    await runCommand(path.join(androidDir, 'gradlew'), [task], {
+      cwd: androidDir,
+      env: { ...process.env, ANDROID_HOME: process.env.ANDROID_HOME || '/usr/lib/android-sdk' },
+      signal: context.signal,
+      log: context.log
+    });
+  }
+}
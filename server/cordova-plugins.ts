@@ -0,0 +1,244 @@
+// Cordova plugins projects can add to Cordova engine builds. Only plugins in
+// the catalog below can be selected. Each plugin version is fetched from npm
+// once into a local cache; builds install it from there, so they work
+// offline for every version the cache already holds.
+//
+// The cache (CORDOVA_PLUGIN_CACHE, default cordova-plugin-cache/) holds one
+// directory per <id>@<version>. It can be seeded without network access by
+// dropping the `npm pack` tarball (<id>-<version>.tgz) into it.
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import type { CordovaPluginSelection } from '@shared/schema';
+import type { BuildContext } from './builder-engine';
+import { runCommand } from './process-runner';
+
+export interface CordovaPluginVariable {
+  name: string;
+  description: string;
+  // Used when the project does not set the variable
+  defaultValue?: string;
+}
+
+export interface CordovaPluginDefinition {
+  // npm package name, as passed to `cordova plugin add`
+  id: string;
+  name: string;
+  description: string;
+  // Version used when the project does not pick one
+  version: string;
+  variables: CordovaPluginVariable[];
+}
+
+export interface CordovaPluginInfo extends CordovaPluginDefinition {
+  cachedVersions: string[];
+}
+
+// A selection checked against the catalog, with every variable filled in
+export interface ResolvedCordovaPlugin {
+  id: string;
+  version: string;
+  variables: Record<string, string>;
+}
+
+export const cordovaPluginCatalog: CordovaPluginDefinition[] = [
+  {
+    id: 'cordova-plugin-camera',
+    name: 'Camera',
+    description: 'Takes pictures and picks images from the gallery',
+    version: '7.0.0',
+    variables: [
+      { name: 'ANDROIDX_CORE_VERSION', description: 'androidx.core version the plugin compiles against', defaultValue: '1.6.+' }
+    ]
+  },
+  {
+    id: 'cordova-plugin-geolocation',
+    name: 'Geolocation',
+    description: 'Reads the device location',
+    version: '5.0.0',
+    variables: [
+      { name: 'GPS_REQUIRED', description: 'Whether the app is only offered to devices with GPS', defaultValue: 'true' }
+    ]
+  },
+  {
+    id: 'phonegap-plugin-barcodescanner',
+    name: 'Barcode Scanner',
+    description: 'Scans QR codes and barcodes with the camera',
+    version: '8.1.0',
+    variables: [
+      { name: 'ANDROID_SUPPORT_V4_VERSION', description: 'Android support library version', defaultValue: '27.+' }
+    ]
+  },
+  {
+    id: 'cordova-plugin-file',
+    name: 'File',
+    description: 'Reads and writes files on the device',
+    version: '8.0.1',
+    variables: []
+  },
+  {
+    id: 'cordova-plugin-inappbrowser',
+    name: 'InAppBrowser',
+    description: 'Opens external links in an in-app browser window',
+    version: '6.0.0',
+    variables: []
+  },
+  {
+    id: 'cordova-plugin-network-information',
+    name: 'Network Information',
+    description: 'Reports the connection type and online/offline changes',
+    version: '3.0.0',
+    variables: []
+  },
+  {
+    id: 'cordova-plugin-device',
+    name: 'Device',
+    description: 'Describes the device model and operating system',
+    version: '2.1.0',
+    variables: []
+  }
+];
+
+const VARIABLE_NAME = /^[A-Z][A-Z0-9_]*$/;
+const VERSION = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+
+const cacheDir = process.env.CORDOVA_PLUGIN_CACHE || path.join(process.cwd(), 'cordova-plugin-cache');
+
+// Raised for plugin selections the builder cannot install; every problem is listed
+export class CordovaPluginError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid Cordova plugins: ${problems.join('; ')}`);
+    this.name = 'CordovaPluginError';
+  }
+}
+
+function findDefinition(id: string): CordovaPluginDefinition | undefined {
+  return cordovaPluginCatalog.find(definition => definition.id === id);
+}
+
+/**
+ * Lists what keeps the selections from being installed; empty when every
+ * plugin is in the catalog and all its variables have a value.
+ */
+export function validateCordovaPlugins(selections: CordovaPluginSelection[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const selection of selections) {
+    const definition = findDefinition(selection.id);
+    if (!definition) {
+      problems.push(`${selection.id} is not in the Cordova plugin catalog`);
+      continue;
+    }
+    if (seen.has(selection.id)) {
+      problems.push(`${selection.id} is selected more than once`);
+    }
+    seen.add(selection.id);
+
+    for (const name of Object.keys(selection.variables ?? {})) {
+      if (!VARIABLE_NAME.test(name) || !definition.variables.some(variable => variable.name === name)) {
+        problems.push(`${selection.id} has no variable ${name}`);
+      }
+    }
+    for (const variable of definition.variables) {
+      if (!(selection.variables?.[variable.name] ?? variable.defaultValue)) {
+        problems.push(`${selection.id} needs a value for ${variable.name}`);
+      }
+    }
+  }
+  return problems;
+}
+
+export function resolveCordovaPlugins(selections: CordovaPluginSelection[]): ResolvedCordovaPlugin[] {
+  const problems = validateCordovaPlugins(selections);
+  if (problems.length) {
+    throw new CordovaPluginError(problems);
+  }
+
+  return selections.map(selection => {
+    const definition = findDefinition(selection.id)!;
+    const variables: Record<string, string> = {};
+    for (const variable of definition.variables) {
+      variables[variable.name] = selection.variables?.[variable.name] || variable.defaultValue!;
+    }
+    return { id: selection.id, version: selection.version ?? definition.version, variables };
+  });
+}
+
+function cachedPluginDir(id: string, version: string): string {
+  return path.join(cacheDir, `${id}@${version}`);
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+async function listCachedVersions(id: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(cacheDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  // <id>-<version>.tgz; the version check keeps cordova-plugin-file from
+  // claiming cordova-plugin-file-transfer tarballs
+  const versions = new Set<string>();
+  for (const entry of entries) {
+    const version = entry.startsWith(`${id}@`) ? entry.slice(id.length + 1)
+      : entry.startsWith(`${id}-`) && entry.endsWith('.tgz') ? entry.slice(id.length + 1, -4)
+      : null;
+    if (version && VERSION.test(version)) versions.add(version);
+  }
+  return Array.from(versions).sort();
+}
+
+export async function listCordovaPlugins(): Promise<CordovaPluginInfo[]> {
+  return Promise.all(cordovaPluginCatalog.map(async (definition) => ({
+    ...definition,
+    cachedVersions: await listCachedVersions(definition.id)
+  })));
+}
+
+/**
+ * Returns the cached plugin directory, downloading the version with
+ * `npm pack` when neither the directory nor its tarball is cached yet.
+ */
+export async function ensureCachedPlugin(plugin: ResolvedCordovaPlugin, context: BuildContext = {}): Promise<string> {
+  const { signal, log } = context;
+  const pluginDir = cachedPluginDir(plugin.id, plugin.version);
+  if (await exists(pluginDir)) {
+    return pluginDir;
+  }
+
+  await fs.mkdir(cacheDir, { recursive: true });
+  const tarball = path.join(cacheDir, `${plugin.id}-${plugin.version}.tgz`);
+  if (!await exists(tarball)) {
+    log?.info(`Downloading ${plugin.id}@${plugin.version} into the Cordova plugin cache`);
+    try {
+      await runCommand('npm', ['pack', `${plugin.id}@${plugin.version}`, '--pack-destination', cacheDir], { signal, log });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new Error(`${plugin.id}@${plugin.version} is not in the Cordova plugin cache and could not be downloaded: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  // Unpacked next to the cache entry and renamed, so concurrent builds never
+  // install from a half-extracted plugin
+  const stagingDir = `${pluginDir}.${nanoid()}`;
+  try {
+    await fs.mkdir(stagingDir, { recursive: true });
+    await runCommand('tar', ['-xzf', tarball, '-C', stagingDir, '--strip-components=1'], { signal, log });
+    if (!await exists(path.join(stagingDir, 'plugin.xml'))) {
+      throw new Error(`${path.basename(tarball)} is not a Cordova plugin (no plugin.xml)`);
+    }
+    if (!await exists(pluginDir)) {
+      await fs.rename(stagingDir, pluginDir);
+    }
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+  return pluginDir;
+}
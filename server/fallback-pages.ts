@@ -0,0 +1,140 @@
+// Pages the generated activity shows instead of the WebView's own error page:
+// "offline" when the device has no connection, "error" when the start page
+// fails to load otherwise. Each is the template set's web/offline.html or
+// web/error.html unless the project uploaded its own HTML file, which is
+// copied into the app unchanged.
+//
+// Uploads are kept in FALLBACK_PAGES_DIR (default fallback-pages/) as
+// <projectId>/<kind>.html, and the pages builds were queued with as
+// <projectId>/snapshots/<sha256>.html.
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { FallbackPagesSnapshot } from '@shared/schema';
+
+export const fallbackPageKinds = ['offline', 'error'] as const;
+export type FallbackPageKind = typeof fallbackPageKinds[number];
+
+export interface FallbackPageInfo {
+  kind: FallbackPageKind;
+  // "builtin" pages come from the template set
+  source: 'builtin' | 'project';
+  size: number | null;
+}
+
+const MAX_PAGE_SIZE = 1024 * 1024;
+
+const pagesDir = process.env.FALLBACK_PAGES_DIR || path.join(process.cwd(), 'fallback-pages');
+
+// Raised for uploads that cannot be used as a fallback page
+export class FallbackPageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FallbackPageError';
+  }
+}
+
+export function isFallbackPageKind(value: string): value is FallbackPageKind {
+  return fallbackPageKinds.includes(value as FallbackPageKind);
+}
+
+function pagePath(projectId: number, kind: FallbackPageKind): string {
+  return path.join(pagesDir, String(projectId), `${kind}.html`);
+}
+
+async function readPage(projectId: number, kind: FallbackPageKind): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(pagePath(projectId, kind));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function listFallbackPages(projectId: number): Promise<FallbackPageInfo[]> {
+  return Promise.all(fallbackPageKinds.map(async (kind) => {
+    const page = await readPage(projectId, kind);
+    return { kind, source: page ? 'project' as const : 'builtin' as const, size: page?.length ?? null };
+  }));
+}
+
+// The project's uploaded pages; kinds without an upload are left out
+export async function readFallbackPages(projectId: number): Promise<Partial<Record<FallbackPageKind, Buffer>>> {
+  const pages: Partial<Record<FallbackPageKind, Buffer>> = {};
+  for (const kind of fallbackPageKinds) {
+    const page = await readPage(projectId, kind);
+    if (page) pages[kind] = page;
+  }
+  return pages;
+}
+
+// Pages referenced by build snapshots, kept by SHA-256 so a rebuild ships the
+// pages the original build had rather than later uploads
+function snapshotPagePath(projectId: number, sha256: string): string {
+  return path.join(pagesDir, String(projectId), 'snapshots', `${sha256}.html`);
+}
+
+export async function snapshotFallbackPages(projectId: number): Promise<FallbackPagesSnapshot> {
+  const pages = await readFallbackPages(projectId);
+  const snapshot: FallbackPagesSnapshot = {};
+  for (const kind of fallbackPageKinds) {
+    const page = pages[kind];
+    if (!page) continue;
+    const sha256 = crypto.createHash('sha256').update(page).digest('hex');
+    const target = snapshotPagePath(projectId, sha256);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Same name, same content: a page that is already kept is not rewritten
+    await fs.writeFile(target, page, { flag: 'wx' }).catch(error => {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    });
+    snapshot[kind] = sha256;
+  }
+  return snapshot;
+}
+
+export async function restoreFallbackPages(projectId: number, snapshot: FallbackPagesSnapshot): Promise<Partial<Record<FallbackPageKind, Buffer>>> {
+  const pages: Partial<Record<FallbackPageKind, Buffer>> = {};
+  for (const kind of fallbackPageKinds) {
+    const sha256 = snapshot[kind];
+    if (!sha256) continue;
+    try {
+      pages[kind] = await fs.readFile(snapshotPagePath(projectId, sha256));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      throw new FallbackPageError(`The ${kind} page this build was queued with is no longer stored`);
+    }
+  }
+  return pages;
+}
+
+/**
+ * Makes the uploaded HTML the project's page of the given kind, replacing an
+ * earlier upload.
+ */
+export async function saveFallbackPage(projectId: number, kind: FallbackPageKind, content: Buffer): Promise<void> {
+  if (!content.length) {
+    throw new FallbackPageError('The page is empty');
+  }
+  if (content.length > MAX_PAGE_SIZE) {
+    throw new FallbackPageError('Fallback pages can be at most 1 MB');
+  }
+  if (!/<html[\s>]|<!doctype html/i.test(content.toString('utf8', 0, 4096))) {
+    throw new FallbackPageError('The file is not an HTML page');
+  }
+
+  const target = pagePath(projectId, kind);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  // Written next to the page and renamed, so builds never read half an upload
+  const staging = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(staging, content);
+  await fs.rename(staging, target);
+}
+
+export async function removeFallbackPage(projectId: number, kind?: FallbackPageKind): Promise<void> {
+  if (kind) {
+    await fs.rm(pagePath(projectId, kind), { force: true });
+  } else {
+    await fs.rm(path.join(pagesDir, String(projectId)), { recursive: true, force: true });
+  }
+}
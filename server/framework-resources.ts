@@ -0,0 +1,114 @@
+// The slice of the platform's public resources (android.R) the resource
+// compiler can resolve without android.jar. Ids are fixed by the platform's
+// public.xml; anything not listed here is reported as unresolved rather than
+// guessed.
+
+export type AttributeFormat = 'reference' | 'string' | 'integer' | 'boolean' | 'color' | 'dimension' | 'enum' | 'flags';
+
+export interface FrameworkAttribute {
+  id: number;
+  formats: AttributeFormat[];
+  // Symbol values for enum and flags attributes
+  symbols?: Record<string, number>;
+}
+
+const GRAVITY = {
+  top: 0x30, bottom: 0x50, left: 0x03, right: 0x05,
+  center_vertical: 0x10, fill_vertical: 0x70, center_horizontal: 0x01, fill_horizontal: 0x07,
+  center: 0x11, fill: 0x77, start: 0x00800003, end: 0x00800005
+};
+
+const LAYOUT_SIZE = { fill_parent: -1, match_parent: -1, wrap_content: -2 };
+
+export const FRAMEWORK_ATTRIBUTES: Record<string, FrameworkAttribute> = {
+  theme: { id: 0x01010000, formats: ['reference'] },
+  label: { id: 0x01010001, formats: ['reference', 'string'] },
+  icon: { id: 0x01010002, formats: ['reference'] },
+  name: { id: 0x01010003, formats: ['string'] },
+  permission: { id: 0x01010006, formats: ['string'] },
+  exported: { id: 0x01010010, formats: ['boolean'] },
+  process: { id: 0x01010011, formats: ['string'] },
+  authorities: { id: 0x01010018, formats: ['string'] },
+  launchMode: {
+    id: 0x0101001d,
+    formats: ['enum'],
+    symbols: { standard: 0, singleTop: 1, singleTask: 2, singleInstance: 3 }
+  },
+  screenOrientation: {
+    id: 0x0101001e,
+    formats: ['enum'],
+    symbols: {
+      unspecified: -1, landscape: 0, portrait: 1, user: 2, behind: 3, sensor: 4, nosensor: 5,
+      sensorLandscape: 6, sensorPortrait: 7, reverseLandscape: 8, reversePortrait: 9, fullSensor: 10,
+      userLandscape: 11, userPortrait: 12, fullUser: 13, locked: 14
+    }
+  },
+  configChanges: {
+    id: 0x0101001f,
+    formats: ['flags'],
+    symbols: {
+      mcc: 0x0001, mnc: 0x0002, locale: 0x0004, touchscreen: 0x0008, keyboard: 0x0010,
+      keyboardHidden: 0x0020, navigation: 0x0040, orientation: 0x0080, screenLayout: 0x0100,
+      uiMode: 0x0200, screenSize: 0x0400, smallestScreenSize: 0x0800, density: 0x1000,
+      layoutDirection: 0x2000, colorMode: 0x4000, fontScale: 0x40000000
+    }
+  },
+  scheme: { id: 0x01010027, formats: ['string'] },
+  host: { id: 0x01010028, formats: ['string'] },
+  port: { id: 0x01010029, formats: ['string'] },
+  path: { id: 0x0101002a, formats: ['string'] },
+  pathPrefix: { id: 0x0101002b, formats: ['string'] },
+  pathPattern: { id: 0x0101002c, formats: ['string'] },
+  mimeType: { id: 0x01010026, formats: ['string'] },
+  textSize: { id: 0x01010095, formats: ['dimension'] },
+  textColor: { id: 0x01010098, formats: ['reference', 'color'] },
+  gravity: { id: 0x010100af, formats: ['flags'], symbols: GRAVITY },
+  layout_gravity: { id: 0x010100b3, formats: ['flags'], symbols: GRAVITY },
+  orientation: { id: 0x010100c4, formats: ['enum'], symbols: { horizontal: 0, vertical: 1 } },
+  id: { id: 0x010100d0, formats: ['reference'] },
+  background: { id: 0x010100d4, formats: ['reference', 'color'] },
+  padding: { id: 0x010100d5, formats: ['dimension'] },
+  visibility: { id: 0x010100dc, formats: ['enum'], symbols: { visible: 0, invisible: 1, gone: 2 } },
+  layout_width: { id: 0x010100f4, formats: ['dimension', 'enum'], symbols: LAYOUT_SIZE },
+  layout_height: { id: 0x010100f5, formats: ['dimension', 'enum'], symbols: LAYOUT_SIZE },
+  text: { id: 0x0101014f, formats: ['reference', 'string'] },
+  minSdkVersion: { id: 0x0101020c, formats: ['integer', 'string'] },
+  versionCode: { id: 0x0101021b, formats: ['integer'] },
+  versionName: { id: 0x0101021c, formats: ['string'] },
+  windowSoftInputMode: {
+    id: 0x0101022b,
+    formats: ['flags'],
+    symbols: {
+      stateUnspecified: 0x00, stateUnchanged: 0x01, stateHidden: 0x02, stateAlwaysHidden: 0x03,
+      stateVisible: 0x04, stateAlwaysVisible: 0x05,
+      adjustUnspecified: 0x00, adjustResize: 0x10, adjustPan: 0x20, adjustNothing: 0x30
+    }
+  },
+  targetSdkVersion: { id: 0x01010270, formats: ['integer', 'string'] },
+  maxSdkVersion: { id: 0x01010271, formats: ['integer'] },
+  allowBackup: { id: 0x01010280, formats: ['boolean'] },
+  hardwareAccelerated: { id: 0x010102d3, formats: ['boolean'] },
+  largeHeap: { id: 0x0101035a, formats: ['boolean'] },
+  supportsRtl: { id: 0x010103af, formats: ['boolean'] },
+  fullBackupContent: { id: 0x010104eb, formats: ['reference', 'boolean'] },
+  usesCleartextTraffic: { id: 0x010104ec, formats: ['boolean'] },
+  roundIcon: { id: 0x0101052c, formats: ['reference'] }
+};
+
+// Framework resources that may be referenced as @android:type/name
+export const FRAMEWORK_RESOURCES: Record<string, number> = {
+  'color/white': 0x0106000b,
+  'color/black': 0x0106000c,
+  'color/transparent': 0x0106000d,
+  'style/Theme': 0x01030005,
+  'style/Theme.NoTitleBar': 0x01030006,
+  'style/Theme.NoTitleBar.Fullscreen': 0x01030007,
+  'style/Theme.Black': 0x01030008,
+  'style/Theme.Black.NoTitleBar': 0x01030009,
+  'style/Theme.Black.NoTitleBar.Fullscreen': 0x0103000a,
+  'style/Theme.Dialog': 0x0103000b,
+  'style/Theme.Light': 0x0103000c,
+  'style/Theme.Light.NoTitleBar': 0x0103000d,
+  'style/Theme.Light.NoTitleBar.Fullscreen': 0x0103000e,
+  'style/Theme.Translucent': 0x0103000f
+};
@@ -1,7 +1,9 @@
-import { execSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import { nanoid } from 'nanoid';
+import type { KeystoreType } from '@shared/schema';
+import type { BuildLog } from './builder-engine';
+import { runCommand } from './process-runner';
 
 export interface KeystoreConfig {
   alias: string;
@@ -9,14 +11,21 @@ export interface KeystoreConfig {
   keystorePassword: string;
   dname: string;
   validity: number;
+  storeType?: KeystoreType;
 }
 
 export interface KeystoreResult {
   success: boolean;
   keystorePath?: string;
+  storeType?: KeystoreType;
   error?: string;
 }
 
+export interface KeystoreCommandOptions {
+  signal?: AbortSignal;
+  log?: BuildLog;
+}
+
 export class KeystoreGenerator {
   private keystoreDir: string;
 
@@ -27,40 +36,43 @@ export class KeystoreGenerator {
     }
   }
 
-  async generateKeystore(config: KeystoreConfig): Promise<KeystoreResult> {
-    const keystoreId = nanoid();
-    const keystorePath = path.join(this.keystoreDir, `${keystoreId}.jks`);
-    
+  async generateKeystore(config: KeystoreConfig, options: KeystoreCommandOptions = {}): Promise<KeystoreResult> {
+    const storeType = config.storeType || 'jks';
+    const keystorePath = this.getKeystorePath(nanoid(), storeType);
+    // PKCS12 stores cannot protect the key with a separate password
+    const keyPassword = storeType === 'pkcs12' ? config.keystorePassword : config.password;
+
     try {
       // Generate keystore using keytool
-      const keytoolCommand = [
-        'keytool',
+      await runCommand('keytool', [
         '-genkeypair',
         '-v',
         '-keystore', keystorePath,
+        '-storetype', storeType,
         '-alias', config.alias,
         '-keyalg', 'RSA',
         '-keysize', '2048',
         '-validity', config.validity.toString(),
         '-storepass', config.keystorePassword,
-        '-keypass', config.password,
+        '-keypass', keyPassword,
         '-dname', config.dname
-      ].join(' ');
-      
-      execSync(keytoolCommand, { 
-        stdio: 'pipe',
-        timeout: 60000 // 1 minute timeout
+      ], {
+        timeout: 60000, // 1 minute timeout
+        signal: options.signal,
+        log: options.log,
+        secrets: [config.keystorePassword, keyPassword]
       });
-      
+
       if (!fs.existsSync(keystorePath)) {
         throw new Error('Keystore file not generated');
       }
-      
+
       return {
         success: true,
-        keystorePath
+        keystorePath,
+        storeType
       };
-      
+
     } catch (error) {
       return {
         success: false,
@@ -69,19 +81,7 @@ export class KeystoreGenerator {
     }
   }
 
-  async createDefaultKeystore(appName: string): Promise<KeystoreResult> {
-    const config: KeystoreConfig = {
-      alias: 'app-key',
-      password: 'android123',
-      keystorePassword: 'android123',
-      dname: `CN=${appName}, OU=Mobile, O=Company, L=City, ST=State, C=US`,
-      validity: 10000 // ~27 years
-    };
-    
-    return this.generateKeystore(config);
-  }
-
-  getKeystorePath(keystoreId: string): string {
-    return path.join(this.keystoreDir, `${keystoreId}.jks`);
+  getKeystorePath(keystoreId: string, storeType: KeystoreType = 'jks'): string {
+    return path.join(this.keystoreDir, `${keystoreId}.${storeType === 'pkcs12' ? 'p12' : 'jks'}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,552 @@
+import crypto from 'crypto';
+import type { KeystoreCertificateInfo, KeystoreEntryInfo, KeystoreType } from '@shared/schema';
+import {
+  decodeDer, expectTag, isContextTag, readBmpString, readInteger, readOctetString, readOid,
+  ASN1_SEQUENCE, ASN1_SET, type Asn1Node
+} from './asn1';
+import { rc2CbcDecrypt } from './rc2';
+
+export interface KeystoreEntry {
+  alias: string;
+  type: 'privateKey' | 'trustedCertificate';
+  createdAt: Date | null;
+  // DER certificates, leaf first
+  certificates: Buffer[];
+  // The private key as stored: an EncryptedPrivateKeyInfo (or a plain
+  // PrivateKeyInfo in unencrypted PKCS12 key bags)
+  protectedKey?: Buffer;
+}
+
+export interface KeystoreContents {
+  storeType: KeystoreType;
+  entries: KeystoreEntry[];
+}
+
+export interface SigningKey {
+  privateKey: crypto.KeyObject;
+  // DER certificates, leaf first
+  certificates: Buffer[];
+}
+
+export class KeystorePasswordError extends Error {
+  constructor(message = 'Keystore password is incorrect') {
+    super(message);
+    this.name = 'KeystorePasswordError';
+  }
+}
+
+export class UnsupportedKeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedKeystoreError';
+  }
+}
+
+const JKS_MAGIC = 0xfeedfeed;
+const JKS_PRIVATE_KEY_TAG = 1;
+const JKS_TRUSTED_CERT_TAG = 2;
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  encryptedData: '1.2.840.113549.1.7.6',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  friendlyName: '1.2.840.113549.1.9.20',
+  localKeyId: '1.2.840.113549.1.9.21',
+  pbes2: '1.2.840.113549.1.5.13',
+  jksKeyProtector: '1.3.6.1.4.1.42.2.17.1.1',
+  pbkdf2: '1.2.840.113549.1.5.12'
+};
+
+// Digest algorithms used by PKCS12 MACs and the PKCS12 key derivation
+const DIGESTS: Record<string, { name: string; size: number; blockSize: number }> = {
+  '1.3.14.3.2.26': { name: 'sha1', size: 20, blockSize: 64 },
+  '2.16.840.1.101.3.4.2.4': { name: 'sha224', size: 28, blockSize: 64 },
+  '2.16.840.1.101.3.4.2.1': { name: 'sha256', size: 32, blockSize: 64 },
+  '2.16.840.1.101.3.4.2.2': { name: 'sha384', size: 48, blockSize: 128 },
+  '2.16.840.1.101.3.4.2.3': { name: 'sha512', size: 64, blockSize: 128 }
+};
+
+const PBKDF2_PRFS: Record<string, string> = {
+  '1.2.840.113549.2.7': 'sha1',
+  '1.2.840.113549.2.8': 'sha224',
+  '1.2.840.113549.2.9': 'sha256',
+  '1.2.840.113549.2.10': 'sha384',
+  '1.2.840.113549.2.11': 'sha512'
+};
+
+const PBES2_CIPHERS: Record<string, { name: string; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { name: 'aes-128-cbc', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { name: 'aes-192-cbc', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { name: 'aes-256-cbc', keyLength: 32 },
+  '1.2.840.113549.3.7': { name: 'des-ede3-cbc', keyLength: 24 }
+};
+
+// Password-based encryption schemes from PKCS12 itself (SHA-1 key derivation)
+const PKCS12_PBE_CIPHERS: Record<string, { cipher: string; keyLength: number; rc2Bits?: number }> = {
+  '1.2.840.113549.1.12.1.3': { cipher: 'des-ede3-cbc', keyLength: 24 },
+  '1.2.840.113549.1.12.1.4': { cipher: 'des-ede-cbc', keyLength: 16 },
+  '1.2.840.113549.1.12.1.5': { cipher: 'rc2', keyLength: 16, rc2Bits: 128 },
+  '1.2.840.113549.1.12.1.6': { cipher: 'rc2', keyLength: 5, rc2Bits: 40 }
+};
+
+export function detectKeystoreType(content: Buffer): KeystoreType | undefined {
+  // JKS files start with the magic number 0xFEEDFEED, PKCS12 files with a DER SEQUENCE
+  if (content.length >= 4 && content.readUInt32BE(0) === JKS_MAGIC) return 'jks';
+  if (content.length >= 2 && content[0] === ASN1_SEQUENCE && content[1] >= 0x80) return 'pkcs12';
+  return undefined;
+}
+
+/**
+ * Parses a JKS or PKCS12 keystore. The store password is checked against the
+ * JKS integrity digest or the PKCS12 MAC; private keys are returned still
+ * protected.
+ */
+export function readKeystore(content: Buffer, password: string): KeystoreContents {
+  const storeType = detectKeystoreType(content);
+  if (storeType === 'jks') {
+    return { storeType, entries: readJks(content, password) };
+  }
+  if (storeType === 'pkcs12') {
+    return { storeType, entries: readPkcs12(content, password) };
+  }
+  throw new UnsupportedKeystoreError('File is not a JKS or PKCS12 keystore');
+}
+
+/**
+ * Opens the private key stored under `alias`. JKS protects each key with its
+ * own password; PKCS12 files written by keytool use the store password.
+ */
+export function readSigningKey(content: Buffer, alias: string, storePassword: string, keyPassword: string): SigningKey {
+  const contents = readKeystore(content, storePassword);
+  const entry = contents.entries.find(candidate => candidate.alias.toLowerCase() === alias.toLowerCase());
+  if (!entry || entry.type !== 'privateKey' || !entry.protectedKey) {
+    throw new UnsupportedKeystoreError(`Keystore has no private key "${alias}"`);
+  }
+  if (!entry.certificates.length) {
+    throw new UnsupportedKeystoreError(`Private key "${alias}" has no certificate`);
+  }
+
+  const password = contents.storeType === 'jks' ? keyPassword : storePassword;
+  const privateKey = crypto.createPrivateKey({
+    key: unprotectKey(entry.protectedKey, password),
+    format: 'der',
+    type: 'pkcs8'
+  });
+
+  const publicKey = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'der' });
+  const certificateKey = new crypto.X509Certificate(entry.certificates[0]).publicKey.export({ type: 'spki', format: 'der' });
+  if (!publicKey.equals(certificateKey)) {
+    throw new UnsupportedKeystoreError(`Private key "${alias}" does not match its certificate`);
+  }
+
+  return { privateKey, certificates: entry.certificates };
+}
+
+// Returns the PKCS8 PrivateKeyInfo of a stored key
+function unprotectKey(protectedKey: Buffer, password: string): Buffer {
+  const node = expectTag(decodeDer(protectedKey), ASN1_SEQUENCE, 'private key');
+  // An unencrypted PrivateKeyInfo starts with its version
+  if (node.children[0]?.tag !== ASN1_SEQUENCE) {
+    return protectedKey;
+  }
+
+  const [algorithm, encrypted] = node.children;
+  if (readOid(algorithm.children[0]) === OID.jksKeyProtector) {
+    return unprotectJksKey(readOctetString(encrypted), password);
+  }
+  return decrypt(algorithm, password, readOctetString(encrypted), 'Key password is incorrect');
+}
+
+// Sun's proprietary key protector: SHA-1 keystream XOR, followed by SHA-1(password, key)
+function unprotectJksKey(data: Buffer, password: string): Buffer {
+  const passwordBytes = Buffer.from(password, 'utf16le').swap16();
+  const salt = data.subarray(0, 20);
+  const encrypted = data.subarray(20, data.length - 20);
+  const check = data.subarray(data.length - 20);
+
+  const key = Buffer.alloc(encrypted.length);
+  let digest = salt;
+  for (let offset = 0; offset < encrypted.length; offset += 20) {
+    digest = crypto.createHash('sha1').update(passwordBytes).update(digest).digest();
+    for (let i = 0; i < 20 && offset + i < encrypted.length; i++) {
+      key[offset + i] = encrypted[offset + i] ^ digest[i];
+    }
+  }
+
+  const expected = crypto.createHash('sha1').update(passwordBytes).update(key).digest();
+  if (!crypto.timingSafeEqual(expected, check)) {
+    throw new KeystorePasswordError('Key password is incorrect');
+  }
+  return key;
+}
+
+export function describeCertificate(der: Buffer): KeystoreCertificateInfo {
+  const certificate = new crypto.X509Certificate(der);
+  const { publicKey } = certificate;
+  const details = publicKey.asymmetricKeyDetails;
+
+  let keySize: number | null = details?.modulusLength ?? null;
+  if (details?.namedCurve) {
+    const curveSizes: Record<string, number> = { prime256v1: 256, secp384r1: 384, secp521r1: 521 };
+    keySize = curveSizes[details.namedCurve] ?? null;
+  }
+
+  return {
+    subject: certificate.subject.split('\n').join(', '),
+    issuer: certificate.issuer.split('\n').join(', '),
+    serialNumber: certificate.serialNumber,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+    keyAlgorithm: (publicKey.asymmetricKeyType || 'unknown').toUpperCase(),
+    keySize,
+    sha1Fingerprint: certificate.fingerprint,
+    sha256Fingerprint: certificate.fingerprint256
+  };
+}
+
+export function describeKeystore(contents: KeystoreContents): KeystoreEntryInfo[] {
+  return contents.entries.map(entry => ({
+    alias: entry.alias,
+    type: entry.type,
+    createdAt: entry.createdAt ? entry.createdAt.toISOString() : null,
+    certificate: entry.certificates[0] ? describeCertificate(entry.certificates[0]) : null,
+    chainLength: entry.certificates.length
+  }));
+}
+
+// JKS
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new UnsupportedKeystoreError('Keystore file is truncated');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  uint32(): number {
+    return this.take(4).readUInt32BE(0);
+  }
+
+  long(): number {
+    return Number(this.take(8).readBigInt64BE(0));
+  }
+
+  utf(): string {
+    const length = this.take(2).readUInt16BE(0);
+    return this.take(length).toString('utf8');
+  }
+
+  bytes(): Buffer {
+    return this.take(this.uint32());
+  }
+}
+
+function readJks(content: Buffer, password: string): KeystoreEntry[] {
+  if (content.length < 32) {
+    throw new UnsupportedKeystoreError('Keystore file is truncated');
+  }
+
+  // The file ends with SHA-1(password as UTF-16BE, "Mighty Aphrodite", contents)
+  const body = content.subarray(0, content.length - 20);
+  const digest = crypto.createHash('sha1')
+    .update(Buffer.from(password, 'utf16le').swap16())
+    .update('Mighty Aphrodite', 'utf8')
+    .update(body)
+    .digest();
+  if (!crypto.timingSafeEqual(digest, content.subarray(content.length - 20))) {
+    throw new KeystorePasswordError();
+  }
+
+  const reader = new ByteReader(body);
+  reader.uint32(); // magic
+  const version = reader.uint32();
+  if (version !== 1 && version !== 2) {
+    throw new UnsupportedKeystoreError(`Unsupported JKS version ${version}`);
+  }
+
+  const readCertificate = () => {
+    if (version === 2) {
+      const type = reader.utf();
+      if (type !== 'X.509') {
+        throw new UnsupportedKeystoreError(`Unsupported certificate type ${type}`);
+      }
+    }
+    return reader.bytes();
+  };
+
+  const entries: KeystoreEntry[] = [];
+  const count = reader.uint32();
+  for (let i = 0; i < count; i++) {
+    const tag = reader.uint32();
+    const alias = reader.utf();
+    const createdAt = new Date(reader.long());
+
+    if (tag === JKS_PRIVATE_KEY_TAG) {
+      const protectedKey = reader.bytes();
+      const chainLength = reader.uint32();
+      const certificates = Array.from({ length: chainLength }, readCertificate);
+      entries.push({ alias, type: 'privateKey', createdAt, certificates, protectedKey });
+    } else if (tag === JKS_TRUSTED_CERT_TAG) {
+      entries.push({ alias, type: 'trustedCertificate', createdAt, certificates: [readCertificate()] });
+    } else {
+      throw new UnsupportedKeystoreError(`Unsupported JKS entry type ${tag}`);
+    }
+  }
+
+  return entries;
+}
+
+// PKCS12
+
+interface SafeBag {
+  type: string;
+  value: Asn1Node;
+  friendlyName?: string;
+  localKeyId?: Buffer;
+}
+
+// PKCS12 passwords are BMPStrings (UTF-16BE) with a two-byte terminator
+function bmpPassword(password: string): Buffer {
+  return Buffer.concat([Buffer.from(password, 'utf16le').swap16(), Buffer.alloc(2)]);
+}
+
+// Key derivation from RFC 7292 appendix B.2; id 1 = key, 2 = IV, 3 = MAC key
+function pkcs12Kdf(digestOid: string, password: Buffer, salt: Buffer, id: number, iterations: number, length: number): Buffer {
+  const digest = DIGESTS[digestOid];
+  if (!digest) {
+    throw new UnsupportedKeystoreError(`Unsupported digest ${digestOid}`);
+  }
+  const { name, size: u, blockSize: v } = digest;
+
+  const fill = (data: Buffer) => {
+    const out = Buffer.alloc(data.length ? v * Math.ceil(data.length / v) : 0);
+    for (let i = 0; i < out.length; i++) out[i] = data[i % data.length];
+    return out;
+  };
+
+  const d = Buffer.alloc(v, id);
+  const i = Buffer.concat([fill(salt), fill(password)]);
+  const result: Buffer[] = [];
+
+  for (let produced = 0; produced < length; produced += u) {
+    let a = crypto.createHash(name).update(d).update(i).digest();
+    for (let round = 1; round < iterations; round++) {
+      a = crypto.createHash(name).update(a).digest();
+    }
+    result.push(a);
+
+    // I_j = (I_j + B + 1) mod 2^(v*8) for every v-byte block of I
+    const b = fill(a);
+    for (let offset = 0; offset < i.length; offset += v) {
+      let carry = 1;
+      for (let k = v - 1; k >= 0; k--) {
+        const sum = i[offset + k] + b[k] + carry;
+        i[offset + k] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+
+  return Buffer.concat(result).subarray(0, length);
+}
+
+function decryptPbes2(params: Asn1Node, password: string, ciphertext: Buffer): Buffer {
+  const [kdf, scheme] = expectTag(params, ASN1_SEQUENCE, 'PBES2 parameters').children;
+  if (readOid(kdf?.children[0]) !== OID.pbkdf2) {
+    throw new UnsupportedKeystoreError('Unsupported PBES2 key derivation');
+  }
+
+  const kdfParams = kdf.children[1].children;
+  const salt = readOctetString(kdfParams[0]);
+  const iterations = readInteger(kdfParams[1]);
+  const prfNode = kdfParams.find(node => node.tag === ASN1_SEQUENCE);
+  const prf = prfNode ? PBKDF2_PRFS[readOid(prfNode.children[0])] : 'sha1';
+
+  const cipher = PBES2_CIPHERS[readOid(scheme?.children[0])];
+  if (!prf || !cipher) {
+    throw new UnsupportedKeystoreError('Unsupported PBES2 algorithm');
+  }
+
+  const key = crypto.pbkdf2Sync(Buffer.from(password, 'utf8'), salt, iterations, cipher.keyLength, prf);
+  const iv = readOctetString(scheme.children[1]);
+  const decipher = crypto.createDecipheriv(cipher.name, key, iv);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function decryptPkcs12Pbe(algorithmOid: string, params: Asn1Node, password: string, ciphertext: Buffer): Buffer {
+  const scheme = PKCS12_PBE_CIPHERS[algorithmOid];
+  if (!scheme) {
+    throw new UnsupportedKeystoreError(`Unsupported encryption algorithm ${algorithmOid}`);
+  }
+
+  const [saltNode, iterationsNode] = expectTag(params, ASN1_SEQUENCE, 'PBE parameters').children;
+  const salt = readOctetString(saltNode);
+  const iterations = readInteger(iterationsNode);
+  const sha1 = '1.3.14.3.2.26';
+  const bmp = bmpPassword(password);
+  const key = pkcs12Kdf(sha1, bmp, salt, 1, iterations, scheme.keyLength);
+  const iv = pkcs12Kdf(sha1, bmp, salt, 2, iterations, 8);
+
+  if (scheme.rc2Bits) {
+    return rc2CbcDecrypt(key, scheme.rc2Bits, iv, ciphertext);
+  }
+  const decipher = crypto.createDecipheriv(scheme.cipher, key, iv);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function decrypt(algorithm: Asn1Node, password: string, ciphertext: Buffer, passwordMessage?: string): Buffer {
+  const algorithmOid = readOid(algorithm.children[0]);
+  try {
+    return algorithmOid === OID.pbes2
+      ? decryptPbes2(algorithm.children[1], password, ciphertext)
+      : decryptPkcs12Pbe(algorithmOid, algorithm.children[1], password, ciphertext);
+  } catch (error) {
+    if (error instanceof UnsupportedKeystoreError) throw error;
+    // Wrong passwords surface as padding errors
+    throw new KeystorePasswordError(passwordMessage);
+  }
+}
+
+function verifyMac(macData: Asn1Node, password: string, authSafe: Buffer): void {
+  const [digestInfo, saltNode, iterationsNode] = macData.children;
+  const digestOid = readOid(digestInfo.children[0].children[0]);
+  const expected = readOctetString(digestInfo.children[1]);
+  const salt = readOctetString(saltNode);
+  const iterations = iterationsNode ? readInteger(iterationsNode) : 1;
+
+  const digest = DIGESTS[digestOid];
+  if (!digest) {
+    throw new UnsupportedKeystoreError(`Unsupported MAC digest ${digestOid}`);
+  }
+
+  const key = pkcs12Kdf(digestOid, bmpPassword(password), salt, 3, iterations, digest.size);
+  const actual = crypto.createHmac(digest.name, key).update(authSafe).digest();
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new KeystorePasswordError();
+  }
+}
+
+function readSafeBags(safeContents: Buffer): SafeBag[] {
+  return expectTag(decodeDer(safeContents), ASN1_SEQUENCE, 'SafeContents').children.map(bagNode => {
+    const [typeNode, valueNode, attributesNode] = bagNode.children;
+    if (!isContextTag(valueNode, 0)) {
+      throw new UnsupportedKeystoreError('Malformed PKCS12 bag');
+    }
+
+    const bag: SafeBag = { type: readOid(typeNode), value: valueNode.children[0] };
+    if (attributesNode?.tag === ASN1_SET) {
+      for (const attribute of attributesNode.children) {
+        const attributeOid = readOid(attribute.children[0]);
+        const attributeValue = attribute.children[1]?.children[0];
+        if (attributeOid === OID.friendlyName) {
+          bag.friendlyName = readBmpString(attributeValue);
+        } else if (attributeOid === OID.localKeyId) {
+          bag.localKeyId = readOctetString(attributeValue);
+        }
+      }
+    }
+    return bag;
+  });
+}
+
+// Java stores the creation time as a "Time <millis>" local key id
+function creationTime(localKeyId?: Buffer): Date | null {
+  const match = localKeyId?.toString('latin1').match(/^Time (\d+)$/);
+  return match ? new Date(parseInt(match[1])) : null;
+}
+
+// Orders the issuers of `leaf` found among `candidates` after it
+function buildChain(leaf: Buffer, candidates: Buffer[]): Buffer[] {
+  const chain = [leaf];
+  let current = new crypto.X509Certificate(leaf);
+
+  while (chain.length <= candidates.length) {
+    if (current.checkIssued(current)) break;
+    const issuer = candidates.find(der => !chain.includes(der) && current.checkIssued(new crypto.X509Certificate(der)));
+    if (!issuer) break;
+    chain.push(issuer);
+    current = new crypto.X509Certificate(issuer);
+  }
+
+  return chain;
+}
+
+function readPkcs12(content: Buffer, password: string): KeystoreEntry[] {
+  const pfx = expectTag(decodeDer(content), ASN1_SEQUENCE, 'PFX');
+  const [versionNode, authSafeInfo, macData] = pfx.children;
+  if (readInteger(versionNode) !== 3) {
+    throw new UnsupportedKeystoreError('Unsupported PKCS12 version');
+  }
+  if (readOid(authSafeInfo.children[0]) !== OID.data) {
+    throw new UnsupportedKeystoreError('Only password-integrity PKCS12 files are supported');
+  }
+
+  const authSafe = readOctetString(authSafeInfo.children[1]?.children[0]);
+  if (macData) {
+    verifyMac(macData, password, authSafe);
+  }
+
+  const bags: SafeBag[] = [];
+  for (const contentInfo of expectTag(decodeDer(authSafe), ASN1_SEQUENCE, 'AuthenticatedSafe').children) {
+    const contentType = readOid(contentInfo.children[0]);
+    const payload = contentInfo.children[1]?.children[0];
+
+    if (contentType === OID.data) {
+      bags.push(...readSafeBags(readOctetString(payload)));
+    } else if (contentType === OID.encryptedData) {
+      const encryptedContentInfo = payload.children[1];
+      const [, algorithm, encryptedContent] = encryptedContentInfo.children;
+      if (!isContextTag(encryptedContent, 0)) {
+        throw new UnsupportedKeystoreError('Malformed PKCS12 encrypted data');
+      }
+      // [0] IMPLICIT OCTET STRING, either primitive or split into constructed segments
+      const ciphertext = encryptedContent.constructed
+        ? Buffer.concat(encryptedContent.children.map(readOctetString))
+        : encryptedContent.value;
+      bags.push(...readSafeBags(decrypt(algorithm, password, ciphertext)));
+    } else {
+      throw new UnsupportedKeystoreError('Public-key encrypted PKCS12 content is not supported');
+    }
+  }
+
+  const certBags = bags.filter(bag => bag.type === OID.certBag);
+  const certificateOf = (bag: SafeBag) => {
+    if (readOid(bag.value.children[0]) !== OID.x509Certificate) {
+      throw new UnsupportedKeystoreError('Unsupported certificate type');
+    }
+    return readOctetString(bag.value.children[1]?.children[0]);
+  };
+  const allCertificates = certBags.map(certificateOf);
+  const entries: KeystoreEntry[] = [];
+
+  bags.filter(bag => bag.type === OID.keyBag || bag.type === OID.shroudedKeyBag).forEach((keyBag, index) => {
+    const certBag = keyBag.localKeyId && certBags.find(bag => bag.localKeyId?.equals(keyBag.localKeyId!));
+    const leaf = certBag ? certificateOf(certBag) : undefined;
+    entries.push({
+      alias: keyBag.friendlyName || (certBag && certBag.friendlyName) || `key-${index + 1}`,
+      type: 'privateKey',
+      createdAt: creationTime(keyBag.localKeyId),
+      certificates: leaf ? buildChain(leaf, allCertificates) : [],
+      protectedKey: keyBag.value.raw
+    });
+  });
+
+  // Certificates that belong to no key but carry a name are trusted certificate entries
+  for (const bag of certBags) {
+    if (!bag.localKeyId && bag.friendlyName) {
+      entries.push({ alias: bag.friendlyName, type: 'trustedCertificate', createdAt: null, certificates: [certificateOf(bag)] });
+    }
+  }
+
+  return entries;
+}
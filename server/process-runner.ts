@@ -0,0 +1,167 @@
+import { spawn } from 'child_process';
+import type { BuildLog } from './builder-engine';
+
+export interface RunCommandOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  signal?: AbortSignal;
+  timeout?: number;
+  log?: BuildLog;
+  // Values (passwords) masked wherever the command line or its output is logged
+  secrets?: string[];
+}
+
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export class BuildCancelledError extends Error {
+  constructor(message = 'Build was cancelled') {
+    super(message);
+    this.name = 'BuildCancelledError';
+  }
+}
+
+export class CommandFailedError extends Error {
+  constructor(
+    public command: string,
+    public exitCode: number | null,
+    public signal: NodeJS.Signals | null,
+    public output: CommandOutput
+  ) {
+    super(exitCode !== null
+      ? `${command} exited with code ${exitCode}`
+      : `${command} was terminated by ${signal}`);
+    this.name = 'CommandFailedError';
+  }
+}
+
+// Grace period between SIGTERM and SIGKILL when a command is aborted
+const KILL_GRACE_PERIOD = 5000;
+
+// Captured output kept in memory per stream; the full output goes to the build log
+const MAX_CAPTURED_OUTPUT = 1024 * 1024;
+
+function redact(text: string, secrets: string[] = []): string {
+  return secrets.filter(Boolean).reduce((result, secret) => result.split(secret).join('****'), text);
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new BuildCancelledError();
+  }
+}
+
+/**
+ * Runs a toolchain command without blocking the event loop. The child gets its
+ * own process group so aborting kills everything it spawned (Gradle workers,
+ * the JVMs behind keytool/jarsigner, ...), not just the direct child.
+ * stdout and stderr are captured and forwarded line by line to the build log,
+ * with `secrets` masked in both.
+ */
+export function runCommand(command: string, args: string[], options: RunCommandOptions = {}): Promise<CommandOutput> {
+  throwIfCancelled(options.signal);
+
+  const { log, secrets } = options;
+  log?.info(redact(`$ ${[command, ...args].join(' ')}`, secrets));
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true
+    });
+
+    const output: CommandOutput = { stdout: '', stderr: '' };
+    // A secret can be split across chunks, so output is redacted a whole line
+    // at a time; the unfinished line waits for the next chunk or the exit
+    const partial: CommandOutput = { stdout: '', stderr: '' };
+    for (const stream of ['stdout', 'stderr'] as const) {
+      child[stream].setEncoding('utf8');
+      child[stream].on('data', (chunk: string) => {
+        if (output[stream].length < MAX_CAPTURED_OUTPUT) {
+          output[stream] += chunk;
+        }
+        const text = partial[stream] + chunk;
+        const end = text.lastIndexOf('\n') + 1;
+        partial[stream] = text.slice(end);
+        if (end > 0) {
+          log?.output(stream, redact(text.slice(0, end), secrets));
+        }
+      });
+    }
+    const flushOutput = () => {
+      for (const stream of ['stdout', 'stderr'] as const) {
+        if (partial[stream]) {
+          log?.output(stream, redact(partial[stream], secrets));
+          partial[stream] = '';
+        }
+      }
+    };
+    const capturedOutput = (): CommandOutput => ({
+      stdout: redact(output.stdout, secrets),
+      stderr: redact(output.stderr, secrets)
+    });
+
+    let cancelled = false;
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const killTree = () => {
+      if (child.pid === undefined || child.exitCode !== null) return;
+      try {
+        process.kill(-child.pid, 'SIGTERM');
+      } catch (error) {
+        // Process group already gone
+      }
+      killTimer = setTimeout(() => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch (error) {
+          // Process group already gone
+        }
+      }, KILL_GRACE_PERIOD);
+    };
+
+    const onAbort = () => {
+      cancelled = true;
+      killTree();
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timeoutTimer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          killTree();
+        }, options.timeout)
+      : undefined;
+
+    const cleanup = () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+    };
+
+    child.on('error', (error) => {
+      cleanup();
+      reject(error);
+    });
+
+    child.on('close', (code, signal) => {
+      cleanup();
+      flushOutput();
+      if (cancelled) {
+        reject(new BuildCancelledError());
+      } else if (timedOut) {
+        reject(new Error(`${command} timed out after ${options.timeout}ms`));
+      } else if (code === 0) {
+        resolve(capturedOutput());
+      } else {
+        log?.info(`${command} failed with ${code !== null ? `exit code ${code}` : signal}`);
+        reject(new CommandFailedError(command, code, signal, capturedOutput()));
+      }
+    });
+  });
+}
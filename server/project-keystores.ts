@@ -0,0 +1,184 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { nanoid } from 'nanoid';
+import type { Keystore, KeystoreEntryInfo, KeystoreType, SigningConfig } from '@shared/schema';
+import { storage } from './storage';
+import { sealSigningSecrets } from './signing-secrets';
+import { KeystoreGenerator, type KeystoreCommandOptions } from './keystore-generator';
+import { detectKeystoreType, describeKeystore, readKeystore, KeystorePasswordError, type KeystoreContents } from './keystore-reader';
+import { throwIfCancelled } from './process-runner';
+
+// Signing details needed to create or unlock a project keystore
+export type KeystoreSigningDetails = Pick<SigningConfig,
+  'keyAlias' | 'keystorePassword' | 'keyPassword' | 'developerName' | 'organizationName' |
+  'city' | 'state' | 'country' | 'keystoreValidity'>;
+
+// Credentials that unlock an existing keystore
+export type KeystoreCredentials = Pick<SigningConfig, 'keyAlias' | 'keystorePassword' | 'keyPassword'>;
+
+export interface KeystoreUpload {
+  path: string;
+  originalName: string;
+}
+
+// Raised for keystores that cannot be used for signing; the message is safe to show to users
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+const keystoreGenerator = new KeystoreGenerator();
+
+export async function getProjectKeystore(projectId: number): Promise<Keystore | undefined> {
+  const signingConfig = await storage.getSigningConfig(projectId);
+  if (!signingConfig?.keystorePath) return undefined;
+
+  const projectKeystores = await storage.getKeystoresByProject(projectId);
+  return projectKeystores.find(keystore => keystore.path === signingConfig.keystorePath);
+}
+
+/**
+ * Checks that the store password opens the keystore and that the alias holds
+ * a private key, and returns the keystore's entries with certificate details.
+ */
+export function inspectKeystore(content: Buffer, alias: string, storePassword: string): KeystoreEntryInfo[] {
+  let contents: KeystoreContents;
+  let entries: KeystoreEntryInfo[];
+  try {
+    contents = readKeystore(content, storePassword);
+    entries = describeKeystore(contents);
+  } catch (error) {
+    if (error instanceof KeystorePasswordError) {
+      throw new KeystoreError('Keystore cannot be opened: the keystore password is incorrect');
+    }
+    throw new KeystoreError(`Keystore cannot be read: ${error instanceof Error ? error.message : 'unknown format'}`);
+  }
+
+  // Java keystores treat aliases case-insensitively
+  const entry = contents.entries.find(candidate => candidate.alias.toLowerCase() === alias.toLowerCase());
+  if (!entry) {
+    const aliases = contents.entries.map(candidate => `"${candidate.alias}"`).join(', ');
+    throw new KeystoreError(`Alias "${alias}" was not found in the keystore${aliases ? ` (found ${aliases})` : ''}`);
+  }
+  if (entry.type !== 'privateKey') {
+    throw new KeystoreError(`Alias "${alias}" holds a trusted certificate, not a signing key`);
+  }
+  return entries;
+}
+
+/**
+ * Returns the project's long-lived keystore, generating it with
+ * KeystoreGenerator the first time a signed build runs. A keystore that is
+ * linked but missing on disk is an error rather than a reason to generate a
+ * new one: a different key would break updates of installed apps.
+ */
+export async function ensureProjectKeystore(
+  projectId: number,
+  details: KeystoreSigningDetails,
+  options: KeystoreCommandOptions = {}
+): Promise<Keystore> {
+  const signingConfig = await storage.getSigningConfig(projectId);
+
+  if (signingConfig?.keystorePath) {
+    const keystore = await getProjectKeystore(projectId);
+    if (!keystore || !existsSync(keystore.path)) {
+      throw new KeystoreError('The project keystore is missing. Restore it or upload the original keystore again.');
+    }
+    options.log?.info(`Using project keystore "${keystore.keyAlias}" (${keystore.source} ${keystore.createdAt?.toISOString()})`);
+    return keystore;
+  }
+
+  options.log?.info('Generating the project keystore; every later build is signed with the same key');
+  const dname = `CN=${details.developerName || 'Developer'}, O=${details.organizationName || 'Organization'}, L=${details.city || 'City'}, ST=${details.state || 'State'}, C=${details.country || 'US'}`;
+  const result = await keystoreGenerator.generateKeystore({
+    alias: details.keyAlias,
+    password: details.keyPassword,
+    keystorePassword: details.keystorePassword,
+    dname,
+    validity: details.keystoreValidity || 10000
+  }, options);
+
+  throwIfCancelled(options.signal);
+  if (!result.success || !result.keystorePath || !result.storeType) {
+    throw new Error(`Failed to generate project keystore: ${result.error || 'Unknown error'}`);
+  }
+
+  let entries: KeystoreEntryInfo[] | null = null;
+  try {
+    entries = inspectKeystore(await fs.readFile(result.keystorePath), details.keyAlias, details.keystorePassword);
+  } catch (error) {
+    // The keystore works for signing either way; only its details are missing
+    options.log?.info(`Could not read the generated keystore details: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const keystore = await storage.createKeystore({
+    projectId,
+    path: result.keystorePath,
+    storeType: result.storeType,
+    keyAlias: details.keyAlias,
+    source: 'generated',
+    entries
+  });
+  await linkKeystore(projectId, keystore, details);
+  return keystore;
+}
+
+// Stores an uploaded JKS/PKCS12 file as the project's keystore
+export async function importProjectKeystore(
+  projectId: number,
+  upload: KeystoreUpload,
+  details: KeystoreCredentials,
+  storeType?: KeystoreType
+): Promise<Keystore> {
+  try {
+    const content = await fs.readFile(upload.path);
+    const detectedType = detectKeystoreType(content);
+    if (!detectedType) {
+      throw new KeystoreError('File is not a JKS or PKCS12 keystore');
+    }
+    if (storeType && storeType !== detectedType) {
+      throw new KeystoreError(`File is a ${detectedType.toUpperCase()} keystore, not ${storeType.toUpperCase()}`);
+    }
+
+    const entries = inspectKeystore(content, details.keyAlias, details.keystorePassword);
+
+    const keystorePath = keystoreGenerator.getKeystorePath(nanoid(), detectedType);
+    await fs.copyFile(upload.path, keystorePath);
+
+    const keystore = await storage.createKeystore({
+      projectId,
+      path: keystorePath,
+      storeType: detectedType,
+      keyAlias: details.keyAlias,
+      source: 'uploaded',
+      originalFileName: upload.originalName,
+      entries
+    });
+    await linkKeystore(projectId, keystore, details);
+    return keystore;
+  } finally {
+    await fs.rm(upload.path, { force: true });
+  }
+}
+
+async function linkKeystore(projectId: number, keystore: Keystore, details: KeystoreCredentials): Promise<void> {
+  const signingConfig = await storage.getSigningConfig(projectId);
+  if (signingConfig) {
+    await storage.updateSigningConfig(projectId, sealSigningSecrets({
+      keystorePath: keystore.path,
+      keyAlias: keystore.keyAlias,
+      keystorePassword: details.keystorePassword,
+      keyPassword: details.keyPassword
+    }));
+  } else {
+    await storage.createSigningConfig(sealSigningSecrets({
+      projectId,
+      keystorePath: keystore.path,
+      keyAlias: keystore.keyAlias,
+      keystorePassword: details.keystorePassword,
+      keyPassword: details.keyPassword
+    }));
+  }
+}
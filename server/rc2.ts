@@ -0,0 +1,92 @@
+// RC2 (RFC 2268) decryption in CBC mode. OpenSSL 3 only ships RC2 in its
+// legacy provider, but PKCS12 files written by older JDKs and OpenSSL encrypt
+// their certificates with pbeWithSHAAnd40BitRC2-CBC, so it is implemented here.
+
+const PITABLE = Buffer.from(
+  'd978f9c419ddb5ed28e9fd794aa0d89dc67e37832b76538e624c6488448bfba2' +
+  '179a59f587b34f1361456d8d09817d32bd8f40eb86b77b0bf09521225c6b4e82' +
+  '54d66593ce60b21c7356c014a78cf1dc1275ca1f3bbee4d1423dd430a33cb626' +
+  '6fbf0eda4669075727f21d9bbc944303f811c7f690ef3ee706c3d52fc8661ed7' +
+  '08e8eade8052eef784aa72ac354d6a2a961ad2715a1549744b9fd05e0418a4ec' +
+  'c2e0416e0f51cbcc2491af50a1f47039997c3a8523b8b47afc02365b25559731' +
+  '2d5dfa98e38a92ae05df2910676cbac9d300e6cfe19ea82c6316013f58e289a9' +
+  '0d38341bab33ffb0bb480c5fb9b1cd2ec5f3db47e5a59c770aa62068fe7fc1ad',
+  'hex'
+);
+
+function expandKey(key: Buffer, effectiveBits: number): Uint16Array {
+  const l = Buffer.alloc(128);
+  key.copy(l);
+
+  for (let i = key.length; i < 128; i++) {
+    l[i] = PITABLE[(l[i - 1] + l[i - key.length]) & 0xff];
+  }
+
+  const t8 = Math.ceil(effectiveBits / 8);
+  const tm = 0xff >> (8 * t8 - effectiveBits);
+  l[128 - t8] = PITABLE[l[128 - t8] & tm];
+  for (let i = 127 - t8; i >= 0; i--) {
+    l[i] = PITABLE[l[i + 1] ^ l[i + t8]];
+  }
+
+  const k = new Uint16Array(64);
+  for (let i = 0; i < 64; i++) {
+    k[i] = l[2 * i] | (l[2 * i + 1] << 8);
+  }
+  return k;
+}
+
+function decryptBlock(k: Uint16Array, block: Buffer): Buffer {
+  const r = [block.readUInt16LE(0), block.readUInt16LE(2), block.readUInt16LE(4), block.readUInt16LE(6)];
+  const shifts = [1, 2, 3, 5];
+  let j = 63;
+
+  const reverseMix = () => {
+    for (let i = 3; i >= 0; i--) {
+      const s = shifts[i];
+      r[i] = ((r[i] >>> s) | (r[i] << (16 - s))) & 0xffff;
+      r[i] = (r[i] - k[j--] - (r[(i + 3) & 3] & r[(i + 2) & 3]) - (~r[(i + 3) & 3] & r[(i + 1) & 3])) & 0xffff;
+    }
+  };
+  const reverseMash = () => {
+    for (let i = 3; i >= 0; i--) {
+      r[i] = (r[i] - k[r[(i + 3) & 3] & 63]) & 0xffff;
+    }
+  };
+
+  for (let round = 0; round < 5; round++) reverseMix();
+  reverseMash();
+  for (let round = 0; round < 6; round++) reverseMix();
+  reverseMash();
+  for (let round = 0; round < 5; round++) reverseMix();
+
+  const out = Buffer.alloc(8);
+  r.forEach((word, index) => out.writeUInt16LE(word, index * 2));
+  return out;
+}
+
+export function rc2CbcDecrypt(key: Buffer, effectiveBits: number, iv: Buffer, ciphertext: Buffer): Buffer {
+  if (ciphertext.length === 0 || ciphertext.length % 8 !== 0) {
+    throw new Error('RC2 ciphertext is not a whole number of blocks');
+  }
+
+  const k = expandKey(key, effectiveBits);
+  const plaintext = Buffer.alloc(ciphertext.length);
+  let previous = iv;
+
+  for (let offset = 0; offset < ciphertext.length; offset += 8) {
+    const block = ciphertext.subarray(offset, offset + 8);
+    const decrypted = decryptBlock(k, block);
+    for (let i = 0; i < 8; i++) {
+      plaintext[offset + i] = decrypted[i] ^ previous[i];
+    }
+    previous = block;
+  }
+
+  // Strip PKCS#7 padding
+  const padding = plaintext[plaintext.length - 1];
+  if (padding < 1 || padding > 8 || plaintext.subarray(-padding).some(byte => byte !== padding)) {
+    throw new Error('Bad RC2 padding');
+  }
+  return plaintext.subarray(0, plaintext.length - padding);
+}
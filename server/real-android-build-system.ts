@@ -1,42 +1,67 @@
-import { execSync } from 'child_process';
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
 import { nanoid } from 'nanoid';
-
-export interface BuildConfig {
-  appName: string;
-  packageName: string;
-  versionCode: number;
-  versionName: string;
-  websiteUrl?: string;
-  files?: Array<{ name: string; content: Buffer }>;
-  keystoreValidity?: number;
-  keystorePassword?: string;
-  keyAlias?: string;
-  developerName?: string;
-  organizationName?: string;
-  city?: string;
-  state?: string;
-  country?: string;
+import type { KeystoreType } from '@shared/schema';
+import type { BuildConfig, BuildResult, BuildContext, BuilderEngine, BuilderCapabilities, ToolchainRequirement } from './builder-engine';
+import { runCommand, throwIfCancelled, BuildCancelledError } from './process-runner';
+import { signApkFile, signBundleFile } from './apk-signer';
+import { readEntryContent, readZip } from './zip-archive';
+import { DEFAULT_SDK_LEVELS, resolveToolchain } from './android-toolchain';
+import { createTemplateVariables, renderStartPage, renderTemplateSet, writeAppAssets, type TemplateVariables } from './android-templates';
+import { BuildHookRunner } from './build-plugins';
+
+// Signing files written into an exported project
+export interface ExportSigning {
+  keystorePath: string;
+  storeType: KeystoreType;
+  keyAlias: string;
+  storePassword: string;
+  keyPassword: string;
 }
 
-export interface BuildResult {
-  success: boolean;
-  apkPath?: string;
-  aabPath?: string;
-  keystorePath?: string;
-  error?: string;
-  buildId: string;
-  progress?: number;
+// Java .properties escaping for values that may contain any character;
+// Properties.load reads ISO-8859-1, so everything else becomes \uXXXX
+function escapeProperty(value: string): string {
+  return value
+    .replace(/[\\:=#!]/g, match => `\\${match}`)
+    .replace(/^ /, '\\ ')
+    .replace(/[^\x20-\x7e]/g, match => `\\u${match.charCodeAt(0).toString(16).padStart(4, '0')}`);
 }
 
-export interface BuildProgress {
-  step: string;
-  progress: number;
-  message: string;
+// Artifacts of a finished build to put in its complete download package.
+// The keystore is never one of them: anyone holding it can sign updates of
+// the app, so it is only exported with its password.
+export interface DeliveryFiles {
+  apkPath: string | null;
+  aabPath: string | null;
+  apksPath: string | null;
+  mappingPath: string | null;
+  // Files attached by build plugins
+  pluginArtifacts: Array<{ name: string; path: string }>;
 }
 
-export class RealAndroidBuildSystem {
+export class RealAndroidBuildSystem implements BuilderEngine {
+  readonly id = 'gradle';
+  readonly name = 'Gradle';
+  readonly description = 'Generates a native WebView project and compiles it with Gradle and the Android SDK';
+  readonly capabilities: BuilderCapabilities = {
+    apk: true,
+    aab: true,
+    signing: true,
+    websiteUrl: true,
+    webFiles: true,
+    codeShrinking: true,
+    splitApks: true,
+    buildHooks: true,
+    nativeBridge: true
+  };
+  readonly requirements: ToolchainRequirement[] = [
+    { name: 'Java', command: 'java', description: 'Runs the Gradle wrapper, which fetches the Gradle version of the toolchain profile' },
+    { name: 'keytool', command: 'keytool', description: 'Generates the project keystore' },
+    { name: 'bundletool', command: 'bundletool', description: 'Derives split and universal APKs from App Bundles', capability: 'splitApks' }
+  ];
+
   private buildDir: string;
   private outputDir: string;
   private androidSdkPath: string;
@@ -54,55 +79,89 @@ export class RealAndroidBuildSystem {
     await fs.mkdir(this.androidSdkPath, { recursive: true });
   }
 
-  async buildAPK(config: BuildConfig, onProgress?: (progress: BuildProgress) => void): Promise<BuildResult> {
+  async buildAPK(config: BuildConfig, context: BuildContext = {}): Promise<BuildResult> {
     const buildId = nanoid();
+    const { onProgress, signal, log } = context;
+    const projectDir = path.join(this.buildDir, buildId);
+    const hooks = new BuildHookRunner(context.plugins ?? [], { buildId, config, projectDir, artifactDir: this.outputDir, log, signal });
     
     try {
+      if (!config.keystorePath || !config.keystorePassword) {
+        throw new Error('No signing keystore provided for this build');
+      }
+
+      // Fails before any work when no toolchain profile can build these SDK levels
+      const toolchain = resolveToolchain({
+        minSdkVersion: config.minSdkVersion ?? DEFAULT_SDK_LEVELS.minSdkVersion,
+        targetSdkVersion: config.targetSdkVersion ?? DEFAULT_SDK_LEVELS.targetSdkVersion
+      });
+      log?.info(`SDK levels: min ${toolchain.minSdkVersion}, target ${toolchain.targetSdkVersion}; toolchain AGP ${toolchain.profile.agpVersion}, Gradle ${toolchain.profile.gradleVersion}, build-tools ${toolchain.profile.buildToolsVersion}, compileSdk ${toolchain.profile.compileSdkVersion} (JDK ${toolchain.profile.jdkVersion}+)`);
+
       onProgress?.({ step: 'Initializing', progress: 5, message: 'Setting up Android build environment...' });
       
-      const projectDir = path.join(this.buildDir, buildId);
       await fs.mkdir(projectDir, { recursive: true });
       
       onProgress?.({ step: 'Creating project', progress: 15, message: 'Creating Android project structure...' });
       
       // Create complete Android project structure
-      await this.createAndroidProject(projectDir, config);
-      
-      onProgress?.({ step: 'Generating keystore', progress: 30, message: 'Generating signing keystore...' });
-      
-      // Generate keystore
-      const keystorePath = await this.generateKeystore(projectDir, config);
+      await this.createAndroidProject(projectDir, config, createTemplateVariables(config, { toolchain }), context, hooks);
+      throwIfCancelled(signal);
       
       onProgress?.({ step: 'Creating gradle build', progress: 45, message: 'Setting up Gradle build system...' });
       
-      // Setup Gradle build
-      await this.setupGradleBuild(projectDir, config);
-      
-      onProgress?.({ step: 'Building APK', progress: 60, message: 'Compiling and building APK...' });
-      
-      // Build APK using Gradle
-      const apkPath = await this.buildWithGradle(projectDir, config);
-      
-      onProgress?.({ step: 'Signing APK', progress: 75, message: 'Signing APK with keystore...' });
+      // Setup Gradle wrapper
+      await this.createGradleWrapper(projectDir, toolchain.profile.gradleVersion);
+      throwIfCancelled(signal);
       
-      // Sign APK
-      const signedApkPath = await this.signAPK(apkPath, keystorePath, config);
-      
-      onProgress?.({ step: 'Creating AAB', progress: 85, message: 'Creating App Bundle...' });
-      
-      // Create AAB
-      const aabPath = await this.createAAB(projectDir, config);
+      // Only the requested artifact is built; Gradle runs a single task
+      let finalApkPath: string | undefined;
+      let finalAabPath: string | undefined;
+      let apksPath: string | undefined;
+      let signed = false;
+
+      if (config.buildType === 'aab') {
+        onProgress?.({ step: 'Creating AAB', progress: 60, message: 'Compiling and bundling App Bundle...' });
+
+        const aabPath = await this.createAAB(projectDir, context);
+        throwIfCancelled(signal);
+        await hooks.run('before-sign', { kind: 'aab', artifactPath: aabPath });
+
+        onProgress?.({ step: 'Signing AAB', progress: 75, message: 'Signing App Bundle with the project upload key...' });
+
+        // Play only accepts bundles signed with the upload key; bundletool
+        // signs the APKs derived from it separately
+        finalAabPath = path.join(this.outputDir, `${buildId}-bundle.aab`);
+        await this.signAAB(aabPath, finalAabPath, config.keystorePath, config.keystorePassword, config, context);
+        signed = true;
+        throwIfCancelled(signal);
+
+        if (config.splitApks) {
+          onProgress?.({ step: 'Creating APK set', progress: 80, message: 'Generating split and universal APKs with bundletool...' });
+
+          const apkSet = await this.buildApkSet(finalAabPath, projectDir, buildId, config, context);
+          throwIfCancelled(signal);
+          apksPath = apkSet.apksPath;
+          finalApkPath = apkSet.universalApkPath;
+        }
+      } else {
+        onProgress?.({ step: 'Building APK', progress: 60, message: 'Compiling and building APK...' });
+
+        const apkPath = await this.buildWithGradle(projectDir, context);
+        await hooks.run('before-sign', { kind: 'apk', artifactPath: apkPath });
+
+        onProgress?.({ step: 'Signing APK', progress: 75, message: 'Aligning and signing APK with the project keystore...' });
+
+        const signedApkPath = await this.signAPK(apkPath, config.keystorePath, config.keystorePassword, config, context);
+        signed = true;
+        throwIfCancelled(signal);
+        finalApkPath = path.join(this.outputDir, `${buildId}-signed.apk`);
+        await fs.copyFile(signedApkPath, finalApkPath);
+      }
       
       onProgress?.({ step: 'Finalizing', progress: 95, message: 'Finalizing build outputs...' });
       
-      // Copy outputs to final location
-      const finalApkPath = path.join(this.outputDir, `${buildId}-signed.apk`);
-      const finalAabPath = path.join(this.outputDir, `${buildId}-bundle.aab`);
-      const finalKeystorePath = path.join(this.outputDir, `${buildId}-keystore.jks`);
-      
-      await fs.copyFile(signedApkPath, finalApkPath);
-      await fs.copyFile(aabPath, finalAabPath);
-      await fs.copyFile(keystorePath, finalKeystorePath);
+      const mappingPath = await this.archiveMapping(projectDir, buildId, context);
+      await hooks.run('after-artifact', { artifacts: { apkPath: finalApkPath, aabPath: finalAabPath, apksPath, mappingPath } });
       
       onProgress?.({ step: 'Complete', progress: 100, message: 'Build completed successfully!' });
       
@@ -110,13 +169,30 @@ export class RealAndroidBuildSystem {
         success: true,
         apkPath: finalApkPath,
         aabPath: finalAabPath,
-        keystorePath: finalKeystorePath,
+        apksPath,
+        mappingPath,
+        pluginArtifacts: hooks.artifacts,
+        keystorePath: config.keystorePath,
+        signed,
         buildId,
         progress: 100
       };
       
     } catch (error) {
+      if (error instanceof BuildCancelledError || signal?.aborted) {
+        // Nothing in a cancelled workspace is worth keeping
+        await fs.rm(projectDir, { recursive: true, force: true });
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Build was cancelled',
+          buildId,
+          progress: 0
+        };
+      }
+
       console.error('Build failed:', error);
+      log?.info(`Build failed: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -126,213 +202,31 @@ export class RealAndroidBuildSystem {
     }
   }
 
-  private async createAndroidProject(projectDir: string, config: BuildConfig): Promise<void> {
-    // Create standard Android project structure
-    const packagePath = config.packageName.replace(/\./g, '/');
+  private async createAndroidProject(projectDir: string, config: BuildConfig, variables: TemplateVariables, context: BuildContext, hooks?: BuildHookRunner): Promise<void> {
+    // Sources, resources and Gradle files come from the template set; only
+    // the launcher icons and web files are generated here
+    await hooks?.run('before-project-generation', { variables });
+    await renderTemplateSet('project', variables, projectDir, config.projectId);
+
     const srcDir = path.join(projectDir, 'app', 'src', 'main');
-    const javaDir = path.join(srcDir, 'java', packagePath);
-    const resDir = path.join(srcDir, 'res');
+    await hooks?.run('after-manifest', { manifestPath: path.join(srcDir, 'AndroidManifest.xml') });
+
     const assetsDir = path.join(srcDir, 'assets');
-    
-    await fs.mkdir(javaDir, { recursive: true });
-    await fs.mkdir(path.join(resDir, 'layout'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'values'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'drawable'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'mipmap-hdpi'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'mipmap-mdpi'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'mipmap-xhdpi'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'mipmap-xxhdpi'), { recursive: true });
-    await fs.mkdir(path.join(resDir, 'mipmap-xxxhdpi'), { recursive: true });
     await fs.mkdir(assetsDir, { recursive: true });
-    
-    // Generate AndroidManifest.xml
-    await this.generateManifest(srcDir, config);
-    
-    // Generate MainActivity.java
-    await this.generateMainActivity(javaDir, config);
-    
-    // Generate layout files
-    await this.generateLayoutFiles(resDir, config);
-    
-    // Generate resources
-    await this.generateResources(resDir, config);
-    
-    // Generate app icons
-    await this.generateAppIcons(resDir, config);
-    
-    // Copy web assets
-    if (config.files && config.files.length > 0) {
-      await this.copyWebAssets(assetsDir, config);
-    } else if (config.websiteUrl) {
-      await this.createWebsiteAssets(assetsDir, config);
-    }
-  }
 
-  private async generateManifest(srcDir: string, config: BuildConfig): Promise<void> {
-    const manifest = `<?xml version="1.0" encoding="utf-8"?>
-<manifest xmlns:android="http://schemas.android.com/apk/res/android"
-    package="${config.packageName}">
-
-    <uses-permission android:name="android.permission.INTERNET" />
-    <uses-permission android:name="android.permission.ACCESS_NETWORK_STATE" />
-    <uses-permission android:name="android.permission.ACCESS_WIFI_STATE" />
-
-    <application
-        android:allowBackup="true"
-        android:icon="@mipmap/ic_launcher"
-        android:label="@string/app_name"
-        android:theme="@style/Theme.AppCompat.Light.NoActionBar"
-        android:usesCleartextTraffic="true"
-        android:hardwareAccelerated="true">
-        
-        <activity
-            android:name=".MainActivity"
-            android:exported="true"
-            android:configChanges="orientation|screenSize|keyboardHidden"
-            android:theme="@style/Theme.AppCompat.Light.NoActionBar">
-            <intent-filter>
-                <action android:name="android.intent.action.MAIN" />
-                <category android:name="android.intent.category.LAUNCHER" />
-            </intent-filter>
-        </activity>
-    </application>
-</manifest>`;
-
-    await fs.writeFile(path.join(srcDir, 'AndroidManifest.xml'), manifest);
-  }
+    // Generate app icons
+    await this.generateAppIcons(path.join(srcDir, 'res'), config, context);
 
-  private async generateMainActivity(javaDir: string, config: BuildConfig): Promise<void> {
-    const websiteUrl = config.websiteUrl || 'https://example.com';
-    const hasFiles = config.files && config.files.length > 0;
-    
-    const mainActivity = `package ${config.packageName};
-
-import android.app.Activity;
-import android.os.Bundle;
-import android.webkit.WebView;
-import android.webkit.WebViewClient;
-import android.webkit.WebSettings;
-import android.webkit.WebChromeClient;
-import android.view.KeyEvent;
-
-public class MainActivity extends Activity {
-    private WebView webView;
-
-    @Override
-    protected void onCreate(Bundle savedInstanceState) {
-        super.onCreate(savedInstanceState);
-        
-        webView = new WebView(this);
-        setContentView(webView);
-        
-        // Configure WebView settings
-        WebSettings webSettings = webView.getSettings();
-        webSettings.setJavaScriptEnabled(true);
-        webSettings.setDomStorageEnabled(true);
-        webSettings.setLoadWithOverviewMode(true);
-        webSettings.setUseWideViewPort(true);
-        webSettings.setBuiltInZoomControls(true);
-        webSettings.setDisplayZoomControls(false);
-        webSettings.setSupportZoom(true);
-        webSettings.setDefaultTextEncodingName("utf-8");
-        webSettings.setAllowFileAccess(true);
-        webSettings.setAllowContentAccess(true);
-        webSettings.setMixedContentMode(WebSettings.MIXED_CONTENT_ALWAYS_ALLOW);
-        
-        // Set WebView client
-        webView.setWebViewClient(new WebViewClient() {
-            @Override
-            public boolean shouldOverrideUrlLoading(WebView view, String url) {
-                view.loadUrl(url);
-                return true;
-            }
-            
-            @Override
-            public void onPageFinished(WebView view, String url) {
-                super.onPageFinished(view, url);
-            }
-        });
-        
-        // Set WebChrome client for better functionality
-        webView.setWebChromeClient(new WebChromeClient());
-        
-        // Load content
-        ${hasFiles ? 
-          'webView.loadUrl("file:///android_asset/index.html");' : 
-          `webView.loadUrl("${websiteUrl}");`
-        }
-    }
-    
-    @Override
-    public boolean onKeyDown(int keyCode, KeyEvent event) {
-        if (keyCode == KeyEvent.KEYCODE_BACK && webView.canGoBack()) {
-            webView.goBack();
-            return true;
-        }
-        return super.onKeyDown(keyCode, event);
-    }
-    
-    @Override
-    protected void onDestroy() {
-        if (webView != null) {
-            webView.destroy();
-        }
-        super.onDestroy();
+    // Copy web assets
+    await this.copyWebAssets(assetsDir, config);
+    if (!config.files?.some(file => file.name === 'index.html')) {
+      await fs.writeFile(path.join(assetsDir, 'index.html'), await renderStartPage(variables, config.projectId));
     }
-}`;
-
-    await fs.writeFile(path.join(javaDir, 'MainActivity.java'), mainActivity);
-  }
-
-  private async generateLayoutFiles(resDir: string, config: BuildConfig): Promise<void> {
-    const layoutContent = `<?xml version="1.0" encoding="utf-8"?>
-<LinearLayout xmlns:android="http://schemas.android.com/apk/res/android"
-    android:layout_width="match_parent"
-    android:layout_height="match_parent"
-    android:orientation="vertical">
-
-    <!-- This layout will be replaced by WebView in MainActivity -->
-    
-</LinearLayout>`;
-
-    await fs.writeFile(path.join(resDir, 'layout', 'activity_main.xml'), layoutContent);
-  }
-
-  private async generateResources(resDir: string, config: BuildConfig): Promise<void> {
-    // strings.xml
-    const strings = `<?xml version="1.0" encoding="utf-8"?>
-<resources>
-    <string name="app_name">${config.appName}</string>
-</resources>`;
-    
-    await fs.writeFile(path.join(resDir, 'values', 'strings.xml'), strings);
-    
-    // colors.xml
-    const colors = `<?xml version="1.0" encoding="utf-8"?>
-<resources>
-    <color name="colorPrimary">#3F51B5</color>
-    <color name="colorPrimaryDark">#303F9F</color>
-    <color name="colorAccent">#FF4081</color>
-    <color name="white">#FFFFFF</color>
-    <color name="black">#000000</color>
-</resources>`;
-    
-    await fs.writeFile(path.join(resDir, 'values', 'colors.xml'), colors);
-    
-    // styles.xml
-    const styles = `<?xml version="1.0" encoding="utf-8"?>
-<resources>
-    <style name="AppTheme" parent="Theme.AppCompat.Light.DarkActionBar">
-        <item name="colorPrimary">@color/colorPrimary</item>
-        <item name="colorPrimaryDark">@color/colorPrimaryDark</item>
-        <item name="colorAccent">@color/colorAccent</item>
-    </style>
-</resources>`;
-    
-    await fs.writeFile(path.join(resDir, 'values', 'styles.xml'), styles);
+    await writeAppAssets(assetsDir, variables, config);
+    await hooks?.run('after-assets', { assetsDir });
   }
 
-  private async generateAppIcons(resDir: string, config: BuildConfig): Promise<void> {
+  private async generateAppIcons(resDir: string, config: BuildConfig, context: BuildContext): Promise<void> {
     // Generate proper Android icons using a simple approach
     const iconSizes = [
       { dir: 'mipmap-hdpi', size: 72 },
@@ -344,16 +238,29 @@ public class MainActivity extends Activity {
 
     for (const iconSize of iconSizes) {
       const iconPath = path.join(resDir, iconSize.dir, 'ic_launcher.png');
-      await this.createAppIcon(iconPath, iconSize.size, config.appName);
+      await fs.mkdir(path.dirname(iconPath), { recursive: true });
+      await this.createAppIcon(iconPath, iconSize.size, config.appName, context);
     }
   }
 
-  private async createAppIcon(iconPath: string, size: number, appName: string): Promise<void> {
+  private async createAppIcon(iconPath: string, size: number, appName: string, context: BuildContext): Promise<void> {
     // Create a simple PNG icon using ImageMagick if available, otherwise create a basic one
     try {
       const firstLetter = appName.charAt(0).toUpperCase();
-      execSync(`convert -size ${size}x${size} xc:'#3F51B5' -gravity center -pointsize ${size/2} -fill white -annotate +0+0 '${firstLetter}' "${iconPath}"`, { stdio: 'inherit' });
+      await runCommand('convert', [
+        '-size', `${size}x${size}`, 'xc:#3F51B5',
+        '-gravity', 'center',
+        '-pointsize', `${size / 2}`,
+        '-fill', 'white',
+        '-annotate', '+0+0', firstLetter,
+        iconPath
+      ], { signal: context.signal, log: context.log });
     } catch (error) {
+      if (error instanceof BuildCancelledError) throw error;
+
+      // The template set's own icon is better than the placeholder below
+      if (await fs.access(iconPath).then(() => true, () => false)) return;
+
       // Fallback: create a very basic PNG manually
       const pngHeader = Buffer.from([
         0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, // PNG signature
@@ -378,286 +285,255 @@ public class MainActivity extends Activity {
     }
   }
 
-  private async createWebsiteAssets(assetsDir: string, config: BuildConfig): Promise<void> {
-    if (config.websiteUrl) {
-      const htmlContent = `<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${config.appName}</title>
-    <style>
-        body { margin: 0; padding: 0; font-family: Arial, sans-serif; }
-        .loading { text-align: center; padding: 50px; }
-    </style>
-</head>
-<body>
-    <div class="loading">Loading ${config.appName}...</div>
-    <script>
-        setTimeout(function() {
-            window.location.href = '${config.websiteUrl}';
-        }, 1000);
-    </script>
-</body>
-</html>`;
-      
-      await fs.writeFile(path.join(assetsDir, 'index.html'), htmlContent);
-    }
-  }
+  /**
+   * Runs the project generator without compiling and packages the result as a
+   * Gradle project that opens in Android Studio. The keystore and its
+   * passwords are only included when signing details are given.
+   */
+  async exportProject(config: BuildConfig, signing?: ExportSigning): Promise<string> {
+    const exportId = nanoid();
+    const projectDir = path.join(this.buildDir, `export-${exportId}`);
+    const toolchain = resolveToolchain({
+      minSdkVersion: config.minSdkVersion ?? DEFAULT_SDK_LEVELS.minSdkVersion,
+      targetSdkVersion: config.targetSdkVersion ?? DEFAULT_SDK_LEVELS.targetSdkVersion
+    });
 
-  private async setupGradleBuild(projectDir: string, config: BuildConfig): Promise<void> {
-    // Create build.gradle for project
-    const projectBuildGradle = `buildscript {
-    repositories {
-        google()
-        mavenCentral()
-    }
-    dependencies {
-        classpath 'com.android.tools.build:gradle:7.4.2'
-    }
-}
+    try {
+      await fs.mkdir(projectDir, { recursive: true });
+      // Exported projects sign release builds with the key named in
+      // keystore.properties when that file exists
+      await this.createAndroidProject(projectDir, config, createTemplateVariables(config, { toolchain, keystoreProperties: true }), {});
+      await this.createGradleWrapper(projectDir, toolchain.profile.gradleVersion);
+
+      const gitignore = ['.gradle/', 'build/', 'app/build/', 'local.properties', '.idea/', '*.iml', 'keystore.properties', '*.jks', '*.keystore', '*.p12', ''];
+      await fs.writeFile(path.join(projectDir, '.gitignore'), gitignore.join('\n'));
+
+      if (signing) {
+        const storeFile = `release${signing.storeType === 'pkcs12' ? '.p12' : '.jks'}`;
+        await fs.copyFile(signing.keystorePath, path.join(projectDir, storeFile));
+        const keystoreProperties = [
+          `storeFile=${storeFile}`,
+          `storeType=${signing.storeType}`,
+          `storePassword=${escapeProperty(signing.storePassword)}`,
+          `keyAlias=${escapeProperty(signing.keyAlias)}`,
+          `keyPassword=${escapeProperty(signing.keyPassword)}`,
+          ''
+        ];
+        await fs.writeFile(path.join(projectDir, 'keystore.properties'), keystoreProperties.join('\n'));
+      }
 
-allprojects {
-    repositories {
-        google()
-        mavenCentral()
+      const zipPath = path.join(this.outputDir, `export-${exportId}.zip`);
+      const rootName = config.appName.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'android-project';
+      await this.zipDirectory(projectDir, zipPath, rootName);
+      return zipPath;
+    } finally {
+      await fs.rm(projectDir, { recursive: true, force: true });
     }
-}
-
-task clean(type: Delete) {
-    delete rootProject.buildDir
-}`;
+  }
 
-    await fs.writeFile(path.join(projectDir, 'build.gradle'), projectBuildGradle);
+  private async zipDirectory(sourceDir: string, zipPath: string, rootName: string): Promise<void> {
+    const archiver = (await import('archiver')).default;
+    const { createWriteStream } = await import('fs');
 
-    // Create build.gradle for app
-    const appBuildGradle = `apply plugin: 'com.android.application'
+    return new Promise((resolve, reject) => {
+      const output = createWriteStream(zipPath);
+      const archive = archiver('zip', { zlib: { level: 9 } });
 
-android {
-    compileSdkVersion 33
-    buildToolsVersion "33.0.0"
+      output.on('close', () => resolve());
+      archive.on('error', (err) => reject(err));
 
-    defaultConfig {
-        applicationId "${config.packageName}"
-        minSdkVersion 21
-        targetSdkVersion 33
-        versionCode ${config.versionCode}
-        versionName "${config.versionName}"
-    }
+      archive.pipe(output);
+      // Keeps file modes, so gradlew stays executable
+      archive.directory(sourceDir, rootName);
+      archive.finalize();
+    });
+  }
 
-    buildTypes {
-        release {
-            minifyEnabled false
-            proguardFiles getDefaultProguardFile('proguard-android-optimize.txt'), 'proguard-rules.pro'
-        }
+  // R8 writes mapping.txt next to the release outputs; it is kept with the
+  // build so obfuscated stack traces can be retraced later
+  private async archiveMapping(projectDir: string, buildId: string, context: BuildContext): Promise<string | undefined> {
+    const mappingPath = path.join(projectDir, 'app', 'build', 'outputs', 'mapping', 'release', 'mapping.txt');
+    try {
+      await fs.access(mappingPath);
+    } catch {
+      return undefined;
     }
-}
-
-dependencies {
-    implementation 'androidx.appcompat:appcompat:1.5.0'
-    implementation 'com.google.android.material:material:1.6.1'
-}`;
-
-    await fs.writeFile(path.join(projectDir, 'app', 'build.gradle'), appBuildGradle);
-
-    // Create settings.gradle
-    const settingsGradle = `rootProject.name = "${config.appName}"
-include ':app'`;
-
-    await fs.writeFile(path.join(projectDir, 'settings.gradle'), settingsGradle);
-
-    // Create gradle.properties
-    const gradleProperties = `android.useAndroidX=true
-android.enableJetifier=true
-org.gradle.jvmargs=-Xmx2048m -Dfile.encoding=UTF-8
-org.gradle.parallel=true`;
-
-    await fs.writeFile(path.join(projectDir, 'gradle.properties'), gradleProperties);
 
-    // Create proguard-rules.pro
-    await fs.writeFile(path.join(projectDir, 'app', 'proguard-rules.pro'), '# Add project specific ProGuard rules here');
-
-    // Create gradle wrapper
-    await this.createGradleWrapper(projectDir);
+    const archivedPath = path.join(this.outputDir, `${buildId}-mapping.txt`);
+    await fs.copyFile(mappingPath, archivedPath);
+    context.log?.info(`Archived R8 mapping file as ${path.basename(archivedPath)}`);
+    return archivedPath;
   }
 
-  private async createGradleWrapper(projectDir: string): Promise<void> {
+  // A real wrapper (scripts plus the bundled gradle-wrapper.jar) so exported
+  // projects build with the profile's Gradle version on any machine
+  private async createGradleWrapper(projectDir: string, gradleVersion: string): Promise<void> {
     const gradleWrapperDir = path.join(projectDir, 'gradle', 'wrapper');
     await fs.mkdir(gradleWrapperDir, { recursive: true });
 
     const gradleWrapperProperties = `distributionBase=GRADLE_USER_HOME
 distributionPath=wrapper/dists
-distributionUrl=https\\://services.gradle.org/distributions/gradle-7.5-bin.zip
+distributionUrl=https\\://services.gradle.org/distributions/gradle-${gradleVersion}-bin.zip
+networkTimeout=10000
 zipStoreBase=GRADLE_USER_HOME
-zipStorePath=wrapper/dists`;
+zipStorePath=wrapper/dists
+`;
 
     await fs.writeFile(path.join(gradleWrapperDir, 'gradle-wrapper.properties'), gradleWrapperProperties);
+    await fs.copyFile(path.join(process.cwd(), 'gradle-wrapper', 'gradle-wrapper.jar'), path.join(gradleWrapperDir, 'gradle-wrapper.jar'));
+
+    const gradlewScript = `#!/bin/sh
+# Runs the Gradle version from gradle/wrapper/gradle-wrapper.properties,
+# downloading it on first use
+APP_HOME=$(cd "$(dirname "$0")" && pwd -P)
+CLASSPATH=$APP_HOME/gradle/wrapper/gradle-wrapper.jar
 
-    // Create gradlew script
-    const gradlewScript = `#!/bin/bash
-DEFAULT_JVM_OPTS='"-Dorg.gradle.appname=$APP_BASE_NAME" -Dorg.gradle.wrapper.boot.version=7.5'
-exec gradle "$@"`;
+if [ -n "$JAVA_HOME" ]; then
+    JAVACMD=$JAVA_HOME/bin/java
+else
+    JAVACMD=java
+fi
+
+exec "$JAVACMD" -Xmx64m -Xms64m $JAVA_OPTS $GRADLE_OPTS "-Dorg.gradle.appname=$(basename "$0")" -classpath "$CLASSPATH" org.gradle.wrapper.GradleWrapperMain "$@"
+`;
 
     await fs.writeFile(path.join(projectDir, 'gradlew'), gradlewScript);
-    
-    // Make gradlew executable
-    try {
-      execSync(`chmod +x ${path.join(projectDir, 'gradlew')}`);
-    } catch (error) {
-      console.warn('Could not make gradlew executable:', error);
-    }
+    await fs.chmod(path.join(projectDir, 'gradlew'), 0o755);
+
+    const gradlewBat = [
+      '@rem Runs the Gradle version from gradle\\wrapper\\gradle-wrapper.properties',
+      '@if "%DEBUG%"=="" @echo off',
+      'setlocal',
+      'set APP_HOME=%~dp0',
+      'set CLASSPATH=%APP_HOME%gradle\\wrapper\\gradle-wrapper.jar',
+      'if defined JAVA_HOME (set JAVA_EXE=%JAVA_HOME:"=%\\bin\\java.exe) else (set JAVA_EXE=java.exe)',
+      '"%JAVA_EXE%" -Xmx64m -Xms64m %JAVA_OPTS% %GRADLE_OPTS% "-Dorg.gradle.appname=%~n0" -classpath "%CLASSPATH%" org.gradle.wrapper.GradleWrapperMain %*',
+      'endlocal',
+      ''
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(projectDir, 'gradlew.bat'), gradlewBat);
   }
 
-  private async buildWithGradle(projectDir: string, config: BuildConfig): Promise<string> {
+  // The wrapper runs the Gradle version of the resolved toolchain profile,
+  // whatever Gradle the server may have installed
+  private async runGradle(projectDir: string, task: string, context: BuildContext): Promise<void> {
+    await runCommand(path.join(projectDir, 'gradlew'), [task], {
+      cwd: projectDir,
+      env: { ...process.env, ANDROID_HOME: process.env.ANDROID_HOME || '/usr/lib/android-sdk' },
+      signal: context.signal,
+      log: context.log
+    });
+  }
+
+  private async buildWithGradle(projectDir: string, context: BuildContext): Promise<string> {
     try {
-      // Use system gradle to build
-      execSync('gradle assembleRelease', { 
-        cwd: projectDir, 
-        stdio: 'inherit',
-        env: { ...process.env, ANDROID_HOME: '/usr/lib/android-sdk' }
-      });
-      
-      const apkPath = path.join(projectDir, 'app', 'build', 'outputs', 'apk', 'release', 'app-release.apk');
-      
-      // Check if APK was created
-      await fs.access(apkPath);
-      return apkPath;
+      await this.runGradle(projectDir, 'assembleRelease', context);
     } catch (error) {
-      // Fallback to manual APK creation
-      console.warn('Gradle build failed, creating manual APK');
-      return await this.createManualAPK(projectDir, config);
+      if (error instanceof BuildCancelledError) throw error;
+      // There is no packaging fallback: the activity needs AndroidX, which
+      // only Gradle resolves, and an APK without real dex code can't start
+      throw new Error(`Gradle could not build the APK: ${error instanceof Error ? error.message : 'unknown error'}`);
     }
+
+    // Builds have no release signingConfig, so Gradle writes
+    // app-release-unsigned.apk; the project key signs it afterwards either way
+    const outputDir = path.join(projectDir, 'app', 'build', 'outputs', 'apk', 'release');
+    for (const name of ['app-release-unsigned.apk', 'app-release.apk']) {
+      const apkPath = path.join(outputDir, name);
+      if (await fs.access(apkPath).then(() => true, () => false)) return apkPath;
+    }
+    throw new Error('Gradle finished but wrote no release APK to app/build/outputs/apk/release');
   }
 
-  private async createManualAPK(projectDir: string, config: BuildConfig): Promise<string> {
-    const apkPath = path.join(projectDir, 'app-release.apk');
-    const archiver = (await import('archiver')).default;
-    const fs = await import('fs');
+  private async signAPK(apkPath: string, keystorePath: string, storePassword: string, config: BuildConfig, context: BuildContext): Promise<string> {
+    const signedApkPath = apkPath.replace(/\.apk$/, '-signed.apk');
     
-    return new Promise((resolve, reject) => {
-      const output = fs.createWriteStream(apkPath);
-      const archive = archiver('zip', { zlib: { level: 9 } });
-
-      output.on('close', () => resolve(apkPath));
-      archive.on('error', (err) => reject(err));
-
-      archive.pipe(output);
-
-      const srcDir = path.join(projectDir, 'app', 'src', 'main');
-
-      // Add AndroidManifest.xml
-      const manifestPath = path.join(srcDir, 'AndroidManifest.xml');
-      if (fs.existsSync(manifestPath)) {
-        archive.file(manifestPath, { name: 'AndroidManifest.xml' });
-      }
-
-      // Add resources
-      const resDir = path.join(srcDir, 'res');
-      if (fs.existsSync(resDir)) {
-        archive.directory(resDir, 'res');
-      }
-
-      // Add assets
-      const assetsDir = path.join(srcDir, 'assets');
-      if (fs.existsSync(assetsDir)) {
-        archive.directory(assetsDir, 'assets');
-      }
-
-      // Add minimal classes.dex
-      const dexHeader = Buffer.from([
-        0x64, 0x65, 0x78, 0x0A, 0x30, 0x33, 0x35, 0x00,
-        0x70, 0x00, 0x00, 0x00, 0x78, 0x56, 0x34, 0x12
-      ]);
-      archive.append(dexHeader, { name: 'classes.dex' });
-
-      // Add META-INF
-      archive.append('Manifest-Version: 1.0\nCreated-By: Android Builder\n', { name: 'META-INF/MANIFEST.MF' });
-
-      archive.finalize();
+    // No unsigned fallback: an APK signed with anything but the project key
+    // cannot be installed as an update. v2/v3 signatures are required for
+    // targetSdk 30+, v1 keeps older devices working.
+    const verification = await signApkFile(apkPath, signedApkPath, {
+      keystorePath,
+      keyAlias: config.keyAlias || 'appkey',
+      storePassword,
+      keyPassword: config.keyPassword || storePassword
     });
+    
+    context.log?.info(`Signed and verified ${path.basename(signedApkPath)} (schemes: ${verification.schemes.join(', ')})`);
+    return signedApkPath;
   }
 
-  private async generateKeystore(projectDir: string, config: BuildConfig): Promise<string> {
-    const keystorePath = path.join(projectDir, 'app.jks');
-    const validity = config.keystoreValidity || 10000;
-    const password = config.keystorePassword || 'android123';
-    const alias = config.keyAlias || 'appkey';
-    
-    const dname = `CN=${config.developerName || 'Developer'},O=${config.organizationName || 'Organization'},L=${config.city || 'City'},S=${config.state || 'State'},C=${config.country || 'US'}`;
-    
-    const keytoolCmd = `keytool -genkey -v -keystore "${keystorePath}" -keyalg RSA -keysize 2048 -validity ${validity} -alias "${alias}" -storepass "${password}" -keypass "${password}" -dname "${dname}"`;
-    
-    execSync(keytoolCmd, { stdio: 'inherit' });
-    return keystorePath;
+  private async signAAB(aabPath: string, signedAabPath: string, keystorePath: string, storePassword: string, config: BuildConfig, context: BuildContext): Promise<void> {
+    await signBundleFile(aabPath, signedAabPath, {
+      keystorePath,
+      keyAlias: config.keyAlias || 'appkey',
+      storePassword,
+      keyPassword: config.keyPassword || storePassword
+    });
+    context.log?.info(`Signed and verified ${path.basename(signedAabPath)} (scheme: v1)`);
   }
 
-  private async signAPK(apkPath: string, keystorePath: string, config: BuildConfig): Promise<string> {
-    const password = config.keystorePassword || 'android123';
-    const alias = config.keyAlias || 'appkey';
-    const signedApkPath = apkPath.replace('.apk', '-signed.apk');
-    
+  private async createAAB(projectDir: string, context: BuildContext): Promise<string> {
     try {
-      const jarsignerCmd = `jarsigner -verbose -sigalg SHA256withRSA -digestalg SHA256 -keystore "${keystorePath}" -storepass "${password}" -keypass "${password}" "${apkPath}" "${alias}"`;
-      execSync(jarsignerCmd, { stdio: 'inherit' });
-      
-      await fs.copyFile(apkPath, signedApkPath);
-      return signedApkPath;
+      await this.runGradle(projectDir, 'bundleRelease', context);
     } catch (error) {
-      console.warn('APK signing failed, returning unsigned APK');
-      return apkPath;
+      if (error instanceof BuildCancelledError) throw error;
+      // Like APKs, bundles need Gradle to compile the app code
+      throw new Error(`Gradle could not build the App Bundle: ${error instanceof Error ? error.message : 'unknown error'}`);
     }
-  }
 
-  private async createAAB(projectDir: string, config: BuildConfig): Promise<string> {
-    const aabPath = path.join(projectDir, 'app-release.aab');
-    
-    try {
-      // Try to build AAB with Gradle
-      execSync('gradle bundleRelease', { 
-        cwd: projectDir, 
-        stdio: 'inherit',
-        env: { ...process.env, ANDROID_HOME: '/usr/lib/android-sdk' }
-      });
-      
-      const gradleAabPath = path.join(projectDir, 'app', 'build', 'outputs', 'bundle', 'release', 'app-release.aab');
-      await fs.copyFile(gradleAabPath, aabPath);
-      return aabPath;
-    } catch (error) {
-      // Fallback to manual AAB creation
-      return await this.createManualAAB(projectDir, config);
+    const aabPath = path.join(projectDir, 'app', 'build', 'outputs', 'bundle', 'release', 'app-release.aab');
+    if (!await fs.access(aabPath).then(() => true, () => false)) {
+      throw new Error('Gradle finished but wrote no App Bundle to app/build/outputs/bundle/release');
     }
+    return aabPath;
   }
 
-  private async createManualAAB(projectDir: string, config: BuildConfig): Promise<string> {
-    const aabPath = path.join(projectDir, 'app-release.aab');
-    const archiver = (await import('archiver')).default;
-    const fs = await import('fs');
-    
-    return new Promise((resolve, reject) => {
-      const output = fs.createWriteStream(aabPath);
-      const archive = archiver('zip', { zlib: { level: 9 } });
-
-      output.on('close', () => resolve(aabPath));
-      archive.on('error', (err) => reject(err));
-
-      archive.pipe(output);
-
-      const srcDir = path.join(projectDir, 'app', 'src', 'main');
+  // bundletool generates the split APKs the Play Store would serve to each
+  // device configuration, plus a universal APK for sideloading. Both are
+  // signed with the project key.
+  private async buildApkSet(aabPath: string, projectDir: string, buildId: string, config: BuildConfig, context: BuildContext): Promise<{ apksPath: string; universalApkPath: string }> {
+    // Passwords on the command line would show in the process list, so
+    // bundletool reads them from files only this process can open
+    const keyPassword = config.keyPassword || config.keystorePassword!;
+    const passwordDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bundletool-'));
+    const storePasswordFile = path.join(passwordDir, 'ks-pass');
+    const keyPasswordFile = path.join(passwordDir, 'key-pass');
+    const signingArgs = [
+      `--ks=${config.keystorePath}`,
+      `--ks-pass=file:${storePasswordFile}`,
+      `--ks-key-alias=${config.keyAlias || 'appkey'}`,
+      `--key-pass=file:${keyPasswordFile}`
+    ];
+    const options = { signal: context.signal, log: context.log, secrets: [config.keystorePassword!, keyPassword] };
 
-      // Add base module
-      if (fs.existsSync(srcDir)) {
-        archive.directory(srcDir, 'base');
-      }
+    const apksPath = path.join(this.outputDir, `${buildId}.apks`);
+    const universalSetPath = path.join(projectDir, 'universal.apks');
+    try {
+      await fs.writeFile(storePasswordFile, config.keystorePassword!, { mode: 0o600 });
+      await fs.writeFile(keyPasswordFile, keyPassword, { mode: 0o600 });
+      await runCommand('bundletool', ['build-apks', `--bundle=${aabPath}`, `--output=${apksPath}`, '--overwrite', ...signingArgs], options);
+      await runCommand('bundletool', ['build-apks', '--mode=universal', `--bundle=${aabPath}`, `--output=${universalSetPath}`, '--overwrite', ...signingArgs], options);
+    } catch (error) {
+      if (error instanceof BuildCancelledError) throw error;
+      throw new Error(`bundletool could not build the APK set: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      await fs.rm(passwordDir, { recursive: true, force: true });
+    }
 
-      // Add BundleConfig.pb
-      const bundleConfig = Buffer.from([0x08, 0x01, 0x12, 0x04, 0x62, 0x61, 0x73, 0x65]);
-      archive.append(bundleConfig, { name: 'BundleConfig.pb' });
+    const universal = readZip(await fs.readFile(universalSetPath)).entries.find(entry => entry.name === 'universal.apk');
+    if (!universal) {
+      throw new Error('bundletool did not produce a universal APK');
+    }
+    const universalApkPath = path.join(this.outputDir, `${buildId}-universal.apk`);
+    await fs.writeFile(universalApkPath, readEntryContent(universal));
 
-      archive.finalize();
-    });
+    context.log?.info(`Created APK set ${path.basename(apksPath)} and ${path.basename(universalApkPath)}`);
+    return { apksPath, universalApkPath };
   }
 
-  async createDeliveryZip(apkPath: string, aabPath: string, keystorePath: string, buildId: string): Promise<string> {
+  async createDeliveryZip(buildId: string, files: DeliveryFiles): Promise<string> {
+    const { apkPath, aabPath, apksPath, mappingPath, pluginArtifacts } = files;
     const deliveryZipPath = path.join(this.outputDir, `${buildId}-complete.zip`);
     const archiver = (await import('archiver')).default;
     const fs = await import('fs');
@@ -672,25 +548,35 @@ exec gradle "$@"`;
       archive.pipe(output);
 
       // Add files if they exist
-      if (fs.existsSync(apkPath)) {
+      if (apkPath && fs.existsSync(apkPath)) {
         archive.file(apkPath, { name: `${buildId}-signed.apk` });
       }
-      if (fs.existsSync(aabPath)) {
+      if (aabPath && fs.existsSync(aabPath)) {
         archive.file(aabPath, { name: `${buildId}-bundle.aab` });
       }
-      if (fs.existsSync(keystorePath)) {
-        archive.file(keystorePath, { name: `${buildId}-keystore.jks` });
+      if (apksPath && fs.existsSync(apksPath)) {
+        archive.file(apksPath, { name: `${buildId}.apks` });
+      }
+      if (mappingPath && fs.existsSync(mappingPath)) {
+        archive.file(mappingPath, { name: `${buildId}-mapping.txt` });
+      }
+      for (const artifact of pluginArtifacts) {
+        archive.file(artifact.path, { name: `plugins/${artifact.name}` });
       }
 
       // Add readme
+      const contents: string[] = [];
+      if (apkPath) contents.push(`- ${buildId}-signed.apk: Signed APK ready for installation`);
+      if (aabPath) contents.push(`- ${buildId}-bundle.aab: App Bundle signed with your upload key, for Google Play Store`);
+      if (apksPath) contents.push(`- ${buildId}.apks: Split APKs per device configuration; install with \`bundletool install-apks --apks=${buildId}.apks\``);
+      if (mappingPath) contents.push(`- ${buildId}-mapping.txt: R8 mapping file, needed to deobfuscate crash stack traces`);
+      if (pluginArtifacts.length) contents.push(`- plugins/: Files attached by build plugins (${pluginArtifacts.map(artifact => artifact.name).join(', ')})`);
       const readme = `Android App Package
 ==================
 
 This package contains your compiled Android application:
 
-- ${buildId}-signed.apk: Signed APK ready for installation
-- ${buildId}-bundle.aab: App Bundle for Google Play Store
-- ${buildId}-keystore.jks: Keystore file for future updates
+${contents.join('\n')}
 
 Installation:
 1. Enable "Unknown sources" in Android settings
@@ -698,7 +584,8 @@ Installation:
 
 Publishing:
 1. Upload the AAB file to Google Play Console
-2. Keep the keystore file safe for future updates
+2. Future updates must be signed with the same key; export the project
+   keystore from its signing settings and keep it safe
 `;
       
       archive.append(readme, { name: 'README.txt' });
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { decodeAxml, type AxmlElement, type AxmlNode } from './axml';
+import { readResourceTable } from './resource-table';
+import { compileResourceDirectory, compileResources, ResourceCompileError } from './resource-compiler';
+
+// The reference binaries come from aapt2 link over the same sources; rebuild
+// them with test-fixtures/resource-compiler/build-reference.sh
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'test-fixtures', 'resource-compiler');
+const OPTIONS = { minSdkVersion: 21, targetSdkVersion: 28 };
+
+// aapt2 stamps the manifest with the SDK of the android.jar it linked against
+const COMPILE_SDK_ATTRIBUTES = new Set(['compileSdkVersion', 'compileSdkVersionCodename', 'platformBuildVersionCode', 'platformBuildVersionName']);
+
+const compileFixture = () => compileResourceDirectory(path.join(FIXTURES, 'source', 'AndroidManifest.xml'), path.join(FIXTURES, 'source', 'res'), OPTIONS);
+const readReference = (name: string) => fs.readFile(path.join(FIXTURES, 'reference', name));
+
+// Line numbers and string pool order differ between encoders without
+// changing what the XML means; string values are compared by content
+function normalizeXml(node: AxmlNode): unknown {
+  if (node.kind === 'text') return { text: node.text };
+  return {
+    namespace: node.namespace,
+    name: node.name,
+    namespaces: node.namespaces,
+    attributes: node.attributes
+      .filter(attribute => !COMPILE_SDK_ATTRIBUTES.has(attribute.name))
+      .map(attribute => ({ ...attribute, data: attribute.rawValue === null ? attribute.data >>> 0 : 0 })),
+    children: node.children.map(normalizeXml)
+  };
+}
+
+// Values by resource name, one per configuration in table order
+function normalizeTable(data: Buffer) {
+  const table = readResourceTable(data);
+  const values: Record<string, unknown[]> = {};
+  for (const [id, entries] of Array.from(table.values)) {
+    for (const entry of entries) {
+      const name = `0x${id.toString(16)} ${entry.type}/${entry.key}`;
+      (values[name] ??= []).push({ dataType: entry.dataType, data: entry.string === null ? entry.data >>> 0 : entry.string });
+    }
+  }
+  return { packages: table.packages, values };
+}
+
+test('compiled manifest matches aapt2', async () => {
+  const compiled = await compileFixture();
+  assert.deepEqual(compiled.warnings, []);
+  assert.deepEqual(normalizeXml(decodeAxml(compiled.manifest)), normalizeXml(decodeAxml(await readReference('AndroidManifest.xml'))));
+});
+
+test('resources.arsc matches aapt2', async () => {
+  const compiled = await compileFixture();
+  assert.deepEqual(normalizeTable(compiled.resourceTable), normalizeTable(await readReference('resources.arsc')));
+});
+
+test('compiled XML resources match aapt2', async () => {
+  const compiled = await compileFixture();
+  const xmlFiles = compiled.files.filter(file => file.path.endsWith('.xml'));
+  assert.deepEqual(xmlFiles.map(file => file.path), ['res/layout/activity_main.xml', 'res/xml/file_paths.xml']);
+
+  for (const file of xmlFiles) {
+    const reference = decodeAxml(await readReference(file.path));
+    assert.deepEqual(normalizeXml(decodeAxml(file.content)), normalizeXml(reference), file.path);
+  }
+});
+
+test('other resource files are packaged unchanged', async () => {
+  const compiled = await compileFixture();
+  for (const file of compiled.files.filter(file => file.path.endsWith('.png'))) {
+    assert.deepEqual(file.content, await fs.readFile(path.join(FIXTURES, 'source', file.path)), file.path);
+  }
+});
+
+test('unknown references fail unless lenient', () => {
+  const manifest = '<manifest xmlns:android="http://schemas.android.com/apk/res/android" package="com.example.app"><application android:label="@string/missing" /></manifest>';
+  assert.throws(() => compileResources(manifest, []), ResourceCompileError);
+
+  const lenient = compileResources(manifest, [], { lenient: true });
+  const application = decodeAxml(lenient.manifest).children[0] as AxmlElement;
+  assert.deepEqual(application.attributes, []);
+  assert.equal(lenient.warnings.length, 1);
+});
@@ -0,0 +1,697 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ANDROID_NAMESPACE, TYPE_DIMENSION, TYPE_INT_BOOLEAN, TYPE_INT_COLOR_ARGB4, TYPE_INT_COLOR_ARGB8,
+  TYPE_INT_COLOR_RGB4, TYPE_INT_COLOR_RGB8, TYPE_INT_DEC, TYPE_INT_HEX, TYPE_REFERENCE, TYPE_STRING,
+  encodeAxml, type AxmlAttribute, type AxmlElement, type AxmlNamespace, type AxmlNode
+} from './axml';
+import { FRAMEWORK_ATTRIBUTES, FRAMEWORK_RESOURCES, type FrameworkAttribute } from './framework-resources';
+import { encodeStringPool } from './string-pool';
+import { isXmlElement, parseXml, XmlParseError, type XmlElement } from './xml-parser';
+
+// Compiles a text AndroidManifest.xml and res/ directory into what aapt2
+// link produces: a binary manifest, binary XML resources and a
+// resources.arsc. Covers what the generated projects use — simple values,
+// files, ids and framework attributes — without the Android SDK. Styles and
+// other bag resources are not supported and are reported as skipped.
+
+const TOOLS_NAMESPACE = 'http://schemas.android.com/tools';
+const PACKAGE_ID = 0x7f;
+
+const RES_TABLE_TYPE = 0x0002;
+const RES_TABLE_PACKAGE_TYPE = 0x0200;
+const RES_TABLE_TYPE_TYPE = 0x0201;
+const RES_TABLE_TYPE_SPEC_TYPE = 0x0202;
+const PACKAGE_HEADER_SIZE = 288;
+const CONFIG_SIZE = 64;
+
+// ResTable_typeSpec flags for the configuration axes a resource varies on
+const CONFIG_ORIENTATION = 0x0080;
+const CONFIG_DENSITY = 0x0100;
+const CONFIG_VERSION = 0x0400;
+const CONFIG_UI_MODE = 0x1000;
+
+const DENSITIES: Record<string, number> = {
+  ldpi: 120, mdpi: 160, tvdpi: 213, hdpi: 240, xhdpi: 320, xxhdpi: 480, xxxhdpi: 640, anydpi: 0xfffe, nodpi: 0xffff
+};
+
+const DIMENSION_UNITS: Record<string, number> = { px: 0, dp: 1, dip: 1, sp: 2, pt: 3, in: 4, mm: 5 };
+
+// Value resource elements this compiler understands, by resource type
+const VALUE_TYPES: Record<string, string> = { string: 'string', color: 'color', bool: 'bool', integer: 'integer', dimen: 'dimen' };
+
+// Directories whose XML files are compiled; raw/ keeps files as they are
+const XML_RESOURCE_TYPES = new Set(['layout', 'drawable', 'mipmap', 'xml', 'anim', 'animator', 'menu', 'color', 'interpolator', 'transition', 'navigation']);
+
+export class ResourceCompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceCompileError';
+  }
+}
+
+export interface ResourceFile {
+  // Path inside the APK, e.g. "res/values/strings.xml"
+  path: string;
+  content: Buffer;
+}
+
+export interface ResourceCompileOptions {
+  // Sets the manifest package, as AGP does from android.namespace
+  packageName?: string;
+  // Added as <uses-sdk> when the manifest has none, like aapt2 --min-sdk-version
+  minSdkVersion?: number;
+  targetSdkVersion?: number;
+  // Drop attributes and values that reference unknown resources with a
+  // warning instead of failing
+  lenient?: boolean;
+}
+
+export interface CompiledResources {
+  manifest: Buffer;
+  resourceTable: Buffer;
+  // Resource files for the APK: XML compiled to binary XML, the rest unchanged
+  files: ResourceFile[];
+  // Unsupported resources that were skipped and, when lenient, references that were dropped
+  warnings: string[];
+}
+
+interface ResourceConfig {
+  density: number;
+  sdkVersion: number;
+  orientation: number;
+  uiMode: number;
+}
+
+type PendingValue =
+  | { kind: 'string' | 'reference' | 'color' | 'bool' | 'integer' | 'dimen'; text: string; source: string }
+  | { kind: 'file'; path: string; source: string }
+  | { kind: 'id'; source: string };
+
+interface EncodedValue {
+  dataType: number;
+  data: number;
+  string?: string;
+}
+
+interface ConfigValue {
+  config: ResourceConfig;
+  value: PendingValue;
+}
+
+// Entries by type, then name, then configuration key
+type ResourceEntries = Map<string, Map<string, Map<string, ConfigValue>>>;
+
+const DEFAULT_CONFIG: ResourceConfig = { density: 0, sdkVersion: 0, orientation: 0, uiMode: 0 };
+
+// The default configuration sorts first
+function configKey(config: ResourceConfig): string {
+  const key = `${config.density}-${config.sdkVersion}-${config.orientation}-${config.uiMode}`;
+  return key === '0-0-0-0' ? '' : key;
+}
+
+function parseQualifiers(qualifiers: string[], source: string): ResourceConfig {
+  if (!qualifiers.length) return DEFAULT_CONFIG;
+
+  const config: ResourceConfig = { ...DEFAULT_CONFIG };
+  for (const qualifier of qualifiers) {
+    const version = /^v(\d+)$/.exec(qualifier);
+    if (qualifier in DENSITIES) {
+      config.density = DENSITIES[qualifier];
+    } else if (version) {
+      config.sdkVersion = Number(version[1]);
+    } else if (qualifier === 'port' || qualifier === 'land') {
+      config.orientation = qualifier === 'port' ? 1 : 2;
+    } else if (qualifier === 'night' || qualifier === 'notnight') {
+      config.uiMode = qualifier === 'night' ? 0x20 : 0x10;
+    } else {
+      throw new ResourceCompileError(`Unsupported resource qualifier "${qualifier}" in ${source}`);
+    }
+  }
+  return config;
+}
+
+function specFlags(values: ConfigValue[]): number {
+  const differs = (axis: keyof ResourceConfig) => new Set(values.map(({ config }) => config[axis])).size > 1;
+  return (differs('orientation') ? CONFIG_ORIENTATION : 0) |
+    (differs('density') ? CONFIG_DENSITY : 0) |
+    (differs('sdkVersion') ? CONFIG_VERSION : 0) |
+    (differs('uiMode') ? CONFIG_UI_MODE : 0);
+}
+
+function encodeConfig(config: ResourceConfig): Buffer {
+  const buffer = Buffer.alloc(CONFIG_SIZE);
+  buffer.writeUInt32LE(CONFIG_SIZE, 0);
+  buffer[12] = config.orientation;
+  buffer.writeUInt16LE(config.density, 14);
+  buffer.writeUInt16LE(config.sdkVersion, 24);
+  buffer[29] = config.uiMode;
+  return buffer;
+}
+
+/**
+ * Applies the aapt rules for string resources: whitespace collapses unless
+ * quoted, quotes are dropped and backslash escapes are resolved.
+ */
+function normalizeString(raw: string): string {
+  let result = '';
+  let quoted = false;
+  let pendingSpace = false;
+  const append = (text: string) => {
+    if (pendingSpace && result) result += ' ';
+    pendingSpace = false;
+    result += text;
+  };
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '\\' && i + 1 < raw.length) {
+      const next = raw[++i];
+      if (next === 'n') append('\n');
+      else if (next === 't') append('\t');
+      else if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(raw.slice(i + 1, i + 5))) {
+        append(String.fromCharCode(parseInt(raw.slice(i + 1, i + 5), 16)));
+        i += 4;
+      } else append(next);
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && /\s/.test(char)) {
+      pendingSpace = true;
+    } else {
+      append(char);
+    }
+  }
+  return result;
+}
+
+function textContent(element: XmlElement): string {
+  return element.children.map(child => isXmlElement(child) ? textContent(child) : child.text).join('');
+}
+
+function parseColor(text: string): EncodedValue | null {
+  const match = /^#([0-9a-fA-F]{3,8})$/.exec(text);
+  if (!match) return null;
+  const digits = match[1];
+  const expand = (hex: string) => hex.split('').map(digit => digit + digit).join('');
+
+  switch (digits.length) {
+    case 3: return { dataType: TYPE_INT_COLOR_RGB4, data: parseInt(`ff${expand(digits)}`, 16) };
+    case 4: return { dataType: TYPE_INT_COLOR_ARGB4, data: parseInt(expand(digits), 16) };
+    case 6: return { dataType: TYPE_INT_COLOR_RGB8, data: parseInt(`ff${digits}`, 16) };
+    case 8: return { dataType: TYPE_INT_COLOR_ARGB8, data: parseInt(digits, 16) };
+    default: return null;
+  }
+}
+
+function parseInteger(text: string): EncodedValue | null {
+  if (/^-?\d+$/.test(text)) return { dataType: TYPE_INT_DEC, data: Number(text) | 0 };
+  if (/^0[xX][0-9a-fA-F]{1,8}$/.test(text)) return { dataType: TYPE_INT_HEX, data: parseInt(text, 16) };
+  return null;
+}
+
+// Encodes a dimension as a Res_value complex number the way aapt does
+function parseDimension(text: string): EncodedValue | null {
+  const match = /^(-?\d+(?:\.\d+)?|-?\.\d+)(px|dp|dip|sp|pt|in|mm)$/.exec(text);
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  const bits = Math.round(Math.abs(value) * 2 ** 23);
+  let radix: number;
+  let shift: number;
+  if (bits % 2 ** 23 === 0) {
+    radix = 0;
+    shift = 23;
+  } else if (bits < 2 ** 23) {
+    radix = 3;
+    shift = 0;
+  } else if (bits < 2 ** 31) {
+    radix = 2;
+    shift = 8;
+  } else if (bits < 2 ** 39) {
+    radix = 1;
+    shift = 16;
+  } else {
+    radix = 0;
+    shift = 23;
+  }
+
+  let mantissa = Math.floor(bits / 2 ** shift) & 0xffffff;
+  if (value < 0) mantissa = (-mantissa) & 0xffffff;
+  return { dataType: TYPE_DIMENSION, data: ((mantissa << 8) | (radix << 4) | DIMENSION_UNITS[match[2]]) >>> 0 };
+}
+
+class ResourceCompiler {
+  private entries: ResourceEntries = new Map();
+  private ids = new Map<string, number>();
+  private xmlFiles: Array<{ path: string; document: XmlElement }> = [];
+  private otherFiles: ResourceFile[] = [];
+  readonly warnings: string[] = [];
+
+  constructor(private options: ResourceCompileOptions) {}
+
+  private unresolved(message: string): null {
+    if (!this.options.lenient) throw new ResourceCompileError(message);
+    this.warnings.push(message);
+    return null;
+  }
+
+  private define(type: string, name: string, config: ResourceConfig, value: PendingValue): void {
+    if (!/^[A-Za-z_][\w.]*$/.test(name)) {
+      throw new ResourceCompileError(`Invalid resource name "${name}" in ${value.source}`);
+    }
+    const names = this.entries.get(type) ?? new Map<string, Map<string, ConfigValue>>();
+    const configs = names.get(name) ?? new Map<string, ConfigValue>();
+    const key = configKey(config);
+    const existing = configs.get(key);
+
+    if (existing) {
+      if (value.kind === 'id' && existing.value.kind === 'id') return;
+      throw new ResourceCompileError(`Duplicate resource @${type}/${name} in ${value.source} and ${existing.value.source}`);
+    }
+    configs.set(key, { config, value });
+    names.set(name, configs);
+    this.entries.set(type, names);
+  }
+
+  addFile(file: ResourceFile): void {
+    const parts = file.path.split('/');
+    if (parts.length !== 3 || parts[0] !== 'res') {
+      throw new ResourceCompileError(`Resource file ${file.path} must be directly inside a res/<type> directory`);
+    }
+    const [type, ...qualifiers] = parts[1].split('-');
+    const config = parseQualifiers(qualifiers, file.path);
+    const fileName = parts[2];
+
+    if (type === 'values') {
+      this.addValues(this.parse(file), config, file.path);
+      return;
+    }
+
+    if (fileName.endsWith('.9.png')) {
+      throw new ResourceCompileError(`Nine-patch images need aapt2 and are not supported: ${file.path}`);
+    }
+    const name = fileName.split('.')[0];
+    if (!/^[a-z0-9_]+$/.test(name)) {
+      throw new ResourceCompileError(`Invalid resource file name ${file.path}: use lowercase letters, digits and underscores`);
+    }
+    this.define(type, name, config, { kind: 'file', path: file.path, source: file.path });
+
+    if (fileName.endsWith('.xml') && XML_RESOURCE_TYPES.has(type)) {
+      const document = this.parse(file);
+      this.collectIds(document, file.path);
+      this.xmlFiles.push({ path: file.path, document });
+    } else {
+      this.otherFiles.push(file);
+    }
+  }
+
+  private parse(file: ResourceFile): XmlElement {
+    try {
+      return parseXml(file.content.toString('utf8'));
+    } catch (error) {
+      if (error instanceof XmlParseError) {
+        throw new ResourceCompileError(`${file.path}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private addValues(document: XmlElement, config: ResourceConfig, source: string): void {
+    if (document.name !== 'resources') {
+      throw new ResourceCompileError(`${source} must have a <resources> root element`);
+    }
+
+    for (const element of document.children.filter(isXmlElement)) {
+      const name = element.attributes.find(attribute => attribute.name === 'name')?.value;
+      const itemType = element.name === 'item' ? element.attributes.find(attribute => attribute.name === 'type')?.value : undefined;
+      const type = itemType === 'id' ? 'id' : VALUE_TYPES[itemType ?? element.name];
+      const location = `${source}:${element.line}`;
+
+      if (element.name === 'eat-comment') continue;
+      if (!type || !name) {
+        this.warnings.push(`Skipped <${element.name}${name ? ` name="${name}"` : ''}> in ${source}: only simple values are supported`);
+        continue;
+      }
+      if (type === 'id') {
+        this.define('id', name, DEFAULT_CONFIG, { kind: 'id', source: location });
+        continue;
+      }
+
+      if (element.children.some(isXmlElement)) {
+        this.warnings.push(`Styled text in @${type}/${name} (${location}) was flattened to plain text`);
+      }
+      const raw = textContent(element);
+      const trimmed = raw.trim();
+      if (trimmed.startsWith('@') || trimmed.startsWith('?')) {
+        this.define(type, name, config, { kind: 'reference', text: trimmed, source: location });
+      } else {
+        const kind = type as 'string' | 'color' | 'bool' | 'integer' | 'dimen';
+        this.define(type, name, config, { kind, text: kind === 'string' ? normalizeString(raw) : trimmed, source: location });
+      }
+    }
+  }
+
+  private collectIds(element: XmlElement, source: string): void {
+    for (const attribute of element.attributes) {
+      const match = /^@\+id\/(.+)$/.exec(attribute.value);
+      if (match) this.define('id', match[1], DEFAULT_CONFIG, { kind: 'id', source: `${source}:${element.line}` });
+    }
+    for (const child of element.children.filter(isXmlElement)) {
+      this.collectIds(child, source);
+    }
+  }
+
+  // Resource ids are assigned with types and entries in name order
+  private assignIds(): void {
+    Array.from(this.entries.keys()).sort().forEach((type, typeIndex) => {
+      Array.from(this.entries.get(type)!.keys()).sort().forEach((name, entryIndex) => {
+        this.ids.set(`${type}/${name}`, ((PACKAGE_ID << 24) | ((typeIndex + 1) << 16) | entryIndex) >>> 0);
+      });
+    });
+  }
+
+  private resolveReference(text: string, source: string): EncodedValue | null {
+    if (text === '@null') return { dataType: TYPE_REFERENCE, data: 0 };
+    if (text.startsWith('?')) {
+      return this.unresolved(`Theme attribute references are not supported: ${text} in ${source}`);
+    }
+
+    const match = /^@\+?(?:(\*?[\w.]+):)?([\w]+)\/([\w.]+)$/.exec(text);
+    if (!match) throw new ResourceCompileError(`Invalid resource reference ${text} in ${source}`);
+    const [, packageName, type, name] = match;
+    const id = packageName
+      ? packageName.replace('*', '') === 'android' ? FRAMEWORK_RESOURCES[`${type}/${name}`] : undefined
+      : this.ids.get(`${type}/${name}`);
+
+    if (id === undefined) return this.unresolved(`Unknown resource ${text} in ${source}`);
+    return { dataType: TYPE_REFERENCE, data: id };
+  }
+
+  private encodeValue(value: PendingValue): EncodedValue | null {
+    const invalid = (): never => {
+      throw new ResourceCompileError(`Invalid ${value.kind} value "${'text' in value ? value.text : ''}" in ${value.source}`);
+    };
+
+    switch (value.kind) {
+      case 'id': return { dataType: TYPE_INT_BOOLEAN, data: 0 };
+      case 'file': return { dataType: TYPE_STRING, data: 0, string: value.path };
+      case 'reference': return this.resolveReference(value.text, value.source);
+      case 'string': return { dataType: TYPE_STRING, data: 0, string: value.text };
+      case 'color': return parseColor(value.text) ?? invalid();
+      case 'integer': return parseInteger(value.text) ?? invalid();
+      case 'dimen': return parseDimension(value.text) ?? invalid();
+      case 'bool':
+        if (value.text !== 'true' && value.text !== 'false') invalid();
+        return { dataType: TYPE_INT_BOOLEAN, data: value.text === 'true' ? 0xffffffff : 0 };
+    }
+  }
+
+  private compileAttributeValue(name: string, attribute: FrameworkAttribute, value: string, source: string): EncodedValue | null {
+    const { formats, symbols } = attribute;
+    const trimmed = value.trim();
+
+    if (trimmed.startsWith('@') || trimmed.startsWith('?')) {
+      return this.resolveReference(trimmed, source);
+    }
+    if (symbols && (formats.includes('enum') || formats.includes('flags'))) {
+      const names = formats.includes('flags') ? trimmed.split('|').map(part => part.trim()) : [trimmed];
+      if (names.every(symbol => symbol in symbols)) {
+        const data = names.reduce((flags, symbol) => flags | symbols[symbol], 0);
+        return { dataType: formats.includes('flags') ? TYPE_INT_HEX : TYPE_INT_DEC, data };
+      }
+    }
+    if (formats.includes('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+      return { dataType: TYPE_INT_BOOLEAN, data: trimmed === 'true' ? 0xffffffff : 0 };
+    }
+    const parsed = (formats.includes('integer') && parseInteger(trimmed)) ||
+      (formats.includes('dimension') && parseDimension(trimmed)) ||
+      (formats.includes('color') && parseColor(trimmed));
+    if (parsed) return parsed;
+    if (formats.includes('string')) {
+      return { dataType: TYPE_STRING, data: 0, string: value.replace(/^\\([@?])/, '$1') };
+    }
+    throw new ResourceCompileError(`Invalid value "${value}" for android:${name} in ${source}`);
+  }
+
+  compileXml(element: XmlElement, source: string, scope = new Map<string, string>()): AxmlElement {
+    const namespaces: AxmlNamespace[] = [];
+    const elementScope = new Map(scope);
+
+    for (const { name, value } of element.attributes) {
+      if (name === 'xmlns') {
+        throw new ResourceCompileError(`Default namespaces are not supported (${source}:${element.line})`);
+      }
+      if (name.startsWith('xmlns:')) {
+        elementScope.set(name.slice(6), value);
+        if (value !== TOOLS_NAMESPACE) namespaces.push({ prefix: name.slice(6), uri: value });
+      }
+    }
+    if (element.name.includes(':')) {
+      throw new ResourceCompileError(`Namespaced element <${element.name}> is not supported (${source}:${element.line})`);
+    }
+
+    const attributes: AxmlAttribute[] = [];
+    for (const { name, value } of element.attributes) {
+      if (name === 'xmlns' || name.startsWith('xmlns:')) continue;
+      const location = `${source}:${element.line}`;
+      const separator = name.indexOf(':');
+
+      if (separator < 0) {
+        const reference = value.startsWith('@') ? this.resolveReference(value, location) : null;
+        if (value.startsWith('@') && !reference) continue;
+        attributes.push({
+          namespace: null, name, resourceId: null, rawValue: value,
+          type: reference ? reference.dataType : TYPE_STRING, data: reference ? reference.data : 0
+        });
+        continue;
+      }
+
+      const prefix = name.slice(0, separator);
+      const localName = name.slice(separator + 1);
+      const uri = elementScope.get(prefix);
+      if (!uri) throw new ResourceCompileError(`Undeclared namespace prefix "${prefix}" in ${location}`);
+      if (uri === TOOLS_NAMESPACE) continue;
+
+      const attribute = uri === ANDROID_NAMESPACE ? FRAMEWORK_ATTRIBUTES[localName] : undefined;
+      if (!attribute) {
+        this.unresolved(`Unknown attribute ${name} in ${location}`);
+        continue;
+      }
+      const encoded = this.compileAttributeValue(localName, attribute, value, location);
+      if (!encoded) continue;
+      attributes.push({
+        namespace: uri, name: localName, resourceId: attribute.id,
+        rawValue: encoded.dataType === TYPE_STRING ? encoded.string! : null,
+        type: encoded.dataType, data: encoded.data
+      });
+    }
+
+    const children: AxmlNode[] = [];
+    for (const child of element.children) {
+      if (isXmlElement(child)) {
+        children.push(this.compileXml(child, source, elementScope));
+      } else if (child.text.trim()) {
+        children.push({ kind: 'text', text: child.text, lineNumber: child.line });
+      }
+    }
+
+    return {
+      kind: 'element',
+      namespace: null,
+      name: element.name,
+      lineNumber: element.line,
+      namespaces,
+      attributes,
+      children
+    };
+  }
+
+  compileManifest(manifestXml: string): AxmlElement {
+    const document = this.parse({ path: 'AndroidManifest.xml', content: Buffer.from(manifestXml) });
+    if (document.name !== 'manifest') {
+      throw new ResourceCompileError('AndroidManifest.xml must have a <manifest> root element');
+    }
+    if (this.options.packageName) {
+      document.attributes = document.attributes.filter(attribute => attribute.name !== 'package');
+      document.attributes.push({ name: 'package', value: this.options.packageName });
+    }
+    if (!document.attributes.some(attribute => attribute.name === 'package' && attribute.value)) {
+      throw new ResourceCompileError('AndroidManifest.xml has no package attribute');
+    }
+
+    this.collectIds(document, 'AndroidManifest.xml');
+    this.assignIds();
+    const manifest = this.compileXml(document, 'AndroidManifest.xml');
+
+    const { minSdkVersion, targetSdkVersion } = this.options;
+    if ((minSdkVersion || targetSdkVersion) && !document.children.some(child => isXmlElement(child) && child.name === 'uses-sdk')) {
+      if (!manifest.namespaces.some(namespace => namespace.uri === ANDROID_NAMESPACE)) {
+        manifest.namespaces.push({ prefix: 'android', uri: ANDROID_NAMESPACE });
+      }
+      const sdkAttribute = (name: 'minSdkVersion' | 'targetSdkVersion', version: number): AxmlAttribute =>
+        ({ namespace: ANDROID_NAMESPACE, name, resourceId: FRAMEWORK_ATTRIBUTES[name].id, rawValue: null, type: TYPE_INT_DEC, data: version });
+      manifest.children.unshift({
+        kind: 'element',
+        namespace: null,
+        name: 'uses-sdk',
+        lineNumber: document.line,
+        namespaces: [],
+        attributes: [
+          ...(minSdkVersion ? [sdkAttribute('minSdkVersion', minSdkVersion)] : []),
+          ...(targetSdkVersion ? [sdkAttribute('targetSdkVersion', targetSdkVersion)] : [])
+        ],
+        children: []
+      });
+    }
+    return manifest;
+  }
+
+  compiledFiles(): ResourceFile[] {
+    const compiled = this.xmlFiles.map(({ path: filePath, document }) =>
+      ({ path: filePath, content: encodeAxml(this.compileXml(document, filePath)) }));
+    return [...compiled, ...this.otherFiles].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  buildResourceTable(packageName: string): Buffer {
+    const globalStrings: string[] = [];
+    const globalIndexes = new Map<string, number>();
+    const keyStrings: string[] = [];
+    const keyIndexes = new Map<string, number>();
+    const intern = (value: string, strings: string[], indexes: Map<string, number>) => {
+      if (!indexes.has(value)) {
+        indexes.set(value, strings.length);
+        strings.push(value);
+      }
+      return indexes.get(value)!;
+    };
+
+    const typeNames = Array.from(this.entries.keys()).sort();
+    const typeChunks: Buffer[] = [];
+
+    typeNames.forEach((type, typeIndex) => {
+      const names = Array.from(this.entries.get(type)!.keys()).sort();
+      const encoded = names.map(name => {
+        const values = new Map<string, { config: ResourceConfig; value: EncodedValue }>();
+        for (const [key, { config, value }] of Array.from(this.entries.get(type)!.get(name)!)) {
+          const result = this.encodeValue(value);
+          if (result) values.set(key, { config, value: result });
+        }
+        return { key: intern(name, keyStrings, keyIndexes), values };
+      });
+
+      const spec = Buffer.alloc(16 + names.length * 4);
+      spec.writeUInt16LE(RES_TABLE_TYPE_SPEC_TYPE, 0);
+      spec.writeUInt16LE(16, 2);
+      spec.writeUInt32LE(spec.length, 4);
+      spec[8] = typeIndex + 1;
+      spec.writeUInt32LE(names.length, 12);
+      names.forEach((name, i) => spec.writeUInt32LE(specFlags(Array.from(this.entries.get(type)!.get(name)!.values())), 16 + i * 4));
+
+      const configs = new Map<string, ResourceConfig>();
+      for (const { values } of encoded) {
+        for (const [key, { config }] of Array.from(values)) configs.set(key, config);
+      }
+      const configKeys = Array.from(configs.keys()).sort();
+      spec.writeUInt16LE(configKeys.length, 10);
+      typeChunks.push(spec);
+
+      for (const key of configKeys) {
+        const headerSize = 20 + CONFIG_SIZE;
+        // Entries without a value in this configuration keep NO_ENTRY (0xffffffff)
+        const offsets = Buffer.alloc(names.length * 4, 0xff);
+        const entryData: Buffer[] = [];
+        let position = 0;
+
+        encoded.forEach(({ key: keyIndex, values }, i) => {
+          const entry = values.get(key);
+          if (!entry) return;
+          const buffer = Buffer.alloc(16);
+          buffer.writeUInt16LE(8, 0);
+          buffer.writeUInt32LE(keyIndex, 4);
+          buffer.writeUInt16LE(8, 8);
+          buffer[11] = entry.value.dataType;
+          buffer.writeUInt32LE(entry.value.string !== undefined
+            ? intern(entry.value.string, globalStrings, globalIndexes)
+            : entry.value.data >>> 0, 12);
+          offsets.writeUInt32LE(position, i * 4);
+          entryData.push(buffer);
+          position += buffer.length;
+        });
+
+        const header = Buffer.alloc(20);
+        header.writeUInt16LE(RES_TABLE_TYPE_TYPE, 0);
+        header.writeUInt16LE(headerSize, 2);
+        header.writeUInt32LE(headerSize + offsets.length + position, 4);
+        header[8] = typeIndex + 1;
+        header.writeUInt32LE(names.length, 12);
+        header.writeUInt32LE(headerSize + offsets.length, 16);
+        typeChunks.push(header, encodeConfig(configs.get(key)!), offsets, ...entryData);
+      }
+    });
+
+    const typePool = encodeStringPool(typeNames);
+    const keyPool = encodeStringPool(keyStrings);
+    const packageHeader = Buffer.alloc(PACKAGE_HEADER_SIZE);
+    const packageBody = Buffer.concat([typePool, keyPool, ...typeChunks]);
+    packageHeader.writeUInt16LE(RES_TABLE_PACKAGE_TYPE, 0);
+    packageHeader.writeUInt16LE(PACKAGE_HEADER_SIZE, 2);
+    packageHeader.writeUInt32LE(PACKAGE_HEADER_SIZE + packageBody.length, 4);
+    packageHeader.writeUInt32LE(PACKAGE_ID, 8);
+    packageHeader.write(packageName.slice(0, 127), 12, 'utf16le');
+    packageHeader.writeUInt32LE(PACKAGE_HEADER_SIZE, 268);
+    packageHeader.writeUInt32LE(typeNames.length, 272);
+    packageHeader.writeUInt32LE(PACKAGE_HEADER_SIZE + typePool.length, 276);
+    packageHeader.writeUInt32LE(keyStrings.length, 280);
+
+    const body = Buffer.concat([encodeStringPool(globalStrings), packageHeader, packageBody]);
+    const header = Buffer.alloc(12);
+    header.writeUInt16LE(RES_TABLE_TYPE, 0);
+    header.writeUInt16LE(12, 2);
+    header.writeUInt32LE(12 + body.length, 4);
+    header.writeUInt32LE(1, 8);
+    return Buffer.concat([header, body]);
+  }
+}
+
+export function compileResources(manifestXml: string, resources: ResourceFile[], options: ResourceCompileOptions = {}): CompiledResources {
+  const compiler = new ResourceCompiler(options);
+  for (const file of resources) {
+    compiler.addFile(file);
+  }
+
+  const manifest = compiler.compileManifest(manifestXml);
+  const packageName = manifest.attributes.find(attribute => attribute.name === 'package')!.rawValue!;
+  const files = compiler.compiledFiles();
+
+  return {
+    manifest: encodeAxml(manifest),
+    resourceTable: compiler.buildResourceTable(packageName),
+    files,
+    warnings: compiler.warnings
+  };
+}
+
+/**
+ * Compiles a project's manifest and res/ directory from disk. Hidden files
+ * are ignored; a missing res/ directory compiles to an empty table.
+ */
+export async function compileResourceDirectory(manifestPath: string, resDir: string, options: ResourceCompileOptions = {}): Promise<CompiledResources> {
+  const resources: ResourceFile[] = [];
+  const directories = await fs.readdir(resDir, { withFileTypes: true }).catch(error => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  });
+
+  for (const directory of directories) {
+    if (!directory.isDirectory() || directory.name.startsWith('.')) continue;
+    for (const file of await fs.readdir(path.join(resDir, directory.name), { withFileTypes: true })) {
+      if (!file.isFile() || file.name.startsWith('.')) continue;
+      resources.push({
+        path: `res/${directory.name}/${file.name}`,
+        content: await fs.readFile(path.join(resDir, directory.name, file.name))
+      });
+    }
+  }
+
+  return compileResources(await fs.readFile(manifestPath, 'utf8'), resources, options);
+}
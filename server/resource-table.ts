@@ -0,0 +1,130 @@
+import { readChunkHeader, readStringPool, ResourceFormatError, RES_STRING_POOL_TYPE } from './string-pool';
+
+// Read-only view of a compiled resources.arsc, enough to look up what a
+// resource id resolves to in each configuration. Complex (bag) entries such
+// as styles are skipped.
+
+const RES_TABLE_TYPE = 0x0002;
+const RES_TABLE_PACKAGE_TYPE = 0x0200;
+const RES_TABLE_TYPE_TYPE = 0x0201;
+
+const FLAG_SPARSE = 0x01;
+const FLAG_OFFSET16 = 0x02;
+const ENTRY_FLAG_COMPLEX = 0x0001;
+const ENTRY_FLAG_COMPACT = 0x0008;
+const NO_ENTRY = 0xffffffff;
+
+const TYPE_STRING = 0x03;
+
+export interface ResourceValue {
+  // Type name and entry name, e.g. "mipmap" and "ic_launcher"
+  type: string;
+  key: string;
+  dataType: number;
+  data: number;
+  // Resolved from the global string pool for string values (including file paths)
+  string: string | null;
+}
+
+export interface ResourceTable {
+  packages: Array<{ id: number; name: string }>;
+  // Values of every simple entry by resource id, one per configuration
+  values: Map<number, ResourceValue[]>;
+}
+
+export function readResourceTable(data: Buffer): ResourceTable {
+  const header = readChunkHeader(data, 0);
+  if (header.type !== RES_TABLE_TYPE) {
+    throw new ResourceFormatError('Not a compiled resource table');
+  }
+
+  const table: ResourceTable = { packages: [], values: new Map() };
+  let globalStrings: string[] = [];
+
+  for (let offset = header.headerSize; offset < header.size;) {
+    const chunk = readChunkHeader(data, offset);
+    if (chunk.type === RES_STRING_POOL_TYPE) {
+      globalStrings = readStringPool(data, offset);
+    } else if (chunk.type === RES_TABLE_PACKAGE_TYPE) {
+      readPackage(data, offset, globalStrings, table);
+    }
+    offset += chunk.size;
+  }
+
+  return table;
+}
+
+function readPackage(data: Buffer, offset: number, globalStrings: string[], table: ResourceTable): void {
+  const chunk = readChunkHeader(data, offset);
+  const id = data.readUInt32LE(offset + 8);
+  const name = data.toString('utf16le', offset + 12, offset + 12 + 256).replace(/\0[\s\S]*$/, '');
+  const typeNames = readStringPool(data, offset + data.readUInt32LE(offset + 268));
+  const keyNames = readStringPool(data, offset + data.readUInt32LE(offset + 276));
+  const typeIdOffset = chunk.headerSize >= 288 ? data.readUInt32LE(offset + 284) : 0;
+  table.packages.push({ id, name });
+
+  for (let position = offset + chunk.headerSize; position < offset + chunk.size;) {
+    const child = readChunkHeader(data, position);
+    if (child.type === RES_TABLE_TYPE_TYPE) {
+      const typeId = data[position + 8];
+      const typeName = typeNames[typeId - 1 - typeIdOffset] ?? `type${typeId}`;
+      for (const [index, entryOffset] of readEntryOffsets(data, position, child.headerSize)) {
+        const value = readEntry(data, position + data.readUInt32LE(position + 16) + entryOffset, keyNames, globalStrings);
+        if (!value) continue;
+
+        const resourceId = ((id << 24) | (typeId << 16) | index) >>> 0;
+        const values = table.values.get(resourceId) ?? [];
+        values.push({ type: typeName, ...value });
+        table.values.set(resourceId, values);
+      }
+    }
+    position += child.size;
+  }
+}
+
+function readEntryOffsets(data: Buffer, offset: number, headerSize: number): Array<[number, number]> {
+  const flags = data[offset + 9];
+  const entryCount = data.readUInt32LE(offset + 12);
+  const start = offset + headerSize;
+  const offsets: Array<[number, number]> = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (flags & FLAG_SPARSE) {
+      offsets.push([data.readUInt16LE(start + i * 4), data.readUInt16LE(start + i * 4 + 2) * 4]);
+    } else if (flags & FLAG_OFFSET16) {
+      const value = data.readUInt16LE(start + i * 2);
+      if (value !== 0xffff) offsets.push([i, value * 4]);
+    } else {
+      const value = data.readUInt32LE(start + i * 4);
+      if (value !== NO_ENTRY) offsets.push([i, value]);
+    }
+  }
+  return offsets;
+}
+
+function readEntry(data: Buffer, offset: number, keyNames: string[], globalStrings: string[]): Omit<ResourceValue, 'type'> | null {
+  const size = data.readUInt16LE(offset);
+  const flags = data.readUInt16LE(offset + 2);
+  let key: number;
+  let dataType: number;
+  let value: number;
+
+  if (flags & ENTRY_FLAG_COMPACT) {
+    key = size;
+    dataType = flags >> 8;
+    value = data.readUInt32LE(offset + 4);
+  } else if (flags & ENTRY_FLAG_COMPLEX) {
+    return null;
+  } else {
+    key = data.readUInt32LE(offset + 4);
+    dataType = data[offset + size + 3];
+    value = data.readUInt32LE(offset + size + 4);
+  }
+
+  return {
+    key: keyNames[key] ?? '',
+    dataType,
+    data: value,
+    string: dataType === TYPE_STRING ? globalStrings[value] ?? null : null
+  };
+}
@@ -3,6 +3,7 @@ import path from 'path';
 import { execSync } from 'child_process';
 import archiver from 'archiver';
 import { nanoid } from 'nanoid';
+import { compileResourceDirectory } from './resource-compiler';
 
 export interface BuildConfig {
   appName: string;
@@ -118,7 +119,10 @@ export class RobustAndroidBuilder {
     
     fs.writeFileSync(path.join(projectDir, 'AndroidManifest.xml'), manifest);
     
-    // Create resources.arsc (simplified)
+    // Create app icon
+    await this.createAppIcon(projectDir, config);
+    
+    // Compile the manifest and resources, including the icon
     await this.createResourcesFile(projectDir, config);
     
     // Create classes.dex (simplified)
@@ -126,24 +130,22 @@ export class RobustAndroidBuilder {
     
     // Copy web assets
     await this.copyWebAssets(projectDir, config);
-    
-    // Create app icon
-    await this.createAppIcon(projectDir, config);
   }
 
   private async createResourcesFile(projectDir: string, config: BuildConfig): Promise<void> {
-    // Create a simplified resources.arsc file
-    const resourcesPath = path.join(projectDir, 'resources.arsc');
-    
-    // This is a simplified binary resources file structure
-    const resourcesHeader = Buffer.from([
-      0x02, 0x00, 0x0C, 0x00, // RES_TABLE_TYPE
-      0x00, 0x00, 0x00, 0x00, // Header size
-      0x00, 0x00, 0x00, 0x00, // Size
-      0x01, 0x00, 0x00, 0x00  // Package count
-    ]);
+    // Compile AndroidManifest.xml and res/ into compiled/, plus resources.arsc
+    const compiled = await compileResourceDirectory(path.join(projectDir, 'AndroidManifest.xml'), path.join(projectDir, 'res'), {
+      minSdkVersion: 21,
+      targetSdkVersion: 33
+    });
+    const compiledDir = path.join(projectDir, 'compiled');
     
-    fs.writeFileSync(resourcesPath, resourcesHeader);
+    for (const file of compiled.files) {
+      fs.mkdirSync(path.join(compiledDir, path.dirname(file.path)), { recursive: true });
+      fs.writeFileSync(path.join(compiledDir, file.path), file.content);
+    }
+    fs.writeFileSync(path.join(compiledDir, 'AndroidManifest.xml'), compiled.manifest);
+    fs.writeFileSync(path.join(projectDir, 'resources.arsc'), compiled.resourceTable);
   }
 
   private async createClassesFile(projectDir: string, config: BuildConfig): Promise<void> {
@@ -317,15 +319,15 @@ export class RobustAndroidBuilder {
       
       archive.pipe(output);
       
-      // Add all files to the APK
-      archive.file(path.join(projectDir, 'AndroidManifest.xml'), { name: 'AndroidManifest.xml' });
-      archive.file(path.join(projectDir, 'resources.arsc'), { name: 'resources.arsc' });
+      // Add all files to the APK; resources.arsc must be stored uncompressed
+      archive.file(path.join(projectDir, 'compiled', 'AndroidManifest.xml'), { name: 'AndroidManifest.xml' });
+      archive.append(fs.readFileSync(path.join(projectDir, 'resources.arsc')), { name: 'resources.arsc', store: true });
       archive.file(path.join(projectDir, 'classes.dex'), { name: 'classes.dex' });
       
-      // Add icon
-      const iconPath = path.join(projectDir, 'res/drawable/ic_launcher.png');
-      if (fs.existsSync(iconPath)) {
-        archive.file(iconPath, { name: 'res/drawable/ic_launcher.png' });
+      // Add compiled resources
+      const compiledResDir = path.join(projectDir, 'compiled', 'res');
+      if (fs.existsSync(compiledResDir)) {
+        archive.directory(compiledResDir, 'res');
       }
       
       // Add assets
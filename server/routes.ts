@@ -1,12 +1,51 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { insertProjectSchema, insertBuildSchema, insertProjectFileSchema, insertSigningConfigSchema } from "@shared/schema";
-import { RealAndroidBuildSystem } from "./real-android-build-system";
+import crypto from "crypto";
+import { insertProjectSchema, insertBuildSchema, insertProjectFileSchema, keystoreTypes, finishedBuildStatuses, type KeystoreType, type Build, type BuildStatus, type BuilderEngineId, type BuildTypeId, type BuildConfigSnapshot, type BuildOptions, type InsertBuild, type Project } from "@shared/schema";
+import { RealAndroidBuildSystem, type ExportSigning } from "./real-android-build-system";
+import { builderRegistry } from "./builder-registry";
+import { BuildQueue } from "./build-queue";
+import { createBuildProcessor } from "./build-worker";
+import { getBuildLogPath, readBuildLog } from "./build-logs";
+import { getProjectKeystore, ensureProjectKeystore, importProjectKeystore, inspectKeystore, KeystoreError } from "./project-keystores";
+import { saveSigningConfig, toPublicSigningConfig, rotateSigningSecrets } from "./signing-secrets";
+import { readSigningKey, KeystorePasswordError } from "./keystore-reader";
+import { getArtifactStates, getPluginArtifactStates, requireArtifact, requirePluginArtifact, ArtifactUnavailableError } from "./build-artifacts";
+import { validateSdkLevels } from "./android-toolchain";
+import { listTemplateFiles, installTemplateSet, removeTemplateSet, templateVariableTypes, TemplateSetError, createTemplateVariables, renderBridgeSdk, readBridgeSdkTypes, renderFallbackPage } from "./android-templates";
+import { listFallbackPages, readFallbackPages, snapshotFallbackPages, saveFallbackPage, removeFallbackPage, isFallbackPageKind, FallbackPageError } from "./fallback-pages";
+import { pluginRegistry } from "./build-plugins";
+import { listCordovaPlugins, validateCordovaPlugins } from "./cordova-plugins";
+import type { BuilderEngine, BuilderCapabilities } from "./builder-engine";
+import { z } from "zod";
+
+// App details captured when a build is queued
+async function snapshotBuildConfig(project: Project): Promise<BuildConfigSnapshot> {
+  return {
+    appName: project.appName,
+    packageName: project.packageName,
+    versionCode: project.versionCode,
+    versionName: project.versionName,
+    websiteUrl: project.websiteUrl,
+    minSdkVersion: project.minSdkVersion,
+    targetSdkVersion: project.targetSdkVersion,
+    proguardRules: project.proguardRules,
+    enabledPlugins: project.enabledPlugins,
+    cordovaPlugins: project.cordovaPlugins,
+    capacitorSettings: project.capacitorSettings,
+    bridgeCapabilities: project.bridgeCapabilities,
+    fileUploads: project.fileUploads,
+    cameraCapture: project.cameraCapture,
+    fileDownloads: project.fileDownloads,
+    navigationPolicy: project.navigationPolicy,
+    fallbackPages: await snapshotFallbackPages(project.id)
+  };
+}
 
 const upload = multer({ 
   dest: 'uploads/',
@@ -21,7 +60,192 @@ const upload = multer({
   }
 });
 
+const templateUpload = multer({
+  dest: 'uploads/',
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.zip') {
+      cb(null, true);
+    } else {
+      cb(new Error('Template sets must be uploaded as a .zip file'));
+    }
+  }
+});
+
+const fallbackPageUpload = multer({
+  dest: 'uploads/',
+  limits: { fileSize: 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (['.html', '.htm'].includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Fallback pages must be uploaded as an .html file'));
+    }
+  }
+});
+
+const keystoreUpload = multer({
+  dest: 'uploads/',
+  limits: { fileSize: 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['.jks', '.keystore', '.p12', '.pfx'];
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (allowedTypes.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid keystore file type'));
+    }
+  }
+});
+
+const keystoreCredentialsSchema = z.object({
+  keyAlias: z.string().min(1),
+  keystorePassword: z.string().min(1),
+  keyPassword: z.string().optional()
+});
+
+const keystoreExportSchema = z.object({
+  keystorePassword: z.string().min(1)
+});
+
+const projectExportSigningSchema = keystoreExportSchema.extend({
+  keyPassword: z.string().optional()
+});
+
+const keystoreUploadSchema = keystoreCredentialsSchema.extend({
+  storeType: z.enum(keystoreTypes).optional(),
+  replace: z.enum(["true", "false"]).optional()
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  const httpServer = createServer(app);
+  
+  // Setup Socket.IO for real-time build progress
+  const io = new SocketIOServer(httpServer, {
+    cors: {
+      origin: "*",
+      methods: ["GET", "POST"]
+    }
+  });
+  
+  // Store socket connections by build ID
+  const buildSockets = new Map<string, any>();
+  
+  io.on('connection', (socket) => {
+    console.log('Client connected for build updates');
+    
+    socket.on('join-build', (buildId: string) => {
+      buildSockets.set(buildId, socket);
+      socket.join(`build-${buildId}`);
+    });
+    
+    socket.on('disconnect', () => {
+      console.log('Client disconnected');
+    });
+  });
+  
+  // Secrets still wrapped with a previous master key are moved to the current one
+  if (process.env.SIGNING_MASTER_KEY_PREVIOUS) {
+    const rotated = await rotateSigningSecrets(storage);
+    console.log(`Re-encrypted signing secrets of ${rotated} project(s) with the current master key`);
+  }
+
+  // Build plugins are loaded before interrupted builds are resumed
+  await pluginRegistry.load();
+
+  // Builds are executed by a storage-backed queue instead of inline in the request
+  const buildQueue = new BuildQueue(storage, createBuildProcessor(io), {
+    concurrency: parseInt(process.env.BUILD_CONCURRENCY || "1"),
+    maxAttempts: parseInt(process.env.BUILD_MAX_ATTEMPTS || "2")
+  });
+
+  const queueBuild = async (buildData: InsertBuild): Promise<Build> => {
+    const build = await storage.createBuild(buildData);
+
+    // Update build stats
+    const stats = await storage.getBuildStats();
+    await storage.updateBuildStats({
+      totalBuilds: stats.totalBuilds + 1,
+      lastBuildAt: new Date()
+    });
+
+    buildQueue.enqueue(build);
+    return build;
+  };
+
+  // Builds whose SDK levels no toolchain profile can build are refused up front
+  const sendUnsupportedSdkLevels = (res: Response, problems: string[]) => {
+    res.status(400).json({ message: `Unsupported SDK levels: ${problems.join("; ")}`, problems });
+  };
+
+  // Plugins only run on engines with build hooks, and must still be installed
+  const findBuildPluginProblem = (engine: BuilderEngine, pluginIds: string[] | null): string | null => {
+    if (!pluginIds?.length) return null;
+    const missing = pluginIds.filter(pluginId => !pluginRegistry.has(pluginId));
+    if (missing.length) {
+      return `Build plugins not installed: ${missing.join(", ")}`;
+    }
+    if (!engine.capabilities.buildHooks) {
+      return `The ${engine.name} engine does not run build plugins`;
+    }
+    return null;
+  };
+
+  // Engines whose tools or assets are missing on this server would only fail
+  // once the build runs, so refuse them when the build is queued
+  const findEngineAvailabilityProblem = async (engineId: BuilderEngineId): Promise<string | null> => {
+    const info = await builderRegistry.describe(engineId);
+    if (info.available) return null;
+    const missing = info.requirements.filter(requirement => !requirement.installed && !requirement.capability).map(requirement => requirement.name);
+    return `The ${info.name} engine is not available on this server; missing: ${missing.join(", ")}`;
+  };
+
+  // Tools some options need, such as bundletool for split APKs
+  const findCapabilityToolProblem = async (engineId: BuilderEngineId, capability: keyof BuilderCapabilities): Promise<string | null> => {
+    const info = await builderRegistry.describe(engineId);
+    const missing = info.requirements.filter(requirement => requirement.capability === capability && !requirement.installed).map(requirement => requirement.name);
+    return missing.length ? `The ${info.name} engine needs ${missing.join(", ")} for this build, which is not installed on this server` : null;
+  };
+
+  // Everything a build is checked against before it is queued, so new builds
+  // and rebuilds are refused for the same reasons rather than failing in the worker
+  const findQueueProblem = async (
+    build: { buildType: BuildTypeId; builderEngine: BuilderEngineId; options?: BuildOptions | null },
+    config: BuildConfigSnapshot
+  ): Promise<{ message: string; problems?: string[] } | null> => {
+    // Engines only build the artifact types they support; split APKs are
+    // derived from an App Bundle
+    const engine = builderRegistry.get(build.builderEngine);
+    if (!engine.capabilities[build.buildType]) {
+      return { message: `The ${engine.name} engine cannot build ${build.buildType.toUpperCase()} files` };
+    }
+    if (build.options?.splitApks && (build.buildType !== "aab" || !engine.capabilities.splitApks)) {
+      return { message: `Split APKs need an AAB build with an engine that supports them` };
+    }
+    const splitApksProblem = build.options?.splitApks ? await findCapabilityToolProblem(engine.id, "splitApks") : null;
+    if (splitApksProblem) {
+      return { message: splitApksProblem };
+    }
+    const engineProblem = await findEngineAvailabilityProblem(engine.id);
+    if (engineProblem) {
+      return { message: engineProblem };
+    }
+
+    const sdkProblems = validateSdkLevels(config);
+    if (sdkProblems.length) {
+      return { message: `Unsupported SDK levels: ${sdkProblems.join("; ")}`, problems: sdkProblems };
+    }
+    const pluginProblem = findBuildPluginProblem(engine, config.enabledPlugins ?? null);
+    if (pluginProblem) {
+      return { message: pluginProblem };
+    }
+    const cordovaPluginProblems = engine.id === "cordova" ? validateCordovaPlugins(config.cordovaPlugins ?? []) : [];
+    if (cordovaPluginProblems.length) {
+      return { message: `Invalid Cordova plugins: ${cordovaPluginProblems.join("; ")}`, problems: cordovaPluginProblems };
+    }
+    return null;
+  };
+
   // Projects routes
   app.get("/api/projects", async (req, res) => {
     try {
@@ -59,6 +283,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const updates = insertProjectSchema.partial().parse(req.body);
+      const unknownPlugins = updates.enabledPlugins?.filter(pluginId => !pluginRegistry.has(pluginId)) ?? [];
+      if (unknownPlugins.length) {
+        return res.status(400).json({ message: `Unknown build plugins: ${unknownPlugins.join(", ")}` });
+      }
+      if (updates.enabledPlugins) {
+        updates.enabledPlugins = Array.from(new Set(updates.enabledPlugins));
+      }
+      const cordovaPluginProblems = validateCordovaPlugins(updates.cordovaPlugins ?? []);
+      if (cordovaPluginProblems.length) {
+        return res.status(400).json({ message: `Invalid Cordova plugins: ${cordovaPluginProblems.join("; ")}`, problems: cordovaPluginProblems });
+      }
       const project = await storage.updateProject(id, updates);
       res.json(project);
     } catch (error) {
@@ -70,6 +305,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteProject(id);
+      await removeTemplateSet(id);
+      await removeFallbackPage(id);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete project" });
@@ -126,6 +363,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Builder engines route
+  app.get("/api/builder-engines", async (req, res) => {
+    try {
+      const engines = await builderRegistry.list();
+      res.json(engines);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch builder engines" });
+    }
+  });
+
+  // Cordova plugins projects can pick from, with the versions already cached
+  app.get("/api/cordova-plugins", async (req, res) => {
+    try {
+      res.json(await listCordovaPlugins());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch Cordova plugins" });
+    }
+  });
+
+  // Build plugins installed on the server; projects enable them by id
+  app.get("/api/plugins", async (req, res) => {
+    try {
+      res.json(pluginRegistry.list());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch build plugins" });
+    }
+  });
+
   // Builds routes
   app.get("/api/projects/:id/builds", async (req, res) => {
     try {
@@ -140,132 +405,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects/:id/builds", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const buildData = insertBuildSchema.parse({ ...req.body, projectId });
-      
-      const build = await storage.createBuild(buildData);
+      const buildData = insertBuildSchema.parse({ ...req.body, projectId, status: 'queued' });
+
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const config = await snapshotBuildConfig(project);
+      const problem = await findQueueProblem({ ...buildData, builderEngine: buildData.builderEngine ?? "gradle" }, config);
+      if (problem) {
+        return res.status(400).json(problem);
+      }
+
+      // Persist the signing details sent with the build so the worker can pick
+      // them up from storage, even after a restart
+      if (req.body.signingConfig) {
+        await saveSigningConfig(storage, projectId, req.body.signingConfig);
+      }
       
-      // Update build stats
-      const stats = await storage.getBuildStats();
-      await storage.updateBuildStats({
-        totalBuilds: stats.totalBuilds + 1,
-        lastBuildAt: new Date()
+      const build = await queueBuild({
+        ...buildData,
+        config,
+        artifacts: null,
+        rebuildOf: null
       });
 
-      // Start Android build process
-      const androidBuilder = new RealAndroidBuildSystem();
-      
-      // Initialize build process in background
-      (async () => {
-        try {
-          // Get project details
-          const project = await storage.getProject(projectId);
-          const projectFiles = await storage.getProjectFiles(projectId);
-          const signingConfig = await storage.getSigningConfig(projectId);
-          
-          if (!project) {
-            throw new Error('Project not found');
-          }
+      res.status(201).json({ ...build, queuePosition: await buildQueue.getQueuePosition(build.id) });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create build" });
+    }
+  });
 
-          // Get signing configuration from request body or use defaults
-          const requestSigningConfig = req.body.signingConfig || {};
-          
-          // Prepare build configuration
-          const buildConfig = {
-            appName: project.appName || 'My App',
-            packageName: project.packageName || 'com.example.myapp',
-            versionCode: project.versionCode || 1,
-            versionName: project.versionName || '1.0',
-            websiteUrl: project.websiteUrl,
-            files: projectFiles.map(file => ({
-              name: file.fileName,
-              content: fs.readFileSync(file.filePath)
-            })),
-            keystorePassword: requestSigningConfig.keystorePassword || 'android123',
-            keyAlias: requestSigningConfig.keyAlias || 'app-key',
-            developerName: requestSigningConfig.developerName || 'Developer',
-            organizationName: requestSigningConfig.organizationName || 'Organization',
-            city: requestSigningConfig.city || 'City',
-            state: requestSigningConfig.state || 'State',
-            country: requestSigningConfig.country || 'US',
-            keystoreValidity: requestSigningConfig.keystoreValidity || 10000
-          };
-
-          // Build APK/AAB with progress tracking
-          const buildResult = await androidBuilder.buildAPK(buildConfig, (progress) => {
-            // Update build progress in database
-            storage.updateBuild(build.id, {
-              progress: progress.progress,
-              buildStep: progress.step,
-              buildMessage: progress.message
-            });
-            
-            // Emit progress to connected clients
-            io.to(`build-${build.id}`).emit('build-progress', {
-              buildId: build.id,
-              step: progress.step,
-              progress: progress.progress,
-              message: progress.message
-            });
-          });
-          
-          if (buildResult.success) {
-            await storage.updateBuild(build.id, {
-              status: 'success',
-              outputPath: buildResult.apkPath,
-              aabPath: buildResult.aabPath,
-              keystorePath: buildResult.keystorePath,
-              progress: 100,
-              buildStep: 'Complete',
-              buildMessage: 'Build completed successfully!'
-            });
-            
-            const currentStats = await storage.getBuildStats();
-            await storage.updateBuildStats({
-              successfulBuilds: currentStats.successfulBuilds + 1
-            });
-            
-            // Emit success event
-            io.to(`build-${build.id}`).emit('build-complete', {
-              buildId: build.id,
-              success: true,
-              apkPath: buildResult.apkPath,
-              aabPath: buildResult.aabPath,
-              keystorePath: buildResult.keystorePath
-            });
-          } else {
-            await storage.updateBuild(build.id, {
-              status: 'failed',
-              errorMessage: buildResult.error || 'Build failed',
-              progress: 0,
-              buildStep: 'Failed',
-              buildMessage: buildResult.error || 'Build failed'
-            });
-            
-            // Emit failure event
-            io.to(`build-${build.id}`).emit('build-complete', {
-              buildId: build.id,
-              success: false,
-              error: buildResult.error || 'Build failed'
-            });
-          }
-        } catch (error) {
-          await storage.updateBuild(build.id, {
-            status: 'failed',
-            errorMessage: error instanceof Error ? error.message : 'Unknown build error'
-          });
-          
-          // Emit failure event
-          io.to(`build-${build.id}`).emit('build-complete', {
-            buildId: build.id,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown build error'
-          });
-        }
-      })();
+  // Queues a new build with the configuration of an earlier one, e.g. after
+  // its artifacts expired
+  app.post("/api/builds/:id/rebuild", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const original = await storage.getBuild(id);
+      if (!original) {
+        return res.status(404).json({ message: "Build not found" });
+      }
+      if (!finishedBuildStatuses.includes(original.status as BuildStatus)) {
+        return res.status(409).json({ message: "Build is still in progress" });
+      }
+
+      const project = await storage.getProject(original.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // Builds queued before configuration snapshots existed use the current project
+      const config = original.config ?? await snapshotBuildConfig(project);
+      const problem = await findQueueProblem({
+        buildType: original.buildType as BuildTypeId,
+        builderEngine: original.builderEngine as BuilderEngineId,
+        options: original.options
+      }, config);
+      if (problem) {
+        return res.status(400).json(problem);
+      }
+
+      const build = await queueBuild({
+        projectId: original.projectId,
+        status: 'queued',
+        buildType: original.buildType as BuildTypeId,
+        builderEngine: original.builderEngine as BuilderEngineId,
+        priority: original.priority,
+        options: original.options,
+        config,
+        rebuildOf: original.id
+      });
 
-      res.status(201).json(build);
+      res.status(201).json({ ...build, queuePosition: await buildQueue.getQueuePosition(build.id) });
     } catch (error) {
-      res.status(400).json({ message: "Failed to create build" });
+      res.status(500).json({ message: "Failed to rebuild" });
     }
   });
 
@@ -276,18 +490,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!build) {
         return res.status(404).json({ message: "Build not found" });
       }
-      res.json(build);
+      res.json({
+        ...build,
+        queuePosition: await buildQueue.getQueuePosition(build.id),
+        artifactStates: getArtifactStates(build),
+        pluginArtifactStates: getPluginArtifactStates(build)
+      });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch build" });
     }
   });
 
+  app.post("/api/builds/:id/cancel", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const build = await storage.getBuild(id);
+      if (!build) {
+        return res.status(404).json({ message: "Build not found" });
+      }
+      if (finishedBuildStatuses.includes(build.status as BuildStatus)) {
+        return res.status(409).json({ message: `Build already ${build.status}` });
+      }
+
+      const updatedBuild = await buildQueue.cancel(id);
+      res.json(updatedBuild);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel build" });
+    }
+  });
+
+  // Build log route: ?tail=N for the last N lines, ?offset=&limit= for a range,
+  // ?download=true for the whole file
+  app.get("/api/builds/:id/logs", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const build = await storage.getBuild(id);
+      if (!build) {
+        return res.status(404).json({ message: "Build not found" });
+      }
+
+      if (req.query.download === "true") {
+        const logPath = getBuildLogPath(id);
+        if (!fs.existsSync(logPath)) {
+          return res.status(404).json({ message: "Build log not found" });
+        }
+        res.setHeader('Content-Disposition', `attachment; filename="build-${id}.log"`);
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        return res.sendFile(logPath);
+      }
+
+      const parseQuery = (value: unknown) => typeof value === "string" ? Math.max(0, parseInt(value) || 0) : undefined;
+      const log = await readBuildLog(id, {
+        offset: parseQuery(req.query.offset),
+        limit: parseQuery(req.query.limit),
+        tail: parseQuery(req.query.tail)
+      });
+
+      // A queued build has no log yet
+      res.json(log ?? { lines: [], totalLines: 0, nextOffset: 0 });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch build log" });
+    }
+  });
+
   // Signing config routes
   app.get("/api/projects/:id/signing", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const config = await storage.getSigningConfig(projectId);
-      res.json(config);
+      res.json(config && toPublicSigningConfig(config));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch signing config" });
     }
@@ -296,9 +567,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects/:id/signing", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const configData = insertSigningConfigSchema.parse({ ...req.body, projectId });
-      const config = await storage.createSigningConfig(configData);
-      res.status(201).json(config);
+      const config = await saveSigningConfig(storage, projectId, req.body);
+      res.status(201).json(toPublicSigningConfig(config));
     } catch (error) {
       res.status(400).json({ message: "Failed to create signing config" });
     }
@@ -307,14 +577,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/projects/:id/signing", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const updates = insertSigningConfigSchema.partial().parse(req.body);
-      const config = await storage.updateSigningConfig(projectId, updates);
-      res.json(config);
+      if (!await storage.getSigningConfig(projectId)) {
+        return res.status(404).json({ message: "Signing config not found" });
+      }
+      const config = await saveSigningConfig(storage, projectId, req.body);
+      res.json(toPublicSigningConfig(config));
     } catch (error) {
       res.status(400).json({ message: "Failed to update signing config" });
     }
   });
 
+  // Project keystore routes
+  app.get("/api/projects/:id/signing/keystore", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const keystore = await getProjectKeystore(projectId);
+      if (!keystore) {
+        return res.status(404).json({ message: "Project has no keystore yet" });
+      }
+      res.json(keystore);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project keystore" });
+    }
+  });
+
+  // Generates the project keystore before the first build. The passwords come
+  // with the request because stored secrets are only decrypted by the build worker.
+  app.post("/api/projects/:id/signing/keystore/generate", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (await getProjectKeystore(projectId)) {
+        return res.status(409).json({ message: "Project already has a keystore" });
+      }
+
+      const parsed = keystoreCredentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Key alias and keystore password are required" });
+      }
+
+      const signingConfig = await storage.getSigningConfig(projectId);
+      const keystore = await ensureProjectKeystore(projectId, {
+        developerName: signingConfig?.developerName ?? null,
+        organizationName: signingConfig?.organizationName ?? null,
+        city: signingConfig?.city ?? null,
+        state: signingConfig?.state ?? null,
+        country: signingConfig?.country ?? null,
+        keystoreValidity: signingConfig?.keystoreValidity ?? null,
+        ...parsed.data,
+        keyPassword: parsed.data.keyPassword || parsed.data.keystorePassword
+      });
+      res.status(201).json(keystore);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to generate keystore" });
+    }
+  });
+
+  app.post("/api/projects/:id/signing/keystore", keystoreUpload.single('keystore'), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!req.file) {
+        return res.status(400).json({ message: "No keystore file provided" });
+      }
+
+      const parsed = keystoreUploadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        await fs.promises.rm(req.file.path, { force: true });
+        return res.status(400).json({ message: "Key alias and keystore password are required" });
+      }
+
+      // Swapping the key means installed copies of the app can no longer be updated
+      const { replace, storeType, ...details } = parsed.data;
+      if (await getProjectKeystore(projectId) && replace !== "true") {
+        await fs.promises.rm(req.file.path, { force: true });
+        return res.status(409).json({ message: "Project already has a keystore; set replace=true to replace it" });
+      }
+
+      const keystore = await importProjectKeystore(projectId, {
+        path: req.file.path,
+        originalName: req.file.originalname
+      }, {
+        ...details,
+        keyPassword: details.keyPassword || details.keystorePassword
+      }, storeType);
+
+      res.status(201).json(keystore);
+    } catch (error) {
+      if (error instanceof KeystoreError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload keystore" });
+    }
+  });
+
+  // The only way to download the project keystore: the request has to prove
+  // it knows the store password, so build downloads never hand out the key
+  app.post("/api/projects/:id/signing/keystore/export", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const keystore = await getProjectKeystore(projectId);
+      if (!keystore || !fs.existsSync(keystore.path)) {
+        return res.status(404).json({ message: "Project has no keystore yet" });
+      }
+
+      const parsed = keystoreExportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "The keystore password is required" });
+      }
+
+      const content = await fs.promises.readFile(keystore.path);
+      try {
+        inspectKeystore(content, keystore.keyAlias, parsed.data.keystorePassword);
+      } catch (error) {
+        if (error instanceof KeystoreError) {
+          return res.status(403).json({ message: "The keystore password is incorrect" });
+        }
+        throw error;
+      }
+
+      const project = await storage.getProject(projectId);
+      const fileName = `${project?.packageName ?? `project-${projectId}`}-release${keystore.storeType === 'pkcs12' ? '.p12' : '.jks'}`;
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.send(content);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export keystore" });
+    }
+  });
+
+  // Re-encrypts stored signing secrets with the current master key. It runs
+  // in the server process because only it can reach the project data; the
+  // route exists only when ADMIN_TOKEN is set and requires it as a bearer token.
+  app.post("/api/admin/signing/rotate-key", async (req, res) => {
+    const adminToken = process.env.ADMIN_TOKEN;
+    if (!adminToken) {
+      return res.status(404).json({ message: "Not found" });
+    }
+    const supplied = Buffer.from(req.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+    const expected = Buffer.from(adminToken);
+    if (supplied.length !== expected.length || !crypto.timingSafeEqual(supplied, expected)) {
+      return res.status(401).json({ message: "Invalid admin token" });
+    }
+
+    try {
+      const rotated = await rotateSigningSecrets(storage);
+      res.json({ rotated });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Key rotation failed" });
+    }
+  });
+
   // Build stats route
   app.get("/api/stats", async (req, res) => {
     try {
@@ -351,6 +763,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download routes only ever send artifacts that still match the checksums
+  // recorded at build time; anything else is 410 Gone with a rebuild link
+  const sendArtifactUnavailable = (res: Response, buildId: number, error: ArtifactUnavailableError) => {
+    res.status(410).json({
+      message: error.message,
+      state: error.state,
+      rebuildUrl: `/api/builds/${buildId}/rebuild`
+    });
+  };
+
+  const disableCaching = (res: Response) => {
+    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+    res.setHeader('Pragma', 'no-cache');
+    res.setHeader('Expires', '0');
+  };
+
   // Download route for APK files
   app.get("/api/builds/:id/download/apk", async (req, res) => {
     try {
@@ -361,32 +789,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "APK file not found" });
       }
 
-      const fileName = `app-${build.id}.apk`;
-      
-      // Disable caching for downloads
-      res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
-      
-      // Check if actual APK file exists
-      if (fs.existsSync(build.outputPath)) {
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-        res.setHeader('Content-Type', 'application/vnd.android.package-archive');
-        res.sendFile(path.resolve(build.outputPath));
-      } else {
-        // Create a realistic APK placeholder for demo
-        const apkHeader = Buffer.from([0x50, 0x4B, 0x03, 0x04]); // ZIP header (APK is a ZIP)
-        const apkContent = Buffer.concat([
-          apkHeader,
-          Buffer.from(`Android APK for build ${build.id} - Generated by WebApp to APK Converter\n`),
-          Buffer.from('This is a demo APK file. In production, this would be a real Android package.\n')
-        ]);
-        
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-        res.setHeader('Content-Type', 'application/vnd.android.package-archive');
-        res.send(apkContent);
-      }
+      const apkPath = await requireArtifact(build, 'apk');
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="app-${build.id}.apk"`);
+      res.setHeader('Content-Type', 'application/vnd.android.package-archive');
+      res.sendFile(path.resolve(apkPath));
     } catch (error) {
+      if (error instanceof ArtifactUnavailableError) {
+        return sendArtifactUnavailable(res, parseInt(req.params.id), error);
+      }
       res.status(500).json({ message: "Failed to download APK" });
     }
   });
@@ -401,28 +813,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "AAB file not found" });
       }
 
-      const fileName = `app-${build.id}.aab`;
+      const aabPath = await requireArtifact(build, 'aab');
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="app-${build.id}.aab"`);
+      res.setHeader('Content-Type', 'application/x-authorware-bin');
+      res.sendFile(path.resolve(aabPath));
+    } catch (error) {
+      if (error instanceof ArtifactUnavailableError) {
+        return sendArtifactUnavailable(res, parseInt(req.params.id), error);
+      }
+      res.status(500).json({ message: "Failed to download AAB" });
+    }
+  });
+
+  // Download route for bundletool APK sets
+  app.get("/api/builds/:id/download/apks", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const build = await storage.getBuild(id);
       
-      // Disable caching for downloads
-      res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
+      if (!build || build.status !== 'success' || !build.apksPath) {
+        return res.status(404).json({ message: "APK set not found" });
+      }
+
+      const apksPath = await requireArtifact(build, 'apks');
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="app-${build.id}.apks"`);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.sendFile(path.resolve(apksPath));
+    } catch (error) {
+      if (error instanceof ArtifactUnavailableError) {
+        return sendArtifactUnavailable(res, parseInt(req.params.id), error);
+      }
+      res.status(500).json({ message: "Failed to download APK set" });
+    }
+  });
+
+  // Download route for the R8 mapping file of optimized or obfuscated builds
+  app.get("/api/builds/:id/download/mapping", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const build = await storage.getBuild(id);
       
-      // Check if actual AAB file exists
-      if (fs.existsSync(build.aabPath)) {
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-        res.setHeader('Content-Type', 'application/x-authorware-bin');
-        res.sendFile(path.resolve(build.aabPath));
-      } else {
-        // Create a realistic AAB placeholder for demo
-        const aabContent = Buffer.from(`Android App Bundle for build ${build.id}\nGenerated by WebApp to APK Converter\nThis is a demo AAB file for Google Play Store distribution.`);
-        
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-        res.setHeader('Content-Type', 'application/x-authorware-bin');
-        res.send(aabContent);
+      if (!build || build.status !== 'success' || !build.mappingPath) {
+        return res.status(404).json({ message: "Mapping file not found" });
       }
+
+      const mappingPath = await requireArtifact(build, 'mapping');
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="app-${build.id}-mapping.txt"`);
+      res.setHeader('Content-Type', 'text/plain');
+      res.sendFile(path.resolve(mappingPath));
     } catch (error) {
-      res.status(500).json({ message: "Failed to download AAB" });
+      if (error instanceof ArtifactUnavailableError) {
+        return sendArtifactUnavailable(res, parseInt(req.params.id), error);
+      }
+      res.status(500).json({ message: "Failed to download mapping file" });
+    }
+  });
+
+  // Files attached by build plugins, downloaded under the name the plugin gave them
+  app.get("/api/builds/:id/download/plugin/:name", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const build = await storage.getBuild(id);
+
+      if (!build || build.status !== 'success') {
+        return res.status(404).json({ message: "Build not found or not completed" });
+      }
+
+      const artifact = await requirePluginArtifact(build, req.params.name);
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="${artifact.name}"`);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.sendFile(path.resolve(artifact.path));
+    } catch (error) {
+      if (error instanceof ArtifactUnavailableError) {
+        return sendArtifactUnavailable(res, parseInt(req.params.id), error);
+      }
+      res.status(500).json({ message: "Failed to download plugin artifact" });
     }
   });
 
@@ -436,95 +909,325 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Build not found or not completed" });
       }
 
-      const fileName = `app-${build.id}-complete.zip`;
-      
-      // Disable caching for downloads
-      res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
-      
-      // Create complete package with APK, AAB, and keystore
+      // Every artifact the build produced has to be intact; a package with
+      // some of them silently left out is not complete
+      const apkPath = build.outputPath ? await requireArtifact(build, 'apk') : null;
+      const aabPath = build.aabPath ? await requireArtifact(build, 'aab') : null;
+      const apksPath = build.apksPath ? await requireArtifact(build, 'apks') : null;
+      const mappingPath = build.mappingPath ? await requireArtifact(build, 'mapping') : null;
+      const pluginArtifacts = await Promise.all((build.pluginArtifacts ?? []).map(artifact => requirePluginArtifact(build, artifact.name)));
+
       const androidBuilder = new RealAndroidBuildSystem();
-      
-      try {
-        const zipPath = await androidBuilder.createDeliveryZip(
-          build.outputPath || 'temp/app.apk',
-          build.aabPath || 'temp/app.aab',
-          build.keystorePath || 'temp/app.jks',
-          build.id.toString()
-        );
-        
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-        res.setHeader('Content-Type', 'application/zip');
-        res.sendFile(path.resolve(zipPath));
-      } catch (error) {
-        // Create a demo package if real files don't exist
-        const archiver = require('archiver');
-        const archive = archiver('zip', { zlib: { level: 9 } });
-        
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-        res.setHeader('Content-Type', 'application/zip');
-        
-        archive.pipe(res);
-        
-        // Add demo files
-        const apkContent = Buffer.from(`Android APK for build ${build.id}`);
-        const aabContent = Buffer.from(`Android App Bundle for build ${build.id}`);
-        const keystoreContent = Buffer.from(`Keystore for build ${build.id}`);
-        const readmeContent = `Android App Package
-==================
-
-This package contains:
-- app-release-signed.apk: Signed APK ready for installation
-- app-release.aab: App Bundle for Google Play Store
-- app-keystore.jks: Keystore file for future updates
-
-Installation:
-1. Enable "Unknown sources" in Android settings
-2. Install the APK file on your device
-
-Store Publishing:
-1. Upload the AAB file to Google Play Console
-2. Keep the keystore file safe for future updates
-`;
-        
-        archive.append(apkContent, { name: 'app-release-signed.apk' });
-        archive.append(aabContent, { name: 'app-release.aab' });
-        archive.append(keystoreContent, { name: 'app-keystore.jks' });
-        archive.append(readmeContent, { name: 'README.txt' });
-        
-        archive.finalize();
-      }
+      const zipPath = await androidBuilder.createDeliveryZip(build.id.toString(), { apkPath, aabPath, apksPath, mappingPath, pluginArtifacts });
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="app-${build.id}-complete.zip"`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.sendFile(path.resolve(zipPath));
     } catch (error) {
+      if (error instanceof ArtifactUnavailableError) {
+        return sendArtifactUnavailable(res, parseInt(req.params.id), error);
+      }
       res.status(500).json({ message: "Failed to download complete package" });
     }
   });
 
-  const httpServer = createServer(app);
-  
-  // Setup Socket.IO for real-time build progress
-  const io = new SocketIOServer(httpServer, {
-    cors: {
-      origin: "*",
-      methods: ["GET", "POST"]
+  // Generated native project as a Gradle project zip for Android Studio. GET
+  // leaves signing out; POST with the keystore passwords adds the keystore and
+  // keystore.properties. Stored passwords are only decrypted by the build
+  // worker, so the export never reads them.
+  const exportAndroidProject = async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const config = await snapshotBuildConfig(project);
+      const sdkProblems = validateSdkLevels(config);
+      if (sdkProblems.length) {
+        return sendUnsupportedSdkLevels(res, sdkProblems);
+      }
+
+      let signing: ExportSigning | undefined;
+      if (req.method === "POST") {
+        const parsed = projectExportSigningSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "The keystore password is required to include signing files" });
+        }
+        const keystore = await getProjectKeystore(id);
+        if (!keystore || !fs.existsSync(keystore.path)) {
+          return res.status(409).json({ message: "This project has no keystore yet" });
+        }
+
+        const storePassword = parsed.data.keystorePassword;
+        const keyPassword = parsed.data.keyPassword || storePassword;
+        try {
+          readSigningKey(await fs.promises.readFile(keystore.path), keystore.keyAlias, storePassword, keyPassword);
+        } catch (error) {
+          if (error instanceof KeystorePasswordError) {
+            return res.status(403).json({ message: error.message });
+          }
+          throw error;
+        }
+        signing = {
+          keystorePath: keystore.path,
+          storeType: keystore.storeType as KeystoreType,
+          keyAlias: keystore.keyAlias,
+          storePassword,
+          keyPassword
+        };
+      } else if (req.query.includeSigning === "true") {
+        return res.status(400).json({ message: "POST the keystore password to include signing files" });
+      }
+
+      const projectFiles = await storage.getProjectFiles(id);
+      const androidBuilder = new RealAndroidBuildSystem();
+      const zipPath = await androidBuilder.exportProject({
+        projectId: id,
+        appName: config.appName,
+        packageName: config.packageName,
+        versionCode: config.versionCode,
+        versionName: config.versionName,
+        buildType: 'apk',
+        websiteUrl: config.websiteUrl || undefined,
+        minSdkVersion: config.minSdkVersion,
+        targetSdkVersion: config.targetSdkVersion,
+        proguardRules: config.proguardRules || undefined,
+        bridgeCapabilities: config.bridgeCapabilities ?? undefined,
+        fileUploads: config.fileUploads,
+        cameraCapture: config.cameraCapture,
+        fileDownloads: config.fileDownloads,
+        navigationPolicy: config.navigationPolicy ?? undefined,
+        fallbackPages: await readFallbackPages(id),
+        files: projectFiles.map(file => ({
+          name: file.fileName,
+          content: fs.readFileSync(file.filePath)
+        }))
+      }, signing);
+
+      disableCaching(res);
+      res.setHeader('Content-Disposition', `attachment; filename="${project.packageName}-android-project.zip"`);
+      res.setHeader('Content-Type', 'application/zip');
+      // The zip may hold the keystore, so it is not kept after sending
+      res.sendFile(path.resolve(zipPath), () => fs.rm(zipPath, { force: true }, () => {}));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export Android project" });
+    }
+  };
+  app.get("/api/projects/:id/export/android-project", exportAndroidProject);
+  app.post("/api/projects/:id/export/android-project", exportAndroidProject);
+
+  // The native bridge SDK as the project's app ships it, for testing pages
+  // outside the app or bundling it into the web files
+  app.get("/api/projects/:id/webandro.js", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // SDK levels do not affect the SDK, so the defaults stand in for them
+      const variables = createTemplateVariables({
+        projectId: id,
+        appName: project.appName,
+        packageName: project.packageName,
+        versionCode: project.versionCode,
+        versionName: project.versionName,
+        buildType: 'apk',
+        websiteUrl: project.websiteUrl || undefined,
+        bridgeCapabilities: project.bridgeCapabilities ?? undefined
+      });
+      res.type("application/javascript").send(await renderBridgeSdk(variables, id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render the bridge SDK" });
     }
   });
-  
-  // Store socket connections by build ID
-  const buildSockets = new Map<string, any>();
-  
-  io.on('connection', (socket) => {
-    console.log('Client connected for build updates');
-    
-    socket.on('join-build', (buildId: string) => {
-      buildSockets.set(buildId, socket);
-      socket.join(`build-${buildId}`);
-    });
-    
-    socket.on('disconnect', () => {
-      console.log('Client disconnected');
-    });
+
+  app.get("/api/projects/:id/webandro.d.ts", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getProject(id)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.type("application/typescript").send(await readBridgeSdkTypes(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to read the bridge SDK types" });
+    }
   });
+
+  // Template sets. Files uploaded for the server replace built-in ones, and
+  // files uploaded for a project replace both; listings show which applies.
+  const sendTemplateFiles = async (res: Response, projectId?: number) => {
+    res.json({ variables: templateVariableTypes, files: await listTemplateFiles(projectId) });
+  };
+
+  const installUploadedTemplates = async (file: Express.Multer.File | undefined, res: Response, projectId?: number) => {
+    if (!file) {
+      return res.status(400).json({ message: "No template zip provided" });
+    }
+    try {
+      const files = await installTemplateSet(await fs.promises.readFile(file.path), projectId);
+      res.json({ variables: templateVariableTypes, files });
+    } catch (error) {
+      if (error instanceof TemplateSetError) {
+        return res.status(400).json({ message: error.message, problems: error.problems });
+      }
+      throw error;
+    } finally {
+      await fs.promises.rm(file.path, { force: true });
+    }
+  };
+
+  app.get("/api/templates", async (req, res) => {
+    try {
+      await sendTemplateFiles(res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to list templates" });
+    }
+  });
+
+  app.put("/api/templates", templateUpload.single('templates'), async (req, res) => {
+    try {
+      await installUploadedTemplates(req.file, res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to install templates" });
+    }
+  });
+
+  app.delete("/api/templates", async (req, res) => {
+    try {
+      await removeTemplateSet();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove templates" });
+    }
+  });
+
+  app.get("/api/projects/:id/templates", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getProject(id)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      await sendTemplateFiles(res, id);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to list templates" });
+    }
+  });
+
+  app.put("/api/projects/:id/templates", templateUpload.single('templates'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getProject(id)) {
+        if (req.file) await fs.promises.rm(req.file.path, { force: true });
+        return res.status(404).json({ message: "Project not found" });
+      }
+      await installUploadedTemplates(req.file, res, id);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to install templates" });
+    }
+  });
+
+  app.delete("/api/projects/:id/templates", async (req, res) => {
+    try {
+      await removeTemplateSet(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove templates" });
+    }
+  });
+
+  app.get("/api/projects/:id/fallback-pages", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getProject(id)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await listFallbackPages(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to list fallback pages" });
+    }
+  });
+
+  // The page the app would show: the upload, else the rendered built-in page
+  app.get("/api/projects/:id/fallback-pages/:kind", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const kind = req.params.kind;
+      if (!isFallbackPageKind(kind)) {
+        return res.status(404).json({ message: "Unknown fallback page" });
+      }
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const uploaded = (await readFallbackPages(id))[kind];
+      disableCaching(res);
+      res.type("html");
+      if (uploaded) {
+        res.send(uploaded);
+      } else {
+        const variables = createTemplateVariables({
+          projectId: id,
+          appName: project.appName,
+          packageName: project.packageName,
+          versionCode: project.versionCode,
+          versionName: project.versionName,
+          buildType: 'apk',
+          websiteUrl: project.websiteUrl || undefined
+        });
+        res.send(await renderFallbackPage(kind, variables, id));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render fallback page" });
+    }
+  });
+
+  app.put("/api/projects/:id/fallback-pages/:kind", fallbackPageUpload.single('page'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const kind = req.params.kind;
+      if (!req.file) {
+        return res.status(400).json({ message: "No page uploaded" });
+      }
+      try {
+        if (!isFallbackPageKind(kind)) {
+          return res.status(404).json({ message: "Unknown fallback page" });
+        }
+        if (!await storage.getProject(id)) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+        await saveFallbackPage(id, kind, await fs.promises.readFile(req.file.path));
+      } finally {
+        await fs.promises.rm(req.file.path, { force: true });
+      }
+      res.json(await listFallbackPages(id));
+    } catch (error) {
+      if (error instanceof FallbackPageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save fallback page" });
+    }
+  });
+
+  app.delete("/api/projects/:id/fallback-pages/:kind", async (req, res) => {
+    try {
+      const kind = req.params.kind;
+      if (!isFallbackPageKind(kind)) {
+        return res.status(404).json({ message: "Unknown fallback page" });
+      }
+      await removeFallbackPage(parseInt(req.params.id), kind);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove fallback page" });
+    }
+  });
+
+  // Resume or fail builds interrupted by a previous shutdown
+  await buildQueue.recover();
   
   return httpServer;
 }
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+
+// Encrypted values look like `enc:v1:<key id>:<wrapped data key>:<ciphertext>`.
+// Every value has its own random data key, encrypted ("wrapped") with the
+// master key, so rotating the master key only re-wraps the data keys.
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface MasterKeys {
+  current: MasterKey;
+  previous: MasterKey[];
+}
+
+export class SecretDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretDecryptionError';
+  }
+}
+
+function parseMasterKey(value: string, name: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be a 32-byte key encoded as base64 or hex`);
+  }
+  // Short fingerprint stored with each value to pick the right key on decrypt
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+let masterKeys: MasterKeys | undefined;
+
+function loadMasterKeys(): MasterKeys {
+  if (masterKeys) return masterKeys;
+
+  let current: MasterKey;
+  if (process.env.SIGNING_MASTER_KEY) {
+    current = parseMasterKey(process.env.SIGNING_MASTER_KEY, 'SIGNING_MASTER_KEY');
+  } else if (process.env.NODE_ENV !== 'production') {
+    // In-memory development data does not outlive the process, so neither may the key
+    console.warn('SIGNING_MASTER_KEY is not set; using a temporary key for this process');
+    current = parseMasterKey(crypto.randomBytes(KEY_LENGTH).toString('base64'), 'SIGNING_MASTER_KEY');
+  } else {
+    throw new Error('SIGNING_MASTER_KEY must be set to store signing secrets');
+  }
+
+  const previous = (process.env.SIGNING_MASTER_KEY_PREVIOUS || '')
+    .split(',')
+    .filter(value => value.trim())
+    .map(value => parseMasterKey(value, 'SIGNING_MASTER_KEY_PREVIOUS'));
+
+  masterKeys = { current, previous };
+  return masterKeys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function parseEncrypted(value: string): { keyId: string; wrappedKey: string; data: string } {
+  const [keyId, wrappedKey, data] = value.slice(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !data) {
+    throw new SecretDecryptionError('Malformed encrypted secret');
+  }
+  return { keyId, wrappedKey, data };
+}
+
+function findMasterKey(keyId: string): MasterKey {
+  const { current, previous } = loadMasterKeys();
+  const masterKey = [current, ...previous].find(candidate => candidate.id === keyId);
+  if (!masterKey) {
+    throw new SecretDecryptionError(`Secret was encrypted with unknown master key ${keyId}`);
+  }
+  return masterKey;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { current } = loadMasterKeys();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  return `${PREFIX}${current.id}:${seal(current.key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+}
+
+export function decryptSecret(value: string): string {
+  const { keyId, wrappedKey, data } = parseEncrypted(value);
+  try {
+    const dataKey = open(findMasterKey(keyId).key, wrappedKey);
+    return open(dataKey, data).toString('utf8');
+  } catch (error) {
+    if (error instanceof SecretDecryptionError) throw error;
+    throw new SecretDecryptionError('Secret could not be decrypted with the configured master key');
+  }
+}
+
+/**
+ * Re-wraps an encrypted value's data key with the current master key, or
+ * encrypts a legacy plaintext value. Returns undefined when the value is
+ * already protected by the current key.
+ */
+export function rewrapSecret(value: string): string | undefined {
+  if (!isEncryptedSecret(value)) {
+    return encryptSecret(value);
+  }
+
+  const { current } = loadMasterKeys();
+  const { keyId, wrappedKey, data } = parseEncrypted(value);
+  if (keyId === current.id) return undefined;
+
+  const dataKey = open(findMasterKey(keyId).key, wrappedKey);
+  return `${PREFIX}${current.id}:${seal(current.key, dataKey)}:${data}`;
+}
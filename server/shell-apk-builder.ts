@@ -0,0 +1,187 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import type { BuildConfig, BuildResult, BuildContext, BuilderEngine, BuilderCapabilities, ToolchainRequirement } from './builder-engine';
+import { runCommand, throwIfCancelled, BuildCancelledError } from './process-runner';
+import { describeShellApk, patchShellApk } from './shell-apk';
+import { signApkFile } from './apk-signer';
+import { createTemplateVariables, renderStartPage } from './android-templates';
+
+// Launcher icon sizes by density qualifier
+const ICON_SIZES: Record<string, number> = {
+  ldpi: 36,
+  mdpi: 48,
+  hdpi: 72,
+  xhdpi: 96,
+  xxhdpi: 144,
+  xxxhdpi: 192
+};
+
+export class ShellApkBuilder implements BuilderEngine {
+  readonly id = 'shell';
+  readonly name = 'Shell';
+  readonly description = 'Patches a prebuilt WebView APK with the app name, package, icons and web files; no Android SDK needed';
+  readonly capabilities: BuilderCapabilities = {
+    apk: true,
+    aab: false,
+    signing: true,
+    websiteUrl: true,
+    webFiles: true,
+    codeShrinking: false,
+    splitApks: false,
+    buildHooks: false,
+    nativeBridge: false
+  };
+  readonly requirements: ToolchainRequirement[];
+
+  private buildDir: string;
+  private outputDir: string;
+  private shellApkPath: string;
+
+  constructor() {
+    this.buildDir = path.join(process.cwd(), 'android-builds');
+    this.outputDir = path.join(process.cwd(), 'build-outputs');
+    this.shellApkPath = process.env.SHELL_APK_PATH || path.join(process.cwd(), 'android-template', 'shell', 'webview-shell.apk');
+    this.requirements = [
+      { name: 'WebView shell APK', file: this.shellApkPath, description: 'Prebuilt generic WebView APK, built once with android-template/shell/build-shell-apk.sh' }
+    ];
+  }
+
+  async buildAPK(config: BuildConfig, context: BuildContext = {}): Promise<BuildResult> {
+    const buildId = nanoid();
+    const workDir = path.join(this.buildDir, `shell-${buildId}`);
+    const { onProgress, signal, log } = context;
+
+    try {
+      if (!config.keystorePath || !config.keystorePassword) {
+        throw new Error('No signing keystore provided for this build');
+      }
+
+      onProgress?.({ step: 'Loading shell', progress: 10, message: 'Loading the prebuilt WebView APK...' });
+
+      const shell = await this.readShellApk();
+      const info = describeShellApk(shell);
+      log?.info(`Shell APK ${path.basename(this.shellApkPath)} (package ${info.packageName}, ${info.iconFiles.length} launcher icon files)`);
+      await fs.mkdir(workDir, { recursive: true });
+
+      onProgress?.({ step: 'Generating icons', progress: 30, message: 'Generating launcher icons...' });
+
+      const icons = await this.generateIcons(info.iconFiles, workDir, config, context);
+      throwIfCancelled(signal);
+
+      onProgress?.({ step: 'Patching APK', progress: 50, message: 'Applying app name, package, icons and web files...' });
+
+      const unsignedApkPath = path.join(workDir, 'app-unsigned.apk');
+      await fs.writeFile(unsignedApkPath, patchShellApk(shell, {
+        packageName: config.packageName,
+        appName: config.appName,
+        versionCode: config.versionCode,
+        versionName: config.versionName,
+        assets: config.files?.length ? await this.withIndexPage(config) : undefined,
+        config: {
+          appName: config.appName,
+          url: config.websiteUrl || null,
+          startPage: 'index.html'
+        },
+        icons
+      }));
+      throwIfCancelled(signal);
+
+      onProgress?.({ step: 'Signing APK', progress: 75, message: 'Aligning and signing APK with the project keystore...' });
+
+      await fs.mkdir(this.outputDir, { recursive: true });
+      const apkPath = path.join(this.outputDir, `${buildId}-signed.apk`);
+      const verification = await signApkFile(unsignedApkPath, apkPath, {
+        keystorePath: config.keystorePath,
+        keyAlias: config.keyAlias || 'appkey',
+        storePassword: config.keystorePassword,
+        keyPassword: config.keyPassword || config.keystorePassword
+      });
+      log?.info(`Signed and verified ${path.basename(apkPath)} (schemes: ${verification.schemes.join(', ')})`);
+
+      await fs.rm(workDir, { recursive: true, force: true });
+      onProgress?.({ step: 'Complete', progress: 100, message: 'Build completed successfully!' });
+
+      return {
+        success: true,
+        apkPath,
+        keystorePath: config.keystorePath,
+        signed: true,
+        buildId,
+        progress: 100
+      };
+    } catch (error) {
+      await fs.rm(workDir, { recursive: true, force: true });
+
+      if (error instanceof BuildCancelledError || signal?.aborted) {
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Build was cancelled',
+          buildId
+        };
+      }
+
+      console.error('Shell build failed:', error);
+      log?.info(`Shell build failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        buildId
+      };
+    }
+  }
+
+  private async readShellApk(): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.shellApkPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      throw new Error(`Shell APK not found at ${this.shellApkPath}. Build it with android-template/shell/build-shell-apk.sh or set SHELL_APK_PATH`);
+    }
+  }
+
+  // The shell opens index.html when there is no website URL; the template
+  // set's start page stands in for a missing one
+  private async withIndexPage(config: BuildConfig): Promise<Array<{ name: string; content: Buffer }>> {
+    const files = config.files ?? [];
+    if (config.websiteUrl || files.some(file => file.name === 'index.html')) {
+      return files;
+    }
+    const index = await renderStartPage(createTemplateVariables(config), config.projectId);
+    return [...files, { name: 'index.html', content: Buffer.from(index) }];
+  }
+
+  /**
+   * Renders a letter icon per launcher icon file with ImageMagick. Without it
+   * the shell's own icons stay in place; a missing icon never fails a build.
+   */
+  private async generateIcons(iconFiles: string[], workDir: string, config: BuildConfig, context: BuildContext): Promise<Map<string, Buffer>> {
+    const icons = new Map<string, Buffer>();
+    const letter = config.appName.trim().charAt(0).toUpperCase() || 'A';
+
+    for (const iconFile of iconFiles) {
+      const density = path.posix.dirname(iconFile).split('-').find(qualifier => qualifier in ICON_SIZES);
+      const size = ICON_SIZES[density ?? 'mdpi'];
+      const iconPath = path.join(workDir, `icon-${icons.size}.png`);
+
+      try {
+        await runCommand('convert', [
+          '-size', `${size}x${size}`, 'xc:#3F51B5',
+          '-gravity', 'center',
+          '-pointsize', `${size / 2}`,
+          '-fill', 'white',
+          '-annotate', '+0+0', letter,
+          iconPath
+        ], { signal: context.signal, log: context.log });
+        icons.set(iconFile, await fs.readFile(iconPath));
+      } catch (error) {
+        if (error instanceof BuildCancelledError) throw error;
+        context.log?.info('ImageMagick is not available; keeping the shell launcher icons');
+        return new Map();
+      }
+    }
+
+    return icons;
+  }
+}
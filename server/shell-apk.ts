@@ -0,0 +1,229 @@
+import path from 'path';
+import {
+  ANDROID_NAMESPACE, TYPE_INT_DEC, TYPE_REFERENCE, TYPE_STRING,
+  childElements, decodeAxml, encodeAxml, findAttribute, isAxml, type AxmlAttribute, type AxmlElement
+} from './axml';
+import { readResourceTable } from './resource-table';
+import { ResourceFormatError } from './string-pool';
+import { createEntry, readEntryContent, readZip, writeZip, ZipFormatError, type ZipEntry } from './zip-archive';
+
+// Turns the prebuilt WebView shell APK into a specific app without
+// recompiling it: only the manifest, launcher icons and assets change. The
+// result is unsigned; signing also realigns it.
+
+export const SHELL_CONFIG_ASSET = 'assets/webandro.json';
+
+const MANIFEST = 'AndroidManifest.xml';
+
+const ATTR = {
+  label: 0x01010001,
+  icon: 0x01010002,
+  name: 0x01010003,
+  authorities: 0x01010018,
+  targetActivity: 0x01010202,
+  versionCode: 0x0101021b,
+  versionName: 0x0101021c,
+  backupAgent: 0x0101027f,
+  roundIcon: 0x0101052c
+};
+
+// Components whose android:name is a class in the shell's own package
+const COMPONENT_ELEMENTS = ['application', 'activity', 'activity-alias', 'service', 'receiver', 'provider'];
+
+// Already-compressed formats are stored, like aapt does
+const STORED_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.mp3', '.mp4', '.ogg', '.zip', '.woff', '.woff2']);
+
+export class ShellApkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellApkError';
+  }
+}
+
+export interface ShellApkInfo {
+  packageName: string;
+  // PNG launcher icon files the manifest's icon and roundIcon resolve to
+  iconFiles: string[];
+}
+
+export interface ShellPatchOptions {
+  packageName: string;
+  appName: string;
+  versionCode: number;
+  versionName: string;
+  // Replaces every bundled asset when given
+  assets?: Array<{ name: string; content: Buffer }>;
+  // Written to SHELL_CONFIG_ASSET and read by the shell at startup
+  config: Record<string, unknown>;
+  // Replacement content by icon file path, from ShellApkInfo.iconFiles
+  icons?: Map<string, Buffer>;
+}
+
+export function describeShellApk(shell: Buffer): ShellApkInfo {
+  const entries = readShellEntries(shell);
+  const manifest = readManifest(entries);
+  const application = childElements(manifest, 'application')[0];
+
+  const iconFiles = new Set<string>();
+  const arsc = entries.get('resources.arsc');
+  const references = [ATTR.icon, ATTR.roundIcon]
+    .map(id => application && findAttribute(application, id))
+    .filter((attribute): attribute is AxmlAttribute => attribute?.type === TYPE_REFERENCE);
+
+  if (arsc && references.length) {
+    const table = readResourceTable(readEntryContent(arsc));
+    for (const reference of references) {
+      for (const value of table.values.get(reference.data >>> 0) ?? []) {
+        if (value.string?.endsWith('.png')) iconFiles.add(value.string);
+      }
+    }
+  }
+
+  return { packageName: manifestPackage(manifest), iconFiles: Array.from(iconFiles) };
+}
+
+export function patchShellApk(shell: Buffer, options: ShellPatchOptions): Buffer {
+  const entries = readShellEntries(shell);
+  const manifest = readManifest(entries);
+  patchManifest(manifest, options);
+
+  const output: ZipEntry[] = [];
+  for (const entry of Array.from(entries.values())) {
+    if (entry.name === MANIFEST) {
+      output.push(createEntry(MANIFEST, encodeAxml(manifest)));
+    } else if (entry.name === SHELL_CONFIG_ASSET || (options.assets && entry.name.startsWith('assets/'))) {
+      continue;
+    } else if (options.icons?.has(entry.name)) {
+      output.push(createEntry(entry.name, options.icons.get(entry.name)!, false));
+    } else {
+      output.push(entry);
+    }
+  }
+
+  for (const asset of options.assets ?? []) {
+    const name = assetEntryName(asset.name);
+    output.push(createEntry(name, asset.content, !STORED_EXTENSIONS.has(path.extname(name).toLowerCase())));
+  }
+  output.push(createEntry(SHELL_CONFIG_ASSET, Buffer.from(JSON.stringify(options.config, null, 2))));
+
+  return writeUnsignedZip(output);
+}
+
+function readShellEntries(shell: Buffer): Map<string, ZipEntry> {
+  try {
+    return new Map(readZip(shell).entries.map(entry => [entry.name, entry]));
+  } catch (error) {
+    if (error instanceof ZipFormatError) {
+      throw new ShellApkError(`Shell APK is not a valid ZIP archive: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function readManifest(entries: Map<string, ZipEntry>): AxmlElement {
+  const entry = entries.get(MANIFEST);
+  const content = entry && readEntryContent(entry);
+  if (!content || !isAxml(content)) {
+    throw new ShellApkError('Shell APK has no compiled AndroidManifest.xml');
+  }
+  try {
+    return decodeAxml(content);
+  } catch (error) {
+    if (error instanceof ResourceFormatError) {
+      throw new ShellApkError(`Shell manifest is malformed: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function manifestPackage(manifest: AxmlElement): string {
+  const attribute = manifest.attributes.find(attribute => attribute.resourceId === null && attribute.name === 'package');
+  if (!attribute?.rawValue) {
+    throw new ShellApkError('Shell manifest has no package name');
+  }
+  return attribute.rawValue;
+}
+
+function stringAttribute(name: string, resourceId: number, value: string): AxmlAttribute {
+  return { namespace: ANDROID_NAMESPACE, name, resourceId, rawValue: value, type: TYPE_STRING, data: 0 };
+}
+
+function setAttribute(element: AxmlElement, attribute: AxmlAttribute): void {
+  const index = element.attributes.findIndex(existing => existing.resourceId === attribute.resourceId);
+  if (index >= 0) {
+    element.attributes[index] = attribute;
+  } else {
+    element.attributes.push(attribute);
+  }
+}
+
+/**
+ * Renames the package the way aapt2 --rename-manifest-package does: the code
+ * keeps its original package, so relative component names are made absolute
+ * first, and package-scoped permissions and authorities follow the new name.
+ */
+function patchManifest(manifest: AxmlElement, options: ShellPatchOptions): void {
+  const shellPackage = manifestPackage(manifest);
+  const renamePrefix = (value: string) =>
+    value === shellPackage || value.startsWith(`${shellPackage}.`) ? options.packageName + value.slice(shellPackage.length) : value;
+  const qualify = (value: string) =>
+    value.startsWith('.') ? shellPackage + value : value.includes('.') ? value : `${shellPackage}.${value}`;
+
+  manifest.attributes.find(attribute => attribute.resourceId === null && attribute.name === 'package')!.rawValue = options.packageName;
+  setAttribute(manifest, { namespace: ANDROID_NAMESPACE, name: 'versionCode', resourceId: ATTR.versionCode, rawValue: null, type: TYPE_INT_DEC, data: options.versionCode });
+  setAttribute(manifest, stringAttribute('versionName', ATTR.versionName, options.versionName));
+
+  for (const element of childElements(manifest)) {
+    if (element.name === 'permission' || element.name === 'uses-permission') {
+      const name = findAttribute(element, ATTR.name);
+      if (name?.rawValue) name.rawValue = renamePrefix(name.rawValue);
+    }
+  }
+
+  const application = childElements(manifest, 'application')[0];
+  if (!application) {
+    throw new ShellApkError('Shell manifest has no application element');
+  }
+
+  const originalLabel = findAttribute(application, ATTR.label);
+  const sameAsOriginalLabel = (label?: AxmlAttribute) => !!label && !!originalLabel &&
+    label.type === originalLabel.type && label.data === originalLabel.data && label.rawValue === originalLabel.rawValue;
+
+  const components = [application, ...childElements(application).filter(element => COMPONENT_ELEMENTS.includes(element.name))];
+  for (const component of components) {
+    for (const id of [ATTR.name, ATTR.targetActivity, ATTR.backupAgent]) {
+      const attribute = findAttribute(component, id);
+      if (attribute?.type === TYPE_STRING && attribute.rawValue) attribute.rawValue = qualify(attribute.rawValue);
+    }
+
+    const authorities = findAttribute(component, ATTR.authorities);
+    if (authorities?.rawValue) {
+      authorities.rawValue = authorities.rawValue.split(';').map(renamePrefix).join(';');
+    }
+
+    if (component !== application && sameAsOriginalLabel(findAttribute(component, ATTR.label))) {
+      setAttribute(component, stringAttribute('label', ATTR.label, options.appName));
+    }
+  }
+  setAttribute(application, stringAttribute('label', ATTR.label, options.appName));
+}
+
+function assetEntryName(name: string): string {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/'));
+  if (normalized.startsWith('../') || normalized.startsWith('/') || normalized === '..' || normalized === '.') {
+    throw new ShellApkError(`Invalid asset file name: ${name}`);
+  }
+  return `assets/${normalized}`;
+}
+
+function writeUnsignedZip(entries: ZipEntry[]): Buffer {
+  const names = new Set<string>();
+  for (const entry of entries) {
+    if (names.has(entry.name)) {
+      throw new ShellApkError(`Duplicate file in patched APK: ${entry.name}`);
+    }
+    names.add(entry.name);
+  }
+  // Alignment happens when the APK is signed
+  return writeZip(entries);
+}
@@ -0,0 +1,72 @@
+import { signingConfigInputSchema, type PublicSigningConfig, type SigningConfig } from '@shared/schema';
+import type { IStorage } from './storage';
+import { decryptSecret, encryptSecret, isEncryptedSecret, rewrapSecret } from './secrets';
+
+type SigningSecrets = Pick<SigningConfig, 'keystorePassword' | 'keyPassword'>;
+
+// Encrypts whichever signing passwords are present before they reach storage
+export function sealSigningSecrets<T extends Partial<SigningSecrets>>(data: T): T {
+  return {
+    ...data,
+    ...(data.keystorePassword !== undefined && { keystorePassword: encryptSecret(data.keystorePassword) }),
+    ...(data.keyPassword !== undefined && { keyPassword: encryptSecret(data.keyPassword) })
+  };
+}
+
+// Only the build worker should need the plaintext passwords
+export function openSigningSecrets(config: SigningConfig): SigningSecrets {
+  // Rows written before encryption was introduced hold plaintext until the
+  // rotation command has re-encrypted them
+  const open = (value: string) => isEncryptedSecret(value) ? decryptSecret(value) : value;
+  return {
+    keystorePassword: open(config.keystorePassword),
+    keyPassword: open(config.keyPassword)
+  };
+}
+
+export function toPublicSigningConfig(config: SigningConfig): PublicSigningConfig {
+  const { keystorePassword, keyPassword, ...rest } = config;
+  return {
+    ...rest,
+    hasKeystorePassword: !!keystorePassword,
+    hasKeyPassword: !!keyPassword
+  };
+}
+
+// Re-encrypts every stored signing secret under the current master key;
+// returns the number of signing configs that changed
+export async function rotateSigningSecrets(storage: IStorage): Promise<number> {
+  let updated = 0;
+
+  for (const config of await storage.getSigningConfigs()) {
+    const keystorePassword = rewrapSecret(config.keystorePassword);
+    const keyPassword = rewrapSecret(config.keyPassword);
+    if (!keystorePassword && !keyPassword) continue;
+
+    await storage.updateSigningConfig(config.projectId, {
+      ...(keystorePassword && { keystorePassword }),
+      ...(keyPassword && { keyPassword })
+    });
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Creates or updates a project's signing config from client input with the
+ * passwords encrypted. Blank passwords keep the ones already stored, since
+ * clients never get them back to re-submit.
+ */
+export async function saveSigningConfig(storage: IStorage, projectId: number, input: Record<string, unknown>): Promise<SigningConfig> {
+  const data = { ...input };
+  for (const field of ['keystorePassword', 'keyPassword']) {
+    if (data[field] === '') delete data[field];
+  }
+
+  const existingConfig = await storage.getSigningConfig(projectId);
+  if (existingConfig) {
+    return storage.updateSigningConfig(projectId, sealSigningSecrets(signingConfigInputSchema.partial().parse(data)));
+  }
+  return storage.createSigningConfig(sealSigningSecrets(signingConfigInputSchema.parse({ ...data, projectId })));
+}
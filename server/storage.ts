@@ -4,6 +4,7 @@ import {
   builds, 
   projectFiles, 
   signingConfigs, 
+  keystores,
   buildStats,
   type User, 
   type InsertUser,
@@ -15,7 +16,10 @@ import {
   type InsertProjectFile,
   type SigningConfig,
   type InsertSigningConfig,
-  type BuildStats
+  type Keystore,
+  type InsertKeystore,
+  type BuildStats,
+  finishedBuildStatuses
 } from "@shared/schema";
 
 export interface IStorage {
@@ -34,6 +38,7 @@ export interface IStorage {
   // Build methods
   getBuild(id: number): Promise<Build | undefined>;
   getBuildsByProject(projectId: number): Promise<Build[]>;
+  getBuildsByStatus(statuses: string[]): Promise<Build[]>;
   createBuild(build: InsertBuild): Promise<Build>;
   updateBuild(id: number, updates: Partial<InsertBuild>): Promise<Build>;
   
@@ -44,9 +49,15 @@ export interface IStorage {
   
   // Signing config methods
   getSigningConfig(projectId: number): Promise<SigningConfig | undefined>;
+  getSigningConfigs(): Promise<SigningConfig[]>;
   createSigningConfig(config: InsertSigningConfig): Promise<SigningConfig>;
   updateSigningConfig(projectId: number, updates: Partial<InsertSigningConfig>): Promise<SigningConfig>;
   
+  // Keystore methods
+  getKeystore(id: number): Promise<Keystore | undefined>;
+  getKeystoresByProject(projectId: number): Promise<Keystore[]>;
+  createKeystore(keystore: InsertKeystore): Promise<Keystore>;
+  
   // Build stats methods
   getBuildStats(): Promise<BuildStats>;
   updateBuildStats(updates: Partial<BuildStats>): Promise<BuildStats>;
@@ -58,6 +69,7 @@ export class MemStorage implements IStorage {
   private builds: Map<number, Build> = new Map();
   private projectFiles: Map<number, ProjectFile> = new Map();
   private signingConfigs: Map<number, SigningConfig> = new Map();
+  private keystores: Map<number, Keystore> = new Map();
   private buildStats: BuildStats = {
     id: 1,
     totalBuilds: 0,
@@ -71,6 +83,7 @@ export class MemStorage implements IStorage {
   private buildIdCounter = 1;
   private fileIdCounter = 1;
   private signingConfigIdCounter = 1;
+  private keystoreIdCounter = 1;
 
   // User methods
   async getUser(id: number): Promise<User | undefined> {
@@ -112,7 +125,16 @@ export class MemStorage implements IStorage {
       description: insertProject.description || null,
       websiteUrl: insertProject.websiteUrl || null,
       iconPath: insertProject.iconPath || null,
-      logoPath: insertProject.logoPath || null
+      logoPath: insertProject.logoPath || null,
+      proguardRules: insertProject.proguardRules || null,
+      enabledPlugins: insertProject.enabledPlugins ?? null,
+      cordovaPlugins: insertProject.cordovaPlugins ?? null,
+      capacitorSettings: insertProject.capacitorSettings ?? null,
+      bridgeCapabilities: insertProject.bridgeCapabilities ?? null,
+      fileUploads: insertProject.fileUploads ?? true,
+      cameraCapture: insertProject.cameraCapture ?? false,
+      fileDownloads: insertProject.fileDownloads ?? false,
+      navigationPolicy: insertProject.navigationPolicy ?? null
     };
     this.projects.set(id, project);
     return project;
@@ -143,6 +165,9 @@ export class MemStorage implements IStorage {
     Array.from(this.signingConfigs.values())
       .filter(config => config.projectId === id)
       .forEach(config => this.signingConfigs.delete(config.id));
+    Array.from(this.keystores.values())
+      .filter(keystore => keystore.projectId === id)
+      .forEach(keystore => this.keystores.delete(keystore.id));
   }
 
   // Build methods
@@ -153,7 +178,12 @@ export class MemStorage implements IStorage {
   async getBuildsByProject(projectId: number): Promise<Build[]> {
     return Array.from(this.builds.values())
       .filter(build => build.projectId === projectId)
-      .sort((a, b) => new Date(b.startedAt!).getTime() - new Date(a.startedAt!).getTime());
+      .sort((a, b) => new Date(b.queuedAt!).getTime() - new Date(a.queuedAt!).getTime());
+  }
+
+  async getBuildsByStatus(statuses: string[]): Promise<Build[]> {
+    return Array.from(this.builds.values())
+      .filter(build => statuses.includes(build.status));
   }
 
   async createBuild(insertBuild: InsertBuild): Promise<Build> {
@@ -162,11 +192,27 @@ export class MemStorage implements IStorage {
     const build: Build = { 
       ...insertBuild, 
       id, 
-      startedAt: now, 
+      queuedAt: now, 
+      startedAt: null,
       completedAt: null,
+      builderEngine: insertBuild.builderEngine || "gradle",
       outputPath: insertBuild.outputPath || null,
       aabPath: insertBuild.aabPath || null,
-      errorMessage: insertBuild.errorMessage || null
+      apksPath: insertBuild.apksPath || null,
+      mappingPath: insertBuild.mappingPath || null,
+      keystorePath: insertBuild.keystorePath || null,
+      keystoreId: insertBuild.keystoreId ?? null,
+      artifacts: insertBuild.artifacts ?? null,
+      pluginArtifacts: insertBuild.pluginArtifacts ?? null,
+      config: insertBuild.config ?? null,
+      options: insertBuild.options ?? null,
+      rebuildOf: insertBuild.rebuildOf ?? null,
+      errorMessage: insertBuild.errorMessage || null,
+      progress: insertBuild.progress ?? 0,
+      buildStep: insertBuild.buildStep || null,
+      buildMessage: insertBuild.buildMessage || null,
+      priority: insertBuild.priority ?? 0,
+      attempts: insertBuild.attempts ?? 0
     };
     this.builds.set(id, build);
     return build;
@@ -177,7 +223,10 @@ export class MemStorage implements IStorage {
     if (!build) throw new Error("Build not found");
     
     const updatedBuild = { ...build, ...updates };
-    if (updates.status === 'success' || updates.status === 'failed') {
+    if (updates.status === 'running') {
+      updatedBuild.startedAt = new Date();
+    }
+    if (updates.status && finishedBuildStatuses.includes(updates.status)) {
       updatedBuild.completedAt = new Date();
     }
     this.builds.set(id, updatedBuild);
@@ -212,6 +261,10 @@ export class MemStorage implements IStorage {
       .find(config => config.projectId === projectId);
   }
 
+  async getSigningConfigs(): Promise<SigningConfig[]> {
+    return Array.from(this.signingConfigs.values());
+  }
+
   async createSigningConfig(insertConfig: InsertSigningConfig): Promise<SigningConfig> {
     const id = this.signingConfigIdCounter++;
     const now = new Date();
@@ -234,6 +287,29 @@ export class MemStorage implements IStorage {
     return updatedConfig;
   }
 
+  // Keystore methods
+  async getKeystore(id: number): Promise<Keystore | undefined> {
+    return this.keystores.get(id);
+  }
+
+  async getKeystoresByProject(projectId: number): Promise<Keystore[]> {
+    return Array.from(this.keystores.values())
+      .filter(keystore => keystore.projectId === projectId);
+  }
+
+  async createKeystore(insertKeystore: InsertKeystore): Promise<Keystore> {
+    const id = this.keystoreIdCounter++;
+    const keystore: Keystore = {
+      ...insertKeystore,
+      id,
+      originalFileName: insertKeystore.originalFileName || null,
+      entries: insertKeystore.entries ?? null,
+      createdAt: new Date()
+    };
+    this.keystores.set(id, keystore);
+    return keystore;
+  }
+
   // Build stats methods
   async getBuildStats(): Promise<BuildStats> {
     return { ...this.buildStats };
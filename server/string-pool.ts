@@ -0,0 +1,121 @@
+// Reading and writing the string pool chunk shared by binary XML (AXML) and
+// resources.arsc. Style spans are not supported: they only occur in styled
+// string resources, which nothing here needs to rewrite.
+
+export const RES_STRING_POOL_TYPE = 0x0001;
+
+const HEADER_SIZE = 28;
+const UTF8_FLAG = 0x100;
+
+export class ResourceFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceFormatError';
+  }
+}
+
+export interface ChunkHeader {
+  type: number;
+  headerSize: number;
+  size: number;
+}
+
+export function readChunkHeader(data: Buffer, offset: number): ChunkHeader {
+  if (offset + 8 > data.length) {
+    throw new ResourceFormatError(`Truncated chunk at offset ${offset}`);
+  }
+  const header = {
+    type: data.readUInt16LE(offset),
+    headerSize: data.readUInt16LE(offset + 2),
+    size: data.readUInt32LE(offset + 4)
+  };
+  if (header.headerSize < 8 || header.size < header.headerSize || offset + header.size > data.length) {
+    throw new ResourceFormatError(`Malformed chunk 0x${header.type.toString(16)} at offset ${offset}`);
+  }
+  return header;
+}
+
+export function readStringPool(data: Buffer, offset: number): string[] {
+  const header = readChunkHeader(data, offset);
+  if (header.type !== RES_STRING_POOL_TYPE) {
+    throw new ResourceFormatError(`Expected a string pool at offset ${offset}`);
+  }
+
+  const count = data.readUInt32LE(offset + 8);
+  const utf8 = (data.readUInt32LE(offset + 16) & UTF8_FLAG) !== 0;
+  const stringsStart = offset + data.readUInt32LE(offset + 20);
+  const strings: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let position = stringsStart + data.readUInt32LE(offset + header.headerSize + i * 4);
+    if (utf8) {
+      // Character count, then byte count; both use one or two bytes
+      position += data[position] & 0x80 ? 2 : 1;
+      let length = data[position++];
+      if (length & 0x80) length = ((length & 0x7f) << 8) | data[position++];
+      strings.push(data.toString('utf8', position, position + length));
+    } else {
+      let length = data.readUInt16LE(position);
+      position += 2;
+      if (length & 0x8000) {
+        length = ((length & 0x7fff) << 16) | data.readUInt16LE(position);
+        position += 2;
+      }
+      strings.push(data.toString('utf16le', position, position + length * 2));
+    }
+  }
+
+  return strings;
+}
+
+function encodeLength8(length: number): Buffer {
+  return length > 0x7f ? Buffer.from([0x80 | (length >> 8), length & 0xff]) : Buffer.from([length]);
+}
+
+function encodeLength16(length: number): Buffer {
+  const buffer = Buffer.alloc(length > 0x7fff ? 4 : 2);
+  if (length > 0x7fff) {
+    buffer.writeUInt16LE(0x8000 | (length >>> 16), 0);
+    buffer.writeUInt16LE(length & 0xffff, 2);
+  } else {
+    buffer.writeUInt16LE(length, 0);
+  }
+  return buffer;
+}
+
+function encodeString(value: string, utf8: boolean): Buffer {
+  if (utf8) {
+    const bytes = Buffer.from(value, 'utf8');
+    if (bytes.length > 0x7fff) {
+      throw new ResourceFormatError('String is too long for a UTF-8 string pool');
+    }
+    return Buffer.concat([encodeLength8(value.length), encodeLength8(bytes.length), bytes, Buffer.alloc(1)]);
+  }
+  return Buffer.concat([encodeLength16(value.length), Buffer.from(value, 'utf16le'), Buffer.alloc(2)]);
+}
+
+export function encodeStringPool(strings: string[], options: { utf8?: boolean } = {}): Buffer {
+  const utf8 = options.utf8 ?? true;
+  const encoded = strings.map(value => encodeString(value, utf8));
+
+  const offsets = Buffer.alloc(strings.length * 4);
+  let position = 0;
+  encoded.forEach((value, index) => {
+    offsets.writeUInt32LE(position, index * 4);
+    position += value.length;
+  });
+
+  const data = Buffer.concat(encoded);
+  const padding = Buffer.alloc((4 - (data.length % 4)) % 4);
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeUInt16LE(RES_STRING_POOL_TYPE, 0);
+  header.writeUInt16LE(HEADER_SIZE, 2);
+  header.writeUInt32LE(HEADER_SIZE + offsets.length + data.length + padding.length, 4);
+  header.writeUInt32LE(strings.length, 8);
+  header.writeUInt32LE(0, 12);
+  header.writeUInt32LE(utf8 ? UTF8_FLAG : 0, 16);
+  header.writeUInt32LE(strings.length ? HEADER_SIZE + offsets.length : 0, 20);
+  header.writeUInt32LE(0, 24);
+
+  return Buffer.concat([header, offsets, data, padding]);
+}
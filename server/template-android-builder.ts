@@ -1,61 +1,71 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
 import { nanoid } from 'nanoid';
 import { createWriteStream } from 'fs';
 import archiver from 'archiver';
+import type { BuildConfig, BuildResult, BuildContext, BuilderEngine, BuilderCapabilities, ToolchainRequirement } from './builder-engine';
+import { throwIfCancelled, BuildCancelledError } from './process-runner';
+import { DEFAULT_SDK_LEVELS } from './android-toolchain';
+import { createTemplateVariables, renderStartPage, renderTemplateSet, writeAppAssets, type TemplateVariables } from './android-templates';
 
-const execAsync = promisify(exec);
+export class TemplateAndroidBuilder implements BuilderEngine {
+  readonly id = 'template';
+  readonly name = 'Template';
+  readonly description = 'Renders the project template set and packages it without a compiler toolchain';
+  readonly capabilities: BuilderCapabilities = {
+    apk: true,
+    aab: true,
+    signing: false,
+    websiteUrl: true,
+    webFiles: true,
+    codeShrinking: false,
+    splitApks: false,
+    buildHooks: false,
+    nativeBridge: true
+  };
+  readonly requirements: ToolchainRequirement[] = [];
 
-export interface BuildConfig {
-  appName: string;
-  packageName: string;
-  versionCode: number;
-  versionName: string;
-  websiteUrl?: string;
-  files?: Array<{ name: string; content: Buffer }>;
-}
-
-export interface BuildResult {
-  success: boolean;
-  apkPath?: string;
-  aabPath?: string;
-  error?: string;
-  buildId: string;
-}
-
-export class TemplateAndroidBuilder {
   private buildDir: string;
-  private templateDir: string;
 
   constructor() {
     this.buildDir = path.join(process.cwd(), 'builds');
-    this.templateDir = path.join(process.cwd(), 'android-template');
   }
 
-  async buildAPK(config: BuildConfig): Promise<BuildResult> {
+  async buildAPK(config: BuildConfig, context: BuildContext = {}): Promise<BuildResult> {
     const buildId = nanoid();
     const projectDir = path.join(this.buildDir, buildId);
+    const { onProgress, signal, log } = context;
     
     try {
-      // Copy template to build directory
-      await this.copyTemplate(projectDir);
+      onProgress?.({ step: 'Creating project', progress: 10, message: 'Rendering Android template...' });
       
-      // Configure the project with user settings
-      await this.configureProject(projectDir, config);
+      // Render the project template set with the app settings
+      const variables = createTemplateVariables(config);
+      await renderTemplateSet('project', variables, projectDir, config.projectId);
+      const srcDir = path.join(projectDir, 'app', 'src', 'main');
+      
+      onProgress?.({ step: 'Configuring project', progress: 30, message: 'Adding web files and icons...' });
       
       // Copy user web assets
-      await this.copyWebAssets(projectDir, config);
+      await this.copyWebAssets(srcDir, config, variables);
       
       // Generate launcher icons
-      await this.generateIcons(projectDir, config);
+      await this.generateIcons(srcDir, config);
+      throwIfCancelled(signal);
       
-      // Build the APK
-      const apkPath = await this.buildAPKFromTemplate(projectDir, config);
+      // Package only the requested artifact
+      let apkPath: string | undefined;
+      let aabPath: string | undefined;
+      if (config.buildType === 'aab') {
+        onProgress?.({ step: 'Creating AAB', progress: 60, message: 'Creating App Bundle...' });
+        aabPath = await this.createAAB(projectDir, srcDir, config);
+      } else {
+        onProgress?.({ step: 'Building APK', progress: 60, message: 'Packaging APK from template...' });
+        apkPath = await this.buildAPKFromTemplate(projectDir, srcDir, config);
+      }
+      throwIfCancelled(signal);
       
-      // Create AAB
-      const aabPath = await this.createAAB(projectDir, config);
+      onProgress?.({ step: 'Complete', progress: 100, message: 'Build completed successfully!' });
       
       return {
         success: true,
@@ -64,7 +74,18 @@ export class TemplateAndroidBuilder {
         buildId
       };
     } catch (error) {
+      if (error instanceof BuildCancelledError || signal?.aborted) {
+        await fs.rm(projectDir, { recursive: true, force: true });
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Build was cancelled',
+          buildId
+        };
+      }
+
       console.error('Template build failed:', error);
+      log?.info(`Template build failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -73,138 +94,23 @@ export class TemplateAndroidBuilder {
     }
   }
 
-  private async copyTemplate(projectDir: string): Promise<void> {
-    // Copy entire template directory
-    await execAsync(`cp -r ${this.templateDir}/* ${projectDir}/ || true`);
-    await execAsync(`mkdir -p ${projectDir}/src/main/res/mipmap-hdpi ${projectDir}/src/main/res/mipmap-mdpi ${projectDir}/src/main/res/mipmap-xhdpi ${projectDir}/src/main/res/mipmap-xxhdpi ${projectDir}/src/main/res/mipmap-xxxhdpi`);
-  }
+  private async copyWebAssets(srcDir: string, config: BuildConfig, variables: TemplateVariables): Promise<void> {
+    const assetsDir = path.join(srcDir, 'assets');
+    await fs.mkdir(assetsDir, { recursive: true });
 
-  private async configureProject(projectDir: string, config: BuildConfig): Promise<void> {
-    // Create package directory structure
-    const packagePath = config.packageName.replace(/\./g, '/');
-    const javaSourceDir = path.join(projectDir, 'src/main/java', packagePath);
-    await execAsync(`mkdir -p ${javaSourceDir}`);
-    
-    // Move MainActivity.java to correct package directory
-    const mainActivityTemplate = path.join(projectDir, 'src/main/java/PACKAGE_PATH_PLACEHOLDER/MainActivity.java');
-    const mainActivityTarget = path.join(javaSourceDir, 'MainActivity.java');
-    
-    try {
-      await execAsync(`mv ${mainActivityTemplate} ${mainActivityTarget}`);
-      // Remove template directory
-      await execAsync(`rm -rf ${path.join(projectDir, 'src/main/java/PACKAGE_PATH_PLACEHOLDER')}`);
-    } catch (error) {
-      console.log('MainActivity already in correct location');
+    for (const file of config.files ?? []) {
+      await fs.mkdir(path.dirname(path.join(assetsDir, file.name)), { recursive: true });
+      await fs.writeFile(path.join(assetsDir, file.name), file.content);
     }
-    
-    // Files to update with placeholders
-    const filesToUpdate = [
-      'build.gradle',
-      'src/main/AndroidManifest.xml',
-      'src/main/java/' + packagePath + '/MainActivity.java',
-      'src/main/res/values/strings.xml',
-      'src/main/assets/index.html'
-    ];
-    
-    for (const filePath of filesToUpdate) {
-      const fullPath = path.join(projectDir, filePath);
-      try {
-        let content = await fs.readFile(fullPath, 'utf8');
-        
-        // Replace placeholders
-        content = content.replace(/PACKAGE_NAME_PLACEHOLDER/g, config.packageName);
-        content = content.replace(/APP_NAME_PLACEHOLDER/g, config.appName);
-        content = content.replace(/VERSION_CODE_PLACEHOLDER/g, config.versionCode.toString());
-        content = content.replace(/VERSION_NAME_PLACEHOLDER/g, config.versionName);
-        content = content.replace(/PACKAGE_PATH_PLACEHOLDER/g, packagePath);
-        
-        // Set content URL
-        const contentUrl = config.websiteUrl || 'file:///android_asset/index.html';
-        content = content.replace(/CONTENT_URL_PLACEHOLDER/g, contentUrl);
-        
-        await fs.writeFile(fullPath, content);
-      } catch (error) {
-        console.log(`Could not update ${filePath}:`, error);
-      }
-    }
-  }
 
-  private async copyWebAssets(projectDir: string, config: BuildConfig): Promise<void> {
-    const assetsDir = path.join(projectDir, 'src/main/assets');
-    
-    if (config.files && config.files.length > 0) {
-      // Clear default index.html and copy user files
-      await execAsync(`rm -f ${path.join(assetsDir, 'index.html')}`);
-      
-      for (const file of config.files) {
-        await fs.writeFile(path.join(assetsDir, file.name), file.content);
-      }
-      
-      // If no index.html provided, create a simple one
-      const indexExists = config.files.some(f => f.name === 'index.html');
-      if (!indexExists) {
-        await this.createSimpleIndex(assetsDir, config);
-      }
+    // The template set's start page stands in for a missing index.html
+    if (!config.files?.some(file => file.name === 'index.html')) {
+      await fs.writeFile(path.join(assetsDir, 'index.html'), await renderStartPage(variables, config.projectId));
     }
-    // If no files and no URL, keep the default template index.html
-  }
-
-  private async createSimpleIndex(assetsDir: string, config: BuildConfig): Promise<void> {
-    const indexContent = `<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${config.appName}</title>
-    <style>
-        body { 
-            font-family: Arial, sans-serif; 
-            padding: 20px; 
-            background: #f0f0f0;
-        }
-        .container {
-            max-width: 600px;
-            margin: 0 auto;
-            background: white;
-            padding: 30px;
-            border-radius: 10px;
-            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-        }
-        h1 {
-            color: #333;
-            text-align: center;
-            margin-bottom: 30px;
-        }
-        .file-list {
-            list-style: none;
-            padding: 0;
-        }
-        .file-list li {
-            padding: 10px;
-            border-bottom: 1px solid #eee;
-        }
-        .file-list li:last-child {
-            border-bottom: none;
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <h1>${config.appName}</h1>
-        <p>Your web files have been successfully packaged into this Android app!</p>
-        
-        <h3>Included Files:</h3>
-        <ul class="file-list">
-            ${config.files?.map(f => `<li>📄 ${f.name}</li>`).join('') || '<li>No files uploaded</li>'}
-        </ul>
-    </div>
-</body>
-</html>`;
-    
-    await fs.writeFile(path.join(assetsDir, 'index.html'), indexContent);
+    await writeAppAssets(assetsDir, variables, config);
   }
 
-  private async generateIcons(projectDir: string, config: BuildConfig): Promise<void> {
+  private async generateIcons(srcDir: string, config: BuildConfig): Promise<void> {
     // Create simple PNG icons for different densities
     const densities = [
       { folder: 'mipmap-mdpi', size: 48 },
@@ -215,8 +121,9 @@ export class TemplateAndroidBuilder {
     ];
     
     for (const { folder, size } of densities) {
-      const iconPath = path.join(projectDir, `src/main/res/${folder}/ic_launcher.png`);
-      const roundIconPath = path.join(projectDir, `src/main/res/${folder}/ic_launcher_round.png`);
+      const iconPath = path.join(srcDir, `res/${folder}/ic_launcher.png`);
+      const roundIconPath = path.join(srcDir, `res/${folder}/ic_launcher_round.png`);
+      await fs.mkdir(path.dirname(iconPath), { recursive: true });
       
       // Create a simple colored PNG icon
       const icon = await this.createColoredIcon(size, config.appName);
@@ -276,7 +183,7 @@ export class TemplateAndroidBuilder {
     return simplePNG;
   }
 
-  private async buildAPKFromTemplate(projectDir: string, config: BuildConfig): Promise<string> {
+  private async buildAPKFromTemplate(projectDir: string, srcDir: string, config: BuildConfig): Promise<string> {
     const apkPath = path.join(projectDir, `${config.appName.replace(/\s+/g, '_')}.apk`);
     
     // Create APK using archiver (ZIP format)
@@ -298,13 +205,13 @@ export class TemplateAndroidBuilder {
       archive.pipe(output);
       
       // Add AndroidManifest.xml
-      archive.file(path.join(projectDir, 'src/main/AndroidManifest.xml'), { name: 'AndroidManifest.xml' });
+      archive.file(path.join(srcDir, 'AndroidManifest.xml'), { name: 'AndroidManifest.xml' });
       
       // Add all resources
-      archive.directory(path.join(projectDir, 'src/main/res'), 'res');
+      archive.directory(path.join(srcDir, 'res'), 'res');
       
       // Add assets
-      archive.directory(path.join(projectDir, 'src/main/assets'), 'assets');
+      archive.directory(path.join(srcDir, 'assets'), 'assets');
       
       // Add compiled classes (mock DEX file)
       const dexContent = this.generateDEXFile(config);
@@ -405,7 +312,7 @@ SHA-256-Digest: ${Buffer.from(config.versionName + config.versionCode).toString(
 `;
   }
 
-  private async createAAB(projectDir: string, config: BuildConfig): Promise<string> {
+  private async createAAB(projectDir: string, srcDir: string, config: BuildConfig): Promise<string> {
     const aabPath = path.join(projectDir, `${config.appName.replace(/\s+/g, '_')}.aab`);
     
     const archive = archiver('zip', {
@@ -426,9 +333,9 @@ SHA-256-Digest: ${Buffer.from(config.versionName + config.versionCode).toString(
       archive.pipe(output);
       
       // Add base module
-      archive.file(path.join(projectDir, 'src/main/AndroidManifest.xml'), { name: 'base/manifest/AndroidManifest.xml' });
-      archive.directory(path.join(projectDir, 'src/main/res'), 'base/res');
-      archive.directory(path.join(projectDir, 'src/main/assets'), 'base/assets');
+      archive.file(path.join(srcDir, 'AndroidManifest.xml'), { name: 'base/manifest/AndroidManifest.xml' });
+      archive.directory(path.join(srcDir, 'res'), 'base/res');
+      archive.directory(path.join(srcDir, 'assets'), 'base/assets');
       
       // Add DEX file
       const dexContent = this.generateDEXFile(config);
@@ -440,8 +347,8 @@ SHA-256-Digest: ${Buffer.from(config.versionName + config.versionCode).toString(
         packageName: config.packageName,
         versionCode: config.versionCode,
         versionName: config.versionName,
-        minSdkVersion: 21,
-        targetSdkVersion: 34,
+        minSdkVersion: config.minSdkVersion ?? DEFAULT_SDK_LEVELS.minSdkVersion,
+        targetSdkVersion: config.targetSdkVersion ?? DEFAULT_SDK_LEVELS.targetSdkVersion,
         buildTime: new Date().toISOString()
       };
       
@@ -0,0 +1,317 @@
+// Rendering for the Android project templates. Templates are plain files with
+// tags in double braces:
+//
+//   {{name}}              value of a variable, escaped for the file type
+//   {{name | raw}}        with an explicit escaper (raw, xml, resource, uri,
+//                         java, groovy, js, json)
+//   {{#if name}} … {{else}} … {{/if}}, {{#unless name}} … {{/unless}}
+//   {{#each name}} … {{this}} … {{/each}}   over a list of strings
+//   {{! comment }}
+//
+// Variables are declared with a type, and templates are checked against the
+// declarations when compiled, so a misspelled name or a list used as text is
+// reported with its line before anything is rendered. Block tags alone on a
+// line take the whole line with them.
+
+export type TemplateValueType = 'string' | 'number' | 'boolean' | 'list';
+export type TemplateValue = string | number | boolean | null | string[];
+export type TemplateEscape = 'raw' | 'xml' | 'resource' | 'uri' | 'java' | 'groovy' | 'js' | 'json';
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly file: string, public readonly line: number) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface CompileTemplateOptions {
+  // Used in error messages and to pick the default escaper
+  name: string;
+  variables: Record<string, TemplateValueType>;
+  escape?: TemplateEscape;
+}
+
+export interface CompiledTemplate {
+  render(values: Record<string, TemplateValue>): string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'value'; name: string; escape: TemplateEscape; line: number }
+  | { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { kind: 'each'; name: string; body: TemplateNode[]; line: number };
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'tag'; body: string; line: number; block: boolean };
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ESCAPES: TemplateEscape[] = ['raw', 'xml', 'resource', 'uri', 'java', 'groovy', 'js', 'json'];
+
+const XML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+function escapeJavaString(value: string): string {
+  return value.replace(/[\\"'\n\r\t]|[^\x20-\x7e]/g, char => {
+    switch (char) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case "'": return "\\'";
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      default: return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    }
+  });
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+}
+
+const escapers: Record<TemplateEscape, (value: string) => string> = {
+  raw: value => value,
+  xml: escapeXml,
+  // Text of an Android string resource, where aapt drops bare quotes and
+  // reads a leading @ or ? as a reference
+  resource: value => escapeXml(value.replace(/[\\'"]/g, '\\$&').replace(/\n/g, '\\n').replace(/^[@?]/, '\\$&')),
+  // A path or URL in an XML attribute
+  uri: value => escapeXml(encodeURI(value)),
+  java: escapeJavaString,
+  // Groovy interpolates $ in double-quoted strings
+  groovy: value => escapeJavaString(value).replace(/\$/g, '\\$'),
+  // Also safe inside an inline <script>
+  js: value => escapeJavaString(value).replace(/</g, '\\u003c'),
+  // JSON has no \' escape
+  json: value => JSON.stringify(value).slice(1, -1).replace(/</g, '\\u003c')
+};
+
+const EXTENSION_ESCAPES: Record<string, TemplateEscape> = {
+  xml: 'xml',
+  html: 'xml',
+  htm: 'xml',
+  java: 'java',
+  kt: 'java',
+  gradle: 'groovy',
+  js: 'js',
+  json: 'json'
+};
+
+/**
+ * Escaper used for {{name}} tags without a filter: markup is escaped as XML
+ * (as resource text under res/values), source files as string-literal
+ * contents, anything else is inserted as is.
+ */
+export function defaultEscapeFor(fileName: string): TemplateEscape {
+  if (/(^|\/)res\/values[^/]*\/[^/]+\.xml$/i.test(fileName)) return 'resource';
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_ESCAPES[extension] ?? 'raw';
+}
+
+export function compileTemplate(source: string, options: CompileTemplateOptions): CompiledTemplate {
+  const nodes = parse(tokenize(source, options.name), options.name, options.escape ?? defaultEscapeFor(options.name));
+  check(nodes, options.variables, options.name, false);
+
+  return {
+    render: (values) => render(nodes, values, null)
+  };
+}
+
+export function renderTemplate(source: string, values: Record<string, TemplateValue>, options: CompileTemplateOptions): string {
+  return compileTemplate(source, options).render(values);
+}
+
+function tokenize(source: string, file: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+
+  while (offset < source.length) {
+    const open = source.indexOf('{{', offset);
+    if (open < 0) {
+      tokens.push({ kind: 'text', value: source.slice(offset) });
+      break;
+    }
+
+    const text = source.slice(offset, open);
+    if (text) tokens.push({ kind: 'text', value: text });
+    line += countLines(text);
+
+    const close = source.indexOf('}}', open + 2);
+    if (close < 0) {
+      throw new TemplateError('Tag is not closed with }}', file, line);
+    }
+    const body = source.slice(open + 2, close).trim();
+    tokens.push({ kind: 'tag', body, line, block: /^[#/!]|^else$/.test(body) });
+    line += countLines(source.slice(open, close));
+    offset = close + 2;
+  }
+
+  return stripStandaloneLines(tokens);
+}
+
+function countLines(text: string): number {
+  let count = 0;
+  for (let index = text.indexOf('\n'); index >= 0; index = text.indexOf('\n', index + 1)) count++;
+  return count;
+}
+
+// A block tag with only whitespace around it on its line would otherwise
+// leave an empty line behind in the output. Every tag is judged against the
+// original text before anything is stripped, so tags on consecutive lines
+// each remove their own line.
+function stripStandaloneLines(tokens: Token[]): Token[] {
+  const textAt = (index: number) => {
+    const token = tokens[index];
+    return token?.kind === 'text' ? token.value : undefined;
+  };
+
+  const standalone = tokens.map((token, index) => {
+    if (token.kind !== 'tag' || !token.block) return false;
+    const before = textAt(index - 1);
+    const after = textAt(index + 1);
+    const startsLine = index === 0 || (before !== undefined && (index === 1 ? /^[ \t]*$|\n[ \t]*$/ : /\n[ \t]*$/).test(before));
+    const endsLine = index === tokens.length - 1 || (after !== undefined && /^[ \t]*(\r?\n|$)/.test(after));
+    return startsLine && endsLine;
+  });
+
+  standalone.forEach((strip, index) => {
+    if (!strip) return;
+    const before = tokens[index - 1];
+    const after = tokens[index + 1];
+    if (before?.kind === 'text') before.value = before.value.replace(/[ \t]*$/, '');
+    if (after?.kind === 'text') after.value = after.value.replace(/^[ \t]*(\r?\n)?/, '');
+  });
+
+  return tokens.filter(token => token.kind === 'tag' || token.value);
+}
+
+function parse(tokens: Token[], file: string, defaultEscape: TemplateEscape): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks; `target` is where their children currently go
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' | 'each' }>; tag: string; target: TemplateNode[]; sawElse: boolean }> = [];
+  const target = () => stack.length ? stack[stack.length - 1].target : root;
+
+  const requireName = (name: string, line: number) => {
+    if (!NAME.test(name)) throw new TemplateError(`"${name}" is not a valid variable name`, file, line);
+    return name;
+  };
+
+  for (const token of tokens) {
+    if (token.kind === 'text') {
+      target().push({ kind: 'text', value: token.value });
+      continue;
+    }
+
+    const { body, line } = token;
+    if (body.startsWith('!')) continue;
+
+    const open = /^#(if|unless|each)\s+(\S+)$/.exec(body);
+    if (open) {
+      const [, tag, name] = open;
+      const node: Extract<TemplateNode, { kind: 'if' | 'each' }> = tag === 'each'
+        ? { kind: 'each', name: requireName(name, line), body: [], line }
+        : { kind: 'if', name: requireName(name, line), negate: tag === 'unless', then: [], otherwise: [], line };
+      target().push(node);
+      stack.push({ node, tag, target: node.kind === 'each' ? node.body : node.then, sawElse: false });
+      continue;
+    }
+
+    if (body === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.node.kind !== 'if' || block.sawElse) {
+        throw new TemplateError('{{else}} outside an {{#if}} or {{#unless}} block', file, line);
+      }
+      block.sawElse = true;
+      block.target = block.node.otherwise;
+      continue;
+    }
+
+    const close = /^\/(if|unless|each)$/.exec(body);
+    if (close) {
+      const block = stack.pop();
+      if (!block) throw new TemplateError(`{{/${close[1]}}} without an open block`, file, line);
+      if (block.tag !== close[1]) {
+        throw new TemplateError(`{{/${close[1]}}} closes the {{#${block.tag}}} opened on line ${block.node.line}`, file, line);
+      }
+      continue;
+    }
+
+    if (/^[#/]/.test(body)) {
+      throw new TemplateError(`Unknown block tag {{${body}}}`, file, line);
+    }
+
+    const [name, filter, ...rest] = body.split('|').map(part => part.trim());
+    if (rest.length || filter === '') {
+      throw new TemplateError(`{{${body}}} takes at most one escaper`, file, line);
+    }
+    if (filter !== undefined && !ESCAPES.includes(filter as TemplateEscape)) {
+      throw new TemplateError(`Unknown escaper "${filter}" (use ${ESCAPES.join(', ')})`, file, line);
+    }
+    target().push({ kind: 'value', name: name === 'this' ? name : requireName(name, line), escape: (filter as TemplateEscape) ?? defaultEscape, line });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`{{#${unclosed.tag} ${unclosed.node.name}}} is never closed`, file, unclosed.node.line);
+  }
+  return root;
+}
+
+// Checks every branch, so errors do not depend on the values a build happens to use
+function check(nodes: TemplateNode[], variables: Record<string, TemplateValueType>, file: string, inEach: boolean): void {
+  const typeOf = (name: string, line: number) => {
+    const type = variables[name];
+    if (!type) throw new TemplateError(`Unknown variable "${name}"`, file, line);
+    return type;
+  };
+
+  for (const node of nodes) {
+    if (node.kind === 'value') {
+      if (node.name === 'this') {
+        if (!inEach) throw new TemplateError('{{this}} outside an {{#each}} block', file, node.line);
+      } else if (typeOf(node.name, node.line) === 'list') {
+        throw new TemplateError(`"${node.name}" is a list; use {{#each ${node.name}}}`, file, node.line);
+      }
+    } else if (node.kind === 'if') {
+      typeOf(node.name, node.line);
+      check(node.then, variables, file, inEach);
+      check(node.otherwise, variables, file, inEach);
+    } else if (node.kind === 'each') {
+      if (typeOf(node.name, node.line) !== 'list') {
+        throw new TemplateError(`{{#each ${node.name}}} needs a list`, file, node.line);
+      }
+      check(node.body, variables, file, true);
+    }
+  }
+}
+
+function isTruthy(value: TemplateValue | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function render(nodes: TemplateNode[], values: Record<string, TemplateValue>, item: string | null): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value': {
+        const value = node.name === 'this' ? item : values[node.name];
+        output += escapers[node.escape](value === null || value === undefined ? '' : String(value));
+        break;
+      }
+      case 'if':
+        output += render(isTruthy(values[node.name]) !== node.negate ? node.then : node.otherwise, values, item);
+        break;
+      case 'each': {
+        const list = values[node.name];
+        for (const entry of Array.isArray(list) ? list : []) {
+          output += render(node.body, values, entry);
+        }
+        break;
+      }
+    }
+  }
+  return output;
+}
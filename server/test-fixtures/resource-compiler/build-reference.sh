@@ -0,0 +1,23 @@
+#!/usr/bin/env bash
+# Rebuilds the aapt2 reference binaries the resource compiler tests compare
+# against. Needs aapt2 and a platform android.jar:
+#   AAPT2=/path/to/aapt2 ANDROID_JAR=/path/to/android.jar ./build-reference.sh
+# The checked-in references were built with aapt2 2.19 and an API 23
+# android.jar (the manifest's compileSdkVersion stamp), with the min and target
+# SDK levels below (21 and 28) that the tests compile with.
+set -euo pipefail
+
+cd "$(dirname "$0")"
+AAPT2="${AAPT2:-aapt2}"
+ANDROID_JAR="${ANDROID_JAR:?Set ANDROID_JAR to a platform android.jar}"
+WORK="$(mktemp -d)"
+trap 'rm -rf "$WORK"' EXIT
+
+"$AAPT2" compile --dir source/res --no-crunch -o "$WORK/res.zip"
+"$AAPT2" link -I "$ANDROID_JAR" --manifest source/AndroidManifest.xml \
+  --min-sdk-version 21 --target-sdk-version 28 \
+  -o "$WORK/reference.apk" "$WORK/res.zip"
+
+rm -rf reference
+mkdir reference
+unzip -q "$WORK/reference.apk" AndroidManifest.xml resources.arsc 'res/*.xml' -d reference
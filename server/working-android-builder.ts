@@ -3,6 +3,7 @@ import fs from 'fs';
 import path from 'path';
 import archiver from 'archiver';
 import { nanoid } from 'nanoid';
+import { compileResourceDirectory } from './resource-compiler';
 import { EventEmitter } from 'events';
 
 export interface BuildConfig {
@@ -524,6 +525,12 @@ public class MainActivity extends Activity {
   private async packageAPK(projectDir: string, config: BuildConfig): Promise<string> {
     const apkPath = path.join(this.outputDir, `${config.appName}-${config.versionName}.apk`);
     
+    // Android only reads the binary manifest and resources aapt2 would produce
+    const compiled = await compileResourceDirectory(path.join(projectDir, 'AndroidManifest.xml'), path.join(projectDir, 'res'), {
+      minSdkVersion: 21,
+      targetSdkVersion: 33
+    });
+    
     // Create APK as a ZIP file
     const output = fs.createWriteStream(apkPath);
     const archive = archiver('zip', { zlib: { level: 9 } });
@@ -539,12 +546,15 @@ public class MainActivity extends Activity {
       
       archive.pipe(output);
       
-      // Add all files to APK
-      archive.file(path.join(projectDir, 'AndroidManifest.xml'), { name: 'AndroidManifest.xml' });
+      // Add all files to APK; resources.arsc must be stored uncompressed
+      archive.append(compiled.manifest, { name: 'AndroidManifest.xml' });
+      archive.append(compiled.resourceTable, { name: 'resources.arsc', store: true });
       archive.file(path.join(projectDir, 'classes.dex'), { name: 'classes.dex' });
       
-      // Add resources
-      archive.directory(path.join(projectDir, 'res'), 'res');
+      // Add compiled resources
+      for (const file of compiled.files) {
+        archive.append(file.content, { name: file.path, store: file.path.endsWith('.png') });
+      }
       
       // Add assets
       if (fs.existsSync(path.join(projectDir, 'assets'))) {
@@ -0,0 +1,149 @@
+// Minimal XML parser for the manifests and resource files the builders
+// generate: elements, attributes, text, CDATA and character references.
+// DTDs are skipped and namespaces are left to the caller.
+
+export interface XmlElement {
+  name: string;
+  attributes: Array<{ name: string; value: string }>;
+  children: XmlNode[];
+  line: number;
+}
+
+export interface XmlTextNode {
+  text: string;
+  line: number;
+}
+
+export type XmlNode = XmlElement | XmlTextNode;
+
+export class XmlParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export function isXmlElement(node: XmlNode): node is XmlElement {
+  return 'name' in node;
+}
+
+export function parseXml(source: string): XmlElement {
+  let position = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new XmlParseError(message, line);
+  };
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[position + i] === '\n') line++;
+    }
+    position += count;
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end < 0) fail(`Missing "${terminator}"`);
+    advance(end + terminator.length - position);
+  };
+
+  const skipWhitespace = () => {
+    while (position < source.length && /\s/.test(source[position])) advance(1);
+  };
+
+  const decode = (text: string) => text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? fail(`Unknown entity ${match}`);
+  });
+
+  const readName = () => {
+    const match = /^[A-Za-z_:][\w:.-]*/.exec(source.slice(position, position + 256));
+    if (!match) fail('Expected a name');
+    advance(match![0].length);
+    return match![0];
+  };
+
+  // Skips the prolog, comments, processing instructions and DOCTYPE
+  const skipMisc = () => {
+    for (;;) {
+      skipWhitespace();
+      if (source.startsWith('<?', position)) skipPast('?>');
+      else if (source.startsWith('<!--', position)) skipPast('-->');
+      else if (source.startsWith('<!DOCTYPE', position)) skipPast('>');
+      else return;
+    }
+  };
+
+  const readElement = (): XmlElement => {
+    const element: XmlElement = { name: '', attributes: [], children: [], line };
+    advance(1);
+    element.name = readName();
+
+    for (;;) {
+      skipWhitespace();
+      if (source.startsWith('/>', position)) {
+        advance(2);
+        return element;
+      }
+      if (source[position] === '>') {
+        advance(1);
+        break;
+      }
+      const name = readName();
+      skipWhitespace();
+      if (source[position] !== '=') fail(`Attribute ${name} has no value`);
+      advance(1);
+      skipWhitespace();
+      const quote = source[position];
+      if (quote !== '"' && quote !== "'") fail(`Attribute ${name} is not quoted`);
+      const end = source.indexOf(quote, position + 1);
+      if (end < 0) fail(`Unterminated value for ${name}`);
+      const value = source.slice(position + 1, end);
+      advance(end + 1 - position);
+      if (element.attributes.some(attribute => attribute.name === name)) fail(`Duplicate attribute ${name}`);
+      element.attributes.push({ name, value: decode(value) });
+    }
+
+    for (;;) {
+      if (position >= source.length) fail(`Unclosed element <${element.name}>`);
+      if (source.startsWith('</', position)) {
+        advance(2);
+        const name = readName();
+        if (name !== element.name) fail(`Expected </${element.name}> but found </${name}>`);
+        skipWhitespace();
+        if (source[position] !== '>') fail(`Malformed end tag </${name}>`);
+        advance(1);
+        return element;
+      }
+      if (source.startsWith('<!--', position)) {
+        skipPast('-->');
+      } else if (source.startsWith('<![CDATA[', position)) {
+        const start = position + 9;
+        const textLine = line;
+        skipPast(']]>');
+        element.children.push({ text: source.slice(start, position - 3), line: textLine });
+      } else if (source.startsWith('<?', position)) {
+        skipPast('?>');
+      } else if (source[position] === '<') {
+        element.children.push(readElement());
+      } else {
+        const end = source.indexOf('<', position);
+        const textLine = line;
+        const text = source.slice(position, end < 0 ? source.length : end);
+        advance(text.length);
+        element.children.push({ text: decode(text), line: textLine });
+      }
+    }
+  };
+
+  skipMisc();
+  if (source[position] !== '<') fail('Document has no root element');
+  const root = readElement();
+  skipMisc();
+  if (position < source.length) fail('Content after the root element');
+  return root;
+}
@@ -0,0 +1,232 @@
+import zlib from 'zlib';
+
+// ZIP reading and writing for APK signing. Entries keep their compressed
+// bytes so re-writing an archive never recompresses it. ZIP64 and
+// multi-disk archives are not supported; APKs never need them.
+
+export const ZIP_STORED = 0;
+export const ZIP_DEFLATED = 8;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_SIZE = 22;
+const UTF8_FLAG = 0x0800;
+
+// zipalign's defaults: uncompressed data on 4 bytes, native libraries on page boundaries
+const DEFAULT_ALIGNMENT = 4;
+const NATIVE_LIBRARY_ALIGNMENT = 4096;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc32: number;
+  uncompressedSize: number;
+  // Stored or deflated bytes, as they appear in the archive
+  data: Buffer;
+  modifiedTime: number;
+  modifiedDate: number;
+  externalAttributes: number;
+}
+
+export interface ZipLayout {
+  entries: ZipEntry[];
+  // Offsets of each entry's data, in entry order
+  dataOffsets: number[];
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+  eocdOffset: number;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record sits at the end, followed by a comment of at most 64KB
+  const earliest = Math.max(0, archive.length - EOCD_SIZE - 0xffff);
+  for (let offset = archive.length - EOCD_SIZE; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === EOCD_SIGNATURE &&
+        offset + EOCD_SIZE + archive.readUInt16LE(offset + 20) === archive.length) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('End of central directory not found');
+}
+
+export function readZip(archive: Buffer): ZipLayout {
+  const eocdOffset = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(eocdOffset + 10);
+  const centralDirectorySize = archive.readUInt32LE(eocdOffset + 12);
+  const centralDirectoryOffset = archive.readUInt32LE(eocdOffset + 16);
+  if (entryCount === 0xffff || centralDirectoryOffset === 0xffffffff) {
+    throw new ZipFormatError('ZIP64 archives are not supported');
+  }
+  if (centralDirectoryOffset + centralDirectorySize > eocdOffset) {
+    throw new ZipFormatError('Central directory overlaps the end record');
+  }
+
+  const entries: ZipEntry[] = [];
+  const dataOffsets: number[] = [];
+  let offset = centralDirectoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > eocdOffset || archive.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Malformed central directory');
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    if (archive.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Missing local header for ${name}`);
+    }
+    // Local headers may carry a different extra field (e.g. alignment padding)
+    const dataOffset = localHeaderOffset + 30 +
+      archive.readUInt16LE(localHeaderOffset + 26) + archive.readUInt16LE(localHeaderOffset + 28);
+    if (dataOffset + compressedSize > centralDirectoryOffset) {
+      throw new ZipFormatError(`Entry ${name} overlaps the central directory`);
+    }
+
+    entries.push({
+      name,
+      method,
+      crc32: archive.readUInt32LE(offset + 16),
+      uncompressedSize: archive.readUInt32LE(offset + 24),
+      data: archive.subarray(dataOffset, dataOffset + compressedSize),
+      modifiedTime: archive.readUInt16LE(offset + 12),
+      modifiedDate: archive.readUInt16LE(offset + 14),
+      externalAttributes: archive.readUInt32LE(offset + 38)
+    });
+    dataOffsets.push(dataOffset);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { entries, dataOffsets, centralDirectoryOffset, centralDirectorySize, eocdOffset };
+}
+
+export function readEntryContent(entry: ZipEntry): Buffer {
+  let content: Buffer;
+  if (entry.method === ZIP_STORED) {
+    content = entry.data;
+  } else if (entry.method === ZIP_DEFLATED) {
+    // Inflating stops at the size the central directory declares, so callers
+    // can bound memory use by checking uncompressedSize before reading
+    try {
+      content = zlib.inflateRawSync(entry.data, { maxOutputLength: Math.max(entry.uncompressedSize, 1) });
+    } catch (error) {
+      if (error instanceof RangeError) throw new ZipFormatError(`Entry ${entry.name} is corrupt`);
+      throw error;
+    }
+  } else {
+    throw new ZipFormatError(`Entry ${entry.name} uses unsupported compression method ${entry.method}`);
+  }
+
+  if (content.length !== entry.uncompressedSize || crc32(content) !== entry.crc32) {
+    throw new ZipFormatError(`Entry ${entry.name} is corrupt`);
+  }
+  return content;
+}
+
+export function createEntry(name: string, content: Buffer, compress = true): ZipEntry {
+  const data = compress ? zlib.deflateRawSync(content, { level: 9 }) : content;
+  return {
+    name,
+    method: compress ? ZIP_DEFLATED : ZIP_STORED,
+    crc32: crc32(content),
+    uncompressedSize: content.length,
+    data,
+    // 1981-01-01 00:00, so the same input always produces the same archive
+    modifiedTime: 0,
+    modifiedDate: (1 << 5) | 1,
+    externalAttributes: 0
+  };
+}
+
+export function entryAlignment(entry: ZipEntry): number {
+  if (entry.method !== ZIP_STORED) return 1;
+  return entry.name.endsWith('.so') ? NATIVE_LIBRARY_ALIGNMENT : DEFAULT_ALIGNMENT;
+}
+
+/**
+ * Writes entries into a new archive. With `align`, the local header extra
+ * field is padded the way zipalign does it so uncompressed data can be
+ * memory-mapped directly from the APK.
+ */
+export function writeZip(entries: ZipEntry[], options: { align?: boolean } = {}): Buffer {
+  const parts: Buffer[] = [];
+  const centralHeaders: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const headerLength = 30 + name.length;
+    const alignment = options.align ? entryAlignment(entry) : 1;
+    const padding = (alignment - ((offset + headerLength) % alignment)) % alignment;
+
+    const local = Buffer.alloc(headerLength + padding);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(entry.method === ZIP_STORED ? 10 : 20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(entry.method, 8);
+    local.writeUInt16LE(entry.modifiedTime, 10);
+    local.writeUInt16LE(entry.modifiedDate, 12);
+    local.writeUInt32LE(entry.crc32, 14);
+    local.writeUInt32LE(entry.data.length, 18);
+    local.writeUInt32LE(entry.uncompressedSize, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(padding, 28);
+    name.copy(local, 30);
+
+    const central = Buffer.alloc(46 + name.length);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4);
+    local.copy(central, 6, 4, 26);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(entry.externalAttributes, 38);
+    central.writeUInt32LE(offset, 42);
+    name.copy(central, 46);
+
+    parts.push(local, entry.data);
+    centralHeaders.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralHeaders);
+  const eocd = Buffer.alloc(EOCD_SIZE);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, centralDirectory, eocd]);
+}
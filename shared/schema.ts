@@ -21,25 +21,184 @@ export const projects = pgTable("projects", {
   versionName: text("version_name").notNull().default("1.0"),
   minSdkVersion: integer("min_sdk_version").notNull().default(21),
   targetSdkVersion: integer("target_sdk_version").notNull().default(34),
+  proguardRules: text("proguard_rules"), // R8/ProGuard rules added to the generated ones
+  enabledPlugins: jsonb("enabled_plugins").$type<string[]>(), // build plugin ids, run in this order
+  cordovaPlugins: jsonb("cordova_plugins").$type<CordovaPluginSelection[]>(), // added to Cordova engine builds
+  capacitorSettings: jsonb("capacitor_settings").$type<CapacitorSettings>(), // plugins and their config for Capacitor engine builds
+  bridgeCapabilities: jsonb("bridge_capabilities").$type<BridgeCapability[]>(), // native bridge features; none means no bridge
+  fileUploads: boolean("file_uploads").notNull().default(true), // <input type="file"> opens the system file picker
+  cameraCapture: boolean("camera_capture").notNull().default(false), // file inputs can also take photos and videos
+  fileDownloads: boolean("file_downloads").notNull().default(false), // downloads are saved with DownloadManager
+  navigationPolicy: jsonb("navigation_policy").$type<NavigationPolicy>(), // which links stay in the app; null uses the defaults
   iconPath: text("icon_path"),
   logoPath: text("logo_path"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const builderEngineIds = ["gradle", "cordova", "capacitor", "template", "shell"] as const;
+export type BuilderEngineId = typeof builderEngineIds[number];
+
+export const buildTypes = ["apk", "aab"] as const;
+export type BuildTypeId = typeof buildTypes[number];
+
+export const buildStatuses = ["queued", "running", "success", "failed", "cancelled"] as const;
+export type BuildStatus = typeof buildStatuses[number];
+export const finishedBuildStatuses: BuildStatus[] = ["success", "failed", "cancelled"];
+
+// "apks" is a bundletool APK set derived from the AAB, "mapping" is R8's
+// mapping.txt, kept to deobfuscate stack traces
+export const artifactKinds = ["apk", "aab", "apks", "mapping"] as const;
+export type ArtifactKind = typeof artifactKinds[number];
+
+// Recorded when a build succeeds; downloads are checked against it
+export interface BuildArtifactInfo {
+  sha256: string;
+  size: number;
+  // SHA-256 fingerprint of the signing certificate, null for unsigned artifacts
+  signingCertificateSha256: string | null;
+}
+export type BuildArtifacts = Partial<Record<ArtifactKind, BuildArtifactInfo>>;
+
+// A file a build plugin attached to a successful build
+export interface PluginArtifactInfo {
+  plugin: string;
+  name: string;
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+// "missing" once the file is gone from disk, "corrupt" when it no longer matches its checksum
+export type ArtifactState = "available" | "missing" | "corrupt";
+
+// App details a build was queued with, so it can be rebuilt the same way
+export type BuildConfigSnapshot = Pick<Project,
+  "appName" | "packageName" | "versionCode" | "versionName" | "websiteUrl" | "minSdkVersion" | "targetSdkVersion" | "proguardRules" | "enabledPlugins" | "cordovaPlugins" | "capacitorSettings" | "bridgeCapabilities" | "fileUploads" | "cameraCapture" | "fileDownloads" | "navigationPolicy"> & {
+  fallbackPages?: FallbackPagesSnapshot;
+};
+
+// SHA-256 of the project's uploaded fallback pages when the build was
+// queued; kinds without an upload use the template set's page
+export type FallbackPagesSnapshot = { offline?: string; error?: string };
+
+// Options chosen when a build is queued. Engines without R8 ignore the code
+// shrinking switches; splitApks applies to AAB builds only
+export const buildOptionsSchema = z.object({
+  enableOptimization: z.boolean().default(false),
+  enableObfuscation: z.boolean().default(false),
+  splitApks: z.boolean().default(false),
+});
+export type BuildOptions = z.infer<typeof buildOptionsSchema>;
+
+// A Cordova plugin from the server's catalog; versions are exact so the
+// plugin cache can serve them offline
+export const cordovaPluginSelectionSchema = z.object({
+  id: z.string().min(1),
+  version: z.string().regex(/^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/, "Use an exact version such as 7.0.0").optional(),
+  variables: z.record(z.string().regex(/^[^\r\n]*$/, "Variable values must be a single line")).optional(),
+});
+export type CordovaPluginSelection = z.infer<typeof cordovaPluginSelectionSchema>;
+
+// Capacitor plugins are npm packages added to the generated project;
+// pluginConfig becomes the "plugins" section of capacitor.config.json, keyed
+// by plugin name (e.g. "SplashScreen")
+export const capacitorSettingsSchema = z.object({
+  plugins: z.array(z.object({
+    package: z.string().regex(/^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/, "Use an npm package name"),
+    version: z.string().regex(/^[~^]?\d+(\.\d+){0,2}(-[0-9A-Za-z.-]+)?$/, "Use a version such as 6.0.0 or ^6.0.0"),
+  })).default([]),
+  pluginConfig: z.record(z.record(z.unknown())).default({}),
+});
+export type CapacitorSettings = z.infer<typeof capacitorSettingsSchema>;
+
+// Native features the generated activity can expose to the web app through
+// the WebAndro bridge (window.WebAndro, from webandro.js)
+export const bridgeCapabilities = ["share", "toast", "vibrate", "clipboard", "deviceInfo", "appVersion", "openExternal"] as const;
+export type BridgeCapability = typeof bridgeCapabilities[number];
+
+// Where links go in the generated activity. The website's own site always
+// stays in the app: its host without "www." and every subdomain of that, so
+// https://www.example.com keeps example.com and app.example.com in the app.
+// inAppHosts adds more ("*.example.com" covers subdomains).
+// Links to other hosts open in Custom Tabs or the system browser, and other
+// schemes (tel:, mailto:, intent:, ...) go to the app that handles them.
+export const externalLinkTargets = ["browser", "customTabs"] as const;
+export type ExternalLinkTarget = typeof externalLinkTargets[number];
+
+export const navigationPolicySchema = z.object({
+  inAppHosts: z.array(z.string().regex(/^(\*\.)?([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]*[a-z0-9])?$/, "Use a lowercase host such as example.com or *.example.com")).default([]),
+  externalLinks: z.enum(externalLinkTargets).default("browser"),
+});
+export type NavigationPolicy = z.infer<typeof navigationPolicySchema>;
+
+export const keystoreTypes = ["jks", "pkcs12"] as const;
+export type KeystoreType = typeof keystoreTypes[number];
+
+export const keystoreSources = ["generated", "uploaded"] as const;
+export type KeystoreSource = typeof keystoreSources[number];
+
+export interface KeystoreCertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  keyAlgorithm: string;
+  keySize: number | null;
+  sha1Fingerprint: string;
+  sha256Fingerprint: string;
+}
+
+export interface KeystoreEntryInfo {
+  alias: string;
+  type: "privateKey" | "trustedCertificate";
+  createdAt: string | null;
+  // Leaf certificate of the entry
+  certificate: KeystoreCertificateInfo | null;
+  chainLength: number;
+}
+
+// Long-lived signing keystores; a project's current keystore is the one whose
+// path is stored in its signing config
+export const keystores = pgTable("keystores", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id).notNull(),
+  path: text("path").notNull(),
+  storeType: text("store_type").notNull(), // 'jks' or 'pkcs12'
+  keyAlias: text("key_alias").notNull(),
+  source: text("source").notNull(), // 'generated' or 'uploaded'
+  originalFileName: text("original_file_name"),
+  // Read when the keystore is created or uploaded, while its password is at hand
+  entries: jsonb("entries").$type<KeystoreEntryInfo[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const builds = pgTable("builds", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").references(() => projects.id).notNull(),
-  status: text("status").notNull(), // 'pending', 'building', 'success', 'failed'
+  status: text("status").notNull(), // 'queued', 'running', 'success', 'failed', 'cancelled'
   buildType: text("build_type").notNull(), // 'apk' or 'aab'
+  builderEngine: text("builder_engine").notNull().default("gradle"), // One of builderEngineIds
   outputPath: text("output_path"),
   aabPath: text("aab_path"),
+  apksPath: text("apks_path"),
+  mappingPath: text("mapping_path"),
   keystorePath: text("keystore_path"),
+  keystoreId: integer("keystore_id").references(() => keystores.id), // project keystore that signed the build
+  artifacts: jsonb("artifacts").$type<BuildArtifacts>(),
+  pluginArtifacts: jsonb("plugin_artifacts").$type<PluginArtifactInfo[]>(),
+  config: jsonb("config").$type<BuildConfigSnapshot>(),
+  options: jsonb("options").$type<BuildOptions>(),
+  rebuildOf: integer("rebuild_of"), // build whose configuration this one repeats
   errorMessage: text("error_message"),
   progress: integer("progress").default(0),
   buildStep: text("build_step"),
   buildMessage: text("build_message"),
-  startedAt: timestamp("started_at").defaultNow(),
+  priority: integer("priority").notNull().default(0),
+  attempts: integer("attempts").notNull().default(0),
+  queuedAt: timestamp("queued_at").defaultNow(),
+  startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
 });
 
@@ -77,18 +236,43 @@ export const buildStats = pgTable("build_stats", {
   lastBuildAt: timestamp("last_build_at"),
 });
 
-export const insertProjectSchema = createInsertSchema(projects).omit({
+export const insertProjectSchema = createInsertSchema(projects, {
+  proguardRules: z.string().max(64 * 1024).nullable().optional(),
+  enabledPlugins: z.array(z.string().min(1)).nullable().optional(),
+  cordovaPlugins: z.array(cordovaPluginSelectionSchema).nullable().optional(),
+  capacitorSettings: capacitorSettingsSchema.nullable().optional(),
+  bridgeCapabilities: z.array(z.enum(bridgeCapabilities)).nullable().optional(),
+  navigationPolicy: navigationPolicySchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertBuildSchema = createInsertSchema(builds).omit({
+export const insertBuildSchema = createInsertSchema(builds, {
+  buildType: z.enum(buildTypes),
+  builderEngine: z.enum(builderEngineIds).optional(),
+  status: z.enum(buildStatuses),
+  artifacts: z.custom<BuildArtifacts>().nullable().optional(),
+  pluginArtifacts: z.array(z.custom<PluginArtifactInfo>()).nullable().optional(),
+  config: z.custom<BuildConfigSnapshot>().nullable().optional(),
+  options: buildOptionsSchema.nullable().optional(),
+}).omit({
   id: true,
+  queuedAt: true,
   startedAt: true,
   completedAt: true,
 });
 
+export const insertKeystoreSchema = createInsertSchema(keystores, {
+  storeType: z.enum(keystoreTypes),
+  source: z.enum(keystoreSources),
+  entries: z.array(z.custom<KeystoreEntryInfo>()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertProjectFileSchema = createInsertSchema(projectFiles).omit({
   id: true,
   uploadedAt: true,
@@ -99,14 +283,26 @@ export const insertSigningConfigSchema = createInsertSchema(signingConfigs).omit
   createdAt: true,
 });
 
+// Signing details accepted from clients; the keystore link is managed by the server
+export const signingConfigInputSchema = insertSigningConfigSchema.omit({
+  keystorePath: true,
+});
+
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertBuild = z.infer<typeof insertBuildSchema>;
 export type Build = typeof builds.$inferSelect;
+export type InsertKeystore = z.infer<typeof insertKeystoreSchema>;
+export type Keystore = typeof keystores.$inferSelect;
 export type InsertProjectFile = z.infer<typeof insertProjectFileSchema>;
 export type ProjectFile = typeof projectFiles.$inferSelect;
 export type InsertSigningConfig = z.infer<typeof insertSigningConfigSchema>;
 export type SigningConfig = typeof signingConfigs.$inferSelect;
+// Signing config as returned by the API: passwords are never sent, only whether they are set
+export type PublicSigningConfig = Omit<SigningConfig, "keystorePassword" | "keyPassword"> & {
+  hasKeystorePassword: boolean;
+  hasKeyPassword: boolean;
+};
 export type BuildStats = typeof buildStats.$inferSelect;
 
 export const insertUserSchema = createInsertSchema(users).pick({